@@ -15,16 +15,24 @@ import { VirtualJoystick, SwipeControls } from './controls';
 import { RetroModeToggle } from '@/components/theme';
 import { RetroStatusBar } from '@/components/retro';
 import { useThemeStore } from '@/store/useThemeStore';
+import { useTrussStore } from '@/store/useTrussStore';
+import { SPACE_TRUSS_LABELS, SPACE_TRUSS_PRESETS } from '@/utils/structural/spaceTrussCalculator';
 import type { SceneType, BucklingMode } from './types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
+// Swipe order of the scene tabs
+const SCENES: SceneType[] = ['buckling', 'truss', 'space-truss'];
+
 interface Game3DScreenProps {
   onBack?: () => void;
 }
 
 export const Game3DScreen: React.FC<Game3DScreenProps> = ({ onBack }) => {
-  const [currentScene, setCurrentScene] = useState<SceneType>('buckling');
+  const sceneTruss = useTrussStore(state => state.sceneTruss);
+  // A truss sent from the analysis screen opens straight in the truss scene
+  const [currentScene, setCurrentScene] = useState<SceneType>(sceneTruss ? 'truss' : 'buckling');
+  const [spacePreset, setSpacePreset] = useState('transmission-tower');
   const [joystickEnabled, setJoystickEnabled] = useState(true);
   const insets = useSafeAreaInsets();
   const { mode } = useThemeStore();
@@ -40,12 +48,13 @@ export const Game3DScreen: React.FC<Game3DScreenProps> = ({ onBack }) => {
   };
 
   const handleSwipe = (direction: 'left' | 'right' | 'up' | 'down') => {
+    const index = SCENES.indexOf(currentScene);
     switch (direction) {
       case 'left':
-        if (currentScene === 'truss') setCurrentScene('buckling');
+        if (index > 0) setCurrentScene(SCENES[index - 1]);
         break;
       case 'right':
-        if (currentScene === 'buckling') setCurrentScene('truss');
+        if (index < SCENES.length - 1) setCurrentScene(SCENES[index + 1]);
         break;
       case 'up':
       case 'down':
@@ -112,8 +121,41 @@ export const Game3DScreen: React.FC<Game3DScreenProps> = ({ onBack }) => {
               KAFES
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.sceneTab,
+              currentScene === 'space-truss' && styles.sceneTabActive,
+            ]}
+            onPress={() => handleSceneChange('space-truss')}
+          >
+            <Text
+              style={[
+                styles.sceneTabText,
+                currentScene === 'space-truss' && styles.sceneTabTextActive,
+              ]}
+            >
+              UZAY KAFES
+            </Text>
+          </TouchableOpacity>
         </View>
 
+        {/* Space truss presets */}
+        {currentScene === 'space-truss' && (
+          <View style={styles.presetSelector}>
+            {Object.keys(SPACE_TRUSS_PRESETS).map(key => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.presetChip, spacePreset === key && styles.presetChipActive]}
+                onPress={() => setSpacePreset(key)}
+              >
+                <Text style={[styles.sceneTabText, spacePreset === key && styles.sceneTabTextActive]}>
+                  {SPACE_TRUSS_LABELS[key]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Content Area */}
         <SwipeControls
           enabled={true}
@@ -132,8 +174,16 @@ export const Game3DScreen: React.FC<Game3DScreenProps> = ({ onBack }) => {
                 onToggleAnimation={() => console.log('Toggle animation')}
                 initialMode={1}
               />
+            ) : currentScene === 'space-truss' ? (
+              <TrussVisualizationScene
+                spaceConfig={SPACE_TRUSS_PRESETS[spacePreset]}
+                name={SPACE_TRUSS_LABELS[spacePreset]}
+              />
             ) : (
               <TrussVisualizationScene
+                config={sceneTruss?.config}
+                name={sceneTruss?.name}
+                design={sceneTruss?.design}
                 onLoadChange={(load) => console.log('Load changed:', load)}
               />
             )}
@@ -154,7 +204,9 @@ export const Game3DScreen: React.FC<Game3DScreenProps> = ({ onBack }) => {
           <Text style={styles.footerText}>
             {currentScene === 'buckling'
               ? 'KİRİŞ BURKULMA MODLARI (1, 2, 3)'
-              : 'WARREN KAFES SİSTEMİ ANALİZİ'}
+              : currentScene === 'space-truss'
+              ? `${SPACE_TRUSS_LABELS[spacePreset].toLocaleUpperCase('tr-TR')} ANALİZİ`
+              : `${sceneTruss?.name.toLocaleUpperCase('tr-TR') ?? 'WARREN KAFES'} SİSTEMİ ANALİZİ`}
           </Text>
           <TouchableOpacity
             style={styles.joystickToggle}
@@ -237,6 +289,23 @@ const styles = StyleSheet.create({
     color: Colors.amber.secondary,
     fontWeight: 'bold',
   },
+  presetSelector: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    backgroundColor: 'rgba(44, 44, 46, 0.6)',
+  },
+  presetChip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 191, 0, 0.2)',
+  },
+  presetChipActive: {
+    borderColor: Colors.amber.secondary,
+    backgroundColor: 'rgba(255, 191, 0, 0.05)',
+  },
   content: {
     flex: 1,
   },
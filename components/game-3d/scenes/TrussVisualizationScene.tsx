@@ -1,7 +1,28 @@
-import React, { useState, useMemo } from 'react';
-import { Platform, View, StyleSheet, TouchableOpacity, Text } from 'react-native';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Platform, View, StyleSheet, TouchableOpacity, Text, Dimensions } from 'react-native';
 import { Colors, Typography, Spacing } from '@/utils/theme';
-import type { TrussNode3D, TrussMember3D } from '../types';
+import type { TrussNode3D, TrussMember3D, Vector3D } from '../types';
+import {
+  analyzeTruss,
+  checkTrussDeflection,
+  getDeformationScale,
+  getTrussPreset,
+  TRUSS_LABELS,
+  type MemberForce,
+  type TrussConfig,
+  type TrussDeflectionCheck,
+} from '@/utils/structural/trussCalculator';
+import {
+  analyzeSpaceTruss,
+  getSpaceDeformationScale,
+  type SpaceTrussConfig,
+} from '@/utils/structural/spaceTrussCalculator';
+import {
+  designTruss,
+  type MemberDesignCheck,
+  type TrussDesignSelection,
+} from '@/utils/structural/trussDesign';
+import { utilizationColor } from '@/components/structural/TrussDesignPanel';
 
 // ============================================================================
 // WEB-SPECIFIC IMPORTS (lazy loaded to prevent RN bundler issues)
@@ -26,45 +47,188 @@ const gridHelperWeb = Platform.OS === 'web'
   ? require('@react-three/drei').gridHelper
   : null;
 
+// Shown when no truss has been sent from the analysis screen
+const DEMO_PRESET = 'warren-8m';
+
+const NATIVE_VIEW_HEIGHT = 250;
+const NATIVE_PADDING = 40;
+const NATIVE_ARROW_OFFSET = 28; // px from the node to the arrow glyph
+const WEB_ARROW_LENGTH = 0.08; // × scene size
+
+// Oblique projection of z for the native 2D view
+const OBLIQUE_X = -0.4;
+const OBLIQUE_Y = -0.25;
+
 // ============================================================================
-// TRUSS GEOMETRY GENERATOR
+// TRUSS GEOMETRY
 // ============================================================================
 
-const createWarrenTruss = (): {
+interface SceneArrow {
+  nodeId: string;
+  fx: number; // kN
+  fy: number; // kN
+  fz: number; // kN
+  kind: 'load' | 'reaction';
+}
+
+interface SceneData {
   nodes: TrussNode3D[];
   members: TrussMember3D[];
-} => {
-  const nodes: TrussNode3D[] = [];
-  const members: TrussMember3D[] = [];
-  const spans = 4;
-  const spanWidth = 1.5;
-  const height = 1.5;
-
-  for (let i = 0; i <= spans; i++) {
-    nodes.push({
-      id: `B${i}`,
-      position: { x: i * spanWidth - (spans * spanWidth) / 2, y: 0, z: 0 },
-      fixed: i === 0 || i === spans,
-    });
-    if (i < spans) {
-      nodes.push({
-        id: `T${i}`,
-        position: { x: (i * spanWidth + spanWidth / 2) - (spans * spanWidth) / 2, y: height, z: 0 },
-        fixed: false,
-      });
-    }
-  }
+  arrows: SceneArrow[];
+  maxForce: number;
+  deformedNodes: TrussNode3D[];
+  deflection: TrussDeflectionCheck | null; // Plane trusses only
+  design: SceneDesign | null; // Plane trusses sent with a design profile only
+}
 
-  for (let i = 0; i < spans; i++) {
-    members.push({ id: `BM${i}`, nodeA: `B${i}`, nodeB: `B${i + 1}`, tension: Math.random() * 50 });
-    if (i < spans - 1) {
-      members.push({ id: `TM${i}`, nodeA: `T${i}`, nodeB: `T${i + 1}`, compression: Math.random() * 50 + 50 });
-    }
-    members.push({ id: `D${i}a`, nodeA: `B${i}`, nodeB: `T${i}`, tension: Math.random() * 30 + 20 });
-    members.push({ id: `D${i}b`, nodeA: `B${i + 1}`, nodeB: `T${i}`, compression: Math.random() * 30 + 40 });
-  }
+interface SceneDesign {
+  profileName: string;
+  steelGrade: string;
+  checks: MemberDesignCheck[];
+}
+
+type MemberColorMode = 'force' | 'utilization';
+
+interface SceneSolution {
+  memberForces: MemberForce[];
+  error?: string;
+  data?: SceneData;
+}
+
+interface SceneNodeInput {
+  id: string;
+  x: number;
+  y: number;
+  z: number;
+  fixed: boolean;
+}
+
+// Scene nodes centred on x = z = 0 and standing on y = 0
+const toSceneNodes = (nodes: SceneNodeInput[]): TrussNode3D[] => {
+  const centre = (values: number[]) => (Math.min(...values) + Math.max(...values)) / 2;
+  const centreX = centre(nodes.map(n => n.x));
+  const centreZ = centre(nodes.map(n => n.z));
+  const baseY = Math.min(...nodes.map(n => n.y));
+  return nodes.map(n => ({
+    id: n.id,
+    position: { x: n.x - centreX, y: n.y - baseY, z: n.z - centreZ },
+    fixed: n.fixed,
+  }));
+};
+
+const toSceneMembers = (
+  members: { id: string; nodeStartId: string; nodeEndId: string }[],
+  memberForces: MemberForce[]
+): TrussMember3D[] =>
+  members.map(m => {
+    const force = memberForces.find(f => f.memberId === m.id)?.force ?? 0;
+    return {
+      id: m.id,
+      nodeA: m.nodeStartId,
+      nodeB: m.nodeEndId,
+      ...(force > 1e-9 && { tension: force }),
+      ...(force < -1e-9 && { compression: -force }),
+    };
+  });
+
+// Node positions moved by the magnified displacements (mm → m)
+const getDeformedNodes = (
+  nodes: TrussNode3D[],
+  displacements: { nodeId: string; dx: number; dy: number; dz?: number }[],
+  magnification: number
+): TrussNode3D[] =>
+  nodes.map(node => {
+    const d = displacements.find(disp => disp.nodeId === node.id);
+    if (!d) return node;
+    return {
+      ...node,
+      position: {
+        x: node.position.x + (d.dx / 1000) * magnification,
+        y: node.position.y + (d.dy / 1000) * magnification,
+        z: node.position.z + ((d.dz ?? 0) / 1000) * magnification,
+      },
+    };
+  });
+
+const maxAbsForce = (memberForces: MemberForce[]) => Math.max(0, ...memberForces.map(f => Math.abs(f.force)));
+
+// Applied loads and support reactions, both drawn pointing at their node
+const nonZeroArrows = (arrows: SceneArrow[]) => arrows.filter(a => Math.hypot(a.fx, a.fy, a.fz) > 1e-9);
+
+const solvePlaneTruss = (
+  config: TrussConfig,
+  loadFactor: number,
+  design?: TrussDesignSelection
+): SceneSolution => {
+  const loaded: TrussConfig = {
+    ...config,
+    loads: config.loads.map(l => ({ ...l, fx: l.fx * loadFactor, fy: l.fy * loadFactor })),
+  };
+  // With a design profile the members get its A and E, as in the design panel
+  const checked = design ? designTruss({ config: loaded, ...design }) : null;
+  const results = checked?.isValid ? checked.analysis! : analyzeTruss(loaded);
+  if (!results.isValid) return { memberForces: [], error: results.errorMessage };
+
+  const nodes = toSceneNodes(loaded.nodes.map(n => ({ id: n.id, x: n.x, y: n.y, z: 0, fixed: !!n.support })));
+  return {
+    memberForces: results.memberForces,
+    data: {
+      nodes,
+      members: toSceneMembers(loaded.members, results.memberForces),
+      arrows: nonZeroArrows([
+        ...loaded.loads.map(l => ({ nodeId: l.nodeId, fx: l.fx, fy: l.fy, fz: 0, kind: 'load' as const })),
+        ...results.reactions.map(r => ({ nodeId: r.nodeId, fx: r.rx, fy: r.ry, fz: 0, kind: 'reaction' as const })),
+      ]),
+      maxForce: maxAbsForce(results.memberForces),
+      deformedNodes: getDeformedNodes(nodes, results.displacements, getDeformationScale(loaded, results)),
+      deflection: checkTrussDeflection(loaded, results),
+      design: checked?.isValid
+        ? { profileName: checked.profile!.name, steelGrade: checked.material!.grade, checks: checked.members }
+        : null,
+    },
+  };
+};
+
+const solveSpaceTruss = (config: SpaceTrussConfig, loadFactor: number): SceneSolution => {
+  const loaded: SpaceTrussConfig = {
+    ...config,
+    loads: config.loads.map(l => ({ ...l, fx: l.fx * loadFactor, fy: l.fy * loadFactor, fz: l.fz * loadFactor })),
+  };
+  const results = analyzeSpaceTruss(loaded);
+  if (!results.isValid) return { memberForces: [], error: results.errorMessage };
+
+  const nodes = toSceneNodes(loaded.nodes.map(n => ({ id: n.id, x: n.x, y: n.y, z: n.z, fixed: !!n.support })));
+  return {
+    memberForces: results.memberForces,
+    data: {
+      nodes,
+      members: toSceneMembers(loaded.members, results.memberForces),
+      arrows: nonZeroArrows([
+        ...loaded.loads.map(l => ({ ...l, kind: 'load' as const })),
+        ...results.reactions.map(r => ({ nodeId: r.nodeId, fx: r.rx, fy: r.ry, fz: r.rz, kind: 'reaction' as const })),
+      ]),
+      maxForce: maxAbsForce(results.memberForces),
+      deformedNodes: getDeformedNodes(nodes, results.displacements, getSpaceDeformationScale(loaded, results)),
+      deflection: null,
+      design: null,
+    },
+  };
+};
+
+const memberForce = (member: TrussMember3D) => member.tension ?? -(member.compression ?? 0);
 
-  return { nodes, members };
+const forceLabel = (force: number) =>
+  `${force >= 0 ? '+' : ''}${force.toFixed(2)} kN ${force >= 0 ? '(ÇEKME)' : '(BASMA)'}`;
+
+// Largest extent of the scene (m), used to size the camera and arrows
+const sceneSize = (nodes: TrussNode3D[]) => {
+  const extent = (values: number[]) => Math.max(...values) - Math.min(...values);
+  return Math.max(
+    extent(nodes.map(n => n.position.x)),
+    extent(nodes.map(n => n.position.y)),
+    extent(nodes.map(n => n.position.z)),
+    1
+  );
 };
 
 // ============================================================================
@@ -75,8 +239,12 @@ const TrussMember3DWeb: React.FC<{
   member: TrussMember3D;
   nodes: TrussNode3D[];
   showForces: boolean;
-  loadFactor: number;
-}> = ({ member, nodes, showForces, loadFactor }) => {
+  maxForce: number;
+  isSelected?: boolean;
+  onSelect?: (memberId: string) => void;
+  overrideColor?: string;
+  radius?: number;
+}> = ({ member, nodes, showForces, maxForce, isSelected, onSelect, overrideColor, radius = 0.04 }) => {
   const nodeA = nodes.find(n => n.id === member.nodeA);
   const nodeB = nodes.find(n => n.id === member.nodeB);
 
@@ -91,20 +259,41 @@ const TrussMember3DWeb: React.FC<{
   const direction = new THREE.Vector3().subVectors(posB, posA).normalize();
   const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction);
 
-  const force = (member.tension || member.compression || 0) * loadFactor;
-  const isTension = !!member.tension;
+  const force = memberForce(member);
+  const intensity = maxForce > 0 ? Math.abs(force) / maxForce : 0;
 
-  const color = showForces
-    ? isTension
-      ? new THREE.Color(Colors.status.info).lerp(new THREE.Color(Colors.white), 0.5 - (force / 200))
-      : new THREE.Color(Colors.status.error).lerp(new THREE.Color(Colors.white), 0.5 - (force / 200))
+  // Pale for lightly loaded members, full colour for the most loaded one
+  const color = isSelected
+    ? new THREE.Color(Colors.amber.primary)
+    : overrideColor
+    ? new THREE.Color(overrideColor)
+    : showForces && force !== 0
+    ? new THREE.Color(Colors.white).lerp(
+        new THREE.Color(force > 0 ? Colors.status.info : Colors.status.error),
+        0.3 + 0.7 * intensity
+      )
     : new THREE.Color(Colors.gray[400]);
 
   return (
     //@ts-ignore
-    <mesh position={position} quaternion={quaternion}>
-      <cylinderGeometry args={[0.04, 0.04, distance, 8]} />
-      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={showForces ? 0.3 : 0} />
+    <mesh
+      position={position}
+      quaternion={quaternion}
+      onClick={(event: { stopPropagation: () => void }) => {
+        if (!onSelect) return;
+        event.stopPropagation();
+        onSelect(member.id);
+      }}
+    >
+      <cylinderGeometry args={[radius, radius, distance, 8]} />
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={showForces || isSelected ? 0.3 : 0} />
+      {isSelected && (
+        <HtmlWeb distanceFactor={10} center>
+          <View style={styles.forceLabelContainer}>
+            <Text style={styles.forceLabelText}>{member.id}: {forceLabel(force)}</Text>
+          </View>
+        </HtmlWeb>
+      )}
     </mesh>
   );
 };
@@ -126,122 +315,244 @@ const TrussNode3DWeb: React.FC<{ node: TrussNode3D }> = ({ node }) => (
   </mesh>
 );
 
-const Web3DScene: React.FC<{
-  nodes: TrussNode3D[];
-  members: TrussMember3D[];
-  appliedLoad: number;
-  showForces: boolean;
-}> = ({ nodes, members, appliedLoad, showForces }) => (
-  //@ts-ignore
-  <CanvasWeb camera={{ position: [0, 2, 8], fov: 40 }}>
-    <color attach="background" args={[Colors.black]} />
-    <ambientLight intensity={0.4} />
-    <pointLight position={[10, 10, 10]} intensity={1} />
-    <spotLight position={[0, 10, 0]} angle={0.3} penumbra={1} intensity={1} castShadow />
-    <OrbitControlsWeb enableDamping />
-    {gridHelperWeb && <gridHelperWeb args={[20, 20, Colors.gray[150], Colors.gray[200]]} position={[0, -0.1, 0]} />}
-    <group>
-      {members.map(m => (
+// Shaft and two barbs ending at the node, drawn with member cylinders
+const TrussArrowWeb: React.FC<{ arrow: SceneArrow; node: TrussNode3D; length: number }> = ({
+  arrow,
+  node,
+  length,
+}) => {
+  const magnitude = Math.hypot(arrow.fx, arrow.fy, arrow.fz);
+  const u = { x: arrow.fx / magnitude, y: arrow.fy / magnitude, z: arrow.fz / magnitude };
+  // Barbs open in the plane of the arrow and the vertical (or x for vertical arrows)
+  const ref = Math.abs(u.y) > 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+  const perp = { x: u.y * ref.z - u.z * ref.y, y: u.z * ref.x - u.x * ref.z, z: u.x * ref.y - u.y * ref.x };
+  const perpLength = Math.hypot(perp.x, perp.y, perp.z);
+
+  const tip = node.position;
+  const at = (back: number, side: number): Vector3D => ({
+    x: tip.x - u.x * back + (perp.x / perpLength) * side,
+    y: tip.y - u.y * back + (perp.y / perpLength) * side,
+    z: tip.z - u.z * back + (perp.z / perpLength) * side,
+  });
+  const points: TrussNode3D[] = [
+    { id: 'tip', position: tip, fixed: false },
+    { id: 'tail', position: at(length, 0), fixed: false },
+    { id: 'barbA', position: at(length * 0.25, length * 0.12), fixed: false },
+    { id: 'barbB', position: at(length * 0.25, -length * 0.12), fixed: false },
+  ];
+  const color = arrow.kind === 'load' ? Colors.engineering.load : Colors.engineering.reaction;
+  const tail = points[1].position;
+
+  return (
+    <>
+      {(['tail', 'barbA', 'barbB'] as const).map(from => (
         <TrussMember3DWeb
-          key={m.id}
-          member={m}
-          nodes={nodes}
-          showForces={showForces}
-          loadFactor={appliedLoad / 100}
+          key={from}
+          member={{ id: `${arrow.kind}-${arrow.nodeId}-${from}`, nodeA: from, nodeB: 'tip' }}
+          nodes={points}
+          showForces={false}
+          maxForce={0}
+          overrideColor={color}
+          radius={0.025}
         />
       ))}
-      {nodes.map(n => (
-        <TrussNode3DWeb key={n.id} node={n} />
-      ))}
-    </group>
-    <fog attach="fog" args={[Colors.black, 10, 25]} />
-  </CanvasWeb>
-);
+      <HtmlWeb distanceFactor={10} center position={[tail.x, tail.y, tail.z]}>
+        <Text style={[styles.arrowLabel, { color }]}>{magnitude.toFixed(1)} kN</Text>
+      </HtmlWeb>
+    </>
+  );
+};
+
+interface SceneViewProps {
+  nodes: TrussNode3D[];
+  members: TrussMember3D[];
+  arrows: SceneArrow[];
+  showForces: boolean;
+  maxForce: number;
+  selectedMemberId: string | null;
+  onSelectMember: (memberId: string) => void;
+  deformedNodes?: TrussNode3D[];
+  memberColors?: Record<string, string>; // Utilization colours, replacing the force colours
+}
+
+const Web3DScene: React.FC<SceneViewProps> = ({
+  nodes,
+  members,
+  arrows,
+  showForces,
+  maxForce,
+  selectedMemberId,
+  onSelectMember,
+  deformedNodes,
+  memberColors,
+}) => {
+  const size = sceneSize(nodes);
+  const centreY = Math.max(...nodes.map(n => n.position.y)) / 2;
+
+  return (
+    //@ts-ignore
+    <CanvasWeb camera={{ position: [size * 0.5, centreY + size * 0.3, size * 1.5], fov: 40 }}>
+      <color attach="background" args={[Colors.black]} />
+      <ambientLight intensity={0.4} />
+      <pointLight position={[10, 10, 10]} intensity={1} />
+      <spotLight position={[0, 10, 0]} angle={0.3} penumbra={1} intensity={1} castShadow />
+      <OrbitControlsWeb enableDamping target={[0, centreY, 0]} />
+      {gridHelperWeb && <gridHelperWeb args={[20, 20, Colors.gray[150], Colors.gray[200]]} position={[0, -0.1, 0]} />}
+      <group>
+        {members.map(m => (
+          <TrussMember3DWeb
+            key={m.id}
+            member={m}
+            nodes={nodes}
+            showForces={showForces}
+            maxForce={maxForce}
+            isSelected={m.id === selectedMemberId}
+            onSelect={onSelectMember}
+            overrideColor={memberColors?.[m.id]}
+          />
+        ))}
+        {nodes.map(n => (
+          <TrussNode3DWeb key={n.id} node={n} />
+        ))}
+        {showForces && arrows.map(arrow => {
+          const node = nodes.find(n => n.id === arrow.nodeId);
+          return node ? (
+            <TrussArrowWeb
+              key={`${arrow.kind}-${arrow.nodeId}`}
+              arrow={arrow}
+              node={node}
+              length={size * WEB_ARROW_LENGTH}
+            />
+          ) : null;
+        })}
+        {deformedNodes && members.map(m => (
+          <TrussMember3DWeb
+            key={`deformed-${m.id}`}
+            member={m}
+            nodes={deformedNodes}
+            showForces={false}
+            maxForce={maxForce}
+            overrideColor={Colors.amber.primary}
+            radius={0.015}
+          />
+        ))}
+      </group>
+      <fog attach="fog" args={[Colors.black, size * 1.5, size * 4]} />
+    </CanvasWeb>
+  );
+};
 
 // ============================================================================
 // NATIVE 2D VISUALIZATION
 // ============================================================================
 
-const TrussVisualizationNative: React.FC<{
-  nodes: TrussNode3D[];
-  members: TrussMember3D[];
-  appliedLoad: number;
-  showForces: boolean;
-}> = ({ nodes, members, appliedLoad, showForces }) => {
-  const scale = 50;
-  const offsetX = 30;
-  const offsetY = 200;
-
-  // Calculate bounds
-  const xValues = nodes.map(n => n.position.x * scale + offsetX);
-  const yValues = nodes.map(n => offsetY - n.position.y * scale);
-  const minX = Math.min(...xValues) - 20;
-  const maxX = Math.max(...xValues) + 20;
-  const minY = Math.min(...yValues) - 40;
-  const maxY = Math.max(...yValues) + 20;
+const TrussVisualizationNative: React.FC<SceneViewProps & { name: string }> = ({
+  name,
+  nodes,
+  members,
+  arrows,
+  showForces,
+  maxForce,
+  selectedMemberId,
+  onSelectMember,
+  deformedNodes,
+  memberColors,
+}) => {
+  const viewWidth = Dimensions.get('window').width;
+
+  // Fit the projected truss into the view, y up
+  const project = (p: Vector3D) => ({ x: p.x + OBLIQUE_X * p.z, y: p.y + OBLIQUE_Y * p.z });
+  const projected = nodes.map(n => project(n.position));
+  const xValues = projected.map(p => p.x);
+  const yValues = projected.map(p => p.y);
+  const minX = Math.min(...xValues);
+  const minY = Math.min(...yValues);
+  const scale = Math.min(
+    (viewWidth - 2 * NATIVE_PADDING) / Math.max(Math.max(...xValues) - minX, 1e-6),
+    (NATIVE_VIEW_HEIGHT - 2 * NATIVE_PADDING) / Math.max(Math.max(...yValues) - minY, 1e-6)
+  );
+  const toScreen = (p: Vector3D) => {
+    const { x, y } = project(p);
+    return { x: NATIVE_PADDING + (x - minX) * scale, y: NATIVE_VIEW_HEIGHT - NATIVE_PADDING - (y - minY) * scale };
+  };
+
+  // Rotation is about the centre, so each line is placed by its midpoint
+  const lineLayout = (a: TrussNode3D, b: TrussNode3D, thickness: number) => {
+    const p1 = toScreen(a.position);
+    const p2 = toScreen(b.position);
+    const length = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    return {
+      left: (p1.x + p2.x) / 2 - length / 2,
+      top: (p1.y + p2.y) / 2 - thickness / 2,
+      width: length,
+      height: thickness,
+      transform: [{ rotate: `${(Math.atan2(p2.y - p1.y, p2.x - p1.x) * 180) / Math.PI}deg` }],
+    };
+  };
 
   return (
     <View style={styles.nativeCanvas}>
       <Text style={styles.nativeTitle}>◀ KAFES_SİSTEMİ_ANALİZİ ▶</Text>
-      <Text style={styles.nativeSubtitle}>Warren Kafes | {nodes.length} Düğüm | {members.length} Eleman</Text>
+      <Text style={styles.nativeSubtitle}>{name} | {nodes.length} Düğüm | {members.length} Eleman</Text>
 
-      <View style={[styles.trussView, { width: '100%', height: 250 }]}>
-        {/* Render connection lines first */}
+      <View style={[styles.trussView, { width: '100%', height: NATIVE_VIEW_HEIGHT }]}>
+        {/* Members, with a wide touch target around each line */}
         {members.map((member) => {
           const nodeA = nodes.find(n => n.id === member.nodeA);
           const nodeB = nodes.find(n => n.id === member.nodeB);
           if (!nodeA || !nodeB) return null;
 
-          const x1 = nodeA.position.x * scale + offsetX;
-          const y1 = offsetY - nodeA.position.y * scale;
-          const x2 = nodeB.position.x * scale + offsetX;
-          const y2 = offsetY - nodeB.position.y * scale;
-
-          const color = showForces
-            ? member.tension
+          const force = memberForce(member);
+          const isSelected = member.id === selectedMemberId;
+          const color = isSelected
+            ? Colors.amber.primary
+            : memberColors?.[member.id]
+            ? memberColors[member.id]
+            : showForces && force !== 0
+            ? force > 0
               ? Colors.status.info
-              : member.compression
-              ? Colors.status.error
-              : Colors.gray[400]
+              : Colors.status.error
             : Colors.gray[400];
+          const thickness = showForces && maxForce > 0 ? 2 + 3 * (Math.abs(force) / maxForce) : 3;
 
-          // Calculate line properties
-          const dx = x2 - x1;
-          const dy = y2 - y1;
-          const length = Math.sqrt(dx * dx + dy * dy);
-          const angle = Math.atan2(dy, dx) * (180 / Math.PI);
+          return (
+            <TouchableOpacity
+              key={member.id}
+              style={[styles.memberTouch, lineLayout(nodeA, nodeB, 16)]}
+              onPress={() => onSelectMember(member.id)}
+              activeOpacity={0.6}
+            >
+              <View style={[styles.memberLine, { height: isSelected ? 5 : thickness, backgroundColor: color }]} />
+            </TouchableOpacity>
+          );
+        })}
 
+        {/* Deformed shape over the original members */}
+        {deformedNodes && members.map((member) => {
+          const nodeA = deformedNodes.find(n => n.id === member.nodeA);
+          const nodeB = deformedNodes.find(n => n.id === member.nodeB);
+          if (!nodeA || !nodeB) return null;
           return (
             <View
-              key={member.id}
-              style={[
-                styles.memberLine,
-                {
-                  left: Math.min(x1, x2),
-                  top: Math.min(y1, y2),
-                  width: length + 2,
-                  height: 3,
-                  backgroundColor: color,
-                  transform: [{ rotate: `${angle}deg` }],
-                },
-              ]}
+              key={`deformed-${member.id}`}
+              pointerEvents="none"
+              style={[styles.deformedLine, lineLayout(nodeA, nodeB, 1.5)]}
             />
           );
         })}
 
         {/* Render nodes */}
         {nodes.map((node) => {
-          const x = node.position.x * scale + offsetX;
-          const y = offsetY - node.position.y * scale;
-
+          const p = toScreen(node.position);
           return (
             <View
               key={node.id}
+              pointerEvents="none"
               style={[
                 styles.node,
                 {
-                  left: x - 10,
-                  top: y - 10,
+                  left: p.x - 10,
+                  top: p.y - 10,
                   backgroundColor: node.fixed ? Colors.amber.secondary : Colors.gray[300],
                 },
               ]}
@@ -251,16 +562,30 @@ const TrussVisualizationNative: React.FC<{
           );
         })}
 
-        {/* Load indicators */}
-        {showForces && nodes.filter(n => !n.fixed).map((node) => {
-          const x = node.position.x * scale + offsetX;
-          const y = offsetY - node.position.y * scale;
-          const loadValue = Math.floor(appliedLoad / nodes.filter(n => !n.fixed).length);
+        {/* Load and reaction arrows on the tail side of their node */}
+        {showForces && arrows.map((arrow) => {
+          const node = nodes.find(n => n.id === arrow.nodeId);
+          if (!node) return null;
+          const direction = project({ x: arrow.fx, y: arrow.fy, z: arrow.fz });
+          const magnitude = Math.hypot(direction.x, direction.y);
+          if (magnitude < 1e-9) return null;
+          const color = arrow.kind === 'load' ? Colors.engineering.load : Colors.engineering.reaction;
+          const p = toScreen(node.position);
+          const x = p.x - (direction.x / magnitude) * NATIVE_ARROW_OFFSET;
+          const y = p.y + (direction.y / magnitude) * NATIVE_ARROW_OFFSET;
+          // '→' rotated along the projected force, screen y pointing down
+          const angle = (Math.atan2(-direction.y, direction.x) * 180) / Math.PI;
 
           return (
-            <View key={`load-${node.id}`} style={[styles.loadArrowNative, { left: x - 15, top: y - 50 }]}>
-              <Text style={styles.loadArrowText}>↓</Text>
-              <Text style={styles.loadLabel}>{loadValue}kN</Text>
+            <View
+              key={`${arrow.kind}-${arrow.nodeId}`}
+              pointerEvents="none"
+              style={[styles.arrowNative, { left: x - 20, top: y - 14 }]}
+            >
+              <Text style={[styles.arrowGlyph, { color, transform: [{ rotate: `${angle}deg` }] }]}>→</Text>
+              <Text style={[styles.arrowLabel, { color }]}>
+                {Math.hypot(arrow.fx, arrow.fy, arrow.fz).toFixed(1)}
+              </Text>
             </View>
           );
         })}
@@ -274,63 +599,121 @@ const TrussVisualizationNative: React.FC<{
 // ============================================================================
 
 export const TrussVisualizationScene: React.FC<{
-  onLoadChange?: (load: number) => void;
-}> = ({ onLoadChange }) => {
-  const [appliedLoad, setAppliedLoad] = useState(100);
+  config?: TrussConfig; // Plane truss to show; the demo preset when neither is given
+  spaceConfig?: SpaceTrussConfig; // Space truss, takes precedence over config
+  name?: string;
+  design?: TrussDesignSelection; // Profile and grade from the design panel, enables utilization colours
+  onLoadChange?: (loadFactor: number) => void;
+}> = ({ config, spaceConfig, name, design, onLoadChange }) => {
+  const [loadFactor, setLoadFactor] = useState(100); // % of the truss loads
   const [showForces, setShowForces] = useState(true);
-  const { nodes, members } = useMemo(() => createWarrenTruss(), []);
+  const [colorMode, setColorMode] = useState<MemberColorMode>(design ? 'utilization' : 'force');
+  const [showDeformed, setShowDeformed] = useState(false);
+  const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+
+  const planeConfig = config ?? getTrussPreset(DEMO_PRESET)!;
+  const title = spaceConfig || config ? (name ?? 'Kafes') : TRUSS_LABELS[DEMO_PRESET];
+
+  // A new truss starts without a selection
+  useEffect(() => {
+    setSelectedMemberId(null);
+  }, [planeConfig, spaceConfig]);
+
+  const scene = useMemo(
+    () =>
+      spaceConfig
+        ? solveSpaceTruss(spaceConfig, loadFactor / 100)
+        : solvePlaneTruss(planeConfig, loadFactor / 100, design),
+    [planeConfig, spaceConfig, loadFactor, design]
+  );
 
   const handleLoadChange = (delta: number) => {
-    const newLoad = Math.max(0, Math.min(200, appliedLoad + delta));
-    setAppliedLoad(newLoad);
-    onLoadChange?.(newLoad);
+    const newFactor = Math.max(0, Math.min(200, loadFactor + delta));
+    setLoadFactor(newFactor);
+    onLoadChange?.(newFactor);
+  };
+
+  const handleSelectMember = (memberId: string) => {
+    setSelectedMemberId(prev => (prev === memberId ? null : memberId));
   };
 
   const isWeb = Platform.OS === 'web';
+  const forces = scene.memberForces.map(f => f.force);
+  const selectedForce = scene.memberForces.find(f => f.memberId === selectedMemberId);
+  const { data } = scene;
+  const showUtilization = showForces && colorMode === 'utilization' && !!data?.design;
+  const selectedCheck = data?.design?.checks.find(c => c.memberId === selectedMemberId);
+
+  if (!data) {
+    return (
+      <View style={styles.container}>
+        <View style={[styles.canvasContainer, styles.errorContainer]}>
+          <Text style={styles.hudTitle}>[ {title} ]</Text>
+          <Text style={styles.errorText}>{scene.error}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const viewProps: SceneViewProps = {
+    nodes: data.nodes,
+    members: data.members,
+    arrows: data.arrows,
+    showForces,
+    maxForce: data.maxForce,
+    selectedMemberId,
+    onSelectMember: handleSelectMember,
+    deformedNodes: showDeformed ? data.deformedNodes : undefined,
+    memberColors: showUtilization
+      ? Object.fromEntries(data.design!.checks.map(c => [c.memberId, utilizationColor(c)]))
+      : undefined,
+  };
 
   return (
     <View style={styles.container}>
       <View style={styles.canvasContainer}>
-        {isWeb ? (
-          <>
-            <Web3DScene nodes={nodes} members={members} appliedLoad={appliedLoad} showForces={showForces} />
-            {/* HUD Info */}
-            <View style={styles.hudOverlay}>
-              <Text style={styles.hudTitle}>[ KAFES_SİSTEMİ_ANALİZİ ]</Text>
-              <Text style={styles.hudText}>YÜK: {appliedLoad} kN</Text>
-              <Text style={styles.hudText}>DÜĞÜM: {nodes.length} | ELEMAN: {members.length}</Text>
-              <View style={styles.legend}>
-                <View style={[styles.legendBox, { backgroundColor: Colors.status.info }]} />
-                <Text style={styles.legendLabel}>ÇEKME</Text>
-                <View style={[styles.legendBox, { backgroundColor: Colors.status.error, marginLeft: 8 }]} />
-                <Text style={styles.legendLabel}>BASMA</Text>
-              </View>
-              <Text style={styles.platformBadge}>WEB 3D</Text>
+        {isWeb ? <Web3DScene {...viewProps} /> : <TrussVisualizationNative {...viewProps} name={title} />}
+
+        {/* HUD Info */}
+        <View style={styles.hudOverlay}>
+          <Text style={styles.hudTitle}>[ KAFES_SİSTEMİ_ANALİZİ ]</Text>
+          <Text style={styles.hudText}>YÜK: %{loadFactor}</Text>
+          <Text style={styles.hudText}>DÜĞÜM: {data.nodes.length} | ELEMAN: {data.members.length}</Text>
+          {data.deflection && (
+            <Text style={[styles.hudText, { color: data.deflection.isSafe ? Colors.status.success : Colors.status.error }]}>
+              SEHİM: {data.deflection.deflection.toFixed(2)} / L/300 = {data.deflection.limit.toFixed(2)} mm
+            </Text>
+          )}
+          {data.design && (
+            <Text style={styles.hudText}>
+              PROFİL: {data.design.profileName} | {data.design.steelGrade}
+            </Text>
+          )}
+          {showUtilization ? (
+            <View style={styles.legend}>
+              <View style={[styles.legendBox, { backgroundColor: Colors.status.success }]} />
+              <Text style={styles.legendLabel}>{'<'} %70</Text>
+              <View style={[styles.legendBox, { backgroundColor: Colors.status.warning, marginLeft: 8 }]} />
+              <Text style={styles.legendLabel}>%70-100</Text>
+              <View style={[styles.legendBox, { backgroundColor: Colors.status.error, marginLeft: 8 }]} />
+              <Text style={styles.legendLabel}>YETERSİZ</Text>
             </View>
-          </>
-        ) : (
-          <>
-            <TrussVisualizationNative
-              nodes={nodes}
-              members={members}
-              appliedLoad={appliedLoad}
-              showForces={showForces}
-            />
-            {/* HUD Info */}
-            <View style={styles.hudOverlay}>
-              <Text style={styles.hudTitle}>[ KAFES_SİSTEMİ_ANALİZİ ]</Text>
-              <Text style={styles.hudText}>YÜK: {appliedLoad} kN</Text>
-              <Text style={styles.hudText}>DÜĞÜM: {nodes.length} | ELEMAN: {members.length}</Text>
-              <View style={styles.legend}>
-                <View style={[styles.legendBox, { backgroundColor: Colors.status.info }]} />
-                <Text style={styles.legendLabel}>ÇEKME</Text>
-                <View style={[styles.legendBox, { backgroundColor: Colors.status.error, marginLeft: 8 }]} />
-                <Text style={styles.legendLabel}>BASMA</Text>
-              </View>
-              <Text style={styles.platformBadge}>MOBİL 2D</Text>
+          ) : (
+            <View style={styles.legend}>
+              <View style={[styles.legendBox, { backgroundColor: Colors.status.info }]} />
+              <Text style={styles.legendLabel}>ÇEKME</Text>
+              <View style={[styles.legendBox, { backgroundColor: Colors.status.error, marginLeft: 8 }]} />
+              <Text style={styles.legendLabel}>BASMA</Text>
             </View>
-          </>
-        )}
+          )}
+          <View style={styles.legend}>
+            <View style={[styles.legendBox, { backgroundColor: Colors.engineering.load }]} />
+            <Text style={styles.legendLabel}>YÜK</Text>
+            <View style={[styles.legendBox, { backgroundColor: Colors.engineering.reaction, marginLeft: 8 }]} />
+            <Text style={styles.legendLabel}>REAKSİYON</Text>
+          </View>
+          <Text style={styles.platformBadge}>{isWeb ? 'WEB 3D' : 'MOBİL 2D'}</Text>
+        </View>
       </View>
 
       {/* Control Panel */}
@@ -340,7 +723,7 @@ export const TrussVisualizationScene: React.FC<{
           <TouchableOpacity style={styles.controlButton} onPress={() => handleLoadChange(-10)}>
             <Text style={styles.controlButtonText}>-</Text>
           </TouchableOpacity>
-          <Text style={styles.valueText}>{appliedLoad} kN</Text>
+          <Text style={styles.valueText}>%{loadFactor}</Text>
           <TouchableOpacity style={styles.controlButton} onPress={() => handleLoadChange(10)}>
             <Text style={styles.controlButtonText}>+</Text>
           </TouchableOpacity>
@@ -355,12 +738,48 @@ export const TrussVisualizationScene: React.FC<{
           </Text>
         </TouchableOpacity>
 
+        {data.design && (
+          <TouchableOpacity
+            style={[styles.toggleButton, colorMode === 'utilization' && styles.toggleButtonActive]}
+            onPress={() => setColorMode(colorMode === 'utilization' ? 'force' : 'utilization')}
+          >
+            <Text style={styles.toggleButtonText}>
+              {colorMode === 'utilization' ? '◼ KULLANIM ORANI KAPAT' : '▶ KULLANIM ORANI AÇ'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={[styles.toggleButton, showDeformed && styles.toggleButtonActive]}
+          onPress={() => setShowDeformed(!showDeformed)}
+        >
+          <Text style={styles.toggleButtonText}>
+            {showDeformed ? '◼ ŞEKİL DEĞİŞTİRME KAPAT' : '▶ ŞEKİL DEĞİŞTİRME AÇ'}
+          </Text>
+        </TouchableOpacity>
+
         <View style={styles.infoPanel}>
+          {selectedForce ? (
+            <>
+              <Text style={[styles.infoText, styles.infoTextSelected]}>
+                ÇUBUK {selectedForce.memberId}: {forceLabel(selectedForce.force)}
+              </Text>
+              <Text style={styles.infoText}>σ: {selectedForce.stress.toFixed(1)} MPa</Text>
+              {selectedCheck && (
+                <Text style={[styles.infoText, { color: utilizationColor(selectedCheck) }]}>
+                  Kullanım: {selectedCheck.percentage}
+                  {selectedCheck.isSlender ? ' · NARİN' : ''}
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text style={styles.infoText}>Kuvvetini görmek için bir çubuğa dokunun</Text>
+          )}
           <Text style={styles.infoText}>
-            Maks Çekme: {Math.floor(appliedLoad * 0.4)} kN
+            Maks Çekme: {Math.max(0, ...forces).toFixed(2)} kN
           </Text>
           <Text style={styles.infoText}>
-            Maks Basma: {Math.floor(appliedLoad * 0.6)} kN
+            Maks Basma: {Math.max(0, ...forces.map(f => -f)).toFixed(2)} kN
           </Text>
         </View>
       </View>
@@ -464,11 +883,18 @@ const styles = StyleSheet.create({
     marginTop: Spacing.lg,
     position: 'relative',
   },
-  memberLine: {
+  memberTouch: {
     position: 'absolute',
-    height: 3,
+    justifyContent: 'center',
+  },
+  memberLine: {
+    width: '100%',
     borderRadius: 1,
   },
+  deformedLine: {
+    position: 'absolute',
+    backgroundColor: Colors.amber.primary,
+  },
   node: {
     position: 'absolute',
     width: 20,
@@ -485,19 +911,43 @@ const styles = StyleSheet.create({
     color: Colors.black,
     fontWeight: 'bold',
   },
-  loadArrowNative: {
+  arrowNative: {
     position: 'absolute',
+    width: 40,
     alignItems: 'center',
   },
-  loadArrowText: {
+  arrowGlyph: {
     fontFamily: Typography.family.mono,
     fontSize: 20,
-    color: Colors.status.error,
+    fontWeight: 'bold',
   },
-  loadLabel: {
+  arrowLabel: {
     fontFamily: Typography.family.mono,
     fontSize: Typography.sizes.xs,
+  },
+  forceLabelContainer: {
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    paddingHorizontal: 4,
+    borderRadius: 2,
+    borderWidth: 0.5,
+    borderColor: Colors.amber.primary,
+  },
+  forceLabelText: {
+    fontFamily: Typography.family.mono,
+    fontSize: 8,
+    color: Colors.amber.primary,
+  },
+  errorContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.lg,
+  },
+  errorText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
     color: Colors.status.error,
+    marginTop: Spacing.sm,
+    textAlign: 'center',
   },
   controls: {
     padding: Spacing.md,
@@ -567,4 +1017,8 @@ const styles = StyleSheet.create({
     color: Colors.amber.dim,
     marginBottom: 2,
   },
+  infoTextSelected: {
+    color: Colors.amber.primary,
+    fontWeight: 'bold',
+  },
 });
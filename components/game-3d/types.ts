@@ -1,6 +1,6 @@
 // 3D Scene Types
 
-export type SceneType = 'buckling' | 'truss';
+export type SceneType = 'buckling' | 'truss' | 'space-truss';
 
 export type BucklingMode = 1 | 2 | 3;
 
@@ -5,7 +5,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { LoadType } from '@/utils/structural/reactionCalculator';
+import { LoadType, getDefaultLoadCaseType } from '@/utils/structural/reactionCalculator';
 import {
   RetroModal,
   RetroQuickInput,
@@ -13,9 +13,16 @@ import {
   RetroRangeInput,
   ModalActions,
 } from '@/components/retro';
-import { LoadTypeSelector } from './LoadTypeSelector';
+import { LoadTypeSelector, LoadCaseSelector } from './LoadTypeSelector';
 import { validateLoadInputs } from '@/utils/structural/loadValidation';
-import { createLoad, createPreviewLoad, QUICK_MAGNITUDES, formatLoadDescription } from '@/utils/structural/loadFactory';
+import {
+  createLoad,
+  createPreviewLoad,
+  QUICK_MAGNITUDES,
+  QUICK_ANGLES,
+  formatLoadDescription,
+} from '@/utils/structural/loadFactory';
+import type { LoadCaseType } from '@/utils/structural/loadCombinations';
 import { useReactionStore } from '@/store/useReactionStore';
 import { Colors, Typography, Spacing } from '@/utils/theme';
 
@@ -47,6 +54,12 @@ export const AddLoadModal: React.FC<AddLoadModalProps> = ({
   const [mag, setMag] = useState('10');
   const [startPos, setStartPos] = useState('0');
   const [endPos, setEndPos] = useState('6');
+  const [angle, setAngle] = useState('-90');
+  const [endMag, setEndMag] = useState('10');
+  const [pointsText, setPointsText] = useState('0:0; 3:10; 6:0');
+  const [topTemp, setTopTemp] = useState('-10');
+  const [bottomTemp, setBottomTemp] = useState('10');
+  const [caseType, setCaseType] = useState<LoadCaseType>(getDefaultLoadCaseType(loadType));
   const [error, setError] = useState<string | null>(null);
 
   // Reset inputs when modal opens
@@ -56,31 +69,43 @@ export const AddLoadModal: React.FC<AddLoadModalProps> = ({
       setMag('10');
       setStartPos('0');
       setEndPos(beamLength.toString());
+      setAngle('-90');
+      setEndMag('10');
+      setPointsText(`0:0; ${beamLength / 2}:10; ${beamLength}:0`);
+      setTopTemp('-10');
+      setBottomTemp('10');
       setError(null);
     }
   }, [visible, beamLength]);
 
+  // Each load type starts in its own default case, so temperature is not tagged as dead load
+  useEffect(() => {
+    if (visible) {
+      setCaseType(getDefaultLoadCaseType(loadType));
+    }
+  }, [visible, loadType]);
+
   // Get preview load for visualization
-  const previewLoad = createPreviewLoad(loadType, pos, mag, startPos, endPos, beamLength);
+  const extras = {
+    angle,
+    endMagnitude: endMag,
+    points: pointsText,
+    topTemperature: topTemp,
+    bottomTemperature: bottomTemp,
+  };
+  const previewLoad = createPreviewLoad(loadType, pos, mag, startPos, endPos, beamLength, extras);
 
   const handleAdd = () => {
     // Validate inputs based on load type
-    const validation = validateLoadInputs(loadType, pos, mag, startPos, endPos, beamLength);
-    if (!validation.isValid) {
+    const validation = validateLoadInputs(loadType, pos, mag, startPos, endPos, beamLength, extras);
+    if (!validation.isValid || !validation.inputs) {
       setError(validation.error ?? 'Geçersiz giriş');
       return;
     }
 
-    // Create load using factory
-    const loadInputs = {
-      position: parseFloat(pos.replace(',', '.')),
-      magnitude: parseFloat(mag.replace(',', '.')),
-      startPosition: parseFloat(startPos.replace(',', '.')),
-      endPosition: parseFloat(endPos.replace(',', '.')),
-    };
-
-    const newLoad = createLoad(loadType, loadInputs);
-    addLoad(newLoad);
+    // Create load from the values the validator parsed
+    const newLoad = createLoad(loadType, validation.inputs);
+    addLoad({ ...newLoad, caseType });
     onClose();
   };
 
@@ -112,6 +137,9 @@ export const AddLoadModal: React.FC<AddLoadModalProps> = ({
         label="Yük Tipi"
       />
 
+      {/* Load case for the TS 498 combinations */}
+      <LoadCaseSelector selected={caseType} onSelect={setCaseType} />
+
       {/* Dynamic Inputs based on load type */}
       {loadType === LoadType.POINT && (
         <>
@@ -220,6 +248,165 @@ export const AddLoadModal: React.FC<AddLoadModalProps> = ({
           />
         </>
       )}
+
+      {loadType === LoadType.INCLINED && (
+        <>
+          <RetroPositionInput
+            label="Pozisyon (m):"
+            value={pos}
+            onChangeText={(text) => {
+              setPos(text);
+              setError(null);
+            }}
+            beamLength={beamLength}
+          />
+          <RetroQuickInput
+            label="Büyüklük (kN):"
+            value={mag}
+            onChangeText={(text) => {
+              setMag(text);
+              setError(null);
+            }}
+            quickValues={[...QUICK_MAGNITUDES]}
+            placeholder="10.00"
+          />
+          <RetroQuickInput
+            label="Açı (°, +x ekseninden saat yönü tersi):"
+            value={angle}
+            onChangeText={(text) => {
+              setAngle(text);
+              setError(null);
+            }}
+            quickValues={[...QUICK_ANGLES]}
+            quickValueLabels={QUICK_ANGLES.map(a => `${a}°`)}
+            keyboardType="numeric"
+            placeholder="-90"
+            error={error ?? undefined}
+          />
+        </>
+      )}
+
+      {loadType === LoadType.AXIAL && (
+        <>
+          <RetroPositionInput
+            label="Pozisyon (m):"
+            value={pos}
+            onChangeText={(text) => {
+              setPos(text);
+              setError(null);
+            }}
+            beamLength={beamLength}
+          />
+          <RetroQuickInput
+            label="Eksenel Kuvvet (kN, + sağa / − sola):"
+            value={mag}
+            onChangeText={(text) => {
+              setMag(text);
+              setError(null);
+            }}
+            quickValues={[-20, -10, 10, 20]}
+            keyboardType="numeric"
+            placeholder="10.00"
+            error={error ?? undefined}
+          />
+        </>
+      )}
+
+      {loadType === LoadType.LINEAR && (
+        <>
+          <RetroRangeInput
+            startValue={startPos}
+            endValue={endPos}
+            onStartChange={(text) => {
+              setStartPos(text);
+              setError(null);
+            }}
+            onEndChange={(text) => {
+              setEndPos(text);
+              setError(null);
+            }}
+            beamLength={beamLength}
+            error={error ?? undefined}
+          />
+          <RetroQuickInput
+            label="Başlangıç Şiddeti (kN/m):"
+            value={mag}
+            onChangeText={(text) => {
+              setMag(text);
+              setError(null);
+            }}
+            quickValues={[0, 5, 10, 15, 20]}
+            keyboardType="numeric"
+            placeholder="0.00"
+          />
+          <RetroQuickInput
+            label="Bitiş Şiddeti (kN/m):"
+            value={endMag}
+            onChangeText={(text) => {
+              setEndMag(text);
+              setError(null);
+            }}
+            quickValues={[0, 5, 10, 15, 20]}
+            keyboardType="numeric"
+            placeholder="10.00"
+          />
+        </>
+      )}
+
+      {loadType === LoadType.POLYLINE && (
+        <RetroQuickInput
+          label="Noktalar (x:q; x:q; ... m, kN/m):"
+          value={pointsText}
+          onChangeText={(text) => {
+            setPointsText(text);
+            setError(null);
+          }}
+          keyboardType="default"
+          placeholder="0:0; 3:10; 6:0"
+          error={error ?? undefined}
+        />
+      )}
+
+      {loadType === LoadType.THERMAL && (
+        <>
+          <RetroRangeInput
+            startValue={startPos}
+            endValue={endPos}
+            onStartChange={(text) => {
+              setStartPos(text);
+              setError(null);
+            }}
+            onEndChange={(text) => {
+              setEndPos(text);
+              setError(null);
+            }}
+            beamLength={beamLength}
+          />
+          <RetroQuickInput
+            label="Üst Lif ΔT (°C):"
+            value={topTemp}
+            onChangeText={(text) => {
+              setTopTemp(text);
+              setError(null);
+            }}
+            quickValues={[-20, -10, 0, 10, 20]}
+            keyboardType="numeric"
+            placeholder="-10"
+          />
+          <RetroQuickInput
+            label="Alt Lif ΔT (°C):"
+            value={bottomTemp}
+            onChangeText={(text) => {
+              setBottomTemp(text);
+              setError(null);
+            }}
+            quickValues={[-20, -10, 0, 10, 20]}
+            keyboardType="numeric"
+            placeholder="10"
+            error={error ?? undefined}
+          />
+        </>
+      )}
     </RetroModal>
   );
 };
@@ -1,16 +1,17 @@
 // ============================================================================
 // ADD SUPPORT MODAL COMPONENT
-// Bottom-sheet modal for adding supports with mobile-friendly UI
+// Bottom-sheet modal for adding supports and internal hinges with mobile-friendly UI
 // ============================================================================
 
 import React, { useState, useEffect } from 'react';
 import { SupportType, type Support } from '@/utils/structural/reactionCalculator';
-import { RetroModal, ModalActions, RetroPositionInput } from '@/components/retro';
+import { RetroModal, ModalActions, RetroPositionInput, RetroQuickInput } from '@/components/retro';
 import { SupportTypeSelector } from './LoadTypeSelector';
 import { validateLoadPosition } from '@/utils/structural/loadValidation';
+import { parseNumberSafe } from '@/utils/numberUtils';
 import { useReactionStore } from '@/store/useReactionStore';
-import { Text, StyleSheet } from 'react-native';
-import { Colors, Typography } from '@/utils/theme';
+import { Text, StyleSheet, View, TouchableOpacity } from 'react-native';
+import { Colors, Typography, Spacing } from '@/utils/theme';
 
 // ============================================================================
 // TYPES
@@ -21,21 +22,38 @@ export interface AddSupportModalProps {
   onClose: () => void;
 }
 
+type SupportModalMode = 'support' | 'hinge';
+
+const MODE_OPTIONS: { mode: SupportModalMode; label: string; icon: string }[] = [
+  { mode: 'support', label: 'MESNET', icon: '△' },
+  { mode: 'hinge', label: 'İÇ MAFSAL', icon: '∘' },
+];
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
 
 export const AddSupportModal: React.FC<AddSupportModalProps> = ({ visible, onClose }) => {
-  const { addSupport, beamLength } = useReactionStore();
+  const { addSupport, addHinge, beamLength } = useReactionStore();
+  const [mode, setMode] = useState<SupportModalMode>('support');
   const [supportType, setSupportType] = useState<SupportType>(SupportType.PINNED);
   const [position, setPosition] = useState('0');
+  const [settlement, setSettlement] = useState('0');
+  const [rotation, setRotation] = useState('0');
   const [error, setError] = useState<string | null>(null);
 
+  // Prescribed movements only apply to the restrained components
+  const canSettle = supportType !== SupportType.GUIDED && supportType !== SupportType.FREE;
+  const canRotate = supportType === SupportType.FIXED || supportType === SupportType.GUIDED;
+
   // Reset state when modal opens
   useEffect(() => {
     if (visible) {
+      setMode('support');
       setSupportType(SupportType.PINNED);
       setPosition('0');
+      setSettlement('0');
+      setRotation('0');
       setError(null);
     }
   }, [visible]);
@@ -47,9 +65,29 @@ export const AddSupportModal: React.FC<AddSupportModalProps> = ({ visible, onClo
       return;
     }
 
+    if (mode === 'hinge') {
+      // A hinge at a free end would be meaningless
+      if (validation.value! <= 0 || validation.value! >= beamLength) {
+        setError('İç mafsal kiriş uçlarında olamaz');
+        return;
+      }
+      addHinge(validation.value!);
+      onClose();
+      return;
+    }
+
+    const displacement = canSettle ? parseNumberSafe(settlement) : 0;
+    const supportRotation = canRotate ? parseNumberSafe(rotation) : 0;
+    if (isNaN(displacement) || isNaN(supportRotation)) {
+      setError('Mesnet hareketi geçerli bir sayı olmalıdır');
+      return;
+    }
+
     const newSupport: Support = {
       type: supportType,
       position: validation.value!,
+      ...(displacement !== 0 && { displacement }),
+      ...(supportRotation !== 0 && { rotation: supportRotation }),
     };
 
     addSupport(newSupport);
@@ -60,7 +98,7 @@ export const AddSupportModal: React.FC<AddSupportModalProps> = ({ visible, onClo
     <RetroModal
       visible={visible}
       onClose={onClose}
-      title="YENİ MESNET EKLE"
+      title={mode === 'hinge' ? 'YENİ İÇ MAFSAL EKLE' : 'YENİ MESNET EKLE'}
       variant="bottomSheet"
       actions={
         <ModalActions
@@ -72,12 +110,40 @@ export const AddSupportModal: React.FC<AddSupportModalProps> = ({ visible, onClo
         />
       }
     >
+      {/* Support or internal hinge */}
+      <View style={styles.modeRow}>
+        {MODE_OPTIONS.map((option) => {
+          const isActive = mode === option.mode;
+          return (
+            <TouchableOpacity
+              key={option.mode}
+              style={[styles.modeButton, isActive && styles.modeButtonActive]}
+              onPress={() => {
+                setMode(option.mode);
+                setError(null);
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.modeButtonText, isActive && styles.modeButtonTextActive]}>
+                {option.icon} {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
       {/* Support Type Selector */}
-      <SupportTypeSelector
-        selected={supportType}
-        onSelect={setSupportType}
-        label="TİP SEÇİMİ"
-      />
+      {mode === 'support' ? (
+        <SupportTypeSelector
+          selected={supportType}
+          onSelect={setSupportType}
+          label="TİP SEÇİMİ"
+        />
+      ) : (
+        <Text style={styles.hingeHint}>
+          İç mafsal momenti sıfırlar (M = 0) ve bir koşul denklemi ekler.
+        </Text>
+      )}
 
       {/* Position Input with Quick Values */}
       <RetroPositionInput
@@ -91,6 +157,34 @@ export const AddSupportModal: React.FC<AddSupportModalProps> = ({ visible, onClo
         error={error ?? undefined}
       />
 
+      {/* Prescribed support movements */}
+      {mode === 'support' && canSettle && (
+        <RetroQuickInput
+          label="OTURMA (mm, + yukarı):"
+          value={settlement}
+          onChangeText={(text) => {
+            setSettlement(text);
+            setError(null);
+          }}
+          quickValues={[-20, -10, -5, 0]}
+          keyboardType="numeric"
+          placeholder="0"
+        />
+      )}
+      {mode === 'support' && canRotate && (
+        <RetroQuickInput
+          label="DÖNME (rad, + saat yönü tersi):"
+          value={rotation}
+          onChangeText={(text) => {
+            setRotation(text);
+            setError(null);
+          }}
+          quickValues={[-0.002, -0.001, 0, 0.001]}
+          keyboardType="numeric"
+          placeholder="0"
+        />
+      )}
+
       {/* Validation Message */}
       {error && (
         <Text style={styles.validationHint}>0 ≤ pozisyon ≤ {beamLength.toFixed(1)}m</Text>
@@ -104,6 +198,39 @@ export const AddSupportModal: React.FC<AddSupportModalProps> = ({ visible, onClo
 // ============================================================================
 
 const styles = StyleSheet.create({
+  modeRow: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    backgroundColor: Colors.black,
+    borderWidth: 2,
+    borderColor: Colors.retro.gray,
+    borderRadius: 2,
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    borderColor: Colors.amber.primary,
+    backgroundColor: Colors.amber.bg,
+  },
+  modeButtonText: {
+    fontFamily: Typography.family.mono,
+    fontSize: 11,
+    color: Colors.retro.lightGray,
+    fontWeight: 'bold',
+  },
+  modeButtonTextActive: {
+    color: Colors.amber.primary,
+  },
+  hingeHint: {
+    fontFamily: Typography.family.mono,
+    fontSize: 10,
+    color: Colors.retro.lightGray,
+    marginTop: Spacing.md,
+  },
   validationHint: {
     fontFamily: Typography.family.mono,
     fontSize: 10,
@@ -0,0 +1,221 @@
+// ============================================================================
+// BEAM DESIGN PANEL
+// Section + steel grade + tagged load cases → governing combination and utilizations
+// ============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors, Typography, Spacing } from '@/utils/theme';
+import { getLoadCaseType, type BeamConfig } from '@/utils/structural/reactionCalculator';
+import { designBeam, type DesignCheck, type DesignSection } from '@/utils/structural/beamDesign';
+import { getLoadTypeSymbol } from '@/utils/structural/loadCombinations';
+import { formatLoadDescription, LOAD_CASE_OPTIONS } from '@/utils/structural/loadFactory';
+import { useReactionStore } from '@/store/useReactionStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BeamDesignPanelProps {
+  config: BeamConfig;
+  section: DesignSection | null;  // Profile code or custom section
+  steelGrade: string | null;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const BeamDesignPanel: React.FC<BeamDesignPanelProps> = ({ config, section, steelGrade }) => {
+  const [expanded, setExpanded] = useState(false);
+  const setLoadCase = useReactionStore((state) => state.setLoadCase);
+
+  // Eleven solves per run, so nothing is designed until the panel opens
+  const design = useMemo(() => {
+    if (!expanded || !section || !steelGrade) return null;
+    return designBeam({ config, section, steelGrade });
+  }, [expanded, config, section, steelGrade]);
+
+  const renderCheck = (label: string, check: DesignCheck | undefined, unit: string) => {
+    if (!check) return null;
+    return (
+      <Text style={[styles.checkRow, !check.isSafe && styles.checkFail]}>
+        {label}: {check.demand.toFixed(2)} / {check.capacity.toFixed(2)} {unit} = {check.percentage}{' '}
+        {check.isSafe ? '✓' : '✗'} ({check.combinationName})
+      </Text>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded(!expanded)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.title}>TASARIM KONTROLÜ</Text>
+        <Text style={styles.toggle}>{expanded ? '▲' : '▼'}</Text>
+      </TouchableOpacity>
+
+      {expanded && (
+        <>
+          {config.loads.map((load, i) => (
+            <View key={`case-${i}`} style={styles.loadRow}>
+              <Text style={styles.loadText} numberOfLines={1}>
+                {formatLoadDescription(load)}
+              </Text>
+              <View style={styles.chipRow}>
+                {LOAD_CASE_OPTIONS.map(caseType => {
+                  const isActive = getLoadCaseType(load) === caseType;
+                  return (
+                    <TouchableOpacity
+                      key={caseType}
+                      style={[styles.chip, isActive && styles.chipActive]}
+                      onPress={() => setLoadCase(i, caseType)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                        {getLoadTypeSymbol(caseType)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+
+          {!section && (
+            <Text style={styles.note}>Kiriş özelliklerinden bir profil seçin veya kesit ekranından aktarın.</Text>
+          )}
+          {section && !steelGrade && <Text style={styles.note}>Kiriş özelliklerinden çelik sınıfı seçin.</Text>}
+
+          {design && !design.isValid && <Text style={styles.checkFail}>{design.errorMessage}</Text>}
+
+          {design?.isValid && design.section && design.material && (
+            <View style={styles.summary}>
+              <Text style={styles.note}>
+                {design.section.name} · {design.material.grade} (fyd = {design.material.fyd.toFixed(1)} MPa)
+              </Text>
+              <Text style={styles.note}>
+                M_Rd = {design.momentResistance.toFixed(2)} kNm · V_Rd = {design.shearResistance.toFixed(2)} kN
+              </Text>
+              {renderCheck('EĞİLME', design.bending, 'kNm')}
+              {renderCheck('KESME', design.shear, 'kN')}
+              {renderCheck(`SEHİM L/${design.deflectionLimit}`, design.deflection, 'mm')}
+              {design.governing && (
+                <Text style={styles.governing}>
+                  BELİRLEYİCİ: {design.governing.combinationId} {design.governing.combinationName} →{' '}
+                  {design.governing.percentage}
+                </Text>
+              )}
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.amber.dim,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    minHeight: 44,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.cyan,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  toggle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.cyan,
+  },
+  loadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.xs,
+    gap: Spacing.xs,
+  },
+  loadText: {
+    flex: 1,
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    borderRadius: 2,
+    minHeight: 32,
+    minWidth: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  summary: {
+    marginTop: Spacing.sm,
+    padding: Spacing.sm,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+  },
+  note: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[300],
+    marginTop: Spacing.xs,
+  },
+  checkRow: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.status.success,
+    marginTop: Spacing.xs,
+  },
+  checkFail: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.status.error,
+    marginTop: Spacing.xs,
+  },
+  governing: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.amber.secondary,
+    fontWeight: 'bold',
+    marginTop: Spacing.sm,
+  },
+});
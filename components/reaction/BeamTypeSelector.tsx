@@ -22,6 +22,8 @@ const MINI_SCHEMATICS: Record<string, string> = {
   cantilever: '▬─────',
   continuous: '△─△──○',
   'fixed-fixed': '▬─────▬',
+  gerber:     '▬──∘──○',
+  guided:     '○─────╪',
 };
 
 const BeamTypeButton: React.FC<BeamTypeButtonProps> = ({ beamType, isSelected, onPress }) => (
@@ -0,0 +1,349 @@
+// ============================================================================
+// INFLUENCE LINE VIEW
+// Influence line plot with a moving-load train search (results screen)
+// ============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Dimensions } from 'react-native';
+import { Canvas, Circle, Path, Skia } from '@shopify/react-native-skia';
+import { Colors, Typography, Spacing } from '@/utils/theme';
+import { RetroPositionInput } from '@/components/retro';
+import { parseNumberSafe } from '@/utils/numberUtils';
+import type { BeamConfig } from '@/utils/structural/reactionCalculator';
+import {
+  calculateInfluenceLine,
+  evaluateInfluenceLine,
+  findCriticalTrainPosition,
+  getInfluenceTargets,
+  type InfluenceTarget,
+  type MovingLoadTrain,
+} from '@/utils/structural/influenceLines';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const CHART_WIDTH = Math.min(SCREEN_WIDTH - Spacing.md * 2, 380);
+const CHART_HEIGHT = 140;
+const PADDING = 30;
+
+// Axle loads (kN) and spacings (m), separated by ';' since ',' is the decimal mark
+const TRAIN_PRESETS = [
+  { label: 'TEK AKS', loads: '100', spacings: '' },
+  { label: 'HL-93', loads: '35; 145; 145', spacings: '4,3; 4,3' },
+  { label: 'VİNÇ', loads: '80; 80', spacings: '3,6' },
+] as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface InfluenceLineViewProps {
+  config: BeamConfig;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const QUANTITY_LABELS: Record<InfluenceTarget['quantity'], string> = {
+  reaction: 'R',
+  reactionMoment: 'M_R',
+  shear: 'V',
+  moment: 'M',
+};
+
+function getTargetChipLabel(target: InfluenceTarget): string {
+  if (target.supportIndex !== undefined) {
+    return `${QUANTITY_LABELS[target.quantity]}${target.supportIndex + 1}`;
+  }
+  return QUANTITY_LABELS[target.quantity];
+}
+
+function parseList(text: string): number[] {
+  return text
+    .split(/[;\s]+/)
+    .filter(part => part.length > 0)
+    .map(parseNumberSafe);
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const InfluenceLineView: React.FC<InfluenceLineViewProps> = ({ config }) => {
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [sectionInput, setSectionInput] = useState((config.length / 2).toFixed(2));
+  const [trainLoads, setTrainLoads] = useState('');
+  const [trainSpacings, setTrainSpacings] = useState('');
+
+  const section = Math.min(Math.max(parseNumberSafe(sectionInput), 0), config.length);
+  const targets = useMemo(() => getInfluenceTargets(config, section), [config, section]);
+  const target = targets[Math.min(targetIndex, targets.length - 1)];
+  const usesSection = target.quantity === 'shear' || target.quantity === 'moment';
+
+  const line = useMemo(() => calculateInfluenceLine(config, target), [config, target]);
+
+  const train: MovingLoadTrain | null = useMemo(() => {
+    const loads = parseList(trainLoads).filter(p => p > 0);
+    if (loads.length === 0) return null;
+    const spacings = parseList(trainSpacings);
+    // Missing spacings default to 1 m so a half-typed train still plots
+    while (spacings.length < loads.length - 1) spacings.push(1);
+    return { loads, spacings: spacings.slice(0, loads.length - 1) };
+  }, [trainLoads, trainSpacings]);
+
+  const trainResult = useMemo(
+    () => (line && train ? findCriticalTrainPosition(line, train) : null),
+    [line, train]
+  );
+
+  if (!line) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>ETKİ ÇİZGİSİ</Text>
+        <Text style={styles.note}>Etki çizgisi hesaplanamadı</Text>
+      </View>
+    );
+  }
+
+  const valueMax = Math.max(Math.abs(line.max.value), Math.abs(line.min.value), 1e-6);
+  const scaleX = (x: number) => (x / config.length) * (CHART_WIDTH - 2 * PADDING) + PADDING;
+  const scaleY = (value: number) =>
+    CHART_HEIGHT / 2 - (value / (valueMax * 1.2)) * (CHART_HEIGHT / 2 - PADDING / 2);
+
+  const linePath = Skia.Path.Make();
+  line.points.forEach((p, i) => {
+    if (i === 0) linePath.moveTo(scaleX(p.x), scaleY(p.value));
+    else linePath.lineTo(scaleX(p.x), scaleY(p.value));
+  });
+
+  const zeroPath = Skia.Path.Make();
+  zeroPath.moveTo(PADDING, CHART_HEIGHT / 2);
+  zeroPath.lineTo(CHART_WIDTH - PADDING, CHART_HEIGHT / 2);
+
+  // Governing train placement: whichever extreme is larger in magnitude
+  const governing = trainResult
+    ? Math.abs(trainResult.max.value) >= Math.abs(trainResult.min.value)
+      ? trainResult.max
+      : trainResult.min
+    : null;
+  const effectUnit = line.unit.startsWith('kNm') ? 'kNm' : 'kN';
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>ETKİ ÇİZGİSİ</Text>
+
+      {/* Target selector */}
+      <View style={styles.chipRow}>
+        {targets.map((t, i) => {
+          const isActive = t === target;
+          return (
+            <TouchableOpacity
+              key={`${t.quantity}-${t.supportIndex ?? 's'}`}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => setTargetIndex(i)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                {getTargetChipLabel(t)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {usesSection && (
+        <RetroPositionInput
+          label="Kesit Konumu (m):"
+          value={sectionInput}
+          onChangeText={setSectionInput}
+          beamLength={config.length}
+        />
+      )}
+
+      {/* Plot */}
+      <Text style={styles.lineLabel}>{line.label}</Text>
+      <Canvas style={[styles.chart, { height: CHART_HEIGHT }]}>
+        <Path path={zeroPath} color={Colors.gray[300]} style="stroke" strokeWidth={1} />
+        <Path path={linePath} color={Colors.retro.cyan} style="stroke" strokeWidth={2} />
+        {config.supports.map((s, i) => (
+          <Circle
+            key={`support-${i}`}
+            cx={scaleX(s.position)}
+            cy={CHART_HEIGHT / 2}
+            r={3}
+            color={Colors.engineering.reaction}
+          />
+        ))}
+        {governing?.axlePositions
+          .filter(x => x >= 0 && x <= config.length)
+          .map((x, i) => (
+            <Circle
+              key={`axle-${i}`}
+              cx={scaleX(x)}
+              cy={scaleY(evaluateInfluenceLine(line, x))}
+              r={4}
+              color={Colors.engineering.load}
+            />
+          ))}
+      </Canvas>
+      <Text style={styles.note}>
+        Max: {line.max.value.toFixed(3)} @ x = {line.max.x.toFixed(2)} m | Min:{' '}
+        {line.min.value.toFixed(3)} @ x = {line.min.x.toFixed(2)} m
+      </Text>
+      <Text style={styles.note}>
+        Alan (+): {line.positiveArea.toFixed(3)} | Alan (−): {line.negativeArea.toFixed(3)}
+      </Text>
+
+      {/* Moving load train */}
+      <Text style={styles.subtitle}>HAREKETLİ YÜK KATARI</Text>
+      <View style={styles.chipRow}>
+        {TRAIN_PRESETS.map(preset => (
+          <TouchableOpacity
+            key={preset.label}
+            style={styles.chip}
+            onPress={() => {
+              setTrainLoads(preset.loads);
+              setTrainSpacings(preset.spacings);
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.chipText}>{preset.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.inputLabel}>Aks Yükleri (kN, ';' ile ayır):</Text>
+      <TextInput
+        style={styles.input}
+        value={trainLoads}
+        onChangeText={setTrainLoads}
+        placeholder="35; 145; 145"
+        placeholderTextColor={Colors.retro.gray}
+      />
+      <Text style={styles.inputLabel}>Aks Aralıkları (m):</Text>
+      <TextInput
+        style={styles.input}
+        value={trainSpacings}
+        onChangeText={setTrainSpacings}
+        placeholder="4,3; 4,3"
+        placeholderTextColor={Colors.retro.gray}
+      />
+
+      {trainResult && governing && (
+        <View style={styles.trainResult}>
+          <Text style={styles.resultText}>
+            Max Etki: {trainResult.max.value.toFixed(2)} {effectUnit} (ön aks x ={' '}
+            {trainResult.max.leadPosition.toFixed(2)} m{trainResult.max.reversed ? ', ters yön' : ''})
+          </Text>
+          <Text style={styles.resultText}>
+            Min Etki: {trainResult.min.value.toFixed(2)} {effectUnit} (ön aks x ={' '}
+            {trainResult.min.leadPosition.toFixed(2)} m{trainResult.min.reversed ? ', ters yön' : ''})
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.amber.dim,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.cyan,
+    fontWeight: 'bold',
+    marginBottom: Spacing.sm,
+    letterSpacing: 1,
+  },
+  subtitle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.amber.secondary,
+    fontWeight: 'bold',
+    marginTop: Spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginVertical: Spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    borderRadius: 2,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  lineLabel: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[300],
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  chart: {
+    width: CHART_WIDTH,
+    backgroundColor: Colors.gray[100],
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+  },
+  note: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[300],
+    marginTop: Spacing.xs,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontFamily: Typography.family.mono,
+    fontSize: 10,
+    color: Colors.retro.text,
+    marginTop: Spacing.sm,
+    marginBottom: 4,
+  },
+  input: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.text,
+    backgroundColor: Colors.black,
+    borderWidth: 2,
+    borderColor: Colors.retro.gray,
+    padding: Spacing.sm,
+    minHeight: 44,
+  },
+  trainResult: {
+    marginTop: Spacing.sm,
+    padding: Spacing.sm,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.engineering.load,
+  },
+  resultText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.engineering.load,
+  },
+});
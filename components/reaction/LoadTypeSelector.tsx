@@ -1,12 +1,14 @@
 // ============================================================================
 // LOAD TYPE SELECTOR COMPONENT
-// 2x2 grid of load type buttons with 60px touch targets
+// 2-column grid of load type buttons with 60px touch targets
 // ============================================================================
 
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Colors, Typography, Spacing } from '@/utils/theme';
 import { LoadType } from '@/utils/structural/reactionCalculator';
+import { LOAD_TYPE_NAMES, type LoadCaseType } from '@/utils/structural/loadCombinations';
+import { LOAD_CASE_OPTIONS } from '@/utils/structural/loadFactory';
 
 // ============================================================================
 // TYPES
@@ -27,6 +29,11 @@ const LOAD_TYPES = [
   { type: LoadType.UDL, label: 'Yayılı', short: 'w', description: 'Yayılan homojen yük' },
   { type: LoadType.MOMENT, label: 'Moment', short: 'M', description: 'Döndürücü moment' },
   { type: LoadType.TRIANGULAR, label: 'Üçgen', short: '△', description: 'Değişken yayılı yük' },
+  { type: LoadType.INCLINED, label: 'Eğik', short: '∠', description: 'Açılı tekil yük' },
+  { type: LoadType.AXIAL, label: 'Eksenel', short: 'N', description: 'Kiriş ekseni boyunca yük' },
+  { type: LoadType.LINEAR, label: 'Trapez', short: '⊿', description: 'Başlangıç ve bitiş şiddetli yayılı yük' },
+  { type: LoadType.POLYLINE, label: 'Çokgen', short: '⋀', description: 'Noktalarla tanımlı yayılı yük' },
+  { type: LoadType.THERMAL, label: 'Sıcaklık', short: 'ΔT', description: 'Üst/alt lif sıcaklık değişimi' },
 ] as const;
 
 // ============================================================================
@@ -85,6 +92,7 @@ const SUPPORT_TYPES = [
   { type: SupportType.FIXED, label: 'SABİT', icon: '▬' },
   { type: SupportType.PINNED, label: 'MAFSALLI', icon: '△' },
   { type: SupportType.ROLLER, label: 'HAREK.', icon: '○' },
+  { type: SupportType.GUIDED, label: 'KAYICI', icon: '╪' },
 ] as const;
 
 export const SupportTypeSelector: React.FC<SupportTypeSelectorProps> = ({
@@ -123,6 +131,62 @@ export const SupportTypeSelector: React.FC<SupportTypeSelectorProps> = ({
   );
 };
 
+// ============================================================================
+// LOAD CASE SELECTOR (for AddLoadModal)
+// ============================================================================
+
+export interface LoadCaseSelectorProps {
+  selected: LoadCaseType;
+  onSelect: (caseType: LoadCaseType) => void;
+  label?: string;
+}
+
+const LOAD_CASE_SHORT_LABELS: Partial<Record<LoadCaseType, string>> = {
+  dead: 'ÖLÜ',
+  live: 'HAREKETLİ',
+  wind: 'RÜZGAR',
+  snow: 'KAR',
+  thermal: 'ISIL',
+};
+
+export const LoadCaseSelector: React.FC<LoadCaseSelectorProps> = ({
+  selected,
+  onSelect,
+  label = 'YÜK DURUMU',
+}) => {
+  return (
+    <View>
+      <Text style={styles.sectionLabel}>{label}:</Text>
+      <View style={styles.supportRow}>
+        {LOAD_CASE_OPTIONS.map((caseType) => {
+          const isActive = selected === caseType;
+          return (
+            <TouchableOpacity
+              key={caseType}
+              style={[styles.supportButton, isActive && styles.supportButtonActive]}
+              onPress={() => onSelect(caseType)}
+              activeOpacity={0.7}
+              accessibilityLabel={LOAD_TYPE_NAMES[caseType].name}
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text
+                style={[styles.supportButtonIcon, isActive && styles.supportButtonIconActive]}
+              >
+                {LOAD_TYPE_NAMES[caseType].symbol}
+              </Text>
+              <Text
+                style={[styles.supportButtonText, isActive && styles.supportButtonTextActive]}
+              >
+                {LOAD_CASE_SHORT_LABELS[caseType]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
 // ============================================================================
 // STYLES
 // ============================================================================
@@ -0,0 +1,191 @@
+// ============================================================================
+// PATTERN LOADING VIEW
+// Critical live load arrangements for span and support moments
+// ============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors, Typography, Spacing } from '@/utils/theme';
+import { getLoadCaseType, type BeamConfig } from '@/utils/structural/reactionCalculator';
+import { getStandardCombination } from '@/utils/structural/loadCombinations';
+import { calculatePatternLoading, type CriticalMoment } from '@/utils/structural/patternLoading';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PatternLoadingViewProps {
+  config: BeamConfig;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Characteristic values, or the factored 1.35G + 1.5Q combination
+const FACTOR_OPTIONS = [
+  { id: 'characteristic', label: 'KARAKTERİSTİK', combination: undefined },
+  { id: 'ULS-1', label: '1.35G + 1.5Q', combination: getStandardCombination('ULS-1') },
+];
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const PatternLoadingView: React.FC<PatternLoadingViewProps> = ({ config }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [factorId, setFactorId] = useState(FACTOR_OPTIONS[0].id);
+
+  const hasLiveLoad = config.loads.some(l => getLoadCaseType(l) === 'live');
+  const isContinuous = new Set(config.supports.map(s => s.position)).size >= 2;
+
+  // One solve per region and per critical arrangement, so only when open
+  const result = useMemo(() => {
+    if (!expanded) return null;
+    const option = FACTOR_OPTIONS.find(o => o.id === factorId);
+    return calculatePatternLoading(config, { combination: option?.combination });
+  }, [expanded, config, factorId]);
+
+  if (!hasLiveLoad || !isContinuous) return null;
+
+  const renderMoment = (moment: CriticalMoment, sign: string) => (
+    <Text key={moment.label} style={styles.row}>
+      {moment.label}: M{sign} = {moment.value.toFixed(2)} kNm @ x = {moment.position.toFixed(2)} m{'\n'}
+      <Text style={styles.arrangement}>  yüklü: {moment.arrangement.label}</Text>
+    </Text>
+  );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded(!expanded)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.title}>DESEN YÜKLEMESİ (Q)</Text>
+        <Text style={styles.toggle}>{expanded ? '▲' : '▼'}</Text>
+      </TouchableOpacity>
+
+      {expanded && (
+        <>
+          <View style={styles.chipRow}>
+            {FACTOR_OPTIONS.map(option => {
+              const isActive = option.id === factorId;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => setFactorId(option.id)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {result && !result.isValid && <Text style={styles.error}>{result.errorMessage}</Text>}
+
+          {result?.isValid && (
+            <>
+              <Text style={styles.subtitle}>AÇIKLIK MOMENTLERİ</Text>
+              {result.spanMoments.map(m => renderMoment(m, '+'))}
+              {result.supportMoments.length > 0 && <Text style={styles.subtitle}>MESNET MOMENTLERİ</Text>}
+              {result.supportMoments.map(m => renderMoment(m, '−'))}
+              <Text style={styles.note}>
+                {result.arrangements.length} düzen çözüldü · Q yalnız belirtilen açıklıklarda, diğer yükler her yerde
+              </Text>
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.amber.dim,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    minHeight: 44,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.cyan,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  toggle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.cyan,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    borderRadius: 2,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.amber.secondary,
+    fontWeight: 'bold',
+    marginTop: Spacing.sm,
+  },
+  row: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.engineering.moment,
+    marginTop: Spacing.xs,
+  },
+  arrangement: {
+    color: Colors.gray[300],
+  },
+  note: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[300],
+    marginTop: Spacing.sm,
+  },
+  error: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.status.error,
+    marginTop: Spacing.xs,
+  },
+});
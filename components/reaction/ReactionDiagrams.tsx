@@ -1,8 +1,13 @@
 import React from 'react';
 import { View, Text, StyleSheet, Dimensions } from 'react-native';
-import { Canvas, Group, Path, Skia } from '@shopify/react-native-skia';
+import { Canvas, Circle, Group, Path, Skia } from '@shopify/react-native-skia';
 import { Colors, Typography, Spacing } from '@/utils/theme';
-import type { AnalysisResults } from '@/utils/structural/reactionCalculator';
+import type { AnalysisResults, DeflectionPoint } from '@/utils/structural/reactionCalculator';
+import {
+  getGoverningRanges,
+  type EnvelopeCurve,
+  type EnvelopeResult,
+} from '@/utils/structural/loadEnvelope';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 // iOS için SafeArea margin'lerini hesaba kat
@@ -13,9 +18,10 @@ const PADDING = 30;
 
 interface ReactionDiagramsProps {
   results: AnalysisResults;
+  envelope?: EnvelopeResult; // ULS envelope of the tagged load cases
 }
 
-export const ReactionDiagrams: React.FC<ReactionDiagramsProps> = ({ results }) => {
+export const ReactionDiagrams: React.FC<ReactionDiagramsProps> = ({ results, envelope }) => {
   const shearData = results.shearDiagram;
   const momentData = results.momentDiagram;
 
@@ -104,6 +110,46 @@ export const ReactionDiagrams: React.FC<ReactionDiagramsProps> = ({ results }) =
     return path;
   };
 
+  // Generate path for an elastic curve quantity (deflection or slope)
+  const generateCurvePath = (
+    data: DeflectionPoint[],
+    getValue: (p: DeflectionPoint) => number,
+    maxVal: number
+  ) => {
+    const path = Skia.Path.Make();
+    data.forEach((point, i) => {
+      const x = scaleX(point.x);
+      const y = scaleY(getValue(point), maxVal, true);
+      if (i === 0) path.moveTo(x, y);
+      else path.lineTo(x, y);
+    });
+    return path;
+  };
+
+  const deflectionData = results.deflectionDiagram;
+  const slopeData = results.slopeDiagram;
+  const hasElasticCurve = deflectionData.length > 1;
+  const deflectionMax = Math.max(...deflectionData.map((p) => Math.abs(p.deflection)), 1e-6);
+  const slopeMax = Math.max(...slopeData.map((p) => Math.abs(p.slope)), 1e-9);
+  const deflectionPath = generateCurvePath(deflectionData, (p) => p.deflection, deflectionMax);
+  const slopePath = generateCurvePath(slopeData, (p) => p.slope, slopeMax);
+  const serviceability = results.serviceability;
+
+  // Normal force diagram (tension +), shown only when axial actions exist
+  const normalData = results.normalDiagram;
+  const normalMax = Math.max(...normalData.map((p) => Math.abs(p.normal)), 1e-6);
+  const hasNormalForce = Math.abs(results.maxNormal.value) > 1e-6;
+  const generateNormalPath = () => {
+    const path = Skia.Path.Make();
+    normalData.forEach((point, i) => {
+      const x = scaleX(point.x);
+      const y = scaleY(point.normal, normalMax, true);
+      if (i === 0) path.moveTo(x, y);
+      else path.lineTo(x, y);
+    });
+    return path;
+  };
+
   const shearPath = generateShearPath();
   const momentPath = generateMomentPath();
   const shearArea = generateShearAreaPath(shearData, shearMax);
@@ -116,6 +162,98 @@ export const ReactionDiagrams: React.FC<ReactionDiagramsProps> = ({ results }) =
     return path;
   };
 
+  // Envelope: max curve forward, min curve back, filled in between
+  const hasEnvelope = !!envelope?.isValid && envelope.points.length > 1;
+  const envelopePoints = envelope?.points ?? [];
+  const generateEnvelopeCurve = (curve: EnvelopeCurve, maxVal: number) => {
+    const path = Skia.Path.Make();
+    envelopePoints.forEach((point, i) => {
+      const x = scaleX(point.x);
+      const y = scaleY(point[curve], maxVal, true);
+      if (i === 0) path.moveTo(x, y);
+      else path.lineTo(x, y);
+    });
+    return path;
+  };
+  const generateEnvelopeBand = (maxCurve: EnvelopeCurve, minCurve: EnvelopeCurve, maxVal: number) => {
+    const path = Skia.Path.Make();
+    envelopePoints.forEach((point, i) => {
+      const x = scaleX(point.x);
+      const y = scaleY(point[maxCurve], maxVal, true);
+      if (i === 0) path.moveTo(x, y);
+      else path.lineTo(x, y);
+    });
+    for (let i = envelopePoints.length - 1; i >= 0; i--) {
+      path.lineTo(scaleX(envelopePoints[i].x), scaleY(envelopePoints[i][minCurve], maxVal, true));
+    }
+    path.close();
+    return path;
+  };
+
+  // Which combination governs a curve along x, one labeled box per range
+  const renderGoverningStrip = (curve: EnvelopeCurve, label: string) => (
+    <View style={styles.governingStrip}>
+      <Text style={styles.governingLabel}>{label}</Text>
+      {getGoverningRanges(envelopePoints, curve).map((range) => {
+        const left = scaleX(range.start);
+        const width = scaleX(range.end) - left;
+        return (
+          <View key={`${curve}-${range.start}`} style={[styles.governingRange, { left, width }]}>
+            {width > 28 && (
+              <Text style={styles.governingText} numberOfLines={1}>
+                {range.combinationId}
+              </Text>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderEnvelope = (
+    title: string,
+    maxCurve: EnvelopeCurve,
+    minCurve: EnvelopeCurve,
+    unit: string,
+    color: string
+  ) => {
+    if (!envelope) return null;
+    const { extremes } = envelope;
+    const maxVal = Math.max(Math.abs(extremes[maxCurve].value), Math.abs(extremes[minCurve].value), 0.1);
+    return (
+      <View style={styles.diagramSection}>
+        <Text style={[styles.diagramTitle, { color }]}>{title}</Text>
+        <View style={styles.chartContainer}>
+          <Canvas style={[styles.chart, { height: CHART_HEIGHT }]}>
+            <Path path={zeroLinePath()} color={Colors.gray[300]} style="stroke" strokeWidth={1} />
+            <Path path={generateEnvelopeBand(maxCurve, minCurve, maxVal)} color="rgba(255, 176, 0, 0.15)" />
+            <Path path={generateEnvelopeCurve(maxCurve, maxVal)} color={color} style="stroke" strokeWidth={2} />
+            <Path
+              path={generateEnvelopeCurve(minCurve, maxVal)}
+              color={Colors.engineering.stress}
+              style="stroke"
+              strokeWidth={2}
+            />
+          </Canvas>
+
+          {/* Y-axis labels */}
+          <View style={styles.yAxisLabels}>
+            <Text style={styles.axisLabel}>{`+${maxVal.toFixed(1)}`}</Text>
+            <Text style={styles.axisLabel}>0</Text>
+            <Text style={styles.axisLabel}>{(-maxVal).toFixed(1)}</Text>
+          </View>
+        </View>
+        {renderGoverningStrip(maxCurve, 'max')}
+        {renderGoverningStrip(minCurve, 'min')}
+        <Text style={styles.diagramNote}>
+          Max: {extremes[maxCurve].value.toFixed(2)} {unit} ({extremes[maxCurve].combinationId}) @ x ={' '}
+          {extremes[maxCurve].position.toFixed(2)} m | Min: {extremes[minCurve].value.toFixed(2)} {unit} (
+          {extremes[minCurve].combinationId}) @ x = {extremes[minCurve].position.toFixed(2)} m
+        </Text>
+      </View>
+    );
+  };
+
   return (
     <View style={styles.diagramsContainer}>
       {/* Shear Force Diagram */}
@@ -194,6 +332,189 @@ export const ReactionDiagrams: React.FC<ReactionDiagramsProps> = ({ results }) =
         </Text>
       </View>
 
+      {/* ULS envelopes over the load combinations */}
+      {hasEnvelope && renderEnvelope('ZARF KESME (V) DİYAGRAMI', 'maxShear', 'minShear', 'kN', Colors.engineering.shear)}
+      {hasEnvelope &&
+        renderEnvelope('ZARF MOMENT (M) DİYAGRAMI', 'maxMoment', 'minMoment', 'kNm', Colors.engineering.moment)}
+
+      {/* Normal Force Diagram */}
+      {hasNormalForce && (
+        <View style={styles.diagramSection}>
+          <Text style={[styles.diagramTitle, { color: Colors.engineering.stress }]}>
+            NORMAL KUVVET (N) DİYAGRAMI
+          </Text>
+          <View style={styles.chartContainer}>
+            <Canvas style={[styles.chart, { height: CHART_HEIGHT }]}>
+              {/* Zero line */}
+              <Path
+                path={zeroLinePath()}
+                color={Colors.gray[300]}
+                style="stroke"
+                strokeWidth={1}
+              />
+
+              {/* Normal force line */}
+              <Path
+                path={generateNormalPath()}
+                color={Colors.engineering.stress}
+                style="stroke"
+                strokeWidth={2}
+              />
+            </Canvas>
+
+            {/* Y-axis labels */}
+            <View style={styles.yAxisLabels}>
+              <Text style={styles.axisLabel}>
+                {`+${normalMax.toFixed(1)}`}
+              </Text>
+              <Text style={styles.axisLabel}>0</Text>
+              <Text style={styles.axisLabel}>
+                {(-normalMax).toFixed(1)}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.diagramNote}>
+            Max: {results.maxNormal.value.toFixed(2)} kN{' '}
+            ({results.maxNormal.value >= 0 ? 'Çekme' : 'Basınç'}) @ x ={' '}
+            {results.maxNormal.position.toFixed(2)} m
+          </Text>
+        </View>
+      )}
+
+      {/* Deflection Diagram */}
+      {hasElasticCurve && (
+        <View style={styles.diagramSection}>
+          <Text style={[styles.diagramTitle, { color: Colors.engineering.deflection }]}>
+            SEHİM (δ) DİYAGRAMI
+          </Text>
+          <View style={styles.chartContainer}>
+            <Canvas style={[styles.chart, { height: CHART_HEIGHT }]}>
+              {/* Zero line */}
+              <Path
+                path={zeroLinePath()}
+                color={Colors.gray[300]}
+                style="stroke"
+                strokeWidth={1}
+              />
+
+              {/* Deflection line */}
+              <Path
+                path={deflectionPath}
+                color={Colors.engineering.deflection}
+                style="stroke"
+                strokeWidth={2}
+              />
+
+              {/* Max / min markers */}
+              <Circle
+                cx={scaleX(results.maxDeflection.position)}
+                cy={scaleY(results.maxDeflection.value, deflectionMax, true)}
+                r={3}
+                color={Colors.status.success}
+              />
+              <Circle
+                cx={scaleX(results.minDeflection.position)}
+                cy={scaleY(results.minDeflection.value, deflectionMax, true)}
+                r={3}
+                color={Colors.status.error}
+              />
+            </Canvas>
+
+            {/* Y-axis labels */}
+            <View style={styles.yAxisLabels}>
+              <Text style={styles.axisLabel}>
+                {`+${deflectionMax.toFixed(2)}`}
+              </Text>
+              <Text style={styles.axisLabel}>0</Text>
+              <Text style={styles.axisLabel}>
+                {(-deflectionMax).toFixed(2)}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.diagramNote}>
+            Max: {results.maxDeflection.value.toFixed(2)} mm @ x ={' '}
+            {results.maxDeflection.position.toFixed(2)} m | Min:{' '}
+            {results.minDeflection.value.toFixed(2)} mm @ x ={' '}
+            {results.minDeflection.position.toFixed(2)} m
+          </Text>
+
+          {/* Serviceability check */}
+          {serviceability && (
+            <View style={styles.serviceability}>
+              <Text style={styles.diagramNote}>
+                Kullanılabilirlik: δ = {Math.abs(serviceability.deflection).toFixed(2)} mm, L ={' '}
+                {serviceability.referenceLength.toFixed(2)} m → L/
+                {Number.isFinite(serviceability.spanRatio) ? serviceability.spanRatio.toFixed(0) : '∞'}
+              </Text>
+              <View style={styles.serviceabilityRow}>
+                {serviceability.checks.map((check) => (
+                  <Text
+                    key={check.label}
+                    style={[
+                      styles.serviceabilityBadge,
+                      { color: check.passed ? Colors.status.success : Colors.status.error },
+                    ]}
+                  >
+                    {check.label} ({check.allowable.toFixed(1)} mm) {check.passed ? '✓' : '✗'}
+                  </Text>
+                ))}
+              </View>
+            </View>
+          )}
+        </View>
+      )}
+
+      {/* Slope Diagram */}
+      {hasElasticCurve && (
+        <View style={styles.diagramSection}>
+          <Text style={[styles.diagramTitle, { color: Colors.engineering.stress }]}>
+            DÖNME (θ) DİYAGRAMI
+          </Text>
+          <View style={styles.chartContainer}>
+            <Canvas style={[styles.chart, { height: CHART_HEIGHT }]}>
+              {/* Zero line */}
+              <Path
+                path={zeroLinePath()}
+                color={Colors.gray[300]}
+                style="stroke"
+                strokeWidth={1}
+              />
+
+              {/* Slope line */}
+              <Path
+                path={slopePath}
+                color={Colors.engineering.stress}
+                style="stroke"
+                strokeWidth={2}
+              />
+
+              {/* Max |θ| marker */}
+              <Circle
+                cx={scaleX(results.maxSlope.position)}
+                cy={scaleY(results.maxSlope.value, slopeMax, true)}
+                r={3}
+                color={Colors.status.warning}
+              />
+            </Canvas>
+
+            {/* Y-axis labels */}
+            <View style={styles.yAxisLabels}>
+              <Text style={styles.axisLabel}>
+                {`+${(slopeMax * 1000).toFixed(2)}`}
+              </Text>
+              <Text style={styles.axisLabel}>0</Text>
+              <Text style={styles.axisLabel}>
+                {(-slopeMax * 1000).toFixed(2)}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.diagramNote}>
+            Max |θ|: {(Math.abs(results.maxSlope.value) * 1000).toFixed(3)} mrad @ x ={' '}
+            {results.maxSlope.position.toFixed(2)} m
+          </Text>
+        </View>
+      )}
+
       {/* X-axis (Beam) */}
       <View style={styles.beamAxis}>
         <View style={styles.beamLine} />
@@ -260,6 +581,48 @@ const styles = StyleSheet.create({
     marginTop: Spacing.xs,
     textAlign: 'center',
   },
+  serviceability: {
+    marginTop: Spacing.xs,
+  },
+  serviceabilityRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  serviceabilityBadge: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    fontWeight: 'bold',
+  },
+  governingStrip: {
+    position: 'relative',
+    width: CHART_WIDTH,
+    height: 16,
+    marginTop: 2,
+  },
+  governingLabel: {
+    position: 'absolute',
+    left: 2,
+    fontFamily: Typography.family.mono,
+    fontSize: 8,
+    color: Colors.gray[300],
+  },
+  governingRange: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    borderLeftWidth: 1,
+    borderColor: Colors.amber.dim,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  governingText: {
+    fontFamily: Typography.family.mono,
+    fontSize: 8,
+    color: Colors.amber.secondary,
+  },
   beamAxis: {
     position: 'relative',
     height: 30,
@@ -12,9 +12,14 @@ import {
   Platform,
   Text,
   TextInput,
+  TouchableOpacity,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useReactionStore } from '@/store/useReactionStore';
+import {
+  useReactionStore,
+  getReactionDesignSection,
+  getReactionSectionConfig,
+} from '@/store/useReactionStore';
 import {
   RetroCard,
   RetroButton,
@@ -24,15 +29,26 @@ import { Colors, Typography, Spacing } from '@/utils/theme';
 import {
   SupportType,
   LoadType,
+  getLoadCaseType,
   type Load,
   type Support,
 } from '@/utils/structural/reactionCalculator';
+import { getLoadTypeSymbol } from '@/utils/structural/loadCombinations';
+import { calculateEnvelope } from '@/utils/structural/loadEnvelope';
 import { ReactionDiagrams } from './ReactionDiagrams';
+import { InfluenceLineView } from './InfluenceLineView';
+import { SolutionStepsPanel } from './SolutionStepsPanel';
+import { SegmentEquationsView } from './SegmentEquationsView';
+import { BeamDesignPanel } from './BeamDesignPanel';
+import { PatternLoadingView } from './PatternLoadingView';
 import { BeamTypeSelector } from './BeamTypeSelector';
 import { KatexRender, EngineeringFormulas } from '@/components/math';
 import { parseNumberSafe } from '@/utils/numberUtils';
 import { calculateScale, positionToPixel } from '@/utils/structural/positionUtils';
 import { formatLoadDescription, LOAD_TYPE_LABELS, getLoadTypeLabel } from '@/utils/structural/loadFactory';
+import { getAllMaterials } from '@/utils/structural/materialDatabase';
+import { ProfilePicker } from '@/components/structural/ProfilePicker';
+import type { SectionShape } from '@/utils/structural/sectionProperties';
 import { ListItemRow, EmptyList } from './ListItemRow';
 import { AddSupportModal } from './AddSupportModal';
 import { AddLoadModal } from './AddLoadModal';
@@ -40,10 +56,16 @@ import {
   PinnedSupportIcon,
   RollerSupportIcon,
   FixedSupportIcon,
+  GuidedSupportIcon,
+  HingeIcon,
   PointLoadIcon,
   UDLIcon,
   MomentIcon,
-  TriangularLoadIcon
+  TriangularLoadIcon,
+  InclinedLoadIcon,
+  LinearLoadIcon,
+  PolylineLoadIcon,
+  ThermalLoadIcon
 } from './SVGIcons';
 
 // ============================================================================
@@ -59,7 +81,7 @@ const BEAM_PADDING = 40;
 // ============================================================================
 
 const BeamVisualization: React.FC = () => {
-  const { beamLength, supports, loads } = useReactionStore();
+  const { beamLength, supports, hinges, loads } = useReactionStore();
 
   // Scale: pixels per meter
   const scale = useMemo(() => {
@@ -86,11 +108,25 @@ const BeamVisualization: React.FC = () => {
         {support.type === SupportType.FIXED && (
           <FixedSupportIcon size={20} color={Colors.amber.primary} />
         )}
+        {support.type === SupportType.GUIDED && (
+          <GuidedSupportIcon size={20} color={Colors.amber.primary} />
+        )}
         <Text style={styles.supportLabel}>{index + 1}</Text>
       </View>
     );
   }, [posToPixel]);
 
+  // Render internal hinge symbol on the beam axis
+  const renderHinge = useCallback((position: number, index: number) => {
+    const x = posToPixel(position);
+
+    return (
+      <View key={`hinge-${index}`} style={[styles.hingeSymbol, { left: x - 6 }]}>
+        <HingeIcon size={12} color={Colors.amber.primary} />
+      </View>
+    );
+  }, [posToPixel]);
+
   // Render load symbols
   const renderLoads = useCallback(() => {
     return loads.map((load, index) => {
@@ -151,6 +187,82 @@ const BeamVisualization: React.FC = () => {
             />
           </View>
         );
+      } else if (load.type === LoadType.LINEAR) {
+        const startX = posToPixel(load.startPosition);
+        const endX = posToPixel(load.endPosition);
+        const width = endX - startX;
+        const label = `${(-load.startMagnitude).toFixed(1)}→${(-load.endMagnitude).toFixed(1)}`;
+        return (
+          <View key={`load-${index}`} style={[styles.loadTriangular, { left: startX, width }]}>
+            <LinearLoadIcon
+              startMagnitude={load.startMagnitude}
+              endMagnitude={load.endMagnitude}
+              width={Math.max(width, 4)}
+              height={24}
+              color={Colors.amber.primary}
+              label={label}
+            />
+          </View>
+        );
+      } else if (load.type === LoadType.POLYLINE && load.points.length >= 2) {
+        const startX = posToPixel(load.points[0].position);
+        const endX = posToPixel(load.points[load.points.length - 1].position);
+        const width = endX - startX;
+        const peak = Math.max(...load.points.map(p => Math.abs(p.magnitude)));
+        return (
+          <View key={`load-${index}`} style={[styles.loadTriangular, { left: startX, width }]}>
+            <PolylineLoadIcon
+              points={load.points}
+              width={Math.max(width, 4)}
+              height={24}
+              color={Colors.amber.primary}
+              label={`max ${peak.toFixed(1)}`}
+            />
+          </View>
+        );
+      } else if (load.type === LoadType.INCLINED) {
+        const x = posToPixel(load.position);
+        const label = `${load.magnitude.toFixed(1)}kN ∠${load.angle.toFixed(0)}°`;
+        return (
+          <View key={`load-${index}`} style={[styles.loadPoint, { left: x - 12 }]}>
+            <InclinedLoadIcon
+              angle={load.angle}
+              size={24}
+              color={Colors.amber.primary}
+            />
+            <Text style={styles.loadLabelSmall}>{label}</Text>
+          </View>
+        );
+      } else if (load.type === LoadType.AXIAL) {
+        const x = posToPixel(load.position);
+        const label = `N=${Math.abs(load.magnitude).toFixed(1)}kN`;
+        return (
+          <View key={`load-${index}`} style={[styles.loadPoint, { left: x - 12 }]}>
+            <InclinedLoadIcon
+              angle={load.magnitude >= 0 ? 0 : 180}
+              size={24}
+              color={Colors.amber.primary}
+            />
+            <Text style={styles.loadLabelSmall}>{label}</Text>
+          </View>
+        );
+      } else if (load.type === LoadType.THERMAL) {
+        const startX = posToPixel(load.startPosition);
+        const endX = posToPixel(load.endPosition);
+        const width = endX - startX;
+        const label = `ΔT ${load.topTemperature.toFixed(0)}/${load.bottomTemperature.toFixed(0)}°C`;
+        return (
+          <View key={`load-${index}`} style={[styles.loadTriangular, { left: startX, width }]}>
+            <ThermalLoadIcon
+              topTemperature={load.topTemperature}
+              bottomTemperature={load.bottomTemperature}
+              width={Math.min(Math.max(width, 4), 40)}
+              height={24}
+              color={Colors.engineering.stress}
+              label={label}
+            />
+          </View>
+        );
       }
       return null;
     });
@@ -177,6 +289,9 @@ const BeamVisualization: React.FC = () => {
         {/* Supports */}
         {supports.map((s, i) => renderSupport(s, i))}
 
+        {/* Internal hinges */}
+        {hinges.map((h, i) => renderHinge(h, i))}
+
         {/* Loads */}
         {renderLoads()}
       </View>
@@ -188,14 +303,36 @@ const BeamVisualization: React.FC = () => {
 // BEAM CONFIGURATION
 // ============================================================================
 
+const MATERIALS = getAllMaterials();
+
+// Angles bend about inclined principal axes, which the plane beam solver does not model
+const BEAM_PROFILE_SHAPES: SectionShape[] = ['i-beam', 'channel', 'box', 'pipe'];
+
 const BeamConfig: React.FC = () => {
-  const { beamLength, setBeamLength } = useReactionStore();
+  const {
+    beamLength,
+    setBeamLength,
+    materialGrade,
+    setMaterialGrade,
+    sectionDepth,
+    setSectionDepth,
+    profileCode,
+    setProfileCode,
+    customSection,
+  } = useReactionStore();
+  const hasSection = profileCode !== null || customSection !== null;
+  const isStiffnessOnly = MATERIALS.some(m => m.grade === materialGrade && m.type !== 'steel');
   const [lengthInput, setLengthInput] = React.useState(beamLength.toString());
+  const [depthInput, setDepthInput] = React.useState(sectionDepth.toString());
 
   React.useEffect(() => {
     setLengthInput(beamLength.toString());
   }, [beamLength]);
 
+  React.useEffect(() => {
+    setDepthInput(sectionDepth.toString());
+  }, [sectionDepth]);
+
   const handleLengthChange = (text: string) => {
     setLengthInput(text);
     const val = parseNumberSafe(text);
@@ -204,6 +341,14 @@ const BeamConfig: React.FC = () => {
     }
   };
 
+  const handleDepthChange = (text: string) => {
+    setDepthInput(text);
+    const val = parseNumberSafe(text);
+    if (val > 0) {
+      setSectionDepth(val);
+    }
+  };
+
   return (
     <RetroCard style={styles.section}>
       <Text style={styles.retroSectionTitle}>KİRİŞ ÖZELLİKLERİ</Text>
@@ -216,6 +361,62 @@ const BeamConfig: React.FC = () => {
         placeholder="6.0"
         placeholderTextColor={Colors.retro.gray}
       />
+
+      {/* Material: E for stiffness, α for thermal loads */}
+      <Text style={styles.modalLabel}>MALZEME:</Text>
+      <View style={styles.materialChipRow}>
+        {[null, ...MATERIALS].map(material => {
+          const grade = material?.grade ?? null;
+          const isActive = materialGrade === grade;
+          return (
+            <TouchableOpacity
+              key={grade ?? 'default'}
+              style={[styles.materialChip, isActive && styles.materialChipActive]}
+              onPress={() => setMaterialGrade(grade)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.materialChipText, isActive && styles.materialChipTextActive]}>
+                {material ? `${grade}${material.type === 'steel' ? '' : ' (E)'}` : 'VARSAYILAN'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {isStiffnessOnly && (
+        <Text style={styles.modalLabel}>(E): yalnızca rijitlik · tasarım kontrolü çelik sınıfı ister</Text>
+      )}
+
+      {/* Profile: W, I, A and h for the solver and the design check */}
+      <Text style={styles.modalLabel}>PROFİL:</Text>
+      <View style={styles.materialChipRow}>
+        <TouchableOpacity
+          style={[styles.materialChip, !hasSection && styles.materialChipActive]}
+          onPress={() => setProfileCode(null)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.materialChipText, !hasSection && styles.materialChipTextActive]}>
+            {profileCode ? profileCode.replace('_', ' ') : customSection ? 'ÖZEL KESİT' : 'VARSAYILAN'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {customSection && (
+        <Text style={styles.modalLabel}>Kesit özellikleri ekranından aktarıldı · sıfırlamak için dokunun</Text>
+      )}
+      <ProfilePicker selectedCode={profileCode} onSelect={setProfileCode} shapes={BEAM_PROFILE_SHAPES} />
+
+      {!hasSection && (
+        <>
+          <Text style={styles.modalLabel}>KESİT YÜKSEKLİĞİ h (mm):</Text>
+          <TextInput
+            style={styles.retroInput}
+            value={depthInput}
+            onChangeText={handleDepthChange}
+            keyboardType="decimal-pad"
+            placeholder="300"
+            placeholderTextColor={Colors.retro.gray}
+          />
+        </>
+      )}
     </RetroCard>
   );
 };
@@ -225,7 +426,7 @@ const BeamConfig: React.FC = () => {
 // ============================================================================
 
 const SupportManager: React.FC = () => {
-  const { supports, removeSupport } = useReactionStore();
+  const { supports, hinges, removeSupport, removeHinge } = useReactionStore();
   const [showAddModal, setShowAddModal] = React.useState(false);
 
   const getSupportLabel = (support: Support): string => {
@@ -236,11 +437,20 @@ const SupportManager: React.FC = () => {
         return 'MAFSALLI MESNET';
       case SupportType.ROLLER:
         return 'HAREKETLİ MESNET';
+      case SupportType.GUIDED:
+        return 'KAYICI MESNET';
       default:
         return 'MESNET';
     }
   };
 
+  const formatSupportSubtitle = (support: Support): string => {
+    let subtitle = `X-POS = ${support.position.toFixed(2)}m`;
+    if (support.displacement) subtitle += ` | δ = ${support.displacement.toFixed(1)}mm`;
+    if (support.rotation) subtitle += ` | θ = ${support.rotation.toFixed(4)}rad`;
+    return subtitle;
+  };
+
   return (
     <RetroCard style={styles.section}>
       <View style={styles.sectionHeader}>
@@ -259,10 +469,18 @@ const SupportManager: React.FC = () => {
           <ListItemRow
             key={index}
             title={getSupportLabel(support)}
-            subtitle={`X-POS = ${support.position.toFixed(2)}m`}
+            subtitle={formatSupportSubtitle(support)}
             onRemove={() => removeSupport(index)}
           />
         ))}
+        {hinges.map((hinge, index) => (
+          <ListItemRow
+            key={`hinge-${index}`}
+            title="İÇ MAFSAL"
+            subtitle={`X-POS = ${hinge.toFixed(2)}m (M = 0)`}
+            onRemove={() => removeHinge(index)}
+          />
+        ))}
         {supports.length === 0 && (
           <EmptyList message="Mesnet ekleyin veya preset seçin" />
         )}
@@ -305,7 +523,7 @@ const LoadManager: React.FC = () => {
         {loads.map((load, index) => (
           <ListItemRow
             key={index}
-            title={getLoadTypeLabel(load.type)}
+            title={`${getLoadTypeLabel(load.type)} (${getLoadTypeSymbol(getLoadCaseType(load))})`}
             subtitle={formatLoadDescription(load)}
             onRemove={() => removeLoad(index)}
           />
@@ -330,9 +548,42 @@ const LoadManager: React.FC = () => {
 // ============================================================================
 
 const ResultsScreen: React.FC = () => {
-  const { results, setShowResults, beamLength, supports, loads } = useReactionStore();
+  const {
+    results,
+    setShowResults,
+    beamLength,
+    supports,
+    hinges,
+    loads,
+    materialGrade,
+    sectionDepth,
+    profileCode,
+    customSection,
+  } = useReactionStore();
   const insets = useSafeAreaInsets();
 
+  // Same configuration the store solved, for the solution trace
+  const analysisConfig = useMemo(
+    () => ({
+      length: beamLength,
+      supports,
+      hinges,
+      loads,
+      materialGrade: materialGrade ?? undefined,
+      ...getReactionSectionConfig({ profileCode, customSection, sectionDepth }),
+    }),
+    [beamLength, supports, hinges, loads, materialGrade, sectionDepth, profileCode, customSection]
+  );
+
+  // Load cases solved separately and combined, for the envelope diagrams
+  const envelope = useMemo(() => calculateEnvelope(analysisConfig), [analysisConfig]);
+
+  // Geometry only: influence lines place their own unit load
+  const influenceConfig = useMemo(
+    () => ({ length: beamLength, supports, hinges, loads: [] }),
+    [beamLength, supports, hinges]
+  );
+
   if (!results || !results.isValid) {
     return (
       <SafeAreaView style={[styles.safeArea, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
@@ -355,6 +606,7 @@ const ResultsScreen: React.FC = () => {
     if (support.type === SupportType.FIXED) return 'SABİT';
     if (support.type === SupportType.PINNED) return 'MAFSALLI';
     if (support.type === SupportType.ROLLER) return 'DÖNER';
+    if (support.type === SupportType.GUIDED) return 'KAYICI';
     return '';
   };
 
@@ -382,7 +634,17 @@ const ResultsScreen: React.FC = () => {
         <View style={styles.resultValues}>
           <Text style={styles.resultValue}>Kiriş Uzunluğu: L = {beamLength.toFixed(1)} m</Text>
           <Text style={styles.resultValue}>Mesnet Sayısı: {supports.length}</Text>
+          {hinges.length > 0 && (
+            <Text style={styles.resultValue}>İç Mafsal Sayısı: {hinges.length}</Text>
+          )}
           <Text style={styles.resultValue}>Yük Sayısı: {loads.length}</Text>
+          {results.determinacy && (
+            <Text style={styles.resultValue}>
+              {results.determinacy.degree === 0
+                ? `İzostatik (r = ${results.determinacy.unknowns}, denklem = ${results.determinacy.equations})`
+                : `${results.determinacy.degree}. derece hiperstatik (r = ${results.determinacy.unknowns}, denklem = ${results.determinacy.equations})`}
+            </Text>
+          )}
         </View>
       </View>
 
@@ -469,8 +731,27 @@ const ResultsScreen: React.FC = () => {
         </View>
       )}
 
+      {/* Hand-calculation trace */}
+      <SolutionStepsPanel config={analysisConfig} results={results} />
+
       {/* Diagrams */}
-      <ReactionDiagrams results={results} />
+      <ReactionDiagrams results={results} envelope={envelope} />
+
+      {/* Exact piecewise equations */}
+      <SegmentEquationsView results={results} />
+
+      {/* Section, steel grade and load combinations */}
+      <BeamDesignPanel
+        config={analysisConfig}
+        section={getReactionDesignSection({ profileCode, customSection })}
+        steelGrade={materialGrade}
+      />
+
+      {/* Checkerboard live load arrangements */}
+      <PatternLoadingView config={analysisConfig} />
+
+      {/* Influence lines and moving loads */}
+      <InfluenceLineView config={influenceConfig} />
     </ScrollView>
     </SafeAreaView>
   );
@@ -593,6 +874,34 @@ const styles = StyleSheet.create({
     marginTop: Spacing.md,
     marginBottom: 4,
   },
+  materialChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  materialChip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.retro.gray,
+    borderRadius: 2,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  materialChipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  materialChipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: 10,
+    color: Colors.retro.text,
+  },
+  materialChipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
 
   // Lists
   itemList: {
@@ -680,6 +989,11 @@ const styles = StyleSheet.create({
     width: 30,
     zIndex: 2,
   },
+  hingeSymbol: {
+    position: 'absolute',
+    top: BEAM_VIEW_HEIGHT / 2 - 6,
+    zIndex: 3,
+  },
   supportLabel: {
     position: 'absolute',
     bottom: -20,
@@ -121,6 +121,79 @@ export const FixedSupportIcon: React.FC<{
   );
 };
 
+export const GuidedSupportIcon: React.FC<{ 
+  size?: number;
+  width?: number;
+  height?: number;
+  color?: Color;
+}> = ({ 
+  size = 20, 
+  width = size,
+  height = size,
+  color = '#FFB000'
+}) => {
+  const path = useMemo(() => {
+    const p = Skia.Path.Make();
+    // Slider plates
+    p.moveTo(6, 4);
+    p.lineTo(6, 20);
+    p.moveTo(10, 4);
+    p.lineTo(10, 20);
+    // Guide wall with hatching
+    p.moveTo(14, 2);
+    p.lineTo(14, 22);
+    p.moveTo(14, 8);
+    p.lineTo(18, 4);
+    p.moveTo(14, 14);
+    p.lineTo(18, 10);
+    p.moveTo(14, 20);
+    p.lineTo(18, 16);
+    return p;
+  }, []);
+  
+  return (
+    <View style={styles.iconContainer}>
+      <Canvas style={{ width, height }}>
+        <Path
+          path={path}
+          color={color}
+          style="stroke"
+          strokeWidth={2}
+        />
+      </Canvas>
+    </View>
+  );
+};
+
+export const HingeIcon: React.FC<{ 
+  size?: number;
+  color?: Color;
+}> = ({ 
+  size = 12, 
+  color = '#FFB000'
+}) => {
+  return (
+    <View style={styles.iconContainer}>
+      <Canvas style={{ width: size, height: size }}>
+        <Circle
+          cx={size / 2}
+          cy={size / 2}
+          r={size / 2 - 1.5}
+          color="#000000"
+        />
+        <Circle
+          cx={size / 2}
+          cy={size / 2}
+          r={size / 2 - 1.5}
+          color={color}
+          style="stroke"
+          strokeWidth={1.5}
+        />
+      </Canvas>
+    </View>
+  );
+};
+
 // ============================================================================
 // LOAD ICONS (Yük İkonları)
 // ============================================================================
@@ -358,12 +431,197 @@ export const TriangularLoadIcon: React.FC<{
   );
 };
 
+export const PolylineLoadIcon: React.FC<{ 
+  points: { position: number; magnitude: number }[]; // Scaled to fit the icon
+  width?: number;
+  height?: number;
+  label?: string;
+  color?: Color;
+  labelColor?: Color;
+}> = ({ 
+  points,
+  width = 60,
+  height = 30,
+  label,
+  color = '#FFB000',
+  labelColor = '#FFB000'
+}) => {
+  const profilePath = useMemo(() => {
+    const p = Skia.Path.Make();
+    if (points.length < 2) return p;
+
+    const x0 = points[0].position;
+    const span = points[points.length - 1].position - x0 || 1;
+    const qMax = Math.max(...points.map(pt => Math.abs(pt.magnitude)), 1e-9);
+    const toX = (x: number) => ((x - x0) / span) * (width - 2) + 1;
+    const toY = (q: number) => height - 1 - (Math.abs(q) / qMax) * (height - 4);
+
+    // Outline closed on the baseline, with a tick at every vertex
+    p.moveTo(toX(points[0].position), height - 1);
+    for (const pt of points) p.lineTo(toX(pt.position), toY(pt.magnitude));
+    p.lineTo(toX(points[points.length - 1].position), height - 1);
+    p.close();
+    for (const pt of points) {
+      p.moveTo(toX(pt.position), toY(pt.magnitude));
+      p.lineTo(toX(pt.position), height - 1);
+    }
+    return p;
+  }, [points, width, height]);
+  
+  return (
+    <View style={styles.triangularContainer}>
+      <Canvas style={{ width, height }}>
+        <Path
+          path={profilePath}
+          color={color}
+          style="stroke"
+          strokeWidth={1.5}
+        />
+      </Canvas>
+      {label && (
+        <Text style={[styles.triangularLabel, { color: labelColor as string }]}>
+          {label}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+export const LinearLoadIcon: React.FC<{ 
+  startMagnitude: number;
+  endMagnitude: number;
+  width?: number;
+  height?: number;
+  label?: string;
+  color?: Color;
+  labelColor?: Color;
+}> = ({ startMagnitude, endMagnitude, ...rest }) => {
+  const points = useMemo(
+    () => [
+      { position: 0, magnitude: startMagnitude },
+      { position: 1, magnitude: endMagnitude },
+    ],
+    [startMagnitude, endMagnitude]
+  );
+  return <PolylineLoadIcon points={points} {...rest} />;
+};
+
+export const InclinedLoadIcon: React.FC<{ 
+  angle: number; // ° from +x axis, counterclockwise
+  size?: number;
+  width?: number;
+  height?: number;
+  label?: string;
+  color?: Color;
+  labelColor?: Color;
+}> = ({ 
+  angle,
+  size = 24, 
+  width = size,
+  height = size,
+  label,
+  color = '#FFB000',
+  labelColor = '#FFB000'
+}) => {
+  const arrowPath = useMemo(() => {
+    // Screen y grows downward, so the vertical component is flipped
+    const rad = (angle * Math.PI) / 180;
+    const dx = Math.cos(rad);
+    const dy = -Math.sin(rad);
+    const cx = width / 2;
+    const cy = height / 2;
+    const half = Math.min(width, height) * 0.4;
+    const tipX = cx + dx * half;
+    const tipY = cy + dy * half;
+    const head = half * 0.5;
+
+    const p = Skia.Path.Make();
+    p.moveTo(cx - dx * half, cy - dy * half);
+    p.lineTo(tipX, tipY);
+    p.moveTo(tipX, tipY);
+    p.lineTo(tipX - head * (dx * 0.87 - dy * 0.5), tipY - head * (dy * 0.87 + dx * 0.5));
+    p.moveTo(tipX, tipY);
+    p.lineTo(tipX - head * (dx * 0.87 + dy * 0.5), tipY - head * (dy * 0.87 - dx * 0.5));
+    return p;
+  }, [angle, width, height]);
+  
+  return (
+    <View style={styles.pointLoadContainer}>
+      <Canvas style={{ width, height }}>
+        <Path
+          path={arrowPath}
+          color={color}
+          style="stroke"
+          strokeWidth={2}
+        />
+      </Canvas>
+      {label && (
+        <Text style={[styles.pointLoadLabel, { color: labelColor as string }]}>
+          {label}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+export const ThermalLoadIcon: React.FC<{ 
+  topTemperature: number;    // °C
+  bottomTemperature: number; // °C
+  width?: number;
+  height?: number;
+  label?: string;
+  color?: Color;
+  labelColor?: Color;
+}> = ({ 
+  topTemperature,
+  bottomTemperature,
+  width = 60,
+  height = 30,
+  label,
+  color = '#FFB000',
+  labelColor = '#FFB000'
+}) => {
+  const profilePath = useMemo(() => {
+    // Section outline with the through-depth temperature profile beside it
+    const p = Skia.Path.Make();
+    const depthW = width * 0.4;
+    p.addRect(Skia.XYWHRect(1, 1, depthW, height - 2));
+
+    const axisX = depthW + (width - depthW) / 2;
+    const tMax = Math.max(Math.abs(topTemperature), Math.abs(bottomTemperature), 1e-9);
+    const half = (width - depthW) / 2 - 2;
+    p.moveTo(axisX, 1);
+    p.lineTo(axisX, height - 1);
+    p.moveTo(axisX + (topTemperature / tMax) * half, 1);
+    p.lineTo(axisX + (bottomTemperature / tMax) * half, height - 1);
+    return p;
+  }, [topTemperature, bottomTemperature, width, height]);
+  
+  return (
+    <View style={styles.triangularContainer}>
+      <Canvas style={{ width, height }}>
+        <Path
+          path={profilePath}
+          color={color}
+          style="stroke"
+          strokeWidth={1.5}
+        />
+      </Canvas>
+      {label && (
+        <Text style={[styles.triangularLabel, { color: labelColor as string }]}>
+          {label}
+        </Text>
+      )}
+    </View>
+  );
+};
+
 // ============================================================================
 // MAIN ICON COMPONENT (Tüm ikonları tek bileşende)
 // ============================================================================
 
 export const SupportIcon: React.FC<{ 
-  type: 'pinned' | 'roller' | 'fixed';
+  type: 'pinned' | 'roller' | 'fixed' | 'guided';
   size?: number;
   color?: Color;
 }> = ({ type, size = 20, color = '#FFB000' }) => {
@@ -374,14 +632,19 @@ export const SupportIcon: React.FC<{
       return <RollerSupportIcon width={size} height={size} color={color} />;
     case 'fixed':
       return <FixedSupportIcon width={size} height={size} color={color} />;
+    case 'guided':
+      return <GuidedSupportIcon width={size} height={size} color={color} />;
     default:
       return null;
   }
 };
 
 export const LoadIcon: React.FC<{ 
-  type: 'point' | 'udl' | 'moment' | 'triangular';
+  type: 'point' | 'udl' | 'moment' | 'triangular' | 'inclined' | 'axial' | 'linear' | 'polyline' | 'thermal';
   direction?: 'down' | 'up';
+  angle?: number;
+  profile?: { position: number; magnitude: number }[];
+  temperatures?: { top: number; bottom: number }; // °C
   magnitude?: number;
   width?: number;
   height?: number;
@@ -391,6 +654,9 @@ export const LoadIcon: React.FC<{
 }> = ({ 
   type, 
   direction = 'down', 
+  angle = -90,
+  profile = [],
+  temperatures = { top: 0, bottom: 0 },
   magnitude, 
   width, 
   height,
@@ -442,6 +708,52 @@ export const LoadIcon: React.FC<{
           labelColor={labelColor}
         />
       );
+    case 'inclined':
+      return (
+        <InclinedLoadIcon
+          angle={angle}
+          width={width || 24}
+          height={height || 24}
+          label={label ?? (magnitude ? `${Math.abs(magnitude).toFixed(1)}kN ∠${angle.toFixed(0)}°` : undefined)}
+          color={color}
+          labelColor={labelColor}
+        />
+      );
+    case 'axial':
+      return (
+        <InclinedLoadIcon
+          angle={magnitude !== undefined && magnitude < 0 ? 180 : 0}
+          width={width || 24}
+          height={height || 24}
+          label={label ?? (magnitude ? `N=${Math.abs(magnitude).toFixed(1)}kN` : undefined)}
+          color={color}
+          labelColor={labelColor}
+        />
+      );
+    case 'linear':
+    case 'polyline':
+      return (
+        <PolylineLoadIcon
+          points={profile}
+          width={width || 60}
+          height={height || 30}
+          label={label}
+          color={color}
+          labelColor={labelColor}
+        />
+      );
+    case 'thermal':
+      return (
+        <ThermalLoadIcon
+          topTemperature={temperatures.top}
+          bottomTemperature={temperatures.bottom}
+          width={width || 60}
+          height={height || 30}
+          label={label}
+          color={color}
+          labelColor={labelColor}
+        />
+      );
     default:
       return null;
   }
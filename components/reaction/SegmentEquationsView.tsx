@@ -0,0 +1,133 @@
+// ============================================================================
+// SEGMENT EQUATIONS VIEW
+// Exact piecewise V(x), M(x) and v(x) of the selected beam segment
+// ============================================================================
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { KatexRender } from '@/components/math';
+import { Colors, Typography, Spacing } from '@/utils/theme';
+import { evaluatePolynomial, type AnalysisResults } from '@/utils/structural/reactionCalculator';
+import { formatSegmentEquations } from '@/utils/structural/solutionSteps';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SegmentEquationsViewProps {
+  results: AnalysisResults;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const SegmentEquationsView: React.FC<SegmentEquationsViewProps> = ({ results }) => {
+  const [segmentIndex, setSegmentIndex] = useState(0);
+  const { segments, zeroShearPoints } = results;
+
+  if (segments.length === 0) return null;
+
+  // One segment at a time keeps the number of KaTeX views small
+  const segment = segments[Math.min(segmentIndex, segments.length - 1)];
+  const equations = formatSegmentEquations(segment);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>PARÇALI DENKLEMLER</Text>
+
+      <View style={styles.chipRow}>
+        {segments.map((s, i) => {
+          const isActive = s === segment;
+          return (
+            <TouchableOpacity
+              key={`segment-${i}`}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => setSegmentIndex(i)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                {s.start.toFixed(2)}–{s.end.toFixed(2)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <KatexRender formula={equations.shear} color={Colors.engineering.shear} fontSize={Typography.sizes.sm} />
+      <KatexRender formula={equations.moment} color={Colors.engineering.moment} fontSize={Typography.sizes.sm} />
+      {equations.deflection && (
+        <KatexRender
+          formula={equations.deflection}
+          color={Colors.engineering.deflection}
+          fontSize={Typography.sizes.sm}
+        />
+      )}
+
+      {zeroShearPoints.map((x, i) => {
+        const owner = segments.find(s => x >= s.start && x <= s.end);
+        const moment = owner ? evaluatePolynomial(owner.moment, x) : 0;
+        return (
+          <Text key={`zero-${i}`} style={styles.note}>
+            V = 0 @ x = {x.toFixed(3)} m → M = {moment.toFixed(2)} kNm
+          </Text>
+        );
+      })}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.amber.dim,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.cyan,
+    fontWeight: 'bold',
+    marginBottom: Spacing.sm,
+    letterSpacing: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    borderRadius: 2,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  note: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[300],
+    marginTop: Spacing.xs,
+  },
+});
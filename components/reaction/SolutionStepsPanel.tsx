@@ -0,0 +1,117 @@
+// ============================================================================
+// SOLUTION STEPS PANEL
+// Collapsible hand-calculation trace for the results screen
+// ============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { KatexRender } from '@/components/math';
+import { Colors, Typography, Spacing } from '@/utils/theme';
+import type { AnalysisResults, BeamConfig } from '@/utils/structural/reactionCalculator';
+import { generateSolutionSteps } from '@/utils/structural/solutionSteps';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SolutionStepsPanelProps {
+  config: BeamConfig;
+  results: AnalysisResults;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const SolutionStepsPanel: React.FC<SolutionStepsPanelProps> = ({ config, results }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  // Each equation is a KaTeX view, so nothing is built until the panel opens
+  const steps = useMemo(
+    () => (expanded ? generateSolutionSteps(config, results) : []),
+    [expanded, config, results]
+  );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded(!expanded)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.title}>ÇÖZÜM ADIMLARI</Text>
+        <Text style={styles.toggle}>{expanded ? '▲' : '▼'}</Text>
+      </TouchableOpacity>
+
+      {expanded &&
+        steps.map(step => (
+          <View key={step.title} style={styles.step}>
+            <Text style={styles.stepTitle}>{step.title}</Text>
+            {step.notes.map((note, i) => (
+              <Text key={`note-${i}`} style={styles.note}>
+                {note}
+              </Text>
+            ))}
+            {step.equations.map((equation, i) => (
+              <KatexRender
+                key={`eq-${i}`}
+                formula={equation}
+                color={Colors.retro.cyan}
+                fontSize={Typography.sizes.sm}
+              />
+            ))}
+          </View>
+        ))}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.amber.dim,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    minHeight: 44,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.cyan,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  toggle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.cyan,
+  },
+  step: {
+    marginTop: Spacing.sm,
+    padding: Spacing.sm,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+  },
+  stepTitle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.amber.secondary,
+    fontWeight: 'bold',
+    marginBottom: Spacing.xs,
+  },
+  note: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[300],
+    marginBottom: 2,
+  },
+});
@@ -1,3 +1,8 @@
 export { ReactionScreen } from './ReactionScreen';
 export { ReactionDiagrams } from './ReactionDiagrams';
 export { BeamTypeSelector } from './BeamTypeSelector';
+export { InfluenceLineView } from './InfluenceLineView';
+export { SolutionStepsPanel } from './SolutionStepsPanel';
+export { SegmentEquationsView } from './SegmentEquationsView';
+export { BeamDesignPanel } from './BeamDesignPanel';
+export { PatternLoadingView } from './PatternLoadingView';
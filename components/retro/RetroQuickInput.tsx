@@ -27,7 +27,7 @@ export interface RetroQuickInputProps {
   quickValueLabels?: string[];
   placeholder?: string;
   error?: string;
-  keyboardType?: 'decimal-pad' | 'numeric' | 'number-pad';
+  keyboardType?: 'decimal-pad' | 'numeric' | 'number-pad' | 'default';
   style?: ViewStyle;
   inputStyle?: TextStyle;
 }
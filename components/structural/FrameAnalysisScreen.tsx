@@ -0,0 +1,548 @@
+// ============================================================================
+// FRAME ANALYSIS SCREEN - Düzlem Çerçeve Analiz Ekranı
+// Rijitlik matrisi yöntemi ile kiriş-kolon çerçeve hesabı ve N, V, M diyagramları
+// ============================================================================
+
+import React, { useState, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import {
+  analyzeFrame,
+  FRAME_PRESETS,
+  FRAME_LABELS,
+  getFramePreset,
+  type FrameMemberLoad,
+  type FrameResults,
+  type FrameSupport,
+} from '@/utils/structural/frameCalculator';
+import { FrameDiagramView } from './FrameDiagramView';
+
+const SUPPORT_LABELS: Record<FrameSupport, string> = {
+  fixed: 'ANKASTRE',
+  pin: 'SABİT',
+  roller: 'KAYICI',
+};
+
+const describeMemberLoad = (load: FrameMemberLoad) => {
+  const unit = load.type === 'udl' ? 'kN/m' : 'kN';
+  const axes = load.system === 'global' ? 'global' : 'yerel';
+  const position = load.type === 'point' ? ` @ ${load.position ?? 0} m` : '';
+  return `${load.type === 'udl' ? 'Yayılı' : 'Tekil'} (${axes}): qx ${load.qx}, qy ${load.qy} ${unit}${position}`;
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface FrameAnalysisScreenProps {
+  onBack: () => void;
+}
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+const RetroButton: React.FC<{
+  label: string;
+  onPress: () => void;
+  color?: string;
+}> = ({ label, onPress, color = Colors.retro.secondary }) => (
+  <TouchableOpacity
+    style={[styles.retroButton, { backgroundColor: color, borderColor: Colors.black }]}
+    onPress={onPress}
+  >
+    <Text style={styles.retroButtonText}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const ResultRow: React.FC<{ label: string; value: string | number; unit?: string }> = ({
+  label,
+  value,
+  unit,
+}) => (
+  <View style={styles.resultRow}>
+    <Text style={styles.resultLabel}>{label}</Text>
+    <Text style={styles.resultValue}>
+      {typeof value === 'number' ? value.toFixed(2) : value} {unit || ''}
+    </Text>
+  </View>
+);
+
+// ============================================================================
+// MAIN SCREEN
+// ============================================================================
+
+export const FrameAnalysisScreen: React.FC<FrameAnalysisScreenProps> = ({ onBack }) => {
+  const [selectedPreset, setSelectedPreset] = useState<string>('portal-fixed');
+  const [results, setResults] = useState<FrameResults | null>(null);
+  const [analyzedPreset, setAnalyzedPreset] = useState<string>('portal-fixed');
+  const [selectedTab, setSelectedTab] = useState<'input' | 'results'>('input');
+
+  const presetConfig = useMemo(() => getFramePreset(selectedPreset), [selectedPreset]);
+  const analyzedConfig = useMemo(() => getFramePreset(analyzedPreset), [analyzedPreset]);
+
+  const handleAnalyze = () => {
+    if (presetConfig) {
+      setAnalyzedPreset(selectedPreset);
+      setResults(analyzeFrame(presetConfig));
+      setSelectedTab('results');
+    }
+  };
+
+  const renderPresetSelector = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>[ ÇERÇEVE_TİPİ_SEÇİMİ ]</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.presetScroll}>
+        {Object.keys(FRAME_PRESETS).map(key => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.presetCard, selectedPreset === key && styles.presetCardSelected]}
+            onPress={() => setSelectedPreset(key)}
+          >
+            <Text style={styles.presetName}>{FRAME_LABELS[key]}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
+  const renderModel = () => {
+    if (!presetConfig) return null;
+    return (
+      <>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>[ DÜĞÜMLER ]</Text>
+          {presetConfig.nodes.map(node => (
+            <View key={node.id} style={styles.nodeCard}>
+              <View style={styles.nodeHeader}>
+                <Text style={styles.nodeId}>{node.id}</Text>
+                <Text style={styles.nodeType}>{node.support ? SUPPORT_LABELS[node.support] : 'SERBEST'}</Text>
+              </View>
+              <View style={styles.nodeCoords}>
+                <Text style={styles.coordText}>X: {node.x.toFixed(1)}m</Text>
+                <Text style={styles.coordText}>Y: {node.y.toFixed(1)}m</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>[ ÇUBUKLAR ]</Text>
+          {presetConfig.members.map(member => (
+            <View key={member.id} style={styles.loadCard}>
+              <Text style={styles.loadNode}>
+                {member.id}
+                {member.releaseStart ? ' ◦' : ''}
+                {member.releaseEnd ? ' ◦' : ''}
+              </Text>
+              <Text style={styles.loadText}>
+                {member.nodeStartId} → {member.nodeEndId}
+                {member.releaseStart || member.releaseEnd ? ' · mafsallı uç' : ''}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>[ YÜKLER ]</Text>
+          {presetConfig.nodalLoads.map((load, idx) => (
+            <View key={`node-${idx}`} style={styles.loadCard}>
+              <Text style={styles.loadNode}>Düğüm: {load.nodeId}</Text>
+              <View style={styles.loadValues}>
+                <Text style={styles.loadText}>Fx: {load.fx} kN</Text>
+                <Text style={styles.loadText}>Fy: {load.fy} kN</Text>
+                <Text style={styles.loadText}>M: {load.m} kNm</Text>
+              </View>
+            </View>
+          ))}
+          {presetConfig.memberLoads.map((load, idx) => (
+            <View key={`member-${idx}`} style={styles.loadCard}>
+              <Text style={styles.loadNode}>Çubuk: {load.memberId}</Text>
+              <Text style={styles.loadText}>{describeMemberLoad(load)}</Text>
+            </View>
+          ))}
+        </View>
+      </>
+    );
+  };
+
+  const renderResults = () => {
+    if (!results) return null;
+
+    if (!results.isValid) {
+      return (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorTitle}>HATA</Text>
+          <Text style={styles.errorMessage}>{results.errorMessage}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.section}>
+        <ResultRow label="SİSTEM" value={FRAME_LABELS[analyzedPreset]} />
+        <ResultRow
+          label="HİPERSTATİKLİK DERECESİ"
+          value={results.degree === 0 ? 'İZOSTATİK' : `${results.degree}`}
+        />
+
+        {analyzedConfig && <FrameDiagramView config={analyzedConfig} results={results} />}
+
+        <Text style={[styles.sectionTitle, styles.sectionTitleSpacer]}>[ REAKSİYONLAR ]</Text>
+        {results.reactions.map(reaction => (
+          <View key={reaction.nodeId} style={styles.reactionCard}>
+            <Text style={styles.reactionNode}>{reaction.nodeId} Mesnet</Text>
+            <View style={styles.reactionValues}>
+              <Text style={styles.reactionText}>Rx: {reaction.rx.toFixed(2)} kN</Text>
+              <Text style={styles.reactionText}>Ry: {reaction.ry.toFixed(2)} kN</Text>
+              <Text style={styles.reactionText}>M: {reaction.m.toFixed(2)} kNm</Text>
+            </View>
+          </View>
+        ))}
+
+        <Text style={[styles.sectionTitle, styles.sectionTitleSpacer]}>[ DÜĞÜM DEPLASMANLARI ]</Text>
+        {results.displacements.map(disp => (
+          <View key={disp.nodeId} style={styles.reactionCard}>
+            <Text style={styles.reactionNode}>{disp.nodeId}</Text>
+            <View style={styles.reactionValues}>
+              <Text style={styles.reactionText}>δx: {disp.dx.toFixed(3)} mm</Text>
+              <Text style={styles.reactionText}>δy: {disp.dy.toFixed(3)} mm</Text>
+              <Text style={styles.reactionText}>θ: {disp.rotation.toExponential(2)}</Text>
+            </View>
+          </View>
+        ))}
+
+        <Text style={[styles.sectionTitle, styles.sectionTitleSpacer]}>[ ÇUBUK UÇ KUVVETLERİ ]</Text>
+        {results.memberResults.map(mr => (
+          <View key={mr.memberId} style={styles.memberCard}>
+            <Text style={styles.memberId}>
+              Çubuk {mr.memberId} · L = {mr.length.toFixed(2)} m
+            </Text>
+            <View style={styles.memberValues}>
+              <Text style={styles.memberStress}>
+                Baş: N {(-mr.start.fx).toFixed(2)} · V {mr.start.fy.toFixed(2)} · M {(-mr.start.m).toFixed(2)}
+              </Text>
+              <Text style={styles.memberStress}>
+                Son: N {mr.end.fx.toFixed(2)} · V {(-mr.end.fy).toFixed(2)} · M {mr.end.m.toFixed(2)}
+              </Text>
+              <Text style={[styles.memberForce, { color: Colors.engineering.moment }]}>
+                maks N {mr.maxNormal.toFixed(2)} kN · V {mr.maxShear.toFixed(2)} kN · M {mr.maxMoment.toFixed(2)} kNm
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← GERİ</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>ÇERÇEVE_ANALİZ</Text>
+      </View>
+
+      {/* Tab Selector */}
+      <View style={styles.tabContainer}>
+        <TouchableOpacity
+          style={[styles.tab, selectedTab === 'input' && styles.tabSelected]}
+          onPress={() => setSelectedTab('input')}
+        >
+          <Text style={[styles.tabText, selectedTab === 'input' && styles.tabTextSelected]}>GİRİŞ</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, selectedTab === 'results' && styles.tabSelected]}
+          onPress={() => setSelectedTab('results')}
+        >
+          <Text style={[styles.tabText, selectedTab === 'results' && styles.tabTextSelected]}>SONUÇLAR</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Content */}
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {selectedTab === 'input' && (
+          <>
+            {renderPresetSelector()}
+            {renderModel()}
+            <View style={styles.buttonContainer}>
+              <RetroButton label="ANALİZ ET" onPress={handleAnalyze} color={Colors.retro.secondary} />
+            </View>
+          </>
+        )}
+        {selectedTab === 'results' && renderResults()}
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.ide.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    backgroundColor: Colors.ide.header,
+    borderBottomWidth: Shapes.borderWidth.brutal,
+    borderBottomColor: Colors.black,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.ide.selection,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    marginRight: Spacing.md,
+  },
+  backButtonText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: 'bold',
+  },
+  headerTitle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.md,
+    color: Colors.amber.primary,
+    fontWeight: 'bold',
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: Colors.black,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: Colors.gray[600],
+  },
+  tabSelected: {
+    borderBottomColor: Colors.amber.primary,
+  },
+  tabText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.gray[600],
+    fontWeight: 'bold',
+  },
+  tabTextSelected: {
+    color: Colors.amber.primary,
+  },
+  content: {
+    flex: 1,
+    padding: Spacing.md,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  sectionTitleSpacer: {
+    marginTop: Spacing.md,
+  },
+  presetScroll: {
+    flexDirection: 'row',
+  },
+  presetCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    padding: Spacing.sm,
+    marginRight: Spacing.sm,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  presetCardSelected: {
+    backgroundColor: Colors.amber.secondary,
+  },
+  presetName: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.black,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  nodeCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  nodeHeader: {
+    flex: 1,
+  },
+  nodeId: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: 'bold',
+  },
+  nodeType: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    marginTop: 2,
+  },
+  nodeCoords: {
+    alignItems: 'flex-end',
+  },
+  coordText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+  },
+  loadCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+    gap: 2,
+  },
+  loadNode: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.amber.secondary,
+    fontWeight: 'bold',
+  },
+  loadValues: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  loadText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+  },
+  buttonContainer: {
+    marginTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  retroButton: {
+    paddingVertical: 12,
+    paddingHorizontal: Spacing.lg,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderRadius: 0,
+    alignItems: 'center',
+    minHeight: 44,
+  },
+  retroButtonText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  errorContainer: {
+    backgroundColor: Colors.retro.primary,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    padding: Spacing.lg,
+    alignItems: 'center',
+  },
+  errorTitle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.md,
+    color: Colors.black,
+    fontWeight: 'bold',
+    marginBottom: Spacing.sm,
+  },
+  errorMessage: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.black,
+    textAlign: 'center',
+  },
+  reactionCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  reactionNode: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.retro.secondary,
+    fontWeight: 'bold',
+    marginBottom: Spacing.xs,
+  },
+  reactionValues: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.md,
+  },
+  reactionText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+  },
+  memberCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  memberId: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.amber.secondary,
+    fontWeight: 'bold',
+    marginBottom: Spacing.xs,
+  },
+  memberValues: {
+    gap: 2,
+  },
+  memberForce: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    fontWeight: 'bold',
+  },
+  memberStress: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+  },
+  resultRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray[700],
+  },
+  resultLabel: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.gray[600],
+  },
+  resultValue: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: 'bold',
+  },
+});
+
+export default FrameAnalysisScreen;
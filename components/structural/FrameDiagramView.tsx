@@ -0,0 +1,207 @@
+// ============================================================================
+// FRAME DIAGRAM VIEW - Çerçeve Kesit Tesiri Diyagramları
+// N, V and M drawn on the members of the frame
+// ============================================================================
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
+import { Canvas, Circle, Path, Skia } from '@shopify/react-native-skia';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import type { FrameConfig, FrameDiagramPoint, FrameResults } from '@/utils/structural/frameCalculator';
+
+const { width } = Dimensions.get('window');
+const CANVAS_WIDTH = Math.min(width - Spacing.md * 2, 380);
+const CANVAS_HEIGHT = 240;
+const PADDING = 40; // Room for the diagrams outside the outline
+const DIAGRAM_FRACTION = 0.15; // Largest ordinate as a fraction of the frame size
+
+type DiagramKind = 'normal' | 'shear' | 'moment';
+
+const DIAGRAMS: { kind: DiagramKind; label: string; unit: string; color: string }[] = [
+  { kind: 'normal', label: 'N', unit: 'kN', color: Colors.status.info },
+  { kind: 'shear', label: 'V', unit: 'kN', color: Colors.engineering.shear },
+  { kind: 'moment', label: 'M', unit: 'kNm', color: Colors.engineering.moment },
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface FrameDiagramViewProps {
+  config: FrameConfig;
+  results: FrameResults;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const FrameDiagramView: React.FC<FrameDiagramViewProps> = ({ config, results }) => {
+  const [kind, setKind] = useState<DiagramKind>('moment');
+  const diagram = DIAGRAMS.find(d => d.kind === kind)!;
+
+  const nodeById = new Map(config.nodes.map(n => [n.id, n]));
+  const xs = config.nodes.map(n => n.x);
+  const ys = config.nodes.map(n => n.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1e-6);
+  const scale = Math.min(
+    (CANVAS_WIDTH - 2 * PADDING) / Math.max(Math.max(...xs) - minX, 1e-6),
+    (CANVAS_HEIGHT - 2 * PADDING) / Math.max(Math.max(...ys) - minY, 1e-6)
+  );
+  const toX = (x: number) => PADDING + (x - minX) * scale;
+  const toY = (y: number) => CANVAS_HEIGHT - PADDING - (y - minY) * scale;
+
+  const peak = Math.max(
+    1e-6,
+    ...results.memberResults.flatMap(m => m.diagram.map(p => Math.abs(p[kind])))
+  );
+  // Moments are drawn on the tension side (local -y), N and V on local +y
+  const ordinate = (p: FrameDiagramPoint) =>
+    ((kind === 'moment' ? -p[kind] : p[kind]) / peak) * DIAGRAM_FRACTION * size;
+
+  const outlinePath = () => {
+    const path = Skia.Path.Make();
+    for (const member of config.members) {
+      const start = nodeById.get(member.nodeStartId);
+      const end = nodeById.get(member.nodeEndId);
+      if (!start || !end) continue;
+      path.moveTo(toX(start.x), toY(start.y));
+      path.lineTo(toX(end.x), toY(end.y));
+    }
+    return path;
+  };
+
+  // Closed area between the member axis and the diagram ordinates
+  const diagramPath = (memberId: string) => {
+    const path = Skia.Path.Make();
+    const member = config.members.find(m => m.id === memberId);
+    const memberResult = results.memberResults.find(m => m.memberId === memberId);
+    const start = member && nodeById.get(member.nodeStartId);
+    const end = member && nodeById.get(member.nodeEndId);
+    if (!start || !end || !memberResult) return path;
+
+    const c = (end.x - start.x) / memberResult.length;
+    const s = (end.y - start.y) / memberResult.length;
+    path.moveTo(toX(start.x), toY(start.y));
+    for (const p of memberResult.diagram) {
+      const offset = ordinate(p);
+      path.lineTo(toX(start.x + c * p.x - s * offset), toY(start.y + s * p.x + c * offset));
+    }
+    path.lineTo(toX(end.x), toY(end.y));
+    path.close();
+    return path;
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>[ KESİT TESİRİ DİYAGRAMLARI ]</Text>
+
+      <View style={styles.chipRow}>
+        {DIAGRAMS.map(option => (
+          <TouchableOpacity
+            key={option.kind}
+            style={[styles.chip, kind === option.kind && styles.chipActive]}
+            onPress={() => setKind(option.kind)}
+          >
+            <Text style={[styles.chipText, kind === option.kind && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Canvas style={styles.canvas}>
+        {results.memberResults.map(m => (
+          <Path key={`${m.memberId}-fill`} path={diagramPath(m.memberId)} color={diagram.color} opacity={0.25} />
+        ))}
+        {results.memberResults.map(m => (
+          <Path
+            key={`${m.memberId}-line`}
+            path={diagramPath(m.memberId)}
+            color={diagram.color}
+            style="stroke"
+            strokeWidth={1.5}
+          />
+        ))}
+        <Path path={outlinePath()} color={Colors.gray[400]} style="stroke" strokeWidth={3} />
+        {config.nodes.map(node => (
+          <Circle
+            key={node.id}
+            cx={toX(node.x)}
+            cy={toY(node.y)}
+            r={node.support ? 5 : 3}
+            color={node.support ? Colors.engineering.reaction : Colors.gray[400]}
+          />
+        ))}
+      </Canvas>
+      <Text style={styles.hint}>
+        {diagram.label} maks. |{peak.toFixed(2)}| {diagram.unit}
+        {kind === 'moment' ? ' · çekme tarafında çizilir' : ''}
+      </Text>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.lg,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    minHeight: 32,
+    minWidth: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  canvas: {
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    backgroundColor: Colors.black,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    marginBottom: Spacing.xs,
+  },
+});
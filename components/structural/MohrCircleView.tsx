@@ -0,0 +1,198 @@
+// ============================================================================
+// MOHR CIRCLE VIEW - Atalet Mohr Dairesi
+// Moments and product of inertia for rotated centroidal axes
+// ============================================================================
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
+import { Canvas, Circle, Path, Skia } from '@shopify/react-native-skia';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import { getRotatedInertia, type SectionProperties } from '@/utils/structural/sectionProperties';
+
+const { width } = Dimensions.get('window');
+const CANVAS_WIDTH = Math.min(width - Spacing.md * 2, 380);
+const CANVAS_HEIGHT = 200;
+const PADDING = 20;
+
+// null = principal angle
+const ANGLE_OPTIONS: (number | null)[] = [0, 15, 30, 45, 60, null];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MohrCircleViewProps {
+  properties: SectionProperties;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const MohrCircleView: React.FC<MohrCircleViewProps> = ({ properties }) => {
+  const [angleOption, setAngleOption] = useState<number | null>(null);
+
+  const { iy, iz, iyz, i1, i2, principalAngle } = properties;
+  const angle = angleOption ?? principalAngle;
+  const rotated = getRotatedInertia(properties, angle);
+  const center = (iy + iz) / 2;
+  const radius = (i1 - i2) / 2;
+
+  // I on the horizontal axis from the origin, Iyz vertical (up positive)
+  const minI = Math.min(0, i2);
+  const span = Math.max(i1 - minI, 1e-9);
+  const scale = Math.min(
+    (CANVAS_WIDTH - 2 * PADDING) / span,
+    (CANVAS_HEIGHT - 2 * PADDING) / Math.max(2 * radius, 1e-9)
+  );
+  const toX = (i: number) => PADDING + (i - minI) * scale;
+  const toY = (ixy: number) => CANVAS_HEIGHT / 2 - ixy * scale;
+
+  const linePath = (points: [number, number][]) => {
+    const path = Skia.Path.Make();
+    points.forEach(([i, ixy], index) =>
+      index === 0 ? path.moveTo(toX(i), toY(ixy)) : path.lineTo(toX(i), toY(ixy))
+    );
+    return path;
+  };
+
+  const axes = linePath([
+    [minI, 0],
+    [minI + span, 0],
+  ]);
+  const referenceDiameter = linePath([
+    [iy, iyz],
+    [iz, -iyz],
+  ]);
+  const rotatedDiameter = linePath([
+    [rotated.iu, rotated.iuv],
+    [rotated.iv, -rotated.iuv],
+  ]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>[ MOHR DAİRESİ ]</Text>
+
+      <View style={styles.chipRow}>
+        {ANGLE_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option ?? 'principal'}
+            style={[styles.chip, angleOption === option && styles.chipActive]}
+            onPress={() => setAngleOption(option)}
+          >
+            <Text style={[styles.chipText, angleOption === option && styles.chipTextActive]}>
+              {option === null ? 'ASAL' : `${option}°`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Canvas style={styles.canvas}>
+        <Path path={axes} color={Colors.gray[600]} style="stroke" strokeWidth={1} />
+        <Circle
+          cx={toX(center)}
+          cy={toY(0)}
+          r={radius * scale}
+          color={Colors.engineering.moment}
+          style="stroke"
+          strokeWidth={2}
+        />
+        <Path path={referenceDiameter} color={Colors.gray[400]} style="stroke" strokeWidth={1} />
+        <Path path={rotatedDiameter} color={Colors.amber.primary} style="stroke" strokeWidth={2} />
+        <Circle cx={toX(iy)} cy={toY(iyz)} r={3} color={Colors.gray[400]} />
+        <Circle cx={toX(i1)} cy={toY(0)} r={4} color={Colors.status.success} />
+        <Circle cx={toX(i2)} cy={toY(0)} r={4} color={Colors.status.success} />
+        <Circle cx={toX(rotated.iu)} cy={toY(rotated.iuv)} r={5} color={Colors.amber.primary} />
+        <Circle cx={toX(center)} cy={toY(0)} r={2.5} color={Colors.engineering.moment} />
+      </Canvas>
+      <Text style={styles.hint}>gri: y-z eksenleri · sarı: θ = {angle.toFixed(1)}° · yeşil: I1, I2</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.line}>
+          Merkez (Iy+Iz)/2 = {center.toExponential(3)} mm⁴ · R = {radius.toExponential(3)} mm⁴
+        </Text>
+        <Text style={styles.line}>
+          θ = {angle.toFixed(1)}°: Iu = {rotated.iu.toExponential(3)} · Iv = {rotated.iv.toExponential(3)} · Iuv ={' '}
+          {rotated.iuv.toExponential(3)} mm⁴
+        </Text>
+        <Text style={styles.line}>
+          Asal eksen α = {principalAngle.toFixed(2)}° (2α = {(2 * principalAngle).toFixed(2)}° dairede)
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.md,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  canvas: {
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    backgroundColor: Colors.black,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    marginBottom: Spacing.xs,
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    marginBottom: Spacing.sm,
+  },
+  card: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: 1,
+    borderColor: Colors.ide.border,
+    padding: Spacing.sm,
+  },
+  line: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[700],
+    marginBottom: 2,
+  },
+});
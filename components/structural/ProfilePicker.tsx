@@ -0,0 +1,230 @@
+// ============================================================================
+// PROFILE PICKER - Profil Seçici
+// Searchable standard profile list, filtered by series and minimum Wy / Iy
+// ============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import {
+  getProfileSeries,
+  searchStandardProfiles,
+  type SectionShape,
+  type StandardProfile,
+} from '@/utils/structural/sectionProperties';
+
+const RESULT_LIMIT = 24;
+
+// Tabulated values where the catalogue has them, otherwise the computed ones (cm units)
+const describeProfile = (profile: StandardProfile) => {
+  const { tabulated, properties } = profile;
+  const area = tabulated?.area ?? properties.area / 1e2;
+  const iy = tabulated?.iy ?? properties.iy / 1e4;
+  const wy = tabulated?.wy ?? properties.wy / 1e3;
+  const mass = tabulated ? `${tabulated.mass} kg/m · ` : '';
+  return `${mass}A ${area.toFixed(1)} cm² · Iy ${iy.toFixed(0)} cm⁴ · Wy ${wy.toFixed(1)} cm³`;
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ProfilePickerProps {
+  selectedCode: string | null;
+  onSelect: (code: string) => void;
+  shapes?: SectionShape[];  // Yalnızca bu kesit şekilleri listelenir
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({ selectedCode, onSelect, shapes }) => {
+  const [query, setQuery] = useState('');
+  const [series, setSeries] = useState<string | null>(null);
+  const [minWyInput, setMinWyInput] = useState('');
+  const [minIyInput, setMinIyInput] = useState('');
+
+  const seriesList = useMemo(
+    () => [...new Set(searchStandardProfiles({ shapes }).map(getProfileSeries))],
+    [shapes]
+  );
+
+  const minWy = parseFloat(minWyInput.replace(',', '.'));
+  const minIy = parseFloat(minIyInput.replace(',', '.'));
+  const results = useMemo(
+    () =>
+      searchStandardProfiles({
+        query,
+        series: series ?? undefined,
+        shapes,
+        minWy: Number.isFinite(minWy) ? minWy : undefined,
+        minIy: Number.isFinite(minIy) ? minIy : undefined,
+      }),
+    [query, series, shapes, minWy, minIy]
+  );
+
+  return (
+    <View>
+      <TextInput
+        style={styles.search}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Ara: IPE 300, HEB, L 100..."
+        placeholderTextColor={Colors.gray[600]}
+        autoCapitalize="characters"
+        autoCorrect={false}
+      />
+
+      <View style={styles.chipRow}>
+        {[null, ...seriesList].map(item => (
+          <TouchableOpacity
+            key={item ?? 'all'}
+            style={[styles.chip, series === item && styles.chipActive]}
+            onPress={() => setSeries(item)}
+          >
+            <Text style={[styles.chipText, series === item && styles.chipTextActive]}>{item ?? 'TÜMÜ'}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.filterRow}>
+        <Text style={styles.filterLabel}>min Wy (cm³):</Text>
+        <TextInput
+          style={styles.filterInput}
+          value={minWyInput}
+          onChangeText={setMinWyInput}
+          keyboardType="numeric"
+          placeholder="—"
+          placeholderTextColor={Colors.gray[600]}
+        />
+        <Text style={styles.filterLabel}>min Iy (cm⁴):</Text>
+        <TextInput
+          style={styles.filterInput}
+          value={minIyInput}
+          onChangeText={setMinIyInput}
+          keyboardType="numeric"
+          placeholder="—"
+          placeholderTextColor={Colors.gray[600]}
+        />
+      </View>
+
+      <Text style={styles.hint}>
+        {results.length} profil · hafiften ağıra
+        {results.length > RESULT_LIMIT ? ` · ilk ${RESULT_LIMIT} gösteriliyor` : ''}
+      </Text>
+      {results.slice(0, RESULT_LIMIT).map(profile => {
+        const isActive = profile.code === selectedCode;
+        return (
+          <TouchableOpacity
+            key={profile.code}
+            style={[styles.row, isActive && styles.rowActive]}
+            onPress={() => onSelect(profile.code)}
+          >
+            <Text style={[styles.rowName, isActive && styles.rowTextActive]}>{profile.name}</Text>
+            <Text style={[styles.rowDetail, isActive && styles.rowTextActive]}>{describeProfile(profile)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  search: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    backgroundColor: Colors.black,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.amber.dim,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  filterLabel: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+  },
+  filterInput: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.gray[700],
+    padding: Spacing.xs,
+    width: 64,
+    textAlign: 'right',
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    marginBottom: Spacing.xs,
+  },
+  row: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: 1,
+    borderColor: Colors.ide.border,
+    padding: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  rowActive: {
+    backgroundColor: Colors.amber.secondary,
+    borderColor: Colors.black,
+  },
+  rowName: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.amber.primary,
+    fontWeight: 'bold',
+  },
+  rowDetail: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[700],
+    marginTop: 2,
+  },
+  rowTextActive: {
+    color: Colors.black,
+  },
+});
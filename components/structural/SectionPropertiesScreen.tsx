@@ -3,7 +3,7 @@
 // Atalet momenti (I), Kesit modülü (W), Dönüş yarıçapı (r) hesaplama
 // ============================================================================
 
-import React, { useState, useMemo } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -17,10 +17,84 @@ import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
 import {
   calculateSectionProperties,
   getStandardProfile,
-  getAllStandardProfiles,
+  COMPOSITE_SECTION_PRESETS,
+  COMPOSITE_SECTION_LABELS,
+  type CompositePart,
   type SectionInput,
+  type SectionPoint,
   type SectionProperties,
+  type TabulatedProperties,
 } from '@/utils/structural/sectionProperties';
+import { useReactionStore } from '@/store/useReactionStore';
+import { SectionShapeView } from './SectionShapeView';
+import { MohrCircleView } from './MohrCircleView';
+import { ProfilePicker } from './ProfilePicker';
+
+type ParametricShape = Exclude<SectionInput['shape'], 'polygon' | 'composite'>;
+
+const PARAMETRIC_SHAPES: ParametricShape[] = [
+  'rectangle',
+  'circle',
+  'triangle',
+  'i-beam',
+  't-beam',
+  'l-beam',
+  'channel',
+  'box',
+  'pipe',
+];
+
+// "z,y; z,y; ..." -> points, holes separated by "|"
+const parsePoints = (text: string): SectionPoint[] =>
+  text
+    .split(';')
+    .map(pair => pair.split(',').map(v => parseFloat(v)))
+    .filter(pair => pair.length === 2 && pair.every(v => Number.isFinite(v)))
+    .map(([z, y]) => ({ z, y }));
+
+const parseHoles = (text: string): SectionPoint[][] =>
+  text
+    .split('|')
+    .map(parsePoints)
+    .filter(loop => loop.length > 0);
+
+const buildParametricInput = (shape: ParametricShape, values: Record<string, string>): SectionInput => {
+  const value = (key: string) => parseFloat(values[key]) || 0;
+  switch (shape) {
+    case 'rectangle':
+      return { shape, width: value('width'), height: value('height') };
+    case 'circle':
+      return { shape, diameter: value('diameter') };
+    case 'triangle':
+      return { shape, base: value('base'), height: value('height') };
+    case 'i-beam':
+    case 't-beam':
+    case 'channel':
+      return {
+        shape,
+        height: value('height'),
+        flangeWidth: value('flangeWidth'),
+        flangeThickness: value('flangeThickness'),
+        webThickness: value('webThickness'),
+      };
+    case 'l-beam':
+    case 'box':
+      return { shape, height: value('height'), width: value('width'), thickness: value('thickness') };
+    case 'pipe':
+      return { shape, outerDiameter: value('diameter'), wallThickness: value('thickness') };
+  }
+};
+
+const describePart = (part: CompositePart, shapeNames: Record<SectionInput['shape'], string>) => {
+  const { section } = part;
+  const size =
+    section.shape === 'rectangle'
+      ? ` ${section.width}x${section.height}`
+      : section.shape === 'i-beam' || section.shape === 't-beam' || section.shape === 'channel'
+        ? ` h=${section.height}`
+        : '';
+  return `${shapeNames[section.shape]}${size} @ (${part.offsetZ}, ${part.offsetY})`;
+};
 
 // ============================================================================
 // TYPES
@@ -74,10 +148,25 @@ export const SectionPropertiesScreen: React.FC<SectionPropertiesScreenProps> = (
     flangeWidth: '100',
     flangeThickness: '10',
     webThickness: '6',
+    offsetZ: '0',
+    offsetY: '0',
+    vertices: '0,0; 200,0; 200,20; 110,20; 110,280; 200,280; 200,300; 0,300; 0,280; 90,280; 90,20; 0,20',
+    holes: '',
   });
 
   const [properties, setProperties] = useState<SectionProperties | null>(null);
+  const [calculatedInput, setCalculatedInput] = useState<SectionInput | null>(null);
+  const [tabulated, setTabulated] = useState<TabulatedProperties | undefined>(undefined);
+  const [calculatedProfile, setCalculatedProfile] = useState<string | null>(null);
+  const [sentToBeam, setSentToBeam] = useState(false);
+  const setProfileCode = useReactionStore((state) => state.setProfileCode);
+  const setCustomSection = useReactionStore((state) => state.setCustomSection);
+  const [error, setError] = useState<string | null>(null);
   const [useStandard, setUseStandard] = useState<boolean>(false);
+  const [partShape, setPartShape] = useState<ParametricShape>('rectangle');
+  const [compositeParts, setCompositeParts] = useState<CompositePart[]>(
+    COMPOSITE_SECTION_PRESETS['plate-girder'].parts
+  );
 
   const shapeNames: Record<SectionInput['shape'], string> = {
     rectangle: 'Dikdörtgen',
@@ -86,15 +175,18 @@ export const SectionPropertiesScreen: React.FC<SectionPropertiesScreenProps> = (
     'i-beam': 'I-Profil',
     't-beam': 'T-Profil',
     'l-beam': 'L-Profil',
+    channel: 'U-Profil',
     box: 'Kutu Profil',
     pipe: 'Boru',
+    polygon: 'Poligon',
+    composite: 'Bileşik',
   };
 
-  const standardProfiles = useMemo(() => getAllStandardProfiles(), []);
-
   const handleCalculate = () => {
     try {
       let input: SectionInput;
+      let catalogue: TabulatedProperties | undefined;
+      let profileCode: string | null = null;
 
       if (useStandard && selectedProfile) {
         const profile = getStandardProfile(selectedProfile);
@@ -103,88 +195,66 @@ export const SectionPropertiesScreen: React.FC<SectionPropertiesScreenProps> = (
             shape: profile.shape,
             ...profile.dimensions,
           } as SectionInput;
+          catalogue = profile.tabulated;
+          profileCode = profile.code;
         } else {
           return;
         }
+      } else if (selectedShape === 'polygon') {
+        input = {
+          shape: 'polygon',
+          vertices: parsePoints(inputValues.vertices),
+          holes: parseHoles(inputValues.holes),
+        };
+      } else if (selectedShape === 'composite') {
+        input = { shape: 'composite', parts: compositeParts };
       } else {
-        switch (selectedShape) {
-          case 'rectangle':
-            input = {
-              shape: 'rectangle',
-              width: parseFloat(inputValues.width) || 0,
-              height: parseFloat(inputValues.height) || 0,
-            };
-            break;
-          case 'circle':
-            input = {
-              shape: 'circle',
-              diameter: parseFloat(inputValues.diameter) || 0,
-            };
-            break;
-          case 'triangle':
-            input = {
-              shape: 'triangle',
-              base: parseFloat(inputValues.base) || 0,
-              height: parseFloat(inputValues.height) || 0,
-            };
-            break;
-          case 'i-beam':
-            input = {
-              shape: 'i-beam',
-              height: parseFloat(inputValues.height) || 0,
-              flangeWidth: parseFloat(inputValues.flangeWidth) || 0,
-              flangeThickness: parseFloat(inputValues.flangeThickness) || 0,
-              webThickness: parseFloat(inputValues.webThickness) || 0,
-            };
-            break;
-          case 't-beam':
-            input = {
-              shape: 't-beam',
-              height: parseFloat(inputValues.height) || 0,
-              flangeWidth: parseFloat(inputValues.flangeWidth) || 0,
-              flangeThickness: parseFloat(inputValues.flangeThickness) || 0,
-              webThickness: parseFloat(inputValues.webThickness) || 0,
-            };
-            break;
-          case 'l-beam':
-            input = {
-              shape: 'l-beam',
-              height: parseFloat(inputValues.height) || 0,
-              width: parseFloat(inputValues.width) || 0,
-              thickness: parseFloat(inputValues.thickness) || 0,
-            };
-            break;
-          case 'box':
-            input = {
-              shape: 'box',
-              height: parseFloat(inputValues.height) || 0,
-              width: parseFloat(inputValues.width) || 0,
-              thickness: parseFloat(inputValues.thickness) || 0,
-            };
-            break;
-          case 'pipe':
-            input = {
-              shape: 'pipe',
-              outerDiameter: parseFloat(inputValues.diameter) || 0,
-              wallThickness: parseFloat(inputValues.thickness) || 0,
-            };
-            break;
-          default:
-            return;
-        }
+        input = buildParametricInput(selectedShape, inputValues);
       }
 
       const result = calculateSectionProperties(input);
       setProperties(result);
-    } catch (error) {
-      console.error('Calculation error:', error);
+      setCalculatedInput(input);
+      setTabulated(catalogue);
+      setCalculatedProfile(profileCode);
+      setSentToBeam(false);
+      setError(null);
+    } catch (err) {
+      setProperties(null);
+      setCalculatedInput(null);
+      setTabulated(undefined);
+      setCalculatedProfile(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Standard profiles keep their code, anything else goes over as a custom section
+  const handleSendToBeam = () => {
+    if (calculatedProfile) {
+      setProfileCode(calculatedProfile);
+    } else if (calculatedInput) {
+      setCustomSection(calculatedInput);
     }
+    setSentToBeam(true);
+  };
+
+  const handleAddPart = () => {
+    const part: CompositePart = {
+      section: buildParametricInput(partShape, inputValues),
+      offsetZ: parseFloat(inputValues.offsetZ) || 0,
+      offsetY: parseFloat(inputValues.offsetY) || 0,
+    };
+    setCompositeParts([...compositeParts, part]);
+  };
+
+  const handleRemovePart = (index: number) => {
+    setCompositeParts(compositeParts.filter((_, i) => i !== index));
   };
 
-  const renderInputFields = () => {
+  const renderInputFields = (shape: SectionInput['shape']) => {
     if (useStandard) return null;
 
-    switch (selectedShape) {
+    switch (shape) {
       case 'rectangle':
       case 'triangle':
       case 'box':
@@ -227,7 +297,7 @@ export const SectionPropertiesScreen: React.FC<SectionPropertiesScreenProps> = (
                 placeholder="20"
               />
             </View>
-            {selectedShape === 'pipe' && (
+            {shape === 'pipe' && (
               <View style={styles.inputRow}>
                 <Text style={styles.inputLabel}>Duvar Kalınlığı (mm):</Text>
                 <TextInput
@@ -258,6 +328,7 @@ export const SectionPropertiesScreen: React.FC<SectionPropertiesScreenProps> = (
 
       case 'i-beam':
       case 't-beam':
+      case 'channel':
         return (
           <>
             <View style={styles.inputRow}>
@@ -339,34 +410,140 @@ export const SectionPropertiesScreen: React.FC<SectionPropertiesScreenProps> = (
           </>
         );
 
+      case 'polygon':
+        return (
+          <>
+            <Text style={styles.inputHint}>Köşeler "z,y" çiftleri, ";" ile ayrılır · boşluklar "|" ile ayrılır</Text>
+            <Text style={styles.inputLabel}>Dış Köşeler (mm):</Text>
+            <TextInput
+              style={styles.pointsInput}
+              value={inputValues.vertices}
+              onChangeText={(text) => setInputValues({ ...inputValues, vertices: text })}
+              multiline
+              placeholder="0,0; 200,0; 200,300; 0,300"
+              placeholderTextColor={Colors.gray[600]}
+            />
+            <Text style={styles.inputLabel}>Boşluklar (mm):</Text>
+            <TextInput
+              style={styles.pointsInput}
+              value={inputValues.holes}
+              onChangeText={(text) => setInputValues({ ...inputValues, holes: text })}
+              multiline
+              placeholder="50,50; 150,50; 150,100; 50,100"
+              placeholderTextColor={Colors.gray[600]}
+            />
+          </>
+        );
+
+      case 'composite':
+        return renderCompositeEditor();
+
       default:
         return null;
     }
   };
 
-  const renderStandardProfiles = () => {
-    if (!useStandard) return null;
-
-    return (
+  const renderCompositeEditor = () => (
+    <>
       <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.profileScroll}>
-        {standardProfiles.map(profile => (
+        {Object.keys(COMPOSITE_SECTION_PRESETS).map(key => (
           <TouchableOpacity
-            key={profile.code}
-            style={[
-              styles.profileCard,
-              selectedProfile === profile.code && styles.profileCardSelected,
-            ]}
-            onPress={() => setSelectedProfile(profile.code)}
+            key={key}
+            style={styles.profileCard}
+            onPress={() => setCompositeParts(COMPOSITE_SECTION_PRESETS[key].parts)}
           >
-            <Text style={styles.profileCode}>{profile.code}</Text>
-            <Text style={styles.profileName}>{profile.name}</Text>
+            <Text style={styles.profileCode}>{COMPOSITE_SECTION_LABELS[key]}</Text>
           </TouchableOpacity>
         ))}
       </ScrollView>
+
+      <Text style={[styles.inputLabel, styles.partsTitle]}>Parçalar (sol alt köşe konumu):</Text>
+      {compositeParts.map((part, index) => (
+        <View key={index} style={styles.inputRow}>
+          <Text style={styles.inputLabel}>
+            {index + 1}. {describePart(part, shapeNames)}
+          </Text>
+          <TouchableOpacity onPress={() => handleRemovePart(index)} style={styles.removeButton}>
+            <Text style={styles.removeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <Text style={[styles.inputLabel, styles.partsTitle]}>Yeni Parça:</Text>
+      <View style={styles.shapeGrid}>
+        {PARAMETRIC_SHAPES.map(shape => (
+          <TouchableOpacity
+            key={shape}
+            style={[styles.shapeCard, partShape === shape && styles.shapeCardSelected]}
+            onPress={() => setPartShape(shape)}
+          >
+            <Text style={styles.shapeText}>{shapeNames[shape]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.partFields}>{renderInputFields(partShape)}</View>
+      <View style={styles.inputRow}>
+        <Text style={styles.inputLabel}>Konum z (mm):</Text>
+        <TextInput
+          style={styles.input}
+          value={inputValues.offsetZ}
+          onChangeText={(text) => setInputValues({ ...inputValues, offsetZ: text })}
+          keyboardType="numeric"
+          placeholder="0"
+        />
+      </View>
+      <View style={styles.inputRow}>
+        <Text style={styles.inputLabel}>Konum y (mm):</Text>
+        <TextInput
+          style={styles.input}
+          value={inputValues.offsetY}
+          onChangeText={(text) => setInputValues({ ...inputValues, offsetY: text })}
+          keyboardType="numeric"
+          placeholder="0"
+        />
+      </View>
+      <RetroButton label="PARÇA EKLE" onPress={handleAddPart} color={Colors.ide.selection} />
+    </>
+  );
+
+  const renderStandardProfiles = () => {
+    if (!useStandard) return null;
+
+    return <ProfilePicker selectedCode={selectedProfile} onSelect={setSelectedProfile} />;
+  };
+
+  // Catalogue values include root and corner radii, the calculation uses sharp corners
+  const renderTabulated = () => {
+    if (!tabulated) return null;
+
+    return (
+      <>
+        <Text style={[styles.sectionTitle, styles.tabulatedTitle]}>[ KATALOG DEĞERLERİ ]</Text>
+        <View style={styles.resultsGrid}>
+          <ResultBox label="G (Ağırlık)" value={tabulated.mass.toString()} unit="kg/m" />
+          <ResultBox label="Alan (A)" value={tabulated.area.toString()} unit="cm²" />
+          <ResultBox label="Iy (Atalet M.)" value={tabulated.iy.toString()} unit="cm⁴" />
+          <ResultBox label="Iz (Atalet M.)" value={tabulated.iz.toString()} unit="cm⁴" />
+          <ResultBox label="Wy (Kesit M.)" value={tabulated.wy.toString()} unit="cm³" />
+          <ResultBox label="Wz (Kesit M.)" value={tabulated.wz.toString()} unit="cm³" />
+          {tabulated.wply !== undefined && (
+            <ResultBox label="Wpl,y (Plastik M.)" value={tabulated.wply.toString()} unit="cm³" />
+          )}
+          {tabulated.wplz !== undefined && (
+            <ResultBox label="Wpl,z (Plastik M.)" value={tabulated.wplz.toString()} unit="cm³" />
+          )}
+          {tabulated.iu !== undefined && <ResultBox label="Iu (Asal)" value={tabulated.iu.toString()} unit="cm⁴" />}
+          {tabulated.iv !== undefined && <ResultBox label="Iv (Asal)" value={tabulated.iv.toString()} unit="cm⁴" />}
+        </View>
+        <Text style={styles.inputHint}>Katalog değerleri köşe yarıçaplarını içerir; hesap keskin köşeli kesitle yapılır</Text>
+      </>
     );
   };
 
   const renderResults = () => {
+    if (error) {
+      return <Text style={styles.errorText}>{error}</Text>;
+    }
     if (!properties) return null;
 
     return (
@@ -413,6 +590,81 @@ export const SectionPropertiesScreen: React.FC<SectionPropertiesScreenProps> = (
             value={properties.centroidY.toFixed(1)}
             unit="mm"
           />
+          <ResultBox
+            label="Centroid Z"
+            value={properties.centroidZ.toFixed(1)}
+            unit="mm"
+          />
+          <ResultBox
+            label="Iyz (Çarpım A.M.)"
+            value={properties.iyz.toFixed(0)}
+            unit="mm⁴"
+          />
+          <ResultBox
+            label="I1 (Asal, maks)"
+            value={properties.i1.toFixed(0)}
+            unit="mm⁴"
+          />
+          <ResultBox
+            label="I2 (Asal, min)"
+            value={properties.i2.toFixed(0)}
+            unit="mm⁴"
+          />
+          <ResultBox
+            label="α (Asal Eksen)"
+            value={properties.principalAngle.toFixed(2)}
+            unit="°"
+          />
+          <ResultBox
+            label="Wpl,y (Plastik M.)"
+            value={properties.wply.toFixed(0)}
+            unit="mm³"
+          />
+          <ResultBox
+            label="Wpl,z (Plastik M.)"
+            value={properties.wplz.toFixed(0)}
+            unit="mm³"
+          />
+          <ResultBox
+            label="αpl,y (Şekil F.)"
+            value={properties.shapeFactorY.toFixed(3)}
+            unit=""
+          />
+          <ResultBox
+            label="αpl,z (Şekil F.)"
+            value={properties.shapeFactorZ.toFixed(3)}
+            unit=""
+          />
+          <ResultBox
+            label="It (Burulma S.)"
+            value={properties.j !== undefined ? properties.j.toFixed(0) : '—'}
+            unit="mm⁴"
+          />
+          <ResultBox
+            label="Iw (Çarpılma S.)"
+            value={properties.iw !== undefined ? properties.iw.toExponential(3) : '—'}
+            unit="mm⁶"
+          />
+          <ResultBox
+            label="Kayma M. Y"
+            value={properties.shearCenterY !== undefined ? properties.shearCenterY.toFixed(1) : '—'}
+            unit="mm"
+          />
+          <ResultBox
+            label="Kayma M. Z"
+            value={properties.shearCenterZ !== undefined ? properties.shearCenterZ.toFixed(1) : '—'}
+            unit="mm"
+          />
+        </View>
+        {renderTabulated()}
+        {calculatedInput && <SectionShapeView input={calculatedInput} properties={properties} />}
+        <MohrCircleView properties={properties} />
+        <View style={styles.buttonContainer}>
+          <RetroButton
+            label={sentToBeam ? '✓ KİRİŞ TASARIMINA AKTARILDI' : 'KİRİŞ TASARIMINA AKTAR'}
+            onPress={handleSendToBeam}
+            color={Colors.ide.selection}
+          />
         </View>
       </View>
     );
@@ -479,7 +731,7 @@ export const SectionPropertiesScreen: React.FC<SectionPropertiesScreenProps> = (
         ) : (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>[ BÖLÜMLER (mm) ]</Text>
-            {renderInputFields()}
+            {renderInputFields(selectedShape)}
           </View>
         )}
 
@@ -608,22 +860,12 @@ const styles = StyleSheet.create({
     minWidth: 80,
     alignItems: 'center',
   },
-  profileCardSelected: {
-    backgroundColor: Colors.amber.secondary,
-  },
   profileCode: {
     fontFamily: Typography.family.mono,
     fontSize: Typography.sizes.xs,
     color: Colors.black,
     fontWeight: '900',
   },
-  profileName: {
-    fontFamily: Typography.family.mono,
-    fontSize: 8,
-    color: Colors.gray[800],
-    textAlign: 'center',
-    marginTop: 2,
-  },
   inputRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -652,6 +894,54 @@ const styles = StyleSheet.create({
     width: 80,
     textAlign: 'right',
   },
+  inputHint: {
+    fontFamily: Typography.family.mono,
+    fontSize: 8,
+    color: Colors.gray[600],
+    marginBottom: Spacing.xs,
+  },
+  pointsInput: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.white,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.gray[700],
+    padding: Spacing.xs,
+    minHeight: 56,
+    marginTop: 2,
+    marginBottom: Spacing.sm,
+    textAlignVertical: 'top',
+  },
+  tabulatedTitle: {
+    marginTop: Spacing.md,
+  },
+  partsTitle: {
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  partFields: {
+    marginTop: Spacing.sm,
+  },
+  removeButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    backgroundColor: Colors.retro.primary,
+    borderWidth: 1,
+    borderColor: Colors.black,
+  },
+  removeButtonText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  errorText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.status.error,
+    marginTop: Spacing.md,
+  },
   buttonContainer: {
     marginTop: Spacing.md,
   },
@@ -0,0 +1,147 @@
+// ============================================================================
+// SECTION SHAPE VIEW - Kesit Çizimi
+// Section outline with the centroid, shear centre and principal axes
+// ============================================================================
+
+import React from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { Canvas, Circle, FillType, Path, Skia } from '@shopify/react-native-skia';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import {
+  getSectionExtents,
+  getSectionOutline,
+  type SectionInput,
+  type SectionProperties,
+} from '@/utils/structural/sectionProperties';
+
+const { width } = Dimensions.get('window');
+const CANVAS_WIDTH = Math.min(width - Spacing.md * 2, 380);
+const CANVAS_HEIGHT = 220;
+const PADDING = 20;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SectionShapeViewProps {
+  input: SectionInput;
+  properties: SectionProperties;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const SectionShapeView: React.FC<SectionShapeViewProps> = ({ input, properties }) => {
+  const extents = getSectionExtents(input);
+  const scale = Math.min(
+    (CANVAS_WIDTH - 2 * PADDING) / Math.max(extents.width, 1e-6),
+    (CANVAS_HEIGHT - 2 * PADDING) / Math.max(extents.height, 1e-6)
+  );
+  // Centre the section in the canvas, y up
+  const originX = (CANVAS_WIDTH - extents.width * scale) / 2;
+  const originY = (CANVAS_HEIGHT + extents.height * scale) / 2;
+  const toX = (z: number) => originX + z * scale;
+  const toY = (y: number) => originY - y * scale;
+
+  const outlinePath = () => {
+    const path = Skia.Path.Make();
+    for (const loop of getSectionOutline(input)) {
+      loop.forEach((p, i) => (i === 0 ? path.moveTo(toX(p.z), toY(p.y)) : path.lineTo(toX(p.z), toY(p.y))));
+      path.close();
+    }
+    path.setFillType(FillType.EvenOdd);
+    return path;
+  };
+
+  // Axis line through the centroid at `angle` degrees from the horizontal
+  const cx = toX(properties.centroidZ);
+  const cy = toY(properties.centroidY);
+  const axisPath = (angle: number) => {
+    const path = Skia.Path.Make();
+    const reach = Math.max(extents.width, extents.height) * scale * 0.6;
+    const dx = Math.cos((angle * Math.PI) / 180) * reach;
+    const dy = Math.sin((angle * Math.PI) / 180) * reach;
+    path.moveTo(cx - dx, cy + dy);
+    path.lineTo(cx + dx, cy - dy);
+    return path;
+  };
+
+  // Principal axes are only drawn when they differ from the y-z axes
+  const { principalAngle } = properties;
+  const hasPrincipalAxes = Math.abs(Math.sin((2 * principalAngle * Math.PI) / 180)) > 1e-6;
+
+  // Shear centre is only marked when it is known and away from the centroid
+  const { shearCenterY, shearCenterZ } = properties;
+  const hasShearCenter =
+    shearCenterY !== undefined &&
+    shearCenterZ !== undefined &&
+    Math.hypot(shearCenterY - properties.centroidY, shearCenterZ - properties.centroidZ) > 1e-6;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>[ KESİT ÇİZİMİ ]</Text>
+      <Canvas style={styles.canvas}>
+        <Path path={outlinePath()} color={Colors.amber.dim} opacity={0.4} />
+        <Path path={outlinePath()} color={Colors.amber.primary} style="stroke" strokeWidth={1.5} />
+        <Path path={axisPath(0)} color={Colors.gray[500]} style="stroke" strokeWidth={1} />
+        <Path path={axisPath(90)} color={Colors.gray[500]} style="stroke" strokeWidth={1} />
+        {hasPrincipalAxes && (
+          <>
+            <Path path={axisPath(principalAngle)} color={Colors.status.info} style="stroke" strokeWidth={1.5} />
+            <Path path={axisPath(principalAngle + 90)} color={Colors.status.info} style="stroke" strokeWidth={1} />
+          </>
+        )}
+        <Circle cx={cx} cy={cy} r={4} color={Colors.status.error} />
+        {hasShearCenter && (
+          <Circle
+            cx={toX(shearCenterZ!)}
+            cy={toY(shearCenterY!)}
+            r={4}
+            color={Colors.status.success}
+            style="stroke"
+            strokeWidth={2}
+          />
+        )}
+      </Canvas>
+      <Text style={styles.hint}>
+        {extents.width.toFixed(0)} × {extents.height.toFixed(0)} mm · ● ağırlık merkezi
+        {hasShearCenter ? ' · ○ kayma merkezi' : ''}
+        {hasPrincipalAxes ? ` · mavi: asal eksenler (α = ${principalAngle.toFixed(1)}°)` : ''}
+      </Text>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.md,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  canvas: {
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    backgroundColor: Colors.black,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    marginBottom: Spacing.xs,
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+  },
+});
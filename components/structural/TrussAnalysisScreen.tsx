@@ -1,6 +1,6 @@
 // ============================================================================
 // TRUSS ANALYSIS SCREEN - Kafes Sistem Analiz Ekranı
-// Method of Joints ile kafes hesabı
+// Rijitlik matrisi yöntemi ve kesit yöntemi ile kafes hesabı
 // ============================================================================
 
 import React, { useState, useMemo } from 'react';
@@ -22,6 +22,13 @@ import {
   type TrussConfig,
   type TrussResults,
 } from '@/utils/structural/trussCalculator';
+import type { TrussDesignSelection } from '@/utils/structural/trussDesign';
+import { TrussSectionPanel } from './TrussSectionPanel';
+import { TrussDesignPanel, DEFAULT_TRUSS_DESIGN } from './TrussDesignPanel';
+import { TrussDeformationView } from './TrussDeformationView';
+import { TrussEditor } from './TrussEditor';
+import { TrussGeneratorForm } from './TrussGeneratorForm';
+import { useTrussStore } from '@/store/useTrussStore';
 
 const { width } = Dimensions.get('window');
 
@@ -31,6 +38,15 @@ const { width } = Dimensions.get('window');
 
 interface TrussAnalysisScreenProps {
   onBack: () => void;
+  onOpen3D?: () => void; // Opens the 3D scene after the truss is handed over
+}
+
+// Results kept with the truss they were solved for, so later edits don't mix in
+interface TrussAnalysis {
+  id: number;
+  config: TrussConfig;
+  name: string;
+  results: TrussResults;
 }
 
 // ============================================================================
@@ -67,19 +83,45 @@ const ResultRow: React.FC<{ label: string; value: string | number; unit?: string
 // MAIN SCREEN
 // ============================================================================
 
-export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack }) => {
+export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack, onOpen3D }) => {
   const [selectedPreset, setSelectedPreset] = useState<string>('triangular-simple');
-  const [results, setResults] = useState<TrussResults | null>(null);
-  const [selectedTab, setSelectedTab] = useState<'input' | 'results'>('input');
+  const [analysis, setAnalysis] = useState<TrussAnalysis | null>(null);
+  const [selectedTab, setSelectedTab] = useState<'input' | 'editor' | 'results'>('input');
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [design, setDesign] = useState<TrussDesignSelection>(DEFAULT_TRUSS_DESIGN);
+  const loadDraft = useTrussStore(state => state.loadDraft);
+  const showInScene = useTrussStore(state => state.showInScene);
 
-  const currentConfig = useMemo(() => getTrussPreset(selectedPreset), [selectedPreset]);
+  const presetConfig = useMemo(() => getTrussPreset(selectedPreset), [selectedPreset]);
+  const draftName = useTrussStore(state => state.draftName);
+
+  const analyze = (config: TrussConfig, name: string) => {
+    setAnalysis(previous => ({ id: (previous?.id ?? 0) + 1, config, name, results: analyzeTruss(config) }));
+    setSelectedTab('results');
+  };
 
   const handleAnalyze = () => {
-    if (currentConfig) {
-      const analysisResults = analyzeTruss(currentConfig);
-      setResults(analysisResults);
-      setSelectedTab('results');
-    }
+    if (presetConfig) analyze(presetConfig, TRUSS_LABELS[selectedPreset]);
+  };
+
+  const handleAnalyzeDraft = (config: TrussConfig) => analyze(config, draftName);
+
+  const handleAnalyzeGenerated = (config: TrussConfig, name: string) => analyze(config, name);
+
+  // Copy a preset or generated truss into the editor as a starting point
+  const handleEdit = (config: TrussConfig, name: string) => {
+    loadDraft(config, name);
+    setSelectedTab('editor');
+  };
+
+  const handleEditPreset = () => {
+    if (presetConfig) handleEdit(presetConfig, TRUSS_LABELS[selectedPreset]);
+  };
+
+  const handleOpen3D = () => {
+    if (!analysis || !onOpen3D) return;
+    showInScene(analysis.config, analysis.name, design);
+    onOpen3D();
   };
 
   const renderPresetSelector = () => (
@@ -103,11 +145,11 @@ export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack
   );
 
   const renderNodeInputs = () => {
-    if (!currentConfig) return null;
+    if (!presetConfig) return null;
     return (
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>[ DÜĞÜMLER ]</Text>
-        {currentConfig.nodes.map(node => (
+        {presetConfig.nodes.map(node => (
           <View key={node.id} style={styles.nodeCard}>
             <View style={styles.nodeHeader}>
               <Text style={styles.nodeId}>{node.id}</Text>
@@ -124,11 +166,11 @@ export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack
   };
 
   const renderLoadInputs = () => {
-    if (!currentConfig) return null;
+    if (!presetConfig) return null;
     return (
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>[ YÜKLER ]</Text>
-        {currentConfig.loads.map((load, idx) => (
+        {presetConfig.loads.map((load, idx) => (
           <View key={idx} style={styles.loadCard}>
             <Text style={styles.loadNode}>Düğüm: {load.nodeId}</Text>
             <View style={styles.loadValues}>
@@ -142,7 +184,8 @@ export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack
   };
 
   const renderResults = () => {
-    if (!results) return null;
+    if (!analysis) return null;
+    const { config, results } = analysis;
 
     if (!results.isValid) {
       return (
@@ -155,7 +198,18 @@ export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack
 
     return (
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>[ REAKSİYONLAR ]</Text>
+        <ResultRow label="KAFES" value={analysis.name} />
+        <ResultRow
+          label="HİPERSTATİKLİK DERECESİ"
+          value={results.degree === 0 ? 'İZOSTATİK' : `${results.degree}`}
+        />
+        {onOpen3D && (
+          <View style={styles.buttonContainer}>
+            <RetroButton label="3D GÖRÜNÜM" onPress={handleOpen3D} color={Colors.ide.selection} />
+          </View>
+        )}
+
+        <Text style={[styles.sectionTitle, styles.sectionTitleSpacer]}>[ REAKSİYONLAR ]</Text>
         {results.reactions.map(reaction => (
           <View key={reaction.nodeId} style={styles.reactionCard}>
             <Text style={styles.reactionNode}>{reaction.nodeId} Mesnet</Text>
@@ -166,6 +220,19 @@ export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack
           </View>
         ))}
 
+        <Text style={[styles.sectionTitle, styles.sectionTitleSpacer]}>[ DÜĞÜM DEPLASMANLARI ]</Text>
+        {results.displacements.map(disp => (
+          <View key={disp.nodeId} style={styles.reactionCard}>
+            <Text style={styles.reactionNode}>{disp.nodeId}</Text>
+            <View style={styles.reactionValues}>
+              <Text style={styles.reactionText}>δx: {disp.dx.toFixed(3)} mm</Text>
+              <Text style={styles.reactionText}>δy: {disp.dy.toFixed(3)} mm</Text>
+            </View>
+          </View>
+        ))}
+
+        <TrussDeformationView config={config} results={results} />
+
         <Text style={[styles.sectionTitle, styles.sectionTitleSpacer]}>[ ÇUBUK KUVVETLERİ ]</Text>
         {results.memberForces.map(mf => (
           <View key={mf.memberId} style={styles.memberCard}>
@@ -183,6 +250,9 @@ export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack
             </View>
           </View>
         ))}
+
+        <TrussSectionPanel key={analysis.id} config={config} results={results} />
+        <TrussDesignPanel config={config} selection={design} onSelectionChange={setDesign} />
       </View>
     );
   };
@@ -207,6 +277,14 @@ export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack
             GİRİŞ
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, selectedTab === 'editor' && styles.tabSelected]}
+          onPress={() => setSelectedTab('editor')}
+        >
+          <Text style={[styles.tabText, selectedTab === 'editor' && styles.tabTextSelected]}>
+            ÇİZİM
+          </Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.tab, selectedTab === 'results' && styles.tabSelected]}
           onPress={() => setSelectedTab('results')}
@@ -218,19 +296,22 @@ export const TrussAnalysisScreen: React.FC<TrussAnalysisScreenProps> = ({ onBack
       </View>
 
       {/* Content */}
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        {selectedTab === 'input' ? (
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} scrollEnabled={!isDrawing}>
+        {selectedTab === 'input' && (
           <>
             {renderPresetSelector()}
             {renderNodeInputs()}
             {renderLoadInputs()}
             <View style={styles.buttonContainer}>
               <RetroButton label="ANALİZ ET" onPress={handleAnalyze} color={Colors.retro.secondary} />
+              <RetroButton label="ÇİZİME AKTAR" onPress={handleEditPreset} color={Colors.ide.selection} />
             </View>
+            <View style={styles.sectionTitleSpacer} />
+            <TrussGeneratorForm onAnalyze={handleAnalyzeGenerated} onEdit={handleEdit} />
           </>
-        ) : (
-          renderResults()
         )}
+        {selectedTab === 'editor' && <TrussEditor onAnalyze={handleAnalyzeDraft} onDrawingChange={setIsDrawing} />}
+        {selectedTab === 'results' && renderResults()}
         <View style={{ height: 40 }} />
       </ScrollView>
     </View>
@@ -398,6 +479,7 @@ const styles = StyleSheet.create({
   },
   buttonContainer: {
     marginTop: Spacing.md,
+    gap: Spacing.sm,
   },
   retroButton: {
     paddingVertical: 12,
@@ -0,0 +1,212 @@
+// ============================================================================
+// TRUSS DEFORMATION VIEW - Şekil Değiştirme
+// Scaled deformed shape over the original truss and the L/300 deflection check
+// ============================================================================
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
+import { Canvas, Circle, Path, Skia } from '@shopify/react-native-skia';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import {
+  checkTrussDeflection,
+  getDeformationScale,
+  type TrussConfig,
+  type TrussResults,
+} from '@/utils/structural/trussCalculator';
+
+const { width } = Dimensions.get('window');
+const CANVAS_WIDTH = Math.min(width - Spacing.md * 2, 380);
+const CANVAS_HEIGHT = 200;
+const PADDING = 32; // Room for the deformed shape to leave the original outline
+
+// 0 = automatic scale
+const SCALE_OPTIONS = [0, 10, 100, 1000];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TrussDeformationViewProps {
+  config: TrussConfig;
+  results: TrussResults;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const TrussDeformationView: React.FC<TrussDeformationViewProps> = ({ config, results }) => {
+  const [scaleOption, setScaleOption] = useState(0);
+
+  const magnification = scaleOption || getDeformationScale(config, results);
+  const deflection = checkTrussDeflection(config, results);
+
+  // Deformed position in m
+  const displacementById = new Map(results.displacements.map(d => [d.nodeId, d]));
+  const deformed = (nodeId: string, x: number, y: number) => {
+    const d = displacementById.get(nodeId);
+    return d ? { x: x + (d.dx / 1000) * magnification, y: y + (d.dy / 1000) * magnification } : { x, y };
+  };
+
+  // Fit both shapes into the canvas, y up
+  const points = config.nodes.flatMap(n => [n, deformed(n.id, n.x, n.y)]);
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const scale = Math.min(
+    (CANVAS_WIDTH - 2 * PADDING) / Math.max(Math.max(...xs) - minX, 1e-6),
+    (CANVAS_HEIGHT - 2 * PADDING) / Math.max(Math.max(...ys) - minY, 1e-6)
+  );
+  const toX = (x: number) => PADDING + (x - minX) * scale;
+  const toY = (y: number) => CANVAS_HEIGHT - PADDING - (y - minY) * scale;
+  const nodeById = new Map(config.nodes.map(n => [n.id, n]));
+
+  const shapePath = (isDeformed: boolean) => {
+    const path = Skia.Path.Make();
+    const position = (nodeId: string) => {
+      const node = nodeById.get(nodeId);
+      if (!node) return null;
+      return isDeformed ? deformed(node.id, node.x, node.y) : node;
+    };
+    for (const member of config.members) {
+      const start = position(member.nodeStartId);
+      const end = position(member.nodeEndId);
+      if (!start || !end) continue;
+      path.moveTo(toX(start.x), toY(start.y));
+      path.lineTo(toX(end.x), toY(end.y));
+    }
+    return path;
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>[ ŞEKİL DEĞİŞTİRME ]</Text>
+
+      <View style={styles.chipRow}>
+        {SCALE_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, scaleOption === option && styles.chipActive]}
+            onPress={() => setScaleOption(option)}
+          >
+            <Text style={[styles.chipText, scaleOption === option && styles.chipTextActive]}>
+              {option === 0 ? 'OTOMATİK' : `×${option}`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Canvas style={styles.canvas}>
+        <Path path={shapePath(false)} color={Colors.gray[500]} style="stroke" strokeWidth={1} />
+        <Path path={shapePath(true)} color={Colors.amber.primary} style="stroke" strokeWidth={2.5} />
+        {config.nodes.map(node => {
+          const p = deformed(node.id, node.x, node.y);
+          return (
+            <Circle
+              key={node.id}
+              cx={toX(p.x)}
+              cy={toY(p.y)}
+              r={node.id === deflection?.nodeId ? 5 : 3}
+              color={node.id === deflection?.nodeId ? Colors.status.error : Colors.amber.primary}
+            />
+          );
+        })}
+      </Canvas>
+      <Text style={styles.hint}>Büyütme ×{magnification.toFixed(0)} · gri: ilk geometri</Text>
+
+      {deflection && (
+        <View style={[styles.checkCard, { borderColor: deflection.isSafe ? Colors.status.success : Colors.status.error }]}>
+          <Text style={styles.line}>
+            Maks. düşey sehim: {deflection.deflection.toFixed(3)} mm ({deflection.nodeId})
+          </Text>
+          <Text style={styles.line}>
+            Sınır L/300: {deflection.span.toFixed(2)} m / 300 = {deflection.limit.toFixed(2)} mm
+          </Text>
+          <Text style={[styles.status, { color: deflection.isSafe ? Colors.status.success : Colors.status.error }]}>
+            {deflection.isSafe ? '✓ SEHİM UYGUN' : '✗ SEHİM AŞILDI'} ({(deflection.ratio * 100).toFixed(1)}%)
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.lg,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  canvas: {
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    backgroundColor: Colors.black,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    marginBottom: Spacing.xs,
+  },
+  checkCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: Shapes.borderWidth.brutal,
+    padding: Spacing.sm,
+  },
+  line: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[700],
+    marginBottom: 2,
+  },
+  status: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+});
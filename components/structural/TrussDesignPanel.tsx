@@ -0,0 +1,336 @@
+// ============================================================================
+// TRUSS DESIGN PANEL - Çubuk Tasarımı
+// Capacity, buckling and slenderness per member, with automatic profile sizing
+// ============================================================================
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
+import { Canvas, Circle, Path, Skia } from '@shopify/react-native-skia';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import type { TrussConfig } from '@/utils/structural/trussCalculator';
+import {
+  autoSizeTruss,
+  designTruss,
+  getTrussProfiles,
+  TRUSS_PROFILE_SHAPES,
+  type MemberDesignCheck,
+  type TrussDesignSelection,
+} from '@/utils/structural/trussDesign';
+import { getSteelGrades } from '@/utils/structural/materialDatabase';
+import type { SectionShape } from '@/utils/structural/sectionProperties';
+import { ProfilePicker } from './ProfilePicker';
+
+const { width } = Dimensions.get('window');
+const CANVAS_WIDTH = Math.min(width - Spacing.md * 2, 380);
+const CANVAS_HEIGHT = 180;
+const PADDING = 24;
+
+const STEEL_GRADES = getSteelGrades();
+const PICKER_SHAPES: SectionShape[] = [...TRUSS_PROFILE_SHAPES];
+
+const ACTION_LABELS: Record<MemberDesignCheck['action'], string> = {
+  tension: 'ÇEKME',
+  compression: 'BASMA',
+  zero: 'SIFIR',
+};
+
+// Lightest truss profile in S420, until another one is picked
+export const DEFAULT_TRUSS_DESIGN: TrussDesignSelection = {
+  profileCode: getTrussProfiles()[0].code,
+  steelGrade: 'S420',
+};
+
+// Green below 70 %, amber up to capacity, red when the member fails
+export const utilizationColor = (check: MemberDesignCheck) => {
+  if (!check.isSafe) return Colors.status.error;
+  return check.ratio < 0.7 ? Colors.status.success : Colors.status.warning;
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TrussDesignPanelProps {
+  config: TrussConfig;
+  selection: TrussDesignSelection; // Kept by the screen so the 3D scene gets it too
+  onSelectionChange: (selection: TrussDesignSelection) => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const TrussDesignPanel: React.FC<TrussDesignPanelProps> = ({ config, selection, onSelectionChange }) => {
+  const { profileCode, steelGrade } = selection;
+  const setProfileCode = (code: string) => onSelectionChange({ ...selection, profileCode: code });
+  const setSteelGrade = (grade: string) => onSelectionChange({ ...selection, steelGrade: grade });
+
+  const design = useMemo(
+    () => designTruss({ config, profileCode, steelGrade }),
+    [config, profileCode, steelGrade]
+  );
+  const sizing = useMemo(() => autoSizeTruss({ config, steelGrade }), [config, steelGrade]);
+
+  // Fit the truss into the canvas, y up
+  const xs = config.nodes.map(n => n.x);
+  const ys = config.nodes.map(n => n.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const scale = Math.min(
+    (CANVAS_WIDTH - 2 * PADDING) / Math.max(Math.max(...xs) - minX, 1e-6),
+    (CANVAS_HEIGHT - 2 * PADDING) / Math.max(Math.max(...ys) - minY, 1e-6)
+  );
+  const toX = (x: number) => PADDING + (x - minX) * scale;
+  const toY = (y: number) => CANVAS_HEIGHT - PADDING - (y - minY) * scale;
+  const nodeById = new Map(config.nodes.map(n => [n.id, n]));
+
+  const memberPath = (memberId: string) => {
+    const path = Skia.Path.Make();
+    const member = config.members.find(m => m.id === memberId);
+    const start = member && nodeById.get(member.nodeStartId);
+    const end = member && nodeById.get(member.nodeEndId);
+    if (start && end) {
+      path.moveTo(toX(start.x), toY(start.y));
+      path.lineTo(toX(end.x), toY(end.y));
+    }
+    return path;
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>[ ÇUBUK TASARIMI ]</Text>
+      <Text style={styles.hint}>Tüm çubuklarda aynı profil · K = 1.0</Text>
+
+      <View style={styles.chipRow}>
+        {STEEL_GRADES.map(grade => (
+          <TouchableOpacity
+            key={grade}
+            style={[styles.chip, steelGrade === grade && styles.chipActive]}
+            onPress={() => setSteelGrade(grade)}
+          >
+            <Text style={[styles.chipText, steelGrade === grade && styles.chipTextActive]}>{grade}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ProfilePicker selectedCode={profileCode} onSelect={setProfileCode} shapes={PICKER_SHAPES} />
+
+      {!design.isValid && <Text style={styles.error}>{design.errorMessage}</Text>}
+
+      {design.isValid && (
+        <>
+          <Canvas style={styles.canvas}>
+            {design.members.map(check => (
+              <Path
+                key={check.memberId}
+                path={memberPath(check.memberId)}
+                color={utilizationColor(check)}
+                style="stroke"
+                strokeWidth={3}
+              />
+            ))}
+            {config.nodes.map(node => (
+              <Circle key={node.id} cx={toX(node.x)} cy={toY(node.y)} r={3.5} color={Colors.gray[400]} />
+            ))}
+          </Canvas>
+
+          <View style={styles.legend}>
+            <Text style={[styles.legendItem, { color: Colors.status.success }]}>■ {'<'} %70</Text>
+            <Text style={[styles.legendItem, { color: Colors.status.warning }]}>■ %70-100</Text>
+            <Text style={[styles.legendItem, { color: Colors.status.error }]}>■ YETERSİZ</Text>
+          </View>
+
+          <Text style={[styles.summary, { color: design.isSafe ? Colors.status.success : Colors.status.error }]}>
+            {design.isSafe ? '✓ TÜM ÇUBUKLAR YETERLİ' : '✗ YETERSİZ ÇUBUK VAR'} · Kritik: {design.governing?.memberId}{' '}
+            ({design.governing?.percentage}) · {design.mass.toFixed(1)} kg
+          </Text>
+
+          {design.members.map(check => (
+            <View key={check.memberId} style={styles.memberCard}>
+              <View style={styles.memberHeader}>
+                <Text style={styles.memberId}>Çubuk {check.memberId}</Text>
+                <Text style={[styles.memberRatio, { color: utilizationColor(check) }]}>{check.percentage}</Text>
+              </View>
+              <Text style={styles.line}>
+                N = {check.force.toFixed(2)} kN ({ACTION_LABELS[check.action]}) · L = {check.length.toFixed(2)} m
+              </Text>
+              <Text style={styles.line}>
+                N_y = {check.yieldResistance.toFixed(1)} kN
+                {check.bucklingLoad !== undefined && ` · P_cr = ${check.bucklingLoad.toFixed(1)} kN`}
+              </Text>
+              <Text style={[styles.line, check.isSlender && styles.failText]}>
+                λ = {check.slenderness.toFixed(0)} / {check.slendernessLimit}
+                {check.isSlender ? ' NARİN' : ''}
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      <Text style={[styles.title, styles.titleSpacer]}>[ OTOMATİK PROFİL SEÇİMİ ]</Text>
+      {!sizing.isValid && <Text style={styles.error}>{sizing.errorMessage}</Text>}
+      {sizing.selected && (
+        <View style={styles.sizingCard}>
+          <Text style={styles.sizingProfile}>{sizing.selected.profile.name}</Text>
+          <Text style={styles.line}>
+            En hafif yeterli profil · {sizing.selected.mass.toFixed(1)} kg · Kullanım{' '}
+            {(sizing.selected.utilization * 100).toFixed(1)}%
+          </Text>
+          {sizing.selected.profile.code !== profileCode && (
+            <TouchableOpacity
+              style={[styles.chip, styles.chipActive, styles.applyButton]}
+              onPress={() => setProfileCode(sizing.selected!.profile.code)}
+            >
+              <Text style={[styles.chipText, styles.chipTextActive]}>PROFİLİ UYGULA</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      {sizing.candidates.map(candidate => (
+        <Text
+          key={candidate.profile.code}
+          style={[styles.line, { color: candidate.isSafe ? Colors.status.success : Colors.gray[500] }]}
+        >
+          {candidate.isSafe ? '✓' : '✗'} {candidate.profile.name}: {(candidate.utilization * 100).toFixed(0)}% ·{' '}
+          {candidate.mass.toFixed(1)} kg{candidate.slenderCount > 0 ? ` · ${candidate.slenderCount} narin` : ''}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.lg,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  titleSpacer: {
+    marginTop: Spacing.lg,
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    marginBottom: Spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  canvas: {
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    backgroundColor: Colors.black,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    marginBottom: Spacing.xs,
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  legendItem: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    fontWeight: 'bold',
+  },
+  summary: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    fontWeight: 'bold',
+    marginBottom: Spacing.sm,
+  },
+  memberCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: 1,
+    borderColor: Colors.ide.border,
+    padding: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  memberHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  memberId: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.amber.primary,
+    fontWeight: 'bold',
+  },
+  memberRatio: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    fontWeight: 'bold',
+  },
+  line: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[700],
+    marginBottom: 2,
+  },
+  failText: {
+    color: Colors.status.error,
+  },
+  sizingCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.status.success,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  sizingProfile: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.md,
+    color: Colors.status.success,
+    fontWeight: '900',
+    marginBottom: 4,
+  },
+  applyButton: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.xs,
+  },
+  error: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.status.error,
+  },
+});
@@ -0,0 +1,624 @@
+// ============================================================================
+// TRUSS EDITOR - Kafes Çizim Editörü
+// Tap: düğüm ekle · sürükle: çubuk çiz · uzun bas: mesnet ve yük ata
+// ============================================================================
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Dimensions,
+  PanResponder,
+  type GestureResponderEvent,
+} from 'react-native';
+import { Canvas, Circle, Path, Skia } from '@shopify/react-native-skia';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import { useTrussStore } from '@/store/useTrussStore';
+import { analyzeTruss, type TrussConfig, type TrussNode } from '@/utils/structural/trussCalculator';
+
+const { width } = Dimensions.get('window');
+const CANVAS_WIDTH = Math.min(width - Spacing.md * 2, 380);
+const CANVAS_HEIGHT = 260;
+const WORLD_WIDTH = 14; // m, from x = -1 to x = 13
+const PX_PER_M = CANVAS_WIDTH / WORLD_WIDTH;
+const GRID = 0.5; // m
+const NODE_HIT_RADIUS = 14; // px
+const DRAG_THRESHOLD = 8; // px
+const LONG_PRESS_MS = 500;
+const ARROW_LENGTH = 22; // px
+
+const SUPPORT_OPTIONS: { value: TrussNode['support']; label: string }[] = [
+  { value: undefined, label: 'SERBEST' },
+  { value: 'pin', label: 'SABİT' },
+  { value: 'roller', label: 'KAYICI' },
+  { value: 'fixed', label: 'ANKASTRE' },
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TrussEditorProps {
+  onAnalyze: (config: TrussConfig) => void;
+  onDrawingChange?: (active: boolean) => void; // Lets the parent pause scrolling during a gesture
+}
+
+interface GestureState {
+  startX: number;
+  startY: number;
+  nodeId?: string; // Node under the finger at touch start
+  moved: boolean;
+  longPressed: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+const toX = (x: number) => (x + 1) * PX_PER_M;
+const toY = (y: number) => CANVAS_HEIGHT - (y + 1) * PX_PER_M;
+const snap = (px: number, toWorld: (v: number) => number) =>
+  Math.round(Math.round(toWorld(px) / GRID) * GRID * 100) / 100;
+const snapX = (px: number) => snap(px, v => v / PX_PER_M - 1);
+const snapY = (py: number) => snap(py, v => (CANVAS_HEIGHT - v) / PX_PER_M - 1);
+
+const findNodeAt = (nodes: TrussNode[], px: number, py: number) =>
+  nodes.find(n => Math.hypot(toX(n.x) - px, toY(n.y) - py) < NODE_HIT_RADIUS);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const TrussEditor: React.FC<TrussEditorProps> = ({ onAnalyze, onDrawingChange }) => {
+  const {
+    draft,
+    draftName,
+    savedTrusses,
+    past,
+    future,
+    removeNode,
+    removeMember,
+    setSupport,
+    setLoad,
+    clearDraft,
+    undo,
+    redo,
+    loadDraft,
+    setDraftName,
+    saveDraft,
+    deleteSaved,
+  } = useTrussStore();
+
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [dragEnd, setDragEnd] = useState<{ x: number; y: number } | null>(null);
+  const [angleInput, setAngleInput] = useState('0');
+  const [fxInput, setFxInput] = useState('0');
+  const [fyInput, setFyInput] = useState('0');
+  const gesture = useRef<GestureState | null>(null);
+
+  const selectedNode = draft.nodes.find(n => n.id === selectedNodeId);
+
+  // Re-solve on every edit
+  const live = useMemo(() => (draft.members.length > 0 ? analyzeTruss(draft) : null), [draft]);
+
+  // Fill the node form when another node is picked
+  useEffect(() => {
+    if (!selectedNodeId) return;
+    const { draft: current } = useTrussStore.getState();
+    const node = current.nodes.find(n => n.id === selectedNodeId);
+    const load = current.loads.find(l => l.nodeId === selectedNodeId);
+    setAngleInput(String(node?.supportAngle ?? 0));
+    setFxInput(String(load?.fx ?? 0));
+    setFyInput(String(load?.fy ?? 0));
+  }, [selectedNodeId]);
+
+  // Handlers read the store directly, the responder is created once
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: (event: GestureResponderEvent) => {
+          const { locationX, locationY } = event.nativeEvent;
+          const node = findNodeAt(useTrussStore.getState().draft.nodes, locationX, locationY);
+          const state: GestureState = { startX: locationX, startY: locationY, nodeId: node?.id, moved: false, longPressed: false };
+          if (node) {
+            state.timer = setTimeout(() => {
+              if (!state.moved) {
+                state.longPressed = true;
+                setSelectedNodeId(node.id);
+              }
+            }, LONG_PRESS_MS);
+          }
+          gesture.current = state;
+          onDrawingChange?.(true);
+        },
+        onPanResponderMove: (event: GestureResponderEvent) => {
+          const state = gesture.current;
+          if (!state || state.longPressed) return;
+          const { locationX, locationY } = event.nativeEvent;
+          if (Math.hypot(locationX - state.startX, locationY - state.startY) > DRAG_THRESHOLD) {
+            state.moved = true;
+            clearTimeout(state.timer);
+          }
+          if (state.moved && state.nodeId) setDragEnd({ x: locationX, y: locationY });
+        },
+        onPanResponderRelease: (event: GestureResponderEvent) => {
+          const state = gesture.current;
+          gesture.current = null;
+          setDragEnd(null);
+          onDrawingChange?.(false);
+          if (!state) return;
+          clearTimeout(state.timer);
+          if (state.longPressed) return;
+
+          const { locationX, locationY } = event.nativeEvent;
+          const store = useTrussStore.getState();
+          if (state.moved) {
+            // Drag from a node: connect to the node under the finger, or to a new one
+            if (!state.nodeId) return;
+            const target =
+              findNodeAt(store.draft.nodes, locationX, locationY)?.id ??
+              store.addNode(snapX(locationX), snapY(locationY));
+            store.addMember(state.nodeId, target);
+          } else if (!state.nodeId) {
+            store.addNode(snapX(locationX), snapY(locationY));
+          }
+        },
+        onPanResponderTerminate: () => {
+          clearTimeout(gesture.current?.timer);
+          gesture.current = null;
+          setDragEnd(null);
+          onDrawingChange?.(false);
+        },
+      }),
+    [onDrawingChange]
+  );
+
+  // ==========================================================================
+  // DRAWING
+  // ==========================================================================
+
+  const gridPath = useMemo(() => {
+    const path = Skia.Path.Make();
+    for (let x = -1; x <= WORLD_WIDTH - 1; x++) {
+      path.moveTo(toX(x), 0);
+      path.lineTo(toX(x), CANVAS_HEIGHT);
+    }
+    for (let y = -1; toY(y) >= 0; y++) {
+      path.moveTo(0, toY(y));
+      path.lineTo(CANVAS_WIDTH, toY(y));
+    }
+    return path;
+  }, []);
+
+  const forceOf = (memberId: string) => (live?.isValid ? live.memberForces.find(f => f.memberId === memberId)?.force : undefined);
+
+  const memberPath = (filter: (force: number | undefined) => boolean) => {
+    const path = Skia.Path.Make();
+    for (const member of draft.members) {
+      if (!filter(forceOf(member.id))) continue;
+      const start = draft.nodes.find(n => n.id === member.nodeStartId);
+      const end = draft.nodes.find(n => n.id === member.nodeEndId);
+      if (!start || !end) continue;
+      path.moveTo(toX(start.x), toY(start.y));
+      path.lineTo(toX(end.x), toY(end.y));
+    }
+    return path;
+  };
+
+  const supportPath = () => {
+    const path = Skia.Path.Make();
+    for (const node of draft.nodes) {
+      if (!node.support) continue;
+      const cx = toX(node.x);
+      const cy = toY(node.y);
+      path.moveTo(cx, cy);
+      path.lineTo(cx - 7, cy + 10);
+      path.lineTo(cx + 7, cy + 10);
+      path.close();
+      if (node.support === 'roller') {
+        path.addCircle(cx - 4, cy + 13, 2.5);
+        path.addCircle(cx + 4, cy + 13, 2.5);
+      }
+      if (node.support === 'fixed') {
+        path.moveTo(cx - 10, cy + 12);
+        path.lineTo(cx + 10, cy + 12);
+      }
+    }
+    return path;
+  };
+
+  const loadPath = () => {
+    const path = Skia.Path.Make();
+    for (const load of draft.loads) {
+      const node = draft.nodes.find(n => n.id === load.nodeId);
+      const magnitude = Math.hypot(load.fx, load.fy);
+      if (!node || magnitude < 1e-9) continue;
+      const ux = load.fx / magnitude;
+      const uy = -load.fy / magnitude;
+      const tipX = toX(node.x);
+      const tipY = toY(node.y);
+      path.moveTo(tipX - ux * ARROW_LENGTH, tipY - uy * ARROW_LENGTH);
+      path.lineTo(tipX, tipY);
+      path.moveTo(tipX - ux * 6 - uy * 4, tipY - uy * 6 + ux * 4);
+      path.lineTo(tipX, tipY);
+      path.lineTo(tipX - ux * 6 + uy * 4, tipY - uy * 6 - ux * 4);
+    }
+    return path;
+  };
+
+  const dragPath = () => {
+    const path = Skia.Path.Make();
+    const start = draft.nodes.find(n => n.id === gesture.current?.nodeId);
+    if (start && dragEnd) {
+      path.moveTo(toX(start.x), toY(start.y));
+      path.lineTo(dragEnd.x, dragEnd.y);
+    }
+    return path;
+  };
+
+  // ==========================================================================
+  // NODE FORM
+  // ==========================================================================
+
+  const applyLoad = () => {
+    if (!selectedNode) return;
+    const fx = parseFloat(fxInput.replace(',', '.'));
+    const fy = parseFloat(fyInput.replace(',', '.'));
+    setLoad(selectedNode.id, isNaN(fx) ? 0 : fx, isNaN(fy) ? 0 : fy);
+  };
+
+  const applySupport = (support: TrussNode['support']) => {
+    if (!selectedNode) return;
+    const angle = parseFloat(angleInput.replace(',', '.'));
+    setSupport(selectedNode.id, support, support === 'roller' && !isNaN(angle) ? angle : undefined);
+  };
+
+  const renderNodeForm = () => {
+    if (!selectedNode) return null;
+    const connected = draft.members.filter(
+      m => m.nodeStartId === selectedNode.id || m.nodeEndId === selectedNode.id
+    );
+
+    return (
+      <View style={styles.form}>
+        <View style={styles.formHeader}>
+          <Text style={styles.formTitle}>
+            DÜĞÜM {selectedNode.id} ({selectedNode.x.toFixed(1)}, {selectedNode.y.toFixed(1)})
+          </Text>
+          <TouchableOpacity onPress={() => setSelectedNodeId(null)}>
+            <Text style={styles.formClose}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.label}>MESNET</Text>
+        <View style={styles.chipRow}>
+          {SUPPORT_OPTIONS.map(option => {
+            const isActive = selectedNode.support === option.value;
+            return (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => applySupport(option.value)}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {selectedNode.support === 'roller' && (
+          <View style={styles.inputRow}>
+            <Text style={styles.label}>YÜZEY EĞİMİ (°)</Text>
+            <TextInput
+              style={styles.input}
+              value={angleInput}
+              onChangeText={setAngleInput}
+              onEndEditing={() => applySupport('roller')}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+        )}
+
+        <Text style={styles.label}>YÜK (kN)</Text>
+        <View style={styles.inputRow}>
+          <TextInput style={styles.input} value={fxInput} onChangeText={setFxInput} keyboardType="numbers-and-punctuation" />
+          <TextInput style={styles.input} value={fyInput} onChangeText={setFyInput} keyboardType="numbers-and-punctuation" />
+          <TouchableOpacity style={styles.toolButton} onPress={applyLoad}>
+            <Text style={styles.toolText}>UYGULA</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.hint}>Fx (+ sağa), Fy (+ yukarı)</Text>
+
+        {connected.length > 0 && (
+          <>
+            <Text style={styles.label}>ÇUBUKLAR</Text>
+            <View style={styles.chipRow}>
+              {connected.map(member => (
+                <TouchableOpacity key={member.id} style={styles.chip} onPress={() => removeMember(member.id)}>
+                  <Text style={styles.chipText}>{member.id} ✕</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.toolButton, styles.deleteButton]}
+          onPress={() => {
+            removeNode(selectedNode.id);
+            setSelectedNodeId(null);
+          }}
+        >
+          <Text style={styles.toolText}>DÜĞÜMÜ SİL</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  const maxForce = live?.isValid ? Math.max(0, ...live.memberForces.map(f => Math.abs(f.force))) : 0;
+
+  return (
+    <View>
+      <Text style={styles.title}>[ KAFES_ÇİZİMİ ]</Text>
+
+      <View style={styles.toolbar}>
+        <TouchableOpacity style={[styles.toolButton, !past.length && styles.toolDisabled]} onPress={undo} disabled={!past.length}>
+          <Text style={styles.toolText}>↶ GERİ AL</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.toolButton, !future.length && styles.toolDisabled]} onPress={redo} disabled={!future.length}>
+          <Text style={styles.toolText}>↷ YİNELE</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.toolButton}
+          onPress={() => {
+            clearDraft();
+            setSelectedNodeId(null);
+          }}
+        >
+          <Text style={styles.toolText}>TEMİZLE</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.canvasFrame} {...panResponder.panHandlers}>
+        <Canvas style={styles.canvas} pointerEvents="none">
+          <Path path={gridPath} color={Colors.gray[150]} style="stroke" strokeWidth={1} />
+          <Path path={memberPath(f => f === undefined)} color={Colors.gray[500]} style="stroke" strokeWidth={2.5} />
+          <Path path={memberPath(f => f !== undefined && f >= 0)} color={Colors.retro.secondary} style="stroke" strokeWidth={2.5} />
+          <Path path={memberPath(f => f !== undefined && f < 0)} color={Colors.retro.primary} style="stroke" strokeWidth={2.5} />
+          <Path path={dragPath()} color={Colors.amber.primary} style="stroke" strokeWidth={2} />
+          <Path path={supportPath()} color={Colors.engineering.reaction} style="stroke" strokeWidth={1.5} />
+          <Path path={loadPath()} color={Colors.engineering.load} style="stroke" strokeWidth={2} />
+          {draft.nodes.map(node => (
+            <Circle
+              key={node.id}
+              cx={toX(node.x)}
+              cy={toY(node.y)}
+              r={node.id === selectedNodeId ? 6 : 4}
+              color={node.id === selectedNodeId ? Colors.retro.cyan : Colors.amber.primary}
+            />
+          ))}
+        </Canvas>
+      </View>
+      <Text style={styles.hint}>Izgara {GRID} m · dokun: düğüm · sürükle: çubuk · uzun bas: mesnet/yük</Text>
+
+      <Text style={[styles.status, { color: live && !live.isValid ? Colors.status.error : Colors.status.success }]}>
+        {!live
+          ? `${draft.nodes.length} düğüm · çubuk yok`
+          : live.isValid
+            ? `ÇÖZÜLDÜ · ${draft.members.length} çubuk · max |N| = ${maxForce.toFixed(2)} kN`
+            : live.errorMessage}
+      </Text>
+
+      {renderNodeForm()}
+
+      <Text style={styles.label}>KAFES ADI</Text>
+      <View style={styles.inputRow}>
+        <TextInput style={[styles.input, styles.nameInput]} value={draftName} onChangeText={setDraftName} />
+        <TouchableOpacity style={styles.toolButton} onPress={saveDraft}>
+          <Text style={styles.toolText}>KAYDET</Text>
+        </TouchableOpacity>
+      </View>
+
+      {savedTrusses.length > 0 && (
+        <>
+          <Text style={styles.label}>KAYITLI KAFESLER</Text>
+          <View style={styles.chipRow}>
+            {savedTrusses.map(saved => (
+              <TouchableOpacity
+                key={saved.name}
+                style={[styles.chip, saved.name === draftName && styles.chipActive]}
+                onPress={() => {
+                  loadDraft(saved.config, saved.name);
+                  setSelectedNodeId(null);
+                }}
+                onLongPress={() => deleteSaved(saved.name)}
+              >
+                <Text style={[styles.chipText, saved.name === draftName && styles.chipTextActive]}>{saved.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>Uzun bas: kaydı sil</Text>
+        </>
+      )}
+
+      <TouchableOpacity
+        style={[styles.analyzeButton, !draft.members.length && styles.toolDisabled]}
+        onPress={() => onAnalyze(draft)}
+        disabled={!draft.members.length}
+      >
+        <Text style={styles.analyzeText}>ANALİZ ET</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  toolButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 8,
+    backgroundColor: Colors.ide.selection,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    justifyContent: 'center',
+    minHeight: 36,
+  },
+  toolDisabled: {
+    opacity: 0.4,
+  },
+  toolText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.white,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    backgroundColor: Colors.retro.primary,
+    alignSelf: 'flex-start',
+    marginTop: Spacing.sm,
+  },
+  canvasFrame: {
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    backgroundColor: Colors.black,
+  },
+  canvas: {
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    marginTop: 4,
+  },
+  status: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  form: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: 1,
+    borderColor: Colors.ide.border,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  formHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  formTitle: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.amber.primary,
+    fontWeight: 'bold',
+  },
+  formClose: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.md,
+    color: Colors.gray[600],
+    padding: Spacing.xs,
+  },
+  label: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    fontWeight: 'bold',
+    marginTop: Spacing.sm,
+    marginBottom: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  input: {
+    flex: 1,
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    backgroundColor: Colors.black,
+    borderWidth: 2,
+    borderColor: Colors.retro.gray,
+    paddingHorizontal: Spacing.sm,
+    minHeight: 40,
+  },
+  nameInput: {
+    flex: 2,
+  },
+  analyzeButton: {
+    marginTop: Spacing.lg,
+    paddingVertical: 12,
+    backgroundColor: Colors.retro.secondary,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    alignItems: 'center',
+    minHeight: 44,
+  },
+  analyzeText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+});
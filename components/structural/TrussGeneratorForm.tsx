@@ -0,0 +1,246 @@
+// ============================================================================
+// TRUSS GENERATOR FORM - Parametrik Kafes Üreteci
+// Span, height, panel count and supports for the common truss families
+// ============================================================================
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import {
+  generateTruss,
+  getGeneratorPanels,
+  TRUSS_FAMILY_LABELS,
+  type TrussConfig,
+  type TrussFamily,
+  type TrussSupportLayout,
+} from '@/utils/structural/trussCalculator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TrussGeneratorFormProps {
+  onAnalyze: (config: TrussConfig, name: string) => void;
+  onEdit: (config: TrussConfig, name: string) => void;
+}
+
+const SUPPORT_LAYOUTS: { value: TrussSupportLayout; label: string }[] = [
+  { value: 'pin-roller', label: 'SABİT + KAYICI' },
+  { value: 'pin-pin', label: 'SABİT + SABİT' },
+];
+
+const parse = (text: string) => parseFloat(text.replace(',', '.'));
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const TrussGeneratorForm: React.FC<TrussGeneratorFormProps> = ({ onAnalyze, onEdit }) => {
+  const [family, setFamily] = useState<TrussFamily>('pratt');
+  const [spanInput, setSpanInput] = useState('12');
+  const [heightInput, setHeightInput] = useState('2');
+  const [panelsInput, setPanelsInput] = useState('6');
+  const [loadInput, setLoadInput] = useState('10');
+  const [supports, setSupports] = useState<TrussSupportLayout>('pin-roller');
+  const [error, setError] = useState<string | null>(null);
+
+  const panels = parse(panelsInput);
+  const builtPanels = isNaN(panels) ? null : getGeneratorPanels(family, panels);
+
+  const generate = (): { config: TrussConfig; name: string } | null => {
+    const span = parse(spanInput);
+    const height = parse(heightInput);
+    const jointLoad = parse(loadInput);
+    if (!(span > 0) || !(height > 0)) {
+      setError('Açıklık ve yükseklik pozitif olmalı');
+      return null;
+    }
+    if (isNaN(panels) || isNaN(jointLoad)) {
+      setError('Geçersiz sayı');
+      return null;
+    }
+    setError(null);
+    const config = generateTruss(family, { span, height, panels, supports, jointLoad });
+    return { config, name: `${TRUSS_FAMILY_LABELS[family]} (${span}m)` };
+  };
+
+  const renderInput = (label: string, value: string, onChange: (text: string) => void) => (
+    <View style={styles.inputCell}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput style={styles.input} value={value} onChangeText={onChange} keyboardType="decimal-pad" />
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>[ KAFES_ÜRETECİ ]</Text>
+
+      <View style={styles.chipRow}>
+        {(Object.keys(TRUSS_FAMILY_LABELS) as TrussFamily[]).map(key => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.chip, family === key && styles.chipActive]}
+            onPress={() => setFamily(key)}
+          >
+            <Text style={[styles.chipText, family === key && styles.chipTextActive]}>{TRUSS_FAMILY_LABELS[key]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.inputRow}>
+        {renderInput('AÇIKLIK (m)', spanInput, setSpanInput)}
+        {renderInput('YÜKSEKLİK (m)', heightInput, setHeightInput)}
+      </View>
+      <View style={styles.inputRow}>
+        {renderInput('PANEL SAYISI', panelsInput, setPanelsInput)}
+        {renderInput('DÜĞÜM YÜKÜ (kN)', loadInput, setLoadInput)}
+      </View>
+      {builtPanels !== null && builtPanels !== panels && (
+        <Text style={styles.hint}>
+          {TRUSS_FAMILY_LABELS[family]} {builtPanels} panel ile üretilecek
+        </Text>
+      )}
+
+      <View style={[styles.chipRow, styles.supportRow]}>
+        {SUPPORT_LAYOUTS.map(layout => (
+          <TouchableOpacity
+            key={layout.value}
+            style={[styles.chip, supports === layout.value && styles.chipActive]}
+            onPress={() => setSupports(layout.value)}
+          >
+            <Text style={[styles.chipText, supports === layout.value && styles.chipTextActive]}>{layout.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: Colors.retro.secondary }]}
+          onPress={() => {
+            const generated = generate();
+            if (generated) onAnalyze(generated.config, generated.name);
+          }}
+        >
+          <Text style={styles.buttonText}>ÜRET VE ANALİZ ET</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: Colors.ide.selection }]}
+          onPress={() => {
+            const generated = generate();
+            if (generated) onEdit(generated.config, generated.name);
+          }}
+        >
+          <Text style={[styles.buttonText, { color: Colors.white }]}>ÇİZİME AKTAR</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  supportRow: {
+    marginTop: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  inputCell: {
+    flex: 1,
+  },
+  label: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  input: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    backgroundColor: Colors.black,
+    borderWidth: 2,
+    borderColor: Colors.retro.gray,
+    paddingHorizontal: Spacing.sm,
+    minHeight: 40,
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.status.warning,
+    marginTop: 4,
+  },
+  error: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.status.error,
+    marginTop: Spacing.sm,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    alignItems: 'center',
+    minHeight: 44,
+  },
+  buttonText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,303 @@
+// ============================================================================
+// TRUSS SECTION PANEL - Kesit Yöntemi
+// Pick three members, see the free body, its equations and the cross-check
+// ============================================================================
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
+import { Canvas, Circle, Path, Skia } from '@shopify/react-native-skia';
+import { Colors, Typography, Spacing, Shapes } from '@/utils/theme';
+import type { TrussConfig, TrussResults } from '@/utils/structural/trussCalculator';
+import { analyzeTrussSection } from '@/utils/structural/trussSections';
+
+const { width } = Dimensions.get('window');
+const CANVAS_WIDTH = Math.min(width - Spacing.md * 2, 380);
+const CANVAS_HEIGHT = 180;
+const PADDING = 24;
+const ARROW_LENGTH = 22; // px, force arrows are not to scale
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TrussSectionPanelProps {
+  config: TrussConfig;
+  results: TrussResults;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const TrussSectionPanel: React.FC<TrussSectionPanelProps> = ({ config, results }) => {
+  const [cutIds, setCutIds] = useState<string[]>([]);
+  const [side, setSide] = useState<0 | 1>(0);
+
+  // A new truss starts without a cut
+  useEffect(() => {
+    setCutIds([]);
+  }, [config]);
+
+  const section = useMemo(
+    () => (cutIds.length === 3 ? analyzeTrussSection(config, results, cutIds, side) : null),
+    [config, results, cutIds, side]
+  );
+
+  // A fourth pick replaces the oldest one
+  const toggleMember = (id: string) => {
+    setCutIds(prev => (prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id].slice(-3)));
+  };
+
+  // Fit the truss into the canvas, y up
+  const xs = config.nodes.map(n => n.x);
+  const ys = config.nodes.map(n => n.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const scale = Math.min(
+    (CANVAS_WIDTH - 2 * PADDING) / Math.max(Math.max(...xs) - minX, 1e-6),
+    (CANVAS_HEIGHT - 2 * PADDING) / Math.max(Math.max(...ys) - minY, 1e-6)
+  );
+  const toX = (x: number) => PADDING + (x - minX) * scale;
+  const toY = (y: number) => CANVAS_HEIGHT - PADDING - (y - minY) * scale;
+  const nodeById = new Map(config.nodes.map(n => [n.id, n]));
+
+  const freeBody = new Set(section?.isValid ? section.freeBodyNodeIds : []);
+
+  const memberPath = (filter: (startId: string, endId: string, id: string) => boolean) => {
+    const path = Skia.Path.Make();
+    for (const member of config.members) {
+      if (!filter(member.nodeStartId, member.nodeEndId, member.id)) continue;
+      const start = nodeById.get(member.nodeStartId);
+      const end = nodeById.get(member.nodeEndId);
+      if (!start || !end) continue;
+      path.moveTo(toX(start.x), toY(start.y));
+      path.lineTo(toX(end.x), toY(end.y));
+    }
+    return path;
+  };
+
+  const forcePath = (source: 'load' | 'reaction') => {
+    const path = Skia.Path.Make();
+    for (const force of section?.externalForces ?? []) {
+      if (force.source !== source) continue;
+      const node = nodeById.get(force.nodeId);
+      const magnitude = Math.hypot(force.fx, force.fy);
+      if (!node || magnitude < 1e-9) continue;
+      const ux = force.fx / magnitude;
+      const uy = -force.fy / magnitude; // screen y points down
+      const tipX = toX(node.x);
+      const tipY = toY(node.y);
+      const tailX = tipX - ux * ARROW_LENGTH;
+      const tailY = tipY - uy * ARROW_LENGTH;
+      path.moveTo(tailX, tailY);
+      path.lineTo(tipX, tipY);
+      path.moveTo(tipX - ux * 6 - uy * 4, tipY - uy * 6 + ux * 4);
+      path.lineTo(tipX, tipY);
+      path.lineTo(tipX - ux * 6 + uy * 4, tipY - uy * 6 - ux * 4);
+    }
+    return path;
+  };
+
+  const isCut = (id: string) => cutIds.includes(id);
+  const inFreeBody = (startId: string, endId: string) => freeBody.has(startId) && freeBody.has(endId);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>[ KESİT YÖNTEMİ ]</Text>
+      <Text style={styles.hint}>Kesilecek üç çubuğu seçin</Text>
+
+      <View style={styles.chipRow}>
+        {config.members.map(member => (
+          <TouchableOpacity
+            key={member.id}
+            style={[styles.chip, isCut(member.id) && styles.chipActive]}
+            onPress={() => toggleMember(member.id)}
+          >
+            <Text style={[styles.chipText, isCut(member.id) && styles.chipTextActive]}>{member.id}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.chipRow}>
+        {(['SOL PARÇA', 'SAĞ PARÇA'] as const).map((label, i) => (
+          <TouchableOpacity
+            key={label}
+            style={[styles.chip, side === i && styles.chipActive]}
+            onPress={() => setSide(i as 0 | 1)}
+          >
+            <Text style={[styles.chipText, side === i && styles.chipTextActive]}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Canvas style={styles.canvas}>
+        <Path
+          path={memberPath((s, e, id) => !isCut(id) && !inFreeBody(s, e))}
+          color={Colors.gray[400]}
+          style="stroke"
+          strokeWidth={1.5}
+        />
+        <Path
+          path={memberPath((s, e, id) => !isCut(id) && inFreeBody(s, e))}
+          color={Colors.amber.primary}
+          style="stroke"
+          strokeWidth={2.5}
+        />
+        <Path path={memberPath((_, __, id) => isCut(id))} color={Colors.status.error} style="stroke" strokeWidth={3} />
+        <Path path={forcePath('load')} color={Colors.engineering.load} style="stroke" strokeWidth={2} />
+        <Path path={forcePath('reaction')} color={Colors.engineering.reaction} style="stroke" strokeWidth={2} />
+        {config.nodes.map(node => (
+          <Circle
+            key={node.id}
+            cx={toX(node.x)}
+            cy={toY(node.y)}
+            r={3.5}
+            color={freeBody.has(node.id) ? Colors.amber.primary : Colors.gray[400]}
+          />
+        ))}
+        {section?.isValid &&
+          section.equations
+            .filter(e => e.point)
+            .map(e => (
+              <Circle
+                key={e.memberId}
+                cx={toX(e.point!.x)}
+                cy={toY(e.point!.y)}
+                r={6}
+                color={Colors.retro.cyan}
+                style="stroke"
+                strokeWidth={2}
+              />
+            ))}
+      </Canvas>
+
+      {section && !section.isValid && <Text style={styles.error}>{section.errorMessage}</Text>}
+
+      {section?.isValid && (
+        <>
+          <Text style={styles.line}>Serbest cisim: {section.freeBodyNodeIds.join(', ')}</Text>
+          {section.externalForces.map((f, i) => (
+            <Text key={`${f.nodeId}-${f.source}-${i}`} style={styles.line}>
+              {f.source === 'load' ? 'Yük' : 'Reaksiyon'} {f.nodeId}: ({f.fx.toFixed(2)}, {f.fy.toFixed(2)}) kN
+            </Text>
+          ))}
+
+          {section.equations.map(e => {
+            const matches = Math.abs(e.difference) < 1e-6;
+            return (
+              <View key={e.memberId} style={styles.equationCard}>
+                <Text style={styles.equationHeader}>
+                  {e.memberId} · {e.kind === 'moment' ? `Moment noktası ${e.point!.label}` : 'Paralel çubuklara dik izdüşüm'}
+                </Text>
+                <Text style={styles.equation}>{e.equation}</Text>
+                <Text style={styles.equation}>
+                  F_{e.memberId} = {e.force.toFixed(2)} kN {e.force >= 0 ? '(ÇEKME)' : '(BASMA)'}
+                </Text>
+                <Text style={[styles.check, { color: matches ? Colors.status.success : Colors.status.error }]}>
+                  Matris çözümü: {e.matrixForce.toFixed(2)} kN {matches ? '✓' : `Δ = ${e.difference.toFixed(3)}`}
+                </Text>
+              </View>
+            );
+          })}
+        </>
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.lg,
+  },
+  title: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+    fontWeight: '900',
+    backgroundColor: Colors.black,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[600],
+    marginBottom: Spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    backgroundColor: Colors.black,
+    borderWidth: 1,
+    borderColor: Colors.amber.dim,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.amber.primary,
+    borderColor: Colors.black,
+  },
+  chipText: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.retro.text,
+  },
+  chipTextActive: {
+    color: Colors.black,
+    fontWeight: 'bold',
+  },
+  canvas: {
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    backgroundColor: Colors.black,
+    borderWidth: Shapes.borderWidth.brutal,
+    borderColor: Colors.black,
+    marginBottom: Spacing.sm,
+  },
+  line: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.gray[700],
+    marginBottom: 2,
+  },
+  equationCard: {
+    backgroundColor: Colors.ide.toolWindow,
+    borderWidth: 1,
+    borderColor: Colors.ide.border,
+    padding: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  equationHeader: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.amber.primary,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  equation: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.sm,
+    color: Colors.white,
+  },
+  check: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    marginTop: 4,
+  },
+  error: {
+    fontFamily: Typography.family.mono,
+    fontSize: Typography.sizes.xs,
+    color: Colors.status.error,
+  },
+});
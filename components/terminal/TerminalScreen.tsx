@@ -8,6 +8,7 @@ import { SupportScreen } from '@/components/support';
 import { BeamEducationScreen } from '@/components/beam';
 import { Game3DScreen } from '@/components/game-3d';
 import { TrussAnalysisScreen } from '@/components/structural/TrussAnalysisScreen';
+import { FrameAnalysisScreen } from '@/components/structural/FrameAnalysisScreen';
 import { SectionPropertiesScreen } from '@/components/structural/SectionPropertiesScreen';
 import { MaterialDatabaseScreen } from '@/components/structural/MaterialDatabaseScreen';
 import { LoadCombinationsScreen } from '@/components/structural/LoadCombinationsScreen';
@@ -193,9 +194,14 @@ export const TerminalScreen: React.FC = () => {
         break;
       case 'TRUSS':
       case 'KAFES':
-        addCommand(text, '>> KAFES SİSTEM ANALİZİ\n>> Eklem yöntemi ile çubuk kuvvetleri hesaplanır');
+        addCommand(text, '>> KAFES SİSTEM ANALİZİ\n>> Rijitlik matrisi yöntemi ile çubuk kuvvetleri ve deplasmanlar hesaplanır');
         setActiveScreen('truss');
         break;
+      case 'FRAME':
+      case 'CERCEVE':
+        addCommand(text, '>> DÜZLEM ÇERÇEVE ANALİZİ\n>> Rijitlik matrisi ile N, V, M diyagramları hesaplanır');
+        setActiveScreen('frame');
+        break;
       case 'SECTION':
       case 'KESIT':
         addCommand(text, '>> KESİT ÖZELLİKLERİ HESAPLARI\n>> I, W, r değerleri ve TS 500 profilleri');
@@ -237,6 +243,7 @@ export const TerminalScreen: React.FC = () => {
           '>> KULLANILABİLİR KOMUTLAR:\n' +
           '   BEAM      - Kiriş analiz modülü\n' +
           '   TRUSS     - Kafes sistem çözücü\n' +
+          '   FRAME     - Düzlem çerçeve çözücü (N, V, M)\n' +
           '   SECTION   - Kesit özellikleri hesabı\n' +
           '   MATERIAL  - Malzeme veritabanı\n' +
           '   LOADS     - Yük kombinasyonları (TS 498)\n' +
@@ -366,7 +373,22 @@ export const TerminalScreen: React.FC = () => {
       <>
         <StatusBar style="light" />
         <View style={[styles.container, { paddingTop: insets.top }]}>
-          <TrussAnalysisScreen onBack={() => setActiveScreen('terminal')} />
+          <TrussAnalysisScreen
+            onBack={() => setActiveScreen('terminal')}
+            onOpen3D={() => setActiveScreen('3d')}
+          />
+        </View>
+      </>
+    );
+  }
+
+  // Show FrameAnalysisScreen when active
+  if (activeScreen === 'frame') {
+    return (
+      <>
+        <StatusBar style="light" />
+        <View style={[styles.container, { paddingTop: insets.top }]}>
+          <FrameAnalysisScreen onBack={() => setActiveScreen('terminal')} />
         </View>
       </>
     );
@@ -1,5 +1,5 @@
 import { renderHook, act } from '@testing-library/react-native';
-import { useReactionStore } from '../useReactionStore';
+import { useReactionStore, getReactionDesignSection, getReactionSectionConfig } from '../useReactionStore';
 import { SupportType, LoadType } from '@/utils/structural/reactionCalculator';
 
 // Mock AsyncStorage using the official mock
@@ -196,6 +196,20 @@ describe('useReactionStore', () => {
       expect(result.current.selectedPreset).toBe('simply-supported-point');
       expect(result.current.showResults).toBe(true);
     });
+
+    it('solves the preset with the selected section', () => {
+      const { result } = renderHook(() => useReactionStore());
+
+      act(() => {
+        result.current.setCustomSection({ shape: 'rectangle', width: 200, height: 400 });
+        result.current.loadPreset('simply-supported-point');
+      });
+
+      // σ = M / W with the custom section's W = 5333 cm³
+      const { maxMoment, minMoment, maxStress } = result.current.results!;
+      const moment = Math.max(maxMoment.value, Math.abs(minMoment.value));
+      expect(maxStress!.value).toBeCloseTo((moment * 1000) / 5333.33, 2);
+    });
   });
 
   describe('loadBeamType', () => {
@@ -220,6 +234,41 @@ describe('useReactionStore', () => {
 
       expect(result.current.beamLength).toBe(12);
     });
+
+    it('loads internal hinges for Gerber beams', () => {
+      const { result } = renderHook(() => useReactionStore());
+
+      act(() => {
+        result.current.loadBeamType('gerber', 8);
+      });
+
+      expect(result.current.hinges).toEqual([4]);
+    });
+  });
+
+  describe('hinges', () => {
+    it('adds hinges sorted by position', () => {
+      const { result } = renderHook(() => useReactionStore());
+
+      act(() => {
+        result.current.addHinge(4);
+        result.current.addHinge(2);
+      });
+
+      expect(result.current.hinges).toEqual([2, 4]);
+    });
+
+    it('removes hinge by index', () => {
+      const { result } = renderHook(() => useReactionStore());
+
+      act(() => {
+        result.current.addHinge(2);
+        result.current.addHinge(4);
+        result.current.removeHinge(0);
+      });
+
+      expect(result.current.hinges).toEqual([4]);
+    });
   });
 
   describe('reset', () => {
@@ -240,6 +289,30 @@ describe('useReactionStore', () => {
     });
   });
 
+  describe('custom section', () => {
+    it('replaces the profile and feeds the solver section', () => {
+      const { result } = renderHook(() => useReactionStore());
+      const section = { shape: 'rectangle' as const, width: 200, height: 400 };
+
+      act(() => {
+        result.current.setProfileCode('NP_200');
+        result.current.setCustomSection(section);
+      });
+
+      expect(result.current.profileCode).toBeNull();
+      expect(getReactionDesignSection(result.current)).toEqual(section);
+      // 200x400 mm: W = 5333 cm³, h = 400 mm
+      expect(getReactionSectionConfig(result.current).sectionModulus).toBeCloseTo(5333.33, 1);
+      expect(getReactionSectionConfig(result.current).sectionDepth).toBe(400);
+
+      act(() => {
+        result.current.setProfileCode('NP_200');
+      });
+
+      expect(result.current.customSection).toBeNull();
+    });
+  });
+
   describe('setShowResults', () => {
     it('toggles results visibility', () => {
       const { result } = renderHook(() => useReactionStore());
@@ -0,0 +1,134 @@
+import { useTrussStore } from '../useTrussStore';
+
+jest.mock('@/utils/storage', () => ({
+  storage: {
+    getItem: jest.fn(),
+    setItem: jest.fn(),
+    removeItem: jest.fn(),
+  },
+}));
+
+const store = () => useTrussStore.getState();
+
+describe('useTrussStore', () => {
+  beforeEach(() => {
+    useTrussStore.setState({
+      draft: { nodes: [], members: [], loads: [] },
+      draftName: 'Yeni Kafes',
+      savedTrusses: [],
+      past: [],
+      future: [],
+      sceneTruss: null,
+    });
+  });
+
+  describe('editing', () => {
+    it('adds nodes with unique ids and reuses an occupied grid point', () => {
+      const a = store().addNode(0, 0);
+      const b = store().addNode(4, 0);
+
+      expect([a, b]).toEqual(['N1', 'N2']);
+      expect(store().addNode(4, 0)).toBe('N2');
+      expect(store().draft.nodes).toHaveLength(2);
+    });
+
+    it('ignores duplicate and zero-length members', () => {
+      const a = store().addNode(0, 0);
+      const b = store().addNode(4, 0);
+      store().addMember(a, b);
+      store().addMember(b, a);
+      store().addMember(a, a);
+
+      expect(store().draft.members).toEqual([{ id: 'N1-N2', nodeStartId: 'N1', nodeEndId: 'N2' }]);
+    });
+
+    it('removes members and loads with their node', () => {
+      const a = store().addNode(0, 0);
+      const b = store().addNode(4, 0);
+      store().addMember(a, b);
+      store().setLoad(b, 0, -10);
+      store().removeNode(b);
+
+      expect(store().draft.members).toEqual([]);
+      expect(store().draft.loads).toEqual([]);
+    });
+
+    it('assigns supports and replaces the load of a node', () => {
+      const a = store().addNode(0, 0);
+      store().setSupport(a, 'roller', 30);
+      store().setLoad(a, 1, -5);
+      store().setLoad(a, 0, -8);
+
+      expect(store().draft.nodes[0]).toEqual({ id: a, x: 0, y: 0, support: 'roller', supportAngle: 30 });
+      expect(store().draft.loads).toEqual([{ nodeId: a, fx: 0, fy: -8 }]);
+
+      store().setSupport(a, undefined);
+      store().setLoad(a, 0, 0);
+      expect(store().draft.nodes[0]).toEqual({ id: a, x: 0, y: 0 });
+      expect(store().draft.loads).toEqual([]);
+    });
+  });
+
+  describe('undo / redo', () => {
+    it('steps back and forward through edits', () => {
+      store().addNode(0, 0);
+      store().addNode(4, 0);
+      store().undo();
+
+      expect(store().draft.nodes).toHaveLength(1);
+      store().redo();
+      expect(store().draft.nodes).toHaveLength(2);
+    });
+
+    it('drops the redo stack on a new edit', () => {
+      store().addNode(0, 0);
+      store().undo();
+      store().addNode(2, 0);
+
+      expect(store().future).toEqual([]);
+      store().redo();
+      expect(store().draft.nodes).toEqual([{ id: 'N1', x: 2, y: 0 }]);
+    });
+  });
+
+  describe('saved trusses', () => {
+    it('saves the draft under its name and overwrites on save again', () => {
+      store().addNode(0, 0);
+      store().setDraftName('Çatı');
+      store().saveDraft();
+      store().addNode(4, 0);
+      store().saveDraft();
+
+      expect(store().savedTrusses).toHaveLength(1);
+      expect(store().savedTrusses[0].config.nodes).toHaveLength(2);
+    });
+
+    it('loads a truss with a fresh history', () => {
+      store().addNode(0, 0);
+      store().loadDraft({ nodes: [{ id: 'A', x: 1, y: 1 }], members: [], loads: [] }, 'Kopya');
+
+      expect(store().draftName).toBe('Kopya');
+      expect(store().past).toEqual([]);
+      store().deleteSaved('Kopya');
+      expect(store().savedTrusses).toEqual([]);
+    });
+  });
+
+  describe('3D scene', () => {
+    it('hands a truss to the scene without touching the draft', () => {
+      const config = { nodes: [{ id: 'A', x: 0, y: 0 }], members: [], loads: [] };
+      store().showInScene(config, 'Pratt');
+
+      expect(store().sceneTruss).toEqual({ name: 'Pratt', config });
+      expect(store().draft.nodes).toEqual([]);
+    });
+
+    it('carries the design profile and grade to the scene', () => {
+      const config = { nodes: [{ id: 'A', x: 0, y: 0 }], members: [], loads: [] };
+      const design = { profileCode: 'CHS_114.3x4', steelGrade: 'S355' };
+      store().showInScene(config, 'Pratt', design);
+
+      expect(store().sceneTruss?.design).toEqual(design);
+    });
+  });
+});
@@ -8,19 +8,28 @@ import type {
   SupportType,
   LoadType,
 } from '@/utils/structural/reactionCalculator';
+import type { LoadCaseType } from '@/utils/structural/loadCombinations';
 import {
   calculateReactions,
   PRESET_SYSTEMS,
   getAllPresets,
   getBeamTypeById,
+  getLoadExtent,
 } from '@/utils/structural/reactionCalculator';
+import type { SectionInput } from '@/utils/structural/sectionProperties';
+import { getBeamSectionConfig } from '@/utils/structural/beamDesign';
 import { storage } from '@/utils/storage';
 
 interface ReactionState {
   // Current beam configuration
   beamLength: number;
   supports: Support[];
+  hinges: number[]; // Internal hinge positions (m)
   loads: Load[];
+  materialGrade: string | null; // materialDatabase grade, null = default steel
+  sectionDepth: number; // Section depth h (mm), used by thermal gradients
+  profileCode: string | null; // Standard profile, null = default section with sectionDepth
+  customSection: SectionInput | null; // Section from the section properties screen, replaces profileCode
 
   // Analysis results
   results: AnalysisResults | null;
@@ -31,12 +40,19 @@ interface ReactionState {
 
   // Actions
   setBeamLength: (length: number) => void;
+  setMaterialGrade: (grade: string | null) => void;
+  setSectionDepth: (depth: number) => void;
+  setProfileCode: (code: string | null) => void;
+  setCustomSection: (section: SectionInput | null) => void;
   addSupport: (support: Support) => void;
   removeSupport: (index: number) => void;
   clearSupports: () => void;
+  addHinge: (position: number) => void;
+  removeHinge: (index: number) => void;
   addLoad: (load: Load) => void;
   removeLoad: (index: number) => void;
   updateLoad: (index: number, load: Load) => void;
+  setLoadCase: (index: number, caseType: LoadCaseType) => void;
   clearLoads: () => void;
   calculate: () => void;
   loadPreset: (presetKey: string) => void;
@@ -45,23 +61,54 @@ interface ReactionState {
   setShowResults: (show: boolean) => void;
 }
 
+const DEFAULT_SECTION_DEPTH = 300; // mm
+
 const DEFAULT_SUPPORTS: Support[] = [
   { type: 'PINNED' as SupportType, position: 0 },
   { type: 'ROLLER' as SupportType, position: 6 },
 ];
 
+/** Profile code or custom section used for the solver and the design check */
+export const getReactionDesignSection = (
+  state: Pick<ReactionState, 'profileCode' | 'customSection'>
+): string | SectionInput | null => state.profileCode ?? state.customSection;
+
+/**
+ * Section fields of the solved BeamConfig: the selected profile's or custom section's
+ * W, I, A and h, otherwise only the depth (the solver keeps its default W and I)
+ */
+export const getReactionSectionConfig = (
+  state: Pick<ReactionState, 'profileCode' | 'customSection' | 'sectionDepth'>
+): Partial<BeamConfig> => {
+  const section = getReactionDesignSection(state);
+  return (section ? getBeamSectionConfig(section) : undefined) ?? { sectionDepth: state.sectionDepth };
+};
+
 export const useReactionStore = create<ReactionState>()(
   persist(
     (set, get) => ({
       beamLength: 6,
       supports: DEFAULT_SUPPORTS,
+      hinges: [],
       loads: [],
+      materialGrade: null,
+      sectionDepth: DEFAULT_SECTION_DEPTH,
+      profileCode: null,
+      customSection: null,
       results: null,
       selectedPreset: null,
       showResults: false,
 
       setBeamLength: (length) => set({ beamLength: length, results: null }),
 
+      setMaterialGrade: (grade) => set({ materialGrade: grade, results: null }),
+
+      setSectionDepth: (depth) => set({ sectionDepth: depth, results: null }),
+
+      setProfileCode: (code) => set({ profileCode: code, customSection: null, results: null }),
+
+      setCustomSection: (section) => set({ customSection: section, profileCode: null, results: null }),
+
       addSupport: (support) =>
         set((state) => ({
           supports: [...state.supports, support].sort((a, b) => a.position - b.position),
@@ -74,14 +121,24 @@ export const useReactionStore = create<ReactionState>()(
           results: null,
         })),
 
-      clearSupports: () => set({ supports: [], results: null }),
+      clearSupports: () => set({ supports: [], hinges: [], results: null }),
+
+      addHinge: (position) =>
+        set((state) => ({
+          hinges: [...state.hinges.filter((h) => h !== position), position].sort((a, b) => a - b),
+          results: null,
+        })),
+
+      removeHinge: (index) =>
+        set((state) => ({
+          hinges: state.hinges.filter((_, i) => i !== index),
+          results: null,
+        })),
 
       addLoad: (load) =>
         set((state) => ({
           loads: [...state.loads, load].sort((a, b) => {
-            const posA = 'position' in a ? a.position : a.startPosition;
-            const posB = 'position' in b ? b.position : b.startPosition;
-            return posA - posB;
+            return getLoadExtent(a).start - getLoadExtent(b).start;
           }),
           results: null,
         })),
@@ -99,6 +156,12 @@ export const useReactionStore = create<ReactionState>()(
           return { loads: newLoads, results: null };
         }),
 
+      // The characteristic solution doesn't depend on the tag, so results stay
+      setLoadCase: (index, caseType) =>
+        set((state) => ({
+          loads: state.loads.map((load, i) => (i === index ? { ...load, caseType } : load)),
+        })),
+
       clearLoads: () => set({ loads: [], results: null }),
 
       calculate: () => {
@@ -106,7 +169,10 @@ export const useReactionStore = create<ReactionState>()(
         const config: BeamConfig = {
           length: state.beamLength,
           supports: state.supports,
+          hinges: state.hinges,
           loads: state.loads,
+          materialGrade: state.materialGrade ?? undefined,
+          ...getReactionSectionConfig(state),
         };
         const results = calculateReactions(config);
         set({ results, showResults: true });
@@ -115,15 +181,20 @@ export const useReactionStore = create<ReactionState>()(
       loadPreset: (presetKey) => {
         const preset = PRESET_SYSTEMS[presetKey];
         if (preset) {
+          const state = get();
           const config: BeamConfig = {
             length: preset.length,
             supports: preset.supports,
+            hinges: preset.hinges,
             loads: preset.loads,
+            materialGrade: state.materialGrade ?? undefined,
+            ...getReactionSectionConfig(state),
           };
           const results = calculateReactions(config);
           set({
             beamLength: preset.length,
             supports: preset.supports,
+            hinges: preset.hinges ?? [],
             loads: preset.loads,
             selectedPreset: presetKey,
             results,
@@ -139,6 +210,7 @@ export const useReactionStore = create<ReactionState>()(
           set({
             beamLength: config.length,
             supports: config.supports,
+            hinges: config.hinges ?? [],
             loads: config.loads,
             selectedPreset: typeId,
             results: null,
@@ -151,7 +223,12 @@ export const useReactionStore = create<ReactionState>()(
         set({
           beamLength: 6,
           supports: DEFAULT_SUPPORTS,
+          hinges: [],
           loads: [],
+          materialGrade: null,
+          sectionDepth: DEFAULT_SECTION_DEPTH,
+          profileCode: null,
+          customSection: null,
           results: null,
           selectedPreset: null,
           showResults: false,
@@ -165,7 +242,12 @@ export const useReactionStore = create<ReactionState>()(
       partialize: (state) => ({
         beamLength: state.beamLength,
         supports: state.supports,
+        hinges: state.hinges,
         loads: state.loads,
+        materialGrade: state.materialGrade,
+        sectionDepth: state.sectionDepth,
+        profileCode: state.profileCode,
+        customSection: state.customSection,
         selectedPreset: state.selectedPreset,
       }),
     }
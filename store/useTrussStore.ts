@@ -0,0 +1,183 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { TrussConfig, TrussNode } from '@/utils/structural/trussCalculator';
+import type { TrussDesignSelection } from '@/utils/structural/trussDesign';
+import { storage } from '@/utils/storage';
+
+export interface SavedTruss {
+  name: string;
+  config: TrussConfig;
+  updatedAt: number;
+}
+
+export interface SceneTruss {
+  name: string;
+  config: TrussConfig;
+  design?: TrussDesignSelection; // Colours the members by utilization
+}
+
+interface TrussState {
+  // Truss being drawn in the editor
+  draft: TrussConfig;
+  draftName: string;
+  savedTrusses: SavedTruss[];
+
+  // Edit history (not persisted)
+  past: TrussConfig[];
+  future: TrussConfig[];
+
+  // Truss opened in the 3D scene (not persisted)
+  sceneTruss: SceneTruss | null;
+
+  // Actions - Editing
+  addNode: (x: number, y: number) => string;
+  removeNode: (nodeId: string) => void;
+  addMember: (nodeStartId: string, nodeEndId: string) => void;
+  removeMember: (memberId: string) => void;
+  setSupport: (nodeId: string, support: TrussNode['support'], supportAngle?: number) => void;
+  setLoad: (nodeId: string, fx: number, fy: number) => void;
+  clearDraft: () => void;
+  undo: () => void;
+  redo: () => void;
+
+  // Actions - Saved trusses
+  loadDraft: (config: TrussConfig, name: string) => void;
+  setDraftName: (name: string) => void;
+  saveDraft: () => void;
+  deleteSaved: (name: string) => void;
+
+  // Actions - 3D scene
+  showInScene: (config: TrussConfig, name: string, design?: TrussDesignSelection) => void;
+}
+
+const HISTORY_LIMIT = 50;
+
+const EMPTY_TRUSS: TrussConfig = { nodes: [], members: [], loads: [] };
+
+// Lowest free "N<k>" id
+const nextNodeId = (nodes: TrussNode[]) => {
+  const ids = new Set(nodes.map(n => n.id));
+  let k = 1;
+  while (ids.has(`N${k}`)) k++;
+  return `N${k}`;
+};
+
+export const useTrussStore = create<TrussState>()(
+  persist(
+    (set, get) => {
+      // Every edit goes through here so it can be undone
+      const edit = (change: (draft: TrussConfig) => TrussConfig) =>
+        set(state => {
+          const draft = change(state.draft);
+          if (draft === state.draft) return state;
+          return {
+            draft,
+            past: [...state.past, state.draft].slice(-HISTORY_LIMIT),
+            future: [],
+          };
+        });
+
+      return {
+        draft: EMPTY_TRUSS,
+        draftName: 'Yeni Kafes',
+        savedTrusses: [],
+        past: [],
+        future: [],
+        sceneTruss: null,
+
+        addNode: (x, y) => {
+          const existing = get().draft.nodes.find(n => n.x === x && n.y === y);
+          if (existing) return existing.id;
+          const id = nextNodeId(get().draft.nodes);
+          edit(draft => ({ ...draft, nodes: [...draft.nodes, { id, x, y }] }));
+          return id;
+        },
+
+        removeNode: (nodeId) =>
+          edit(draft => ({
+            nodes: draft.nodes.filter(n => n.id !== nodeId),
+            members: draft.members.filter(m => m.nodeStartId !== nodeId && m.nodeEndId !== nodeId),
+            loads: draft.loads.filter(l => l.nodeId !== nodeId),
+          })),
+
+        addMember: (nodeStartId, nodeEndId) =>
+          edit(draft => {
+            const exists = draft.members.some(
+              m =>
+                (m.nodeStartId === nodeStartId && m.nodeEndId === nodeEndId) ||
+                (m.nodeStartId === nodeEndId && m.nodeEndId === nodeStartId)
+            );
+            if (nodeStartId === nodeEndId || exists) return draft;
+            const member = { id: `${nodeStartId}-${nodeEndId}`, nodeStartId, nodeEndId };
+            return { ...draft, members: [...draft.members, member] };
+          }),
+
+        removeMember: (memberId) =>
+          edit(draft => ({ ...draft, members: draft.members.filter(m => m.id !== memberId) })),
+
+        setSupport: (nodeId, support, supportAngle) =>
+          edit(draft => ({
+            ...draft,
+            nodes: draft.nodes.map(n =>
+              n.id === nodeId
+                ? { id: n.id, x: n.x, y: n.y, ...(support && { support }), ...(supportAngle && { supportAngle }) }
+                : n
+            ),
+          })),
+
+        // One load per node; a zero load removes it
+        setLoad: (nodeId, fx, fy) =>
+          edit(draft => {
+            const loads = draft.loads.filter(l => l.nodeId !== nodeId);
+            if (fx !== 0 || fy !== 0) loads.push({ nodeId, fx, fy });
+            return { ...draft, loads };
+          }),
+
+        clearDraft: () => edit(() => EMPTY_TRUSS),
+
+        undo: () =>
+          set(state => {
+            const previous = state.past[state.past.length - 1];
+            if (!previous) return state;
+            return { draft: previous, past: state.past.slice(0, -1), future: [state.draft, ...state.future] };
+          }),
+
+        redo: () =>
+          set(state => {
+            const [next, ...future] = state.future;
+            if (!next) return state;
+            return { draft: next, past: [...state.past, state.draft], future };
+          }),
+
+        loadDraft: (config, name) => set({ draft: config, draftName: name, past: [], future: [] }),
+
+        setDraftName: (name) => set({ draftName: name }),
+
+        // Saving under an existing name overwrites it
+        saveDraft: () =>
+          set(state => {
+            const name = state.draftName.trim() || 'Yeni Kafes';
+            const saved: SavedTruss = { name, config: state.draft, updatedAt: Date.now() };
+            return {
+              draftName: name,
+              savedTrusses: [saved, ...state.savedTrusses.filter(t => t.name !== name)],
+            };
+          }),
+
+        deleteSaved: (name) =>
+          set(state => ({ savedTrusses: state.savedTrusses.filter(t => t.name !== name) })),
+
+        showInScene: (config, name, design) => set({ sceneTruss: { name, config, design } }),
+      };
+    },
+    {
+      name: 'truss-storage',
+      storage: createJSONStorage(() => storage),
+      partialize: (state) => ({
+        draft: state.draft,
+        draftName: state.draftName,
+        savedTrusses: state.savedTrusses,
+      }),
+    }
+  )
+);
@@ -16,6 +16,15 @@ export function parseNumberSafe(value: string): number {
   return isNaN(result) ? 0 : result;
 }
 
+/**
+ * Strict parse for form validation - accepts both comma and dot
+ * Empty or non-numeric text ("", "abc", "12abc") gives NaN instead of 0
+ */
+export function parseNumberStrict(value: string): number {
+  const normalized = normalizeDecimal(value.trim());
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? parseFloat(normalized) : NaN;
+}
+
 /**
  * Format number for display - use dot (standard)
  * Could optionally use comma for Turkish locale
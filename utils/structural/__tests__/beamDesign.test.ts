@@ -0,0 +1,122 @@
+import { designBeam, getBeamSectionConfig, scaleLoad } from '../beamDesign';
+import { LoadType, SupportType, type BeamConfig, type Load } from '../reactionCalculator';
+import { getStandardProfile } from '../sectionProperties';
+import { STEEL_MATERIALS } from '../materialDatabase';
+
+const udl = (magnitude: number, caseType?: Load['caseType']): Load => ({
+  type: LoadType.UDL,
+  startPosition: 0,
+  endPosition: 6,
+  magnitude,
+  caseType,
+});
+
+const deadAndLive: Load[] = [udl(-4), udl(-3, 'live')];
+
+const config: BeamConfig = {
+  length: 6,
+  supports: [
+    { type: SupportType.PINNED, position: 0 },
+    { type: SupportType.ROLLER, position: 6 },
+  ],
+  loads: deadAndLive,
+};
+
+describe('beamDesign', () => {
+  describe('designBeam', () => {
+    it('governs bending and shear by 1.35G + 1.5Q', () => {
+      const result = designBeam({ config, section: 'NP_200', steelGrade: 'St37' });
+      const w = 1.35 * 4 + 1.5 * 3;
+
+      expect(result.isValid).toBe(true);
+      expect(result.bending!.combinationId).toBe('ULS-1');
+      expect(result.bending!.demand).toBeCloseTo((w * 36) / 8, 6);
+      expect(result.bending!.position).toBeCloseTo(3, 6);
+      expect(result.shear!.demand).toBeCloseTo(w * 3, 6);
+    });
+
+    it('uses W·fyd and Av·fyd/√3 as resistances', () => {
+      const result = designBeam({ config, section: 'NP_200', steelGrade: 'St37' });
+      const profile = getStandardProfile('NP_200')!;
+      const { height, flangeThickness, webThickness } = profile.dimensions;
+      const fyd = STEEL_MATERIALS.St37.fyd;
+
+      expect(result.momentResistance).toBeCloseTo((profile.properties.wy * fyd) / 1e6, 6);
+      expect(result.shearResistance).toBeCloseTo(
+        ((height - 2 * flangeThickness) * webThickness * fyd) / Math.sqrt(3) / 1000,
+        6
+      );
+      expect(result.bending!.ratio).toBeCloseTo(result.bending!.demand / result.momentResistance, 9);
+    });
+
+    it('checks deflection with the characteristic G + Q combination', () => {
+      const result = designBeam({ config, section: 'NP_200', steelGrade: 'St37' });
+      const EI = STEEL_MATERIALS.St37.E * (getStandardProfile('NP_200')!.properties.iy / 1e4) * 1e-5;
+      const delta = ((5 * 7 * Math.pow(6, 4)) / (384 * EI)) * 1000;
+
+      expect(result.deflection!.combinationId).toBe('SLS-1');
+      expect(result.deflection!.demand).toBeCloseTo(delta, 3);
+      expect(result.deflection!.capacity).toBeCloseTo(6000 / 300, 9);
+    });
+
+    it('picks the wind combination when wind dominates', () => {
+      const loads = [...deadAndLive, udl(-5, 'wind')];
+      const result = designBeam({ config: { ...config, loads }, section: 'NP_240', steelGrade: 'St52' });
+
+      expect(result.bending!.combinationId).toBe('ULS-2');
+      expect(result.governing!.ratio).toBe(
+        Math.max(result.bending!.ratio, result.shear!.ratio, result.deflection!.ratio)
+      );
+      expect(result.combinations.every(c => c.results.isValid)).toBe(true);
+    });
+
+    it('accepts a custom section', () => {
+      const section = { shape: 'rectangle' as const, width: 100, height: 200 };
+      const result = designBeam({ config, section, steelGrade: 'St37' });
+
+      expect(result.section!.name).toBe('Özel Kesit');
+      expect(result.section!.shearArea).toBeCloseTo(20000 / 1.5, 6);
+    });
+
+    it('rejects unknown profiles, non-steel grades and uncombined cases', () => {
+      expect(designBeam({ config, section: 'NP_999', steelGrade: 'St37' }).isValid).toBe(false);
+      expect(designBeam({ config, section: 'NP_200', steelGrade: 'C30/37' }).errorMessage).toBe(
+        'Tasarım için çelik sınıfı seçilmeli'
+      );
+      expect(
+        designBeam({ config: { ...config, loads: [udl(-1, 'thermal')] }, section: 'NP_200', steelGrade: 'St37' }).isValid
+      ).toBe(false);
+    });
+  });
+
+  describe('getBeamSectionConfig', () => {
+    it('converts profile properties to BeamConfig units', () => {
+      const profile = getStandardProfile('NP_200')!;
+      const config = getBeamSectionConfig('NP_200')!;
+
+      expect(config.sectionModulus).toBeCloseTo(profile.properties.wy / 1000, 9);
+      expect(config.momentOfInertia).toBeCloseTo(profile.properties.iy / 10000, 9);
+      expect(config.area).toBeCloseTo(profile.properties.area / 100, 9);
+      expect(config.sectionDepth).toBe(200);
+      expect(getBeamSectionConfig('NP_999')).toBeUndefined();
+    });
+  });
+
+  describe('scaleLoad', () => {
+    it('scales every intensity of a load', () => {
+      const polyline = scaleLoad(
+        { type: LoadType.POLYLINE, points: [{ position: 0, magnitude: -2 }, { position: 4, magnitude: -6 }] },
+        1.5
+      );
+      expect(polyline).toEqual({
+        type: LoadType.POLYLINE,
+        points: [{ position: 0, magnitude: -3 }, { position: 4, magnitude: -9 }],
+      });
+      expect(scaleLoad({ type: LoadType.POINT, position: 2, magnitude: -10 }, 1.35)).toEqual({
+        type: LoadType.POINT,
+        position: 2,
+        magnitude: -13.5,
+      });
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  analyzeFrame,
+  FRAME_LABELS,
+  FRAME_PRESETS,
+  getFramePreset,
+  type FrameConfig,
+  type FrameResults,
+} from '../frameCalculator';
+
+const L = 6;
+const EI = 200000 * 8356 * 1e-5; // kN·m², default IPE 300
+
+const beam = (overrides: Partial<FrameConfig> = {}): FrameConfig => ({
+  nodes: [
+    { id: 'A', x: 0, y: 0, support: 'fixed' },
+    { id: 'B', x: L, y: 0, support: 'fixed' },
+  ],
+  members: [{ id: 'AB', nodeStartId: 'A', nodeEndId: 'B' }],
+  nodalLoads: [],
+  memberLoads: [{ memberId: 'AB', type: 'udl', qx: 0, qy: -10, system: 'global' }],
+  ...overrides,
+});
+
+const memberOf = (results: FrameResults, id: string) => results.memberResults.find(m => m.memberId === id)!;
+
+const momentAt = (results: FrameResults, id: string, x: number) =>
+  memberOf(results, id).diagram.find(p => Math.abs(p.x - x) < 1e-9)!.moment;
+
+// Sum of forces and moments about the origin from loads and reactions
+const residual = (config: FrameConfig, results: FrameResults) => {
+  const node = (id: string) => config.nodes.find(n => n.id === id)!;
+  let fx = 0;
+  let fy = 0;
+  let m = 0;
+  const add = (x: number, y: number, px: number, py: number, moment = 0) => {
+    fx += px;
+    fy += py;
+    m += x * py - y * px + moment;
+  };
+
+  for (const load of config.nodalLoads) {
+    const { x, y } = node(load.nodeId);
+    add(x, y, load.fx, load.fy, load.m);
+  }
+  for (const load of config.memberLoads) {
+    const member = config.members.find(mb => mb.id === load.memberId)!;
+    const a = node(member.nodeStartId);
+    const b = node(member.nodeEndId);
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const c = (b.x - a.x) / length;
+    const s = (b.y - a.y) / length;
+    const [gx, gy] = load.system === 'global' ? [load.qx, load.qy] : [load.qx * c - load.qy * s, load.qx * s + load.qy * c];
+    const t = load.type === 'udl' ? length / 2 : load.position!;
+    const scale = load.type === 'udl' ? length : 1;
+    add(a.x + c * t, a.y + s * t, gx * scale, gy * scale);
+  }
+  for (const reaction of results.reactions) {
+    const { x, y } = node(reaction.nodeId);
+    add(x, y, reaction.rx, reaction.ry, reaction.m);
+  }
+  return [fx, fy, m];
+};
+
+describe('frameCalculator', () => {
+  it('solves a fixed-fixed beam under a uniform load', () => {
+    const results = analyzeFrame(beam());
+
+    expect(results.isValid).toBe(true);
+    expect(results.degree).toBe(3);
+    expect(momentAt(results, 'AB', 0)).toBeCloseTo((-10 * L * L) / 12, 9);
+    expect(momentAt(results, 'AB', L / 2)).toBeCloseTo((10 * L * L) / 24, 9);
+    expect(momentAt(results, 'AB', L)).toBeCloseTo((-10 * L * L) / 12, 9);
+    for (const reaction of results.reactions) {
+      expect(reaction.ry).toBeCloseTo(30, 9);
+    }
+  });
+
+  it('condenses an end release into a propped cantilever', () => {
+    const config = beam({ members: [{ id: 'AB', nodeStartId: 'A', nodeEndId: 'B', releaseEnd: true }] });
+    const results = analyzeFrame(config);
+    const [, right] = results.reactions;
+
+    expect(results.degree).toBe(2);
+    expect(momentAt(results, 'AB', 0)).toBeCloseTo((-10 * L * L) / 8, 9);
+    expect(momentAt(results, 'AB', L)).toBeCloseTo(0, 9);
+    expect(right.ry).toBeCloseTo((3 * 10 * L) / 8, 9);
+    expect(right.m).toBeCloseTo(0, 9);
+  });
+
+  it('shows the shear jump under a point load on a simple beam', () => {
+    const config = beam({
+      nodes: [
+        { id: 'A', x: 0, y: 0, support: 'pin' },
+        { id: 'B', x: L, y: 0, support: 'roller' },
+      ],
+      memberLoads: [{ memberId: 'AB', type: 'point', qx: 0, qy: -40, system: 'global', position: 2 }],
+    });
+    const results = analyzeFrame(config);
+    const member = memberOf(results, 'AB');
+    const atLoad = member.diagram.filter(p => p.x === 2);
+
+    expect(results.degree).toBe(0);
+    expect(atLoad.map(p => p.shear)).toEqual([expect.closeTo(80 / 3, 9), expect.closeTo(-40 / 3, 9)]);
+    expect(member.maxMoment).toBeCloseTo((40 * 2 * 4) / L, 9);
+  });
+
+  it('matches the cantilever tip deflection PL³/3EI', () => {
+    const results = analyzeFrame(
+      beam({
+        nodes: [
+          { id: 'A', x: 0, y: 0, support: 'fixed' },
+          { id: 'B', x: L, y: 0 },
+        ],
+        nodalLoads: [{ nodeId: 'B', fx: 0, fy: -5, m: 0 }],
+        memberLoads: [],
+      })
+    );
+    const tip = results.displacements.find(d => d.nodeId === 'B')!;
+
+    expect(tip.dy).toBeCloseTo(((-5 * L ** 3) / (3 * EI)) * 1000, 9);
+    expect(tip.rotation).toBeCloseTo((-5 * L * L) / (2 * EI), 12);
+  });
+
+  it('resolves global loads on an inclined member into axial and transverse parts', () => {
+    const config = beam({
+      nodes: [
+        { id: 'A', x: 0, y: 0, support: 'pin' },
+        { id: 'B', x: 3, y: 4, support: 'roller' },
+      ],
+      memberLoads: [{ memberId: 'AB', type: 'point', qx: 0, qy: -10, system: 'global', position: 2.5 }],
+    });
+    const results = analyzeFrame(config);
+    const member = memberOf(results, 'AB');
+
+    // Both supports take 5 kN vertically; sin α = 0.8, cos α = 0.6
+    expect(member.start.fx).toBeCloseTo(5 * 0.8, 9);
+    expect(member.maxMoment).toBeCloseTo(5 * 0.6 * 2.5, 9);
+  });
+
+  it('reports mechanisms and invalid input', () => {
+    const rolling = beam({
+      nodes: [
+        { id: 'A', x: 0, y: 0, support: 'roller' },
+        { id: 'B', x: L, y: 0, support: 'roller' },
+      ],
+    });
+    const results = analyzeFrame(rolling);
+    expect(results.isValid).toBe(false);
+    expect(results.errorMessage).toMatch(/^Sistem istikrarsız!/);
+
+    const unsupported = beam({ nodes: beam().nodes.map(({ support, ...n }) => n) });
+    expect(analyzeFrame(unsupported).errorMessage).toBe('Mesnet tanımlanmamış!');
+
+    const stray = beam({ memberLoads: [{ memberId: 'X', type: 'udl', qx: 0, qy: -1, system: 'global' }] });
+    expect(analyzeFrame(stray).errorMessage).toBe('Yük tanımsız çubukta: X');
+
+    const outside = beam({ memberLoads: [{ memberId: 'AB', type: 'point', qx: 0, qy: -1, system: 'local', position: 7 }] });
+    expect(analyzeFrame(outside).errorMessage).toBe('Çubuk AB yükü çubuk dışında: 7 m');
+  });
+
+  describe('presets', () => {
+    it.each(Object.keys(FRAME_PRESETS))('solves %s in equilibrium', key => {
+      const config = getFramePreset(key)!;
+      const results = analyzeFrame(config);
+
+      expect(FRAME_LABELS[key]).toBeDefined();
+      expect(results.isValid).toBe(true);
+      for (const value of residual(config, results)) {
+        expect(value).toBeCloseTo(0, 6);
+      }
+    });
+
+    it('keeps moment continuity at the rigid corners of the portal', () => {
+      const results = analyzeFrame(getFramePreset('portal-fixed')!);
+
+      expect(results.degree).toBe(3);
+      expect(memberOf(results, 'AB').end.m).toBeCloseTo(-memberOf(results, 'BC').start.m, 9);
+    });
+
+    it('builds the three-hinged frame as a determinate system with M = 0 at the crown', () => {
+      const results = analyzeFrame(getFramePreset('three-hinged')!);
+      const crown = memberOf(results, 'BC');
+
+      expect(results.degree).toBe(0);
+      expect(crown.end.m).toBeCloseTo(0, 9);
+      expect(memberOf(results, 'CD').start.m).toBeCloseTo(0, 9);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  calculateInfluenceLine,
+  evaluateInfluenceLine,
+  findCriticalTrainPosition,
+  getInfluenceTargets,
+} from '../influenceLines';
+import { SupportType, type BeamConfig } from '../reactionCalculator';
+
+const simpleBeam: BeamConfig = {
+  length: 10,
+  supports: [
+    { type: SupportType.PINNED, position: 0 },
+    { type: SupportType.ROLLER, position: 10 },
+  ],
+  loads: [],
+};
+
+describe('influenceLines', () => {
+  describe('calculateInfluenceLine', () => {
+    it('gives a straight line for a simple beam reaction', () => {
+      const line = calculateInfluenceLine(simpleBeam, { quantity: 'reaction', supportIndex: 0 });
+
+      expect(line).not.toBeNull();
+      expect(evaluateInfluenceLine(line!, 0)).toBeCloseTo(1, 6);
+      expect(evaluateInfluenceLine(line!, 2.5)).toBeCloseTo(0.75, 6);
+      expect(evaluateInfluenceLine(line!, 10)).toBeCloseTo(0, 6);
+      expect(line!.max.value).toBeCloseTo(1, 6);
+    });
+
+    it('peaks at ab/L under the section for midspan moment', () => {
+      const line = calculateInfluenceLine(simpleBeam, { quantity: 'moment', section: 4 });
+
+      expect(line!.max.value).toBeCloseTo(2.4, 6);
+      expect(line!.max.x).toBeCloseTo(4, 4);
+      expect(line!.positiveArea).toBeCloseTo(12, 4);
+      expect(line!.negativeArea).toBeCloseTo(0, 6);
+    });
+
+    it('jumps by one unit across the section for shear', () => {
+      const line = calculateInfluenceLine(simpleBeam, { quantity: 'shear', section: 4 });
+
+      expect(evaluateInfluenceLine(line!, 4 - 1e-6)).toBeCloseTo(-0.4, 4);
+      expect(evaluateInfluenceLine(line!, 4 + 1e-6)).toBeCloseTo(0.6, 4);
+      expect(line!.min.value).toBeCloseTo(-0.4, 4);
+      expect(line!.max.value).toBeCloseTo(0.6, 4);
+    });
+
+    it('gives the curved Müller-Breslau line for a propped cantilever', () => {
+      const config: BeamConfig = {
+        length: 10,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.ROLLER, position: 10 },
+        ],
+        loads: [],
+      };
+      const line = calculateInfluenceLine(config, { quantity: 'reaction', supportIndex: 1 });
+
+      // R_B(x) = x²(3L - x) / 2L³
+      expect(evaluateInfluenceLine(line!, 5)).toBeCloseTo(0.3125, 6);
+      expect(evaluateInfluenceLine(line!, 10)).toBeCloseTo(1, 6);
+    });
+
+    it('returns null for an invalid target or unstable beam', () => {
+      expect(calculateInfluenceLine(simpleBeam, { quantity: 'reaction', supportIndex: 5 })).toBeNull();
+      expect(calculateInfluenceLine(simpleBeam, { quantity: 'moment', section: 12 })).toBeNull();
+
+      const unstable: BeamConfig = {
+        length: 6,
+        supports: [{ type: SupportType.ROLLER, position: 0 }],
+        loads: [],
+      };
+      expect(calculateInfluenceLine(unstable, { quantity: 'reaction', supportIndex: 0 })).toBeNull();
+    });
+  });
+
+  describe('findCriticalTrainPosition', () => {
+    it('places an axle over the peak for maximum moment', () => {
+      const line = calculateInfluenceLine(simpleBeam, { quantity: 'moment', section: 5 })!;
+      const result = findCriticalTrainPosition(line, { loads: [20, 10], spacings: [2] });
+
+      // Heavy axle at midspan: 20 × 2.5 + 10 × 1.5
+      expect(result!.max.value).toBeCloseTo(65, 4);
+      expect(result!.max.axlePositions[0]).toBeCloseTo(5, 4);
+    });
+
+    it('accounts for axles that are off the beam', () => {
+      const line = calculateInfluenceLine(simpleBeam, { quantity: 'reaction', supportIndex: 0 })!;
+      const result = findCriticalTrainPosition(line, { loads: [100, 50], spacings: [20] });
+
+      // Only one axle fits on the 10 m span at a time
+      expect(result!.max.value).toBeCloseTo(100, 4);
+    });
+
+    it('returns null for an empty train', () => {
+      const line = calculateInfluenceLine(simpleBeam, { quantity: 'moment', section: 5 })!;
+      expect(findCriticalTrainPosition(line, { loads: [], spacings: [] })).toBeNull();
+    });
+  });
+
+  describe('getInfluenceTargets', () => {
+    it('lists moment reactions only for fixed or guided supports', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: [],
+      };
+      const quantities = getInfluenceTargets(config, 3).map(t => t.quantity);
+
+      expect(quantities).toEqual(['reaction', 'reactionMoment', 'reaction', 'shear', 'moment']);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { calculateEnvelope, getGoverningRanges } from '../loadEnvelope';
+import { scaleLoad } from '../beamDesign';
+import { getUltimateCombinations } from '../loadCombinations';
+import {
+  LoadType,
+  SupportType,
+  calculateSectionForces,
+  getLoadCaseType,
+  type BeamConfig,
+  type Load,
+} from '../reactionCalculator';
+
+const simpleBeam: BeamConfig = {
+  length: 6,
+  supports: [
+    { type: SupportType.PINNED, position: 0 },
+    { type: SupportType.ROLLER, position: 6 },
+  ],
+  loads: [
+    { type: LoadType.UDL, startPosition: 0, endPosition: 6, magnitude: -4 },
+    { type: LoadType.UDL, startPosition: 0, endPosition: 6, magnitude: -3, caseType: 'live' },
+  ],
+};
+
+// Largest and smallest moment at x over direct solves of every factored combination
+const directMomentRange = (config: BeamConfig, x: number) => {
+  const moments = getUltimateCombinations().map(combination => {
+    const loads: Load[] = config.loads.map(load =>
+      scaleLoad(load, combination.loads[getLoadCaseType(load) === 'dead' ? 'G' : 'Q'] ?? 0)
+    );
+    return calculateSectionForces({ ...config, loads }, x)!.moment;
+  });
+  return { max: Math.max(...moments), min: Math.min(...moments) };
+};
+
+describe('loadEnvelope', () => {
+  describe('calculateEnvelope', () => {
+    it('solves each case once and labels the governing combinations', () => {
+      const envelope = calculateEnvelope(simpleBeam);
+
+      expect(envelope.isValid).toBe(true);
+      expect(envelope.cases).toEqual(['dead', 'live']);
+      expect(envelope.combinations.every(c => c.isUltimate)).toBe(true);
+
+      // 1.35G + 1.5Q and 1.0G + 0.3Q give the extreme midspan moments
+      expect(envelope.extremes.maxMoment.value).toBeCloseTo(((1.35 * 4 + 1.5 * 3) * 36) / 8, 6);
+      expect(envelope.extremes.maxMoment.combinationId).toBe('ULS-1');
+      expect(envelope.extremes.maxMoment.position).toBeCloseTo(3, 6);
+      const midspan = envelope.points.find(p => Math.abs(p.x - 3) < 1e-9)!;
+      expect(midspan.minMoment).toBeCloseTo(((4 + 0.3 * 3) * 36) / 8, 6);
+      expect(midspan.governing.minMoment).toBe('ULS-seismic');
+    });
+
+    it('matches direct solves of the factored loads on a continuous beam', () => {
+      const config: BeamConfig = {
+        length: 10,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 5 },
+          { type: SupportType.ROLLER, position: 10 },
+        ],
+        loads: [
+          { type: LoadType.UDL, startPosition: 0, endPosition: 10, magnitude: -2 },
+          { type: LoadType.POINT, position: 7.5, magnitude: -20, caseType: 'live' },
+        ],
+      };
+      const envelope = calculateEnvelope(config);
+
+      for (const x of [2.5, 5, 7.5]) {
+        const point = envelope.points.find(p => Math.abs(p.x - x) < 1e-9)!;
+        const direct = directMomentRange(config, x);
+        expect(point.maxMoment).toBeCloseTo(direct.max, 6);
+        expect(point.minMoment).toBeCloseTo(direct.min, 6);
+      }
+    });
+
+    it('keeps both sides of a shear jump', () => {
+      const config: BeamConfig = {
+        ...simpleBeam,
+        loads: [{ type: LoadType.POINT, position: 2, magnitude: -12 }],
+      };
+      const atLoad = calculateEnvelope(config).points.filter(p => Math.abs(p.x - 2) < 1e-9);
+
+      expect(atLoad).toHaveLength(2);
+      // Left of the load V = 8 kN, right V = -4 kN, both times 1.35
+      expect(atLoad[0].maxShear).toBeCloseTo(1.35 * 8, 6);
+      expect(atLoad[1].minShear).toBeCloseTo(1.35 * -4, 6);
+    });
+
+    it('adds support settlements once, unfactored', () => {
+      const config: BeamConfig = {
+        length: 8,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.ROLLER, position: 8, displacement: -10 },
+        ],
+        loads: [{ type: LoadType.UDL, startPosition: 0, endPosition: 8, magnitude: -5 }],
+      };
+      const envelope = calculateEnvelope(config);
+      const start = envelope.points[0];
+      const factored = calculateSectionForces({ ...config, loads: [scaleLoad(config.loads[0], 1.35)] }, 0)!;
+
+      expect(start.minMoment).toBeCloseTo(factored.moment, 6);
+    });
+
+    it('keeps untagged temperature loads out of the combinations', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: [{ type: LoadType.UDL, startPosition: 0, endPosition: 6, magnitude: -4 }],
+      };
+      const gradient: Load = {
+        type: LoadType.THERMAL,
+        startPosition: 0,
+        endPosition: 6,
+        topTemperature: -10,
+        bottomTemperature: 10,
+      };
+      const deadOnly = calculateEnvelope(config);
+      const withThermal = calculateEnvelope({ ...config, loads: [...config.loads, gradient] });
+
+      // The propped cantilever is restrained, so the gradient alone would bend it
+      expect(calculateSectionForces({ ...config, loads: [gradient] }, 0)!.moment).not.toBeCloseTo(0, 3);
+      expect(getLoadCaseType(gradient)).toBe('thermal');
+      expect(withThermal.cases).toEqual(['dead', 'thermal']);
+      expect(withThermal.extremes.minMoment.value).toBeCloseTo(deadOnly.extremes.minMoment.value, 6);
+      expect(withThermal.extremes.maxMoment.value).toBeCloseTo(deadOnly.extremes.maxMoment.value, 6);
+    });
+
+    it('rejects configurations without combinable loads', () => {
+      expect(calculateEnvelope({ ...simpleBeam, loads: [] }).isValid).toBe(false);
+      const thermalOnly = calculateEnvelope({
+        ...simpleBeam,
+        loads: [{ ...simpleBeam.loads[0], caseType: 'thermal' }],
+      });
+      expect(thermalOnly.errorMessage).toBe('Kombinasyona giren yük durumu yok');
+    });
+  });
+
+  describe('getGoverningRanges', () => {
+    it('covers the beam with contiguous ranges', () => {
+      const config: BeamConfig = {
+        ...simpleBeam,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 4 },
+        ],
+        loads: [
+          { type: LoadType.UDL, startPosition: 0, endPosition: 6, magnitude: -4 },
+          { type: LoadType.POINT, position: 6, magnitude: 15, caseType: 'wind' },
+        ],
+      };
+      const ranges = getGoverningRanges(calculateEnvelope(config).points, 'maxMoment');
+
+      expect(ranges[0].start).toBe(0);
+      expect(ranges[ranges.length - 1].end).toBeCloseTo(6, 9);
+      for (let i = 1; i < ranges.length; i++) {
+        expect(ranges[i].start).toBeCloseTo(ranges[i - 1].end, 9);
+        expect(ranges[i].combinationId).not.toBe(ranges[i - 1].combinationId);
+      }
+      expect(ranges.length).toBeGreaterThan(1);
+    });
+  });
+});
@@ -62,6 +62,51 @@ describe('loadFactory', () => {
       expect(load.endPosition).toBe(5);
       expect(load.maxMagnitude).toBe(-8);
     });
+
+    it('should create INCLINED load with positive magnitude and angle', () => {
+      const load = createLoad(LoadType.INCLINED, {
+        position: 2,
+        magnitude: -12,
+        angle: -45,
+      }) as any;
+      expect(load.type).toBe(LoadType.INCLINED);
+      expect(load.magnitude).toBe(12);
+      expect(load.angle).toBe(-45);
+    });
+
+    it('should create AXIAL load preserving sign', () => {
+      const load = createLoad(LoadType.AXIAL, {
+        position: 4,
+        magnitude: -20,
+      }) as any;
+      expect(load.type).toBe(LoadType.AXIAL);
+      expect(load.magnitude).toBe(-20); // Negative = left
+    });
+
+    it('should create LINEAR load with both end intensities downward', () => {
+      const load = createLoad(LoadType.LINEAR, {
+        startPosition: 0,
+        endPosition: 6,
+        magnitude: 10,
+        endMagnitude: 0,
+      }) as any;
+      expect(load.type).toBe(LoadType.LINEAR);
+      expect(load.startMagnitude).toBe(-10);
+      expect(load.endMagnitude).toBe(0);
+    });
+
+    it('should create POLYLINE load with sorted points', () => {
+      const load = createLoad(LoadType.POLYLINE, {
+        points: [
+          { position: 4, magnitude: 5 },
+          { position: 0, magnitude: 0 },
+          { position: 2, magnitude: 10 },
+        ],
+      }) as any;
+      expect(load.type).toBe(LoadType.POLYLINE);
+      expect(load.points.map((p: any) => p.position)).toEqual([0, 2, 4]);
+      expect(load.points[1].magnitude).toBe(-10);
+    });
   });
 
   describe('createPreviewLoad', () => {
@@ -102,6 +147,41 @@ describe('loadFactory', () => {
       expect((load as any)?.position).toBe(3.5);
       expect((load as any)?.magnitude).toBe(-10.5);
     });
+
+    it('should create valid INCLINED load preview', () => {
+      const load = createPreviewLoad(LoadType.INCLINED, '3', '10', '', '', 6, { angle: '-60' });
+      expect(load).not.toBeNull();
+      expect((load as any)?.angle).toBe(-60);
+    });
+
+    it('should create LINEAR preview peaking at the start', () => {
+      const load = createPreviewLoad(LoadType.LINEAR, '', '8', '0', '4', 6, { endMagnitude: '0' });
+      expect(load).not.toBeNull();
+      expect((load as any)?.startMagnitude).toBe(-8);
+      expect((load as any)?.endMagnitude).toBe(0);
+    });
+
+    it('should create POLYLINE preview from point text', () => {
+      const load = createPreviewLoad(LoadType.POLYLINE, '', '', '', '', 6, { points: '0:0; 3:10; 6:0' });
+      expect(load).not.toBeNull();
+      expect((load as any)?.points).toHaveLength(3);
+    });
+
+    it('should create THERMAL preview with a cooling top fibre', () => {
+      const load = createPreviewLoad(LoadType.THERMAL, '', '', '0', '6', 6, {
+        topTemperature: '-10',
+        bottomTemperature: '15,5',
+      });
+      expect(load).not.toBeNull();
+      expect((load as any)?.topTemperature).toBe(-10);
+      expect((load as any)?.bottomTemperature).toBe(15.5);
+    });
+
+    it('should accept negative AXIAL magnitude in preview', () => {
+      const load = createPreviewLoad(LoadType.AXIAL, '3', '-10', '', '', 6);
+      expect(load).not.toBeNull();
+      expect((load as any)?.magnitude).toBe(-10);
+    });
   });
 
   describe('formatLoadDescription', () => {
@@ -173,6 +253,10 @@ describe('loadFactory', () => {
       expect(getLoadTypeShortLabel(LoadType.UDL)).toBe('w');
       expect(getLoadTypeShortLabel(LoadType.MOMENT)).toBe('M');
       expect(getLoadTypeShortLabel(LoadType.TRIANGULAR)).toBe('△');
+      expect(getLoadTypeShortLabel(LoadType.INCLINED)).toBe('∠');
+      expect(getLoadTypeShortLabel(LoadType.AXIAL)).toBe('N');
+      expect(getLoadTypeShortLabel(LoadType.LINEAR)).toBe('⊿');
+      expect(getLoadTypeShortLabel(LoadType.POLYLINE)).toBe('⋀');
     });
   });
 
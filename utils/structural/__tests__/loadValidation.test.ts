@@ -8,6 +8,10 @@ import {
   validateLoadMagnitude,
   validateLoadRange,
   validateLoadInputs,
+  validateLoadAngle,
+  validateSignedMagnitude,
+  parsePolylinePoints,
+  validatePolylinePoints,
   ErrorMessages,
 } from '../loadValidation';
 import { LoadType } from '../reactionCalculator';
@@ -152,6 +156,105 @@ describe('loadValidation', () => {
       expect(result.isValid).toBe(false);
       expect(result.error).toContain('küçük olmalıdır');
     });
+
+    it('should validate INCLINED load inputs with angle', () => {
+      const result = validateLoadInputs(LoadType.INCLINED, '3', '10', '', '', 6, { angle: '-45' });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject INCLINED with out-of-range angle', () => {
+      const result = validateLoadInputs(LoadType.INCLINED, '3', '10', '', '', 6, { angle: '400' });
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should validate LINEAR load with a zero end intensity', () => {
+      const result = validateLoadInputs(LoadType.LINEAR, '', '10', '0', '4', 6, { endMagnitude: '0' });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject LINEAR load with both intensities zero', () => {
+      const result = validateLoadInputs(LoadType.LINEAR, '', '0', '0', '4', 6, { endMagnitude: '0' });
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should validate POLYLINE load points', () => {
+      const result = validateLoadInputs(LoadType.POLYLINE, '', '', '', '', 6, { points: '0:0; 2:5; 6:5' });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should validate THERMAL load with negative temperatures', () => {
+      const result = validateLoadInputs(LoadType.THERMAL, '', '', '0', '6', 6, {
+        topTemperature: '-20',
+        bottomTemperature: '-5',
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject THERMAL load without a temperature change', () => {
+      const result = validateLoadInputs(LoadType.THERMAL, '', '', '0', '6', 6, {
+        topTemperature: '0',
+        bottomTemperature: '0',
+      });
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should accept negative AXIAL magnitude', () => {
+      const result = validateLoadInputs(LoadType.AXIAL, '3', '-10', '', '', 6);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject empty or non-numeric extras instead of reading them as zero', () => {
+      expect(validateLoadInputs(LoadType.LINEAR, '', '10', '0', '4', 6, { endMagnitude: '' }).isValid).toBe(false);
+      expect(validateLoadInputs(LoadType.INCLINED, '3', '10', '', '', 6, { angle: 'abc' }).isValid).toBe(false);
+      expect(validateLoadInputs(LoadType.AXIAL, '3', '10kN', '', '', 6).isValid).toBe(false);
+      const thermal = validateLoadInputs(LoadType.THERMAL, '', '', '0', '6', 6, {
+        topTemperature: '-20',
+        bottomTemperature: '',
+      });
+      expect(thermal.isValid).toBe(false);
+      expect(thermal.error).toContain('Alt sıcaklık');
+    });
+
+    it('should return the parsed values of a valid input', () => {
+      const result = validateLoadInputs(LoadType.LINEAR, '', '10', '0,5', '4', 6, { endMagnitude: '-2,5' });
+      expect(result.inputs).toEqual({ startPosition: 0.5, endPosition: 4, magnitude: 10, endMagnitude: -2.5 });
+    });
+  });
+
+  describe('validateLoadAngle', () => {
+    it('should accept Turkish comma format', () => {
+      const result = validateLoadAngle('-22,5');
+      expect(result.isValid).toBe(true);
+      expect(result.value).toBe(-22.5);
+    });
+  });
+
+  describe('polyline points', () => {
+    it('should parse Turkish decimals with ; separators', () => {
+      expect(parsePolylinePoints('0:0; 2,5:7,5')).toEqual([
+        { position: 0, magnitude: 0 },
+        { position: 2.5, magnitude: 7.5 },
+      ]);
+    });
+
+    it('should reject malformed text', () => {
+      expect(parsePolylinePoints('0:0; 2')).toBeNull();
+      expect(validatePolylinePoints('abc', 6).isValid).toBe(false);
+    });
+
+    it('should reject unordered or out-of-range points', () => {
+      expect(validatePolylinePoints('0:0; 4:5; 2:5', 6).error).toContain('artan');
+      expect(validatePolylinePoints('0:0; 8:5', 6).isValid).toBe(false);
+      expect(validatePolylinePoints('0:5', 6).error).toContain('iki nokta');
+    });
+  });
+
+  describe('validateSignedMagnitude', () => {
+    it('should reject zero', () => {
+      const result = validateSignedMagnitude('0');
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('sıfır olamaz');
+    });
   });
 
   describe('ErrorMessages', () => {
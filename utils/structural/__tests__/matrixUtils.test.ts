@@ -0,0 +1,74 @@
+import { createMatrix, findSingularColumns, solveLinearSystem, subMatrix } from '../matrixUtils';
+
+describe('matrixUtils', () => {
+  describe('createMatrix', () => {
+    it('creates a square zero matrix by default', () => {
+      const m = createMatrix(3);
+      expect(m).toHaveLength(3);
+      expect(m[2]).toEqual([0, 0, 0]);
+    });
+
+    it('creates independent rows', () => {
+      const m = createMatrix(2, 3);
+      m[0][0] = 5;
+      expect(m[1][0]).toBe(0);
+      expect(m[0]).toHaveLength(3);
+    });
+  });
+
+  describe('subMatrix', () => {
+    it('extracts rows and columns by index', () => {
+      const m = [
+        [1, 2, 3],
+        [4, 5, 6],
+        [7, 8, 9],
+      ];
+      expect(subMatrix(m, [0, 2])).toEqual([[1, 3], [7, 9]]);
+      expect(subMatrix(m, [1], [0, 1])).toEqual([[4, 5]]);
+    });
+  });
+
+  describe('solveLinearSystem', () => {
+    it('solves a system that needs pivoting', () => {
+      const x = solveLinearSystem(
+        [
+          [0, 2, 1],
+          [1, 1, 1],
+          [2, 1, 3],
+        ],
+        [5, 5, 12]
+      );
+      expect(x).not.toBeNull();
+      expect(x![0]).toBeCloseTo(1, 10);
+      expect(x![1]).toBeCloseTo(1, 10);
+      expect(x![2]).toBeCloseTo(3, 10);
+    });
+
+    it('returns null for a singular matrix', () => {
+      expect(solveLinearSystem([[1, 2], [2, 4]], [1, 2])).toBeNull();
+    });
+
+    it('does not modify its inputs', () => {
+      const A = [[4, 1], [1, 3]];
+      const b = [1, 2];
+      solveLinearSystem(A, b);
+      expect(A).toEqual([[4, 1], [1, 3]]);
+      expect(b).toEqual([1, 2]);
+    });
+
+    it('handles an empty system', () => {
+      expect(solveLinearSystem([], [])).toEqual([]);
+    });
+  });
+
+  describe('findSingularColumns', () => {
+    it('returns no columns for a regular matrix', () => {
+      expect(findSingularColumns([[4, 1], [1, 3]])).toEqual([]);
+    });
+
+    it('finds zero and dependent columns', () => {
+      expect(findSingularColumns([[1, 2], [2, 4]])).toEqual([1]);
+      expect(findSingularColumns([[2, 0, 0], [0, 0, 0], [0, 0, 1]])).toEqual([1]);
+    });
+  });
+});
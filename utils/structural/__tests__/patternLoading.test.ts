@@ -0,0 +1,85 @@
+import { calculatePatternLoading } from '../patternLoading';
+import { getStandardCombination } from '../loadCombinations';
+import { LoadType, SupportType, type BeamConfig } from '../reactionCalculator';
+
+// Three equal 4 m spans, g = q = 10 kN/m over the whole beam
+const threeSpan: BeamConfig = {
+  length: 12,
+  supports: [
+    { type: SupportType.PINNED, position: 0 },
+    { type: SupportType.ROLLER, position: 4 },
+    { type: SupportType.ROLLER, position: 8 },
+    { type: SupportType.ROLLER, position: 12 },
+  ],
+  loads: [
+    { type: LoadType.UDL, startPosition: 0, endPosition: 12, magnitude: -10 },
+    { type: LoadType.UDL, startPosition: 0, endPosition: 12, magnitude: -10, caseType: 'live' },
+  ],
+};
+
+const gL2 = 10 * 16;
+
+describe('patternLoading', () => {
+  it('loads alternate spans for the end span moment', () => {
+    const result = calculatePatternLoading(threeSpan);
+    const [span1, span2] = result.spanMoments;
+
+    expect(result.isValid).toBe(true);
+    expect(result.regions.map(r => r.label)).toEqual(['Açıklık 1', 'Açıklık 2', 'Açıklık 3']);
+    expect(span1.arrangement.label).toBe('1, 3');
+    // Tabulated coefficients: 0.080 gL² + 0.101 qL²
+    expect(span1.value).toBeCloseTo(0.08 * gL2 + 0.1013 * gL2, 0);
+    expect(span2.arrangement.label).toBe('2');
+    expect(span2.value).toBeCloseTo(0.025 * gL2 + 0.075 * gL2, 0);
+  });
+
+  it('loads both adjacent spans for the interior support moment', () => {
+    const { supportMoments } = calculatePatternLoading(threeSpan);
+
+    // Pinned ends carry no moment
+    expect(supportMoments.map(m => m.label)).toEqual(['Mesnet B', 'Mesnet C']);
+    expect(supportMoments[0].arrangement.label).toBe('1, 2');
+    expect(supportMoments[0].value).toBeCloseTo(-(0.1 * gL2 + 0.1167 * gL2), 0);
+    expect(supportMoments[1].arrangement.label).toBe('2, 3');
+  });
+
+  it('solves every critical arrangement once', () => {
+    const { arrangements } = calculatePatternLoading(threeSpan);
+    const labels = arrangements.map(a => a.label);
+
+    expect(new Set(labels).size).toBe(labels.length);
+    expect(labels).toEqual(expect.arrayContaining(['1, 3', '2', '1, 2', '2, 3']));
+  });
+
+  it('applies combination factors to permanent and live loads', () => {
+    const uls = getStandardCombination('ULS-1')!;
+    const { supportMoments } = calculatePatternLoading(threeSpan, { combination: uls });
+
+    expect(supportMoments[0].value).toBeCloseTo(-(0.1 * 1.35 * gL2 + 0.1167 * 1.5 * gL2), 0);
+  });
+
+  it('treats overhangs as separately loaded regions', () => {
+    const config: BeamConfig = {
+      length: 8,
+      supports: [
+        { type: SupportType.PINNED, position: 0 },
+        { type: SupportType.ROLLER, position: 6 },
+      ],
+      loads: [{ type: LoadType.UDL, startPosition: 0, endPosition: 8, magnitude: -10, caseType: 'live' }],
+    };
+    const result = calculatePatternLoading(config);
+
+    expect(result.regions.map(r => r.shortLabel)).toEqual(['1', 'SağK']);
+    expect(result.spanMoments[0].arrangement.label).toBe('1');
+    expect(result.spanMoments[0].value).toBeCloseTo((10 * 36) / 8, 6);
+    expect(result.supportMoments[0].arrangement.label).toBe('SağK');
+    expect(result.supportMoments[0].value).toBeCloseTo(-(10 * 4) / 2, 6);
+  });
+
+  it('needs two supports and a live load', () => {
+    expect(
+      calculatePatternLoading({ ...threeSpan, supports: [{ type: SupportType.FIXED, position: 0 }] }).errorMessage
+    ).toBe('Desen yüklemesi için en az iki mesnet gerekli');
+    expect(calculatePatternLoading({ ...threeSpan, loads: [threeSpan.loads[0]] }).isValid).toBe(false);
+  });
+});
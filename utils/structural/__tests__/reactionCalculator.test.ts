@@ -8,6 +8,8 @@ import {
   getAllPresets,
   BEAM_TYPES,
   PRESET_SYSTEMS,
+  resolveInclinedLoad,
+  evaluatePolynomial,
   PRESET_LABELS,
   type BeamConfig,
   type PointLoad,
@@ -22,6 +24,7 @@ describe('reactionCalculator', () => {
       expect(SupportType.FIXED).toBe('FIXED');
       expect(SupportType.PINNED).toBe('PINNED');
       expect(SupportType.ROLLER).toBe('ROLLER');
+      expect(SupportType.GUIDED).toBe('GUIDED');
       expect(SupportType.FREE).toBe('FREE');
     });
 
@@ -30,12 +33,26 @@ describe('reactionCalculator', () => {
       expect(LoadType.UDL).toBe('UDL');
       expect(LoadType.MOMENT).toBe('MOMENT');
       expect(LoadType.TRIANGULAR).toBe('TRIANGULAR');
+      expect(LoadType.INCLINED).toBe('INCLINED');
+      expect(LoadType.AXIAL).toBe('AXIAL');
+      expect(LoadType.LINEAR).toBe('LINEAR');
+      expect(LoadType.POLYLINE).toBe('POLYLINE');
     });
   });
 
   describe('BEAM_TYPES', () => {
-    it('has 4 beam types', () => {
-      expect(BEAM_TYPES).toHaveLength(4);
+    it('has 6 beam types', () => {
+      expect(BEAM_TYPES).toHaveLength(6);
+    });
+
+    it('includes Gerber beam with an internal hinge', () => {
+      const gerber = BEAM_TYPES.find(bt => bt.id === 'gerber');
+      const config = gerber?.defaultConfig(8);
+      expect(config?.hinges).toEqual([4]);
+      expect(calculateReactions({
+        ...config!,
+        loads: [{ type: LoadType.POINT, position: 6, magnitude: -10 }],
+      }).determinacy?.degree).toBe(0);
     });
 
     it('includes simple beam', () => {
@@ -292,6 +309,658 @@ describe('reactionCalculator', () => {
     });
   });
 
+  describe('calculateReactions - Stiffness Method (Indeterminate)', () => {
+    it('solves two-span continuous beam under UDL', () => {
+      const config: BeamConfig = {
+        length: 10,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 5 },
+          { type: SupportType.ROLLER, position: 10 },
+        ],
+        loads: [
+          { type: LoadType.UDL, startPosition: 0, endPosition: 10, magnitude: -4 },
+        ],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(true);
+      // 3wl/8, 10wl/8, 3wl/8 with w = 4, l = 5
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(7.5, 4);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(25, 4);
+      expect(result.reactions.get(2)?.vertical).toBeCloseTo(7.5, 4);
+      // Hogging moment over the middle support: -wl²/8
+      const atMiddle = result.momentDiagram.find(p => p.x === 5);
+      expect(atMiddle?.moment).toBeCloseTo(-12.5, 4);
+    });
+
+    it('solves propped cantilever under UDL', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: [
+          { type: LoadType.UDL, startPosition: 0, endPosition: 6, magnitude: -2 },
+        ],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(true);
+      // 5wL/8 and 3wL/8, fixed end moment wL²/8 (counterclockwise)
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(7.5, 4);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(4.5, 4);
+      expect(result.reactions.get(0)?.moment).toBeCloseTo(9, 4);
+      expect(result.momentDiagram[0].moment).toBeCloseTo(-9, 4);
+    });
+
+    it('returns exact fixed end moments for fixed-fixed beam', () => {
+      const config: BeamConfig = {
+        length: 8,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.FIXED, position: 8 },
+        ],
+        loads: [
+          { type: LoadType.POINT, position: 2, magnitude: -16 },
+        ],
+      };
+
+      const result = calculateReactions(config);
+
+      // M_A = Pab²/L², M_B = Pa²b/L²
+      expect(result.reactions.get(0)?.moment).toBeCloseTo(18, 4);
+      expect(result.reactions.get(1)?.moment).toBeCloseTo(-6, 4);
+      // R_A = Pb²(3a + b)/L³
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(13.5, 4);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(2.5, 4);
+    });
+
+    it('keeps original support indices for unsorted supports', () => {
+      const config: BeamConfig = {
+        length: 10,
+        supports: [
+          { type: SupportType.ROLLER, position: 10 },
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 4 },
+        ],
+        loads: [
+          { type: LoadType.POINT, position: 7, magnitude: -10 },
+        ],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(true);
+      const total = Array.from(result.reactions.values())
+        .reduce((sum, r) => sum + r.vertical, 0);
+      expect(total).toBeCloseTo(10, 6);
+      // Loaded far span pushes the first support down
+      expect(result.reactions.get(1)?.vertical).toBeLessThan(0);
+    });
+
+    it('reports cantilever tip deflection and rotation', () => {
+      const config: BeamConfig = {
+        length: 4,
+        supports: [{ type: SupportType.FIXED, position: 0 }],
+        loads: [{ type: LoadType.POINT, position: 4, magnitude: -10 }],
+        elasticModulus: 200000,
+        momentOfInertia: 10000,
+      };
+
+      const result = calculateReactions(config);
+      const tip = result.nodalDisplacements?.find(n => n.x === 4);
+
+      // EI = 20000 kNm², δ = PL³/3EI, θ = PL²/2EI
+      expect(tip?.deflection).toBeCloseTo(-10.667, 2);
+      expect(tip?.rotation).toBeCloseTo(-0.004, 6);
+    });
+
+    it('treats applied moments as clockwise positive', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: [{ type: LoadType.MOMENT, position: 3, magnitude: 12 }],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(-2, 6);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(2, 6);
+      // Jump of +M in the moment diagram at the load
+      const atLoad = result.momentDiagram.find(p => p.x === 3);
+      expect(atLoad?.moment).toBeCloseTo(6, 6);
+    });
+
+    it('detects a mechanism between supports', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.FREE, position: 6 },
+        ],
+        loads: [{ type: LoadType.POINT, position: 3, magnitude: -10 }],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toContain('istikrarsız');
+    });
+  });
+
+  describe('calculateReactions - Elastic Curve', () => {
+    const EI = 20000; // kNm² for E = 200000 MPa, I = 10000 cm⁴
+
+    it('matches 5wL⁴/384EI at midspan of a simply supported beam', () => {
+      const config: BeamConfig = {
+        length: 8,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 8 },
+        ],
+        loads: [{ type: LoadType.UDL, startPosition: 0, endPosition: 8, magnitude: -5 }],
+        elasticModulus: 200000,
+        momentOfInertia: 10000,
+      };
+
+      const result = calculateReactions(config);
+      const mid = result.deflectionDiagram.find(p => p.x === 4);
+      const expected = (-5 * 5 * 8 ** 4) / (384 * EI) * 1000;
+
+      expect(mid?.deflection).toBeCloseTo(expected, 4);
+      expect(mid?.slope).toBeCloseTo(0, 8);
+      expect(result.minDeflection.value).toBeCloseTo(expected, 4);
+      expect(result.minDeflection.position).toBeCloseTo(4, 6);
+      // End slope wL³/24EI
+      expect(result.slopeDiagram[0].slope).toBeCloseTo((-5 * 8 ** 3) / (24 * EI), 8);
+    });
+
+    it('keeps zero deflection at every support of a continuous beam', () => {
+      const config: BeamConfig = {
+        length: 12,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 5 },
+          { type: SupportType.ROLLER, position: 12 },
+        ],
+        loads: [
+          { type: LoadType.TRIANGULAR, startPosition: 1, endPosition: 9, maxMagnitude: -6 },
+          { type: LoadType.POINT, position: 10, magnitude: -8 },
+        ],
+      };
+
+      const result = calculateReactions(config);
+
+      for (const x of [0, 5, 12]) {
+        expect(result.deflectionDiagram.find(p => p.x === x)?.deflection).toBeCloseTo(0, 8);
+      }
+    });
+
+    it('follows the cantilever elastic curve', () => {
+      const config: BeamConfig = {
+        length: 4,
+        supports: [{ type: SupportType.FIXED, position: 0 }],
+        loads: [{ type: LoadType.POINT, position: 4, magnitude: -10 }],
+      };
+
+      const result = calculateReactions(config);
+      const at2 = result.deflectionDiagram.find(p => p.x === 2);
+
+      // v(x) = -P x²(3L - x) / 6EI
+      expect(at2?.deflection).toBeCloseTo((-10 * 4 * (12 - 2)) / (6 * EI) * 1000, 6);
+      expect(result.deflection?.value).toBeCloseTo(-10.667, 2);
+      expect(result.deflection?.position).toBe(4);
+    });
+
+    it('checks deflection limits against the governing span', () => {
+      const config: BeamConfig = {
+        length: 8,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 8 },
+        ],
+        loads: [{ type: LoadType.UDL, startPosition: 0, endPosition: 8, magnitude: -5 }],
+      };
+
+      const result = calculateReactions(config);
+      const service = result.serviceability;
+
+      // δ = 13.33 mm, L/δ = 600
+      expect(service?.referenceLength).toBe(8);
+      expect(service?.spanRatio).toBeCloseTo(600, 0);
+      expect(service?.checks.map(c => c.label)).toEqual(['L/250', 'L/300', 'L/500']);
+      expect(service?.checks.every(c => c.passed)).toBe(true);
+    });
+
+    it('uses twice the length as reference span for a cantilever', () => {
+      const config: BeamConfig = {
+        length: 4,
+        supports: [{ type: SupportType.FIXED, position: 0 }],
+        loads: [{ type: LoadType.POINT, position: 4, magnitude: -20 }],
+      };
+
+      const service = calculateReactions(config).serviceability;
+
+      expect(service?.referenceLength).toBe(8);
+      // δ = 21.3 mm: below 8000/250 but above 8000/500
+      expect(service?.checks.find(c => c.divisor === 500)?.passed).toBe(false);
+      expect(service?.checks.find(c => c.divisor === 250)?.passed).toBe(true);
+    });
+  });
+
+  describe('calculateReactions - Hinges and Guided Supports', () => {
+    it('solves a Gerber beam with an internal hinge', () => {
+      const config: BeamConfig = {
+        length: 8,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.ROLLER, position: 8 },
+        ],
+        hinges: [4],
+        loads: [{ type: LoadType.UDL, startPosition: 0, endPosition: 8, magnitude: -2 }],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(true);
+      expect(result.determinacy).toEqual({ unknowns: 4, equations: 4, degree: 0 });
+      // Suspended span 4-8 is simply supported by the hinge and the roller
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(4, 6);
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(12, 6);
+      expect(result.reactions.get(0)?.moment).toBeCloseTo(32, 6);
+      expect(result.momentDiagram.find(p => p.x === 4)?.moment).toBeCloseTo(0, 6);
+    });
+
+    it('reports a rotation jump across the hinge', () => {
+      const config: BeamConfig = {
+        length: 8,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.ROLLER, position: 8 },
+        ],
+        hinges: [4],
+        loads: [{ type: LoadType.POINT, position: 4, magnitude: -10 }],
+      };
+
+      const result = calculateReactions(config);
+      const hinge = result.nodalDisplacements?.find(n => n.x === 4);
+
+      expect(hinge?.rotationRight).toBeDefined();
+      expect(hinge?.rotationRight).not.toBeCloseTo(hinge!.rotation, 6);
+      // Hinge deflection equals the cantilever tip deflection PL³/3EI
+      expect(hinge?.deflection).toBeCloseTo((-10 * 64) / (3 * 20000) * 1000, 4);
+    });
+
+    it('solves a roller plus guided support beam', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.ROLLER, position: 0 },
+          { type: SupportType.GUIDED, position: 6 },
+        ],
+        loads: [{ type: LoadType.POINT, position: 3, magnitude: -10 }],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(true);
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(10, 6);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(0, 6);
+      expect(result.reactions.get(1)?.moment).toBeCloseTo(30, 6);
+      // Guided end rotation is zero
+      expect(result.slopeDiagram[result.slopeDiagram.length - 1].slope).toBeCloseTo(0, 8);
+    });
+
+    it('counts hinge equations when checking stability', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        hinges: [3],
+        loads: [{ type: LoadType.POINT, position: 2, magnitude: -10 }],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toContain('istikrarsız');
+      expect(result.determinacy?.degree).toBe(-1);
+    });
+
+    it('reports the degree of indeterminacy for continuous beams', () => {
+      const config = BEAM_TYPES.find(bt => bt.id === 'continuous')!.defaultConfig(10);
+      const result = calculateReactions({
+        ...config,
+        loads: [{ type: LoadType.POINT, position: 2, magnitude: -10 }],
+      });
+
+      expect(result.determinacy?.degree).toBe(2);
+    });
+  });
+
+  describe('calculateReactions - Inclined and Axial Loads', () => {
+    it('resolves an inclined load into components', () => {
+      const { fx, fy } = resolveInclinedLoad({
+        type: LoadType.INCLINED,
+        position: 3,
+        magnitude: 10,
+        angle: -30,
+      });
+
+      expect(fx).toBeCloseTo(10 * Math.cos(Math.PI / 6), 10);
+      expect(fy).toBeCloseTo(-5, 10);
+    });
+
+    it('takes the horizontal component at the pinned support', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: [{ type: LoadType.INCLINED, position: 3, magnitude: 10, angle: -60 }],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(true);
+      expect(result.reactions.get(0)?.horizontal).toBeCloseTo(-5, 6);
+      expect(result.reactions.get(1)?.horizontal).toBeCloseTo(0, 6);
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(5 * Math.sqrt(3) / 2, 6);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(5 * Math.sqrt(3) / 2, 6);
+
+      // Load pulls to the right: the left half is in tension, the right half is free
+      expect(result.normalDiagram.find(p => Math.abs(p.x - 1.5) < 0.05)?.normal).toBeCloseTo(5, 6);
+      expect(result.normalDiagram.find(p => Math.abs(p.x - 4.5) < 0.05)?.normal).toBeCloseTo(0, 6);
+      expect(result.maxNormal.value).toBeCloseTo(5, 6);
+    });
+
+    it('splits an axial load between two pinned supports by stiffness', () => {
+      const config: BeamConfig = {
+        length: 8,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.PINNED, position: 8 },
+        ],
+        loads: [{ type: LoadType.AXIAL, position: 2, magnitude: 20 }],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(true);
+      expect(result.reactions.get(0)?.horizontal).toBeCloseTo(-15, 6);
+      expect(result.reactions.get(1)?.horizontal).toBeCloseTo(-5, 6);
+      // Tension left of the load, compression right of it
+      expect(result.normalDiagram.find(p => Math.abs(p.x - 1) < 0.05)?.normal).toBeCloseTo(15, 6);
+      expect(result.normalDiagram.find(p => Math.abs(p.x - 5) < 0.05)?.normal).toBeCloseTo(-5, 6);
+      // Axial loads do not bend the beam
+      expect(result.maxMoment.value).toBeCloseTo(0, 6);
+    });
+
+    it('rejects axial loads when nothing restrains the beam horizontally', () => {
+      const config: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.ROLLER, position: 0 },
+          { type: SupportType.ROLLER, position: 3 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: [{ type: LoadType.AXIAL, position: 2, magnitude: 10 }],
+      };
+
+      const result = calculateReactions(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toContain('Yatay');
+    });
+  });
+
+  describe('calculateReactions - Linear and Polyline Loads', () => {
+    const simple = (loads: BeamConfig['loads']): BeamConfig => ({
+      length: 6,
+      supports: [
+        { type: SupportType.PINNED, position: 0 },
+        { type: SupportType.ROLLER, position: 6 },
+      ],
+      loads,
+    });
+
+    it('matches a UDL when both intensities are equal', () => {
+      const linear = calculateReactions(simple([
+        { type: LoadType.LINEAR, startPosition: 0, endPosition: 6, startMagnitude: -5, endMagnitude: -5 },
+      ]));
+      const udl = calculateReactions(simple([
+        { type: LoadType.UDL, startPosition: 0, endPosition: 6, magnitude: -5 },
+      ]));
+
+      expect(linear.reactions.get(0)?.vertical).toBeCloseTo(udl.reactions.get(0)!.vertical, 8);
+      expect(linear.maxMoment.value).toBeCloseTo(udl.maxMoment.value, 8);
+    });
+
+    it('solves a triangle that peaks at the start', () => {
+      const result = calculateReactions(simple([
+        { type: LoadType.LINEAR, startPosition: 0, endPosition: 6, startMagnitude: -6, endMagnitude: 0 },
+      ]));
+
+      // W = 18 kN at x = 2 m: R_A = 12, R_B = 6
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(12, 6);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(6, 6);
+    });
+
+    it('solves a trapezoidal load', () => {
+      const result = calculateReactions(simple([
+        { type: LoadType.LINEAR, startPosition: 0, endPosition: 6, startMagnitude: -2, endMagnitude: -8 },
+      ]));
+
+      // Rectangle 12 kN @ 3 m + triangle 18 kN @ 4 m -> R_B = (36 + 72) / 6
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(18, 6);
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(12, 6);
+    });
+
+    it('solves a polyline profile the same as its pieces', () => {
+      const polyline = calculateReactions(simple([
+        {
+          type: LoadType.POLYLINE,
+          points: [
+            { position: 0, magnitude: 0 },
+            { position: 3, magnitude: -6 },
+            { position: 6, magnitude: 0 },
+          ],
+        },
+      ]));
+      const pieces = calculateReactions(simple([
+        { type: LoadType.LINEAR, startPosition: 0, endPosition: 3, startMagnitude: 0, endMagnitude: -6 },
+        { type: LoadType.LINEAR, startPosition: 3, endPosition: 6, startMagnitude: -6, endMagnitude: 0 },
+      ]));
+
+      expect(polyline.isValid).toBe(true);
+      expect(polyline.reactions.get(0)?.vertical).toBeCloseTo(9, 6);
+      // Symmetric triangle: M_max = WL/6 = 18 · 6 / 6
+      expect(polyline.maxMoment.value).toBeCloseTo(18, 6);
+      expect(polyline.minDeflection.value).toBeCloseTo(pieces.minDeflection.value, 8);
+    });
+
+    it('stays in equilibrium for a self-balancing profile', () => {
+      const result = calculateReactions(simple([
+        { type: LoadType.LINEAR, startPosition: 0, endPosition: 6, startMagnitude: -4, endMagnitude: 4 },
+      ]));
+
+      expect(result.isValid).toBe(true);
+      expect(result.reactions.get(0)!.vertical + result.reactions.get(1)!.vertical).toBeCloseTo(0, 8);
+    });
+  });
+
+  describe('calculateReactions - Support Movements and Thermal Loads', () => {
+    // EI = 200000 · 10000 · 1e-5 = 20000 kNm²
+    const stiffness = { elasticModulus: 200000, momentOfInertia: 10000 };
+    const thermal = (top: number, bottom: number): BeamConfig['loads'] => [
+      { type: LoadType.THERMAL, startPosition: 0, endPosition: 6, topTemperature: top, bottomTemperature: bottom },
+    ];
+
+    it('solves a settled middle support of a two-span beam', () => {
+      const result = calculateReactions({
+        length: 10,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 5, displacement: -10 },
+          { type: SupportType.ROLLER, position: 10 },
+        ],
+        loads: [],
+        ...stiffness,
+      });
+
+      // R_B = -48EIΔ / L³ = -48 · 20000 · 0.01 / 1000
+      expect(result.isValid).toBe(true);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(-9.6, 6);
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(4.8, 6);
+      expect(result.minDeflection.value).toBeCloseTo(-10, 6);
+      // Rigid-body part of the settlement is not counted as sag
+      expect(Math.abs(result.serviceability!.deflection)).toBeLessThan(10);
+    });
+
+    it('resists a prescribed rotation of a fixed end', () => {
+      const result = calculateReactions({
+        length: 6,
+        supports: [
+          { type: SupportType.FIXED, position: 0, rotation: 0.001 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: [],
+        ...stiffness,
+      });
+
+      // Propped cantilever: M_A = 3EIθ / L, the roller holds the lifting tip down
+      expect(result.reactions.get(0)?.moment).toBeCloseTo(10, 6);
+      expect(result.reactions.get(1)?.vertical).toBeCloseTo(-10 / 6, 6);
+    });
+
+    it('locks a thermal gradient into a fixed-fixed beam', () => {
+      const result = calculateReactions({
+        length: 6,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.FIXED, position: 6 },
+        ],
+        loads: thermal(0, 20),
+        ...stiffness,
+      });
+
+      // κ = αΔT / h = 1.2e-5 · 20 / 0.3 = 8e-4, M = -EIκ
+      const mid = result.momentDiagram.find(p => Math.abs(p.x - 3) < 0.05)!;
+      expect(mid.moment).toBeCloseTo(-16, 6);
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(0, 8);
+      expect(result.minDeflection.value).toBeCloseTo(0, 8);
+    });
+
+    it('bends a simply supported beam freely under a gradient', () => {
+      const result = calculateReactions({
+        length: 6,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: thermal(0, 20),
+        ...stiffness,
+      });
+
+      // Hotter bottom fibre sags the beam: δ = κL² / 8 = 3.6 mm
+      expect(result.reactions.get(0)?.vertical).toBeCloseTo(0, 8);
+      expect(result.maxMoment.value).toBeCloseTo(0, 8);
+      expect(result.minDeflection.value).toBeCloseTo(-3.6, 6);
+      expect(result.minDeflection.position).toBeCloseTo(3, 6);
+    });
+
+    it('restrains a uniform temperature rise between pinned supports', () => {
+      const result = calculateReactions({
+        length: 6,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.PINNED, position: 6 },
+        ],
+        loads: thermal(20, 20),
+        ...stiffness,
+        area: 50,
+      });
+
+      // N = -EAαΔT = -(200000 · 50 · 0.1) · 1.2e-5 · 20
+      const mid = result.normalDiagram.find(p => Math.abs(p.x - 3) < 0.05)!;
+      expect(mid.normal).toBeCloseTo(-240, 6);
+      expect(result.minDeflection.value).toBeCloseTo(0, 8);
+    });
+
+    it('takes α and E from the selected material', () => {
+      const result = calculateReactions({
+        length: 6,
+        supports: [
+          { type: SupportType.PINNED, position: 0 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: thermal(0, 20),
+        materialGrade: 'Al 6061-T6',
+        sectionDepth: 200,
+      });
+
+      // κ = 2.3e-5 · 20 / 0.2, δ = κ · 36 / 8
+      expect(result.minDeflection.value).toBeCloseTo(-10.35, 6);
+    });
+  });
+
+  describe('calculateReactions - Piecewise Equations', () => {
+    const config: BeamConfig = {
+      length: 6,
+      supports: [
+        { type: SupportType.PINNED, position: 0 },
+        { type: SupportType.ROLLER, position: 6 },
+      ],
+      loads: [
+        { type: LoadType.UDL, startPosition: 0, endPosition: 6, magnitude: -10 },
+        { type: LoadType.POINT, position: 2, magnitude: -12 },
+      ],
+      elasticModulus: 200000,
+      momentOfInertia: 10000,
+    };
+
+    it('splits the beam at load discontinuities with exact coefficients', () => {
+      const result = calculateReactions(config);
+
+      expect(result.segments.map(s => [s.start, s.end])).toEqual([[0, 2], [2, 6]]);
+      // Right segment: V = 26 - 10x, M = 24 + 26x - 5x²
+      const [c0, c1, c2] = result.segments[1].moment;
+      expect(c0).toBeCloseTo(24, 8);
+      expect(c1).toBeCloseTo(26, 8);
+      expect(c2).toBeCloseTo(-5, 8);
+      expect(result.segments[1].shear[0]).toBeCloseTo(26, 8);
+    });
+
+    it('finds zero shear and the peak moment analytically', () => {
+      const result = calculateReactions(config);
+
+      expect(result.zeroShearPoints).toHaveLength(1);
+      expect(result.zeroShearPoints[0]).toBeCloseTo(2.6, 10);
+      expect(result.maxMoment.position).toBeCloseTo(2.6, 10);
+      expect(result.maxMoment.value).toBeCloseTo(57.8, 10);
+    });
+
+    it('matches the closed-form deflection polynomial', () => {
+      const result = calculateReactions({ ...config, loads: [config.loads[0]] });
+      const [segment] = result.segments;
+
+      // δ = 5wL⁴ / 384EI = 5 · 10 · 1296 / (384 · 20000) m
+      expect(evaluatePolynomial(segment.deflection, 3)).toBeCloseTo(-8.4375, 8);
+      expect(evaluatePolynomial(segment.deflection, 0)).toBeCloseTo(0, 8);
+      expect(segment.deflection).toHaveLength(6);
+    });
+  });
+
   describe('calculateReactions - Error Cases', () => {
     it('returns error for unstable system', () => {
       const config: BeamConfig = {
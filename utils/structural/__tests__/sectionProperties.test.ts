@@ -0,0 +1,315 @@
+import {
+  calculateSectionProperties,
+  COMPOSITE_SECTION_LABELS,
+  COMPOSITE_SECTION_PRESETS,
+  getSectionExtents,
+  getSectionOutline,
+  getRotatedInertia,
+  type SectionInput,
+  type SectionPoint,
+  type SectionProperties,
+} from '../sectionProperties';
+
+const rect = (z: number, y: number, width: number, height: number): SectionPoint[] => [
+  { z, y },
+  { z: z + width, y },
+  { z: z + width, y: y + height },
+  { z, y: y + height },
+];
+
+const expectSameProperties = (actual: SectionProperties, expected: SectionProperties) => {
+  for (const key of ['area', 'iy', 'iz', 'wy', 'wz', 'ry', 'rz', 'centroidY', 'centroidZ'] as const) {
+    expect(actual[key]).toBeCloseTo(expected[key], 6);
+  }
+};
+
+describe('sectionProperties', () => {
+  describe('polygon', () => {
+    it('matches the rectangle formulas in any position and orientation', () => {
+      const clockwise = rect(-50, 30, 200, 300).reverse();
+      const polygon = calculateSectionProperties({ shape: 'polygon', vertices: clockwise });
+
+      expectSameProperties(polygon, calculateSectionProperties({ shape: 'rectangle', width: 200, height: 300 }));
+      expect(polygon.iyz).toBeCloseTo(0, 6);
+    });
+
+    it('subtracts holes', () => {
+      const polygon = calculateSectionProperties({
+        shape: 'polygon',
+        vertices: rect(0, 0, 100, 150),
+        holes: [rect(5, 5, 90, 140)],
+      });
+
+      expectSameProperties(polygon, calculateSectionProperties({ shape: 'box', width: 100, height: 150, thickness: 5 }));
+    });
+
+    it('finds the principal axes of an equal angle', () => {
+      const angle: SectionInput = { shape: 'l-beam', height: 100, width: 100, thickness: 10 };
+      const [outline] = getSectionOutline(angle);
+      const polygon = calculateSectionProperties({ shape: 'polygon', vertices: outline });
+      const exact = calculateSectionProperties(angle);
+
+      expect(polygon.area).toBeCloseTo(exact.area, 6);
+      expect(polygon.centroidY).toBeCloseTo(exact.centroidY, 6);
+      expect(polygon.iy).toBeCloseTo(exact.iy, 6);
+      expect(polygon.iz).toBeCloseTo(exact.iz, 6);
+      expect(polygon.iyz).toBeCloseTo(exact.iyz, 6);
+      // Each leg lies in a quadrant where y and z have opposite signs, so Iyz < 0
+      // and the major axis runs through the heel at +45°
+      expect(polygon.iyz).toBeLessThan(0);
+      expect(polygon.principalAngle).toBeCloseTo(45, 9);
+      expect(polygon.i1 + polygon.i2).toBeCloseTo(polygon.iy + polygon.iz, 6);
+      expect(polygon.i1 - polygon.i2).toBeCloseTo(-2 * polygon.iyz, 6);
+    });
+
+    it('gives tees and angles the extreme-fibre moduli of their outlines', () => {
+      const sections: SectionInput[] = [
+        { shape: 'l-beam', height: 150, width: 90, thickness: 10 },
+        { shape: 't-beam', height: 200, flangeWidth: 150, flangeThickness: 12, webThickness: 8 },
+      ];
+      for (const section of sections) {
+        const [outline] = getSectionOutline(section);
+        const polygon = calculateSectionProperties({ shape: 'polygon', vertices: outline });
+        const exact = calculateSectionProperties(section);
+
+        expect(exact.wy).toBeCloseTo(polygon.wy, 6);
+        expect(exact.wz).toBeCloseTo(polygon.wz, 6);
+        expect(exact.wy).toBeCloseTo(exact.wply / exact.shapeFactorY, 6);
+      }
+    });
+
+    it('rejects degenerate polygons', () => {
+      expect(() => calculateSectionProperties({ shape: 'polygon', vertices: rect(0, 0, 10, 10).slice(0, 2) })).toThrow(
+        'Poligon en az 3 köşe içermeli'
+      );
+      expect(() =>
+        calculateSectionProperties({
+          shape: 'polygon',
+          vertices: [
+            { z: 0, y: 0 },
+            { z: 10, y: 0 },
+            { z: 20, y: 0 },
+          ],
+        })
+      ).toThrow('Kesit alanı sıfır veya negatif');
+    });
+  });
+
+  describe('composite', () => {
+    it('stacks parts with the parallel axis theorem', () => {
+      const stacked = calculateSectionProperties({
+        shape: 'composite',
+        parts: [
+          { section: { shape: 'rectangle', width: 200, height: 100 }, offsetZ: 0, offsetY: 0 },
+          { section: { shape: 'rectangle', width: 200, height: 200 }, offsetZ: 0, offsetY: 100 },
+        ],
+      });
+
+      expectSameProperties(stacked, calculateSectionProperties({ shape: 'rectangle', width: 200, height: 300 }));
+    });
+
+    it('computes the plate girder preset', () => {
+      const girder = calculateSectionProperties(COMPOSITE_SECTION_PRESETS['plate-girder']);
+      const flange = 300 * 20;
+
+      expect(girder.area).toBeCloseTo(2 * flange + 10 * 960, 6);
+      expect(girder.centroidY).toBeCloseTo(500, 9);
+      expect(girder.iy).toBeCloseTo((10 * 960 ** 3) / 12 + 2 * ((300 * 20 ** 3) / 12 + flange * 490 ** 2), 3);
+      expect(girder.wy).toBeCloseTo(girder.iy / 500, 6);
+    });
+
+    it('matches the union outline drawn as a single polygon', () => {
+      const composite = calculateSectionProperties(COMPOSITE_SECTION_PRESETS['channel-plate']);
+      const polygon = calculateSectionProperties({
+        shape: 'polygon',
+        vertices: [
+          { z: 0, y: 0 },
+          { z: 75, y: 0 },
+          { z: 75, y: 11.5 },
+          { z: 8.5, y: 11.5 },
+          { z: 8.5, y: 188.5 },
+          { z: 75, y: 188.5 },
+          { z: 75, y: 200 },
+          { z: 120, y: 200 },
+          { z: 120, y: 210 },
+          { z: -40, y: 210 },
+          { z: -40, y: 200 },
+          { z: 0, y: 200 },
+        ],
+      });
+
+      expectSameProperties(composite, polygon);
+      expect(composite.iyz).toBeCloseTo(polygon.iyz, 3);
+      expect(composite.principalAngle).toBeCloseTo(polygon.principalAngle, 9);
+    });
+
+    it('rejects an empty composite', () => {
+      expect(() => calculateSectionProperties({ shape: 'composite', parts: [] })).toThrow(
+        'Bileşik kesit en az bir parça içermeli'
+      );
+    });
+
+    it.each(Object.keys(COMPOSITE_SECTION_PRESETS))('outlines %s inside its bounding box', key => {
+      const section = COMPOSITE_SECTION_PRESETS[key];
+      const points = getSectionOutline(section).flat();
+      const { width, height } = getSectionExtents(section);
+
+      expect(COMPOSITE_SECTION_LABELS[key]).toBeDefined();
+      expect(Math.min(...points.map(p => p.z))).toBeCloseTo(0, 9);
+      expect(Math.min(...points.map(p => p.y))).toBeCloseTo(0, 9);
+      expect(Math.max(...points.map(p => p.z))).toBeCloseTo(width, 9);
+      expect(Math.max(...points.map(p => p.y))).toBeCloseTo(height, 9);
+    });
+  });
+
+  describe('principal axes', () => {
+    // EN 10056-1 tables (cm², cm⁴); tabulated sections have root fillets, the model has sharp corners
+    const ANGLE_TABLE = [
+      { h: 80, b: 80, t: 8, A: 12.3, Iy: 72.2, Iz: 72.2, Iu: 115, Iv: 29.9, tanAlpha: 1 },
+      { h: 100, b: 100, t: 10, A: 19.2, Iy: 177, Iz: 177, Iu: 280, Iv: 73.0, tanAlpha: 1 },
+      { h: 120, b: 120, t: 12, A: 27.5, Iy: 368, Iz: 368, Iu: 584, Iv: 152, tanAlpha: 1 },
+      { h: 100, b: 50, t: 8, A: 11.4, Iy: 116, Iz: 19.5, Iu: 123, Iv: 12.7, tanAlpha: 0.257 },
+      { h: 150, b: 90, t: 10, A: 23.2, Iy: 533, Iz: 146, Iu: 591, Iv: 88.3, tanAlpha: 0.361 },
+    ];
+
+    it.each(ANGLE_TABLE)('matches the published L $h×$b×$t within 4 %', row => {
+      const props = calculateSectionProperties({ shape: 'l-beam', height: row.h, width: row.b, thickness: row.t });
+      const within = (actual: number, expected: number) =>
+        expect(Math.abs(actual - expected) / expected).toBeLessThan(0.04);
+
+      within(props.area / 1e2, row.A);
+      within(props.iy / 1e4, row.Iy);
+      within(props.iz / 1e4, row.Iz);
+      within(props.i1 / 1e4, row.Iu);
+      within(props.i2 / 1e4, row.Iv);
+      expect(Math.abs(Math.tan((props.principalAngle * Math.PI) / 180) - row.tanAlpha)).toBeLessThan(0.01);
+    });
+
+    it('keeps the reference axes as principal axes of symmetric shapes', () => {
+      const tall = calculateSectionProperties({ shape: 'rectangle', width: 100, height: 300 });
+      const wide = calculateSectionProperties({ shape: 'i-beam', height: 100, flangeWidth: 300, flangeThickness: 10, webThickness: 8 });
+
+      expect(tall.iyz).toBe(0);
+      expect(tall.i1).toBeCloseTo(tall.iy, 6);
+      expect(tall.i2).toBeCloseTo(tall.iz, 6);
+      expect(tall.principalAngle).toBeCloseTo(0, 9);
+      expect(wide.i1).toBeCloseTo(wide.iz, 6);
+      expect(wide.i2).toBeCloseTo(wide.iy, 6);
+      expect(wide.principalAngle).toBeCloseTo(90, 9);
+    });
+
+    it('rotates the inertia tensor along the Mohr circle', () => {
+      const props = calculateSectionProperties({ shape: 'l-beam', height: 150, width: 90, thickness: 10 });
+      const principal = getRotatedInertia(props, props.principalAngle);
+      const reference = getRotatedInertia(props, 0);
+      const arbitrary = getRotatedInertia(props, 33);
+
+      expect(principal.iu).toBeCloseTo(props.i1, 4);
+      expect(principal.iv).toBeCloseTo(props.i2, 4);
+      expect(principal.iuv).toBeCloseTo(0, 4);
+      expect([reference.iu, reference.iv, reference.iuv]).toEqual([props.iy, props.iz, props.iyz]);
+      // Every point lies on the circle: invariant sum and radius
+      expect(arbitrary.iu + arbitrary.iv).toBeCloseTo(props.iy + props.iz, 4);
+      expect(Math.hypot((arbitrary.iu - arbitrary.iv) / 2, arbitrary.iuv)).toBeCloseTo((props.i1 - props.i2) / 2, 4);
+    });
+  });
+
+  describe('plastic and torsion properties', () => {
+    const asPolygon = (input: SectionInput) => {
+      const [vertices, ...holes] = getSectionOutline(input);
+      return calculateSectionProperties({ shape: 'polygon', vertices, holes });
+    };
+
+    it.each<SectionInput>([
+      { shape: 'rectangle', width: 200, height: 300 },
+      { shape: 'triangle', base: 300, height: 200 },
+      { shape: 'i-beam', height: 300, flangeWidth: 150, flangeThickness: 10.7, webThickness: 7.1 },
+      { shape: 'channel', height: 200, flangeWidth: 80, flangeThickness: 11, webThickness: 6 },
+      { shape: 'box', width: 100, height: 150, thickness: 5 },
+    ])('matches the closed-form Wpl of a $shape with the polygon outline', input => {
+      const exact = calculateSectionProperties(input);
+      const polygon = asPolygon(input);
+
+      expect(polygon.wply).toBeCloseTo(exact.wply, 3);
+      expect(polygon.wplz).toBeCloseTo(exact.wplz, 3);
+      expect(polygon.j).toBeUndefined();
+    });
+
+    it('gives the textbook shape factors', () => {
+      const rectangle = calculateSectionProperties({ shape: 'rectangle', width: 200, height: 300 });
+      const circle = calculateSectionProperties({ shape: 'circle', diameter: 100 });
+      const triangle = calculateSectionProperties({ shape: 'triangle', base: 300, height: 200 });
+
+      expect(rectangle.shapeFactorY).toBeCloseTo(1.5, 9);
+      expect(rectangle.shapeFactorZ).toBeCloseTo(1.5, 9);
+      expect(circle.shapeFactorY).toBeCloseTo(16 / (3 * Math.PI), 9);
+      expect(triangle.shapeFactorY).toBeCloseTo(2.343, 3);
+      expect(triangle.shapeFactorZ).toBeCloseTo(2, 9);
+    });
+
+    it('finds the plastic neutral axis of a tee and an angle', () => {
+      // Flange 200x20 holds 2/3 of the area, PNA 15 mm below the top
+      const tee = calculateSectionProperties({ shape: 't-beam', height: 220, flangeWidth: 200, flangeThickness: 20, webThickness: 10 });
+      // Bottom leg holds more than half of the area, PNA at y = 9.5
+      const angle = calculateSectionProperties({ shape: 'l-beam', height: 100, width: 100, thickness: 10 });
+
+      expect(tee.wply).toBeCloseTo((200 * 15 ** 2) / 2 + (200 * 5 ** 2) / 2 + 2000 * 105, 3);
+      expect(tee.wplz).toBeCloseTo((20 * 200 ** 2) / 4 + (200 * 10 ** 2) / 4, 3);
+      expect(angle.wply).toBeCloseTo((100 * 9.5 ** 2) / 2 + (100 * 0.5 ** 2) / 2 + (10 * (90.5 ** 2 - 0.5 ** 2)) / 2, 3);
+      expect(angle.wplz).toBeCloseTo(angle.wply, 3);
+    });
+
+    it('matches the published IPE 300 plastic modulus and warping constant', () => {
+      // Tabulated: Wpl,y = 628 cm³ (with root fillets), Iw = 125.9·10³ cm⁶
+      const ipe = calculateSectionProperties({ shape: 'i-beam', height: 300, flangeWidth: 150, flangeThickness: 10.7, webThickness: 7.1 });
+
+      expect(Math.abs(ipe.wply / 1e3 - 628) / 628).toBeLessThan(0.05);
+      expect(Math.abs(ipe.iw! / 1e9 - 125.9) / 125.9).toBeLessThan(0.01);
+      expect(ipe.shearCenterY).toBeCloseTo(ipe.centroidY, 9);
+      expect(ipe.shearCenterZ).toBeCloseTo(ipe.centroidZ, 9);
+    });
+
+    it('uses the polar moment for round sections and the Bredt term for boxes', () => {
+      const pipe = calculateSectionProperties({ shape: 'pipe', outerDiameter: 114.3, wallThickness: 4 });
+      const box = calculateSectionProperties({ shape: 'box', width: 100, height: 100, thickness: 5 });
+
+      expect(pipe.j).toBeCloseTo(pipe.iy + pipe.iz, 6);
+      expect(pipe.iw).toBe(0);
+      // Thin-walled closed cell: It ≈ 4·Am²·t / p
+      expect(Math.abs(box.j! / ((4 * 95 ** 4 * 5) / 380) - 1)).toBeLessThan(0.01);
+      expect(box.iw).toBe(0);
+    });
+
+    it('puts the shear centre where the walls of a tee and an angle meet', () => {
+      const tee = calculateSectionProperties({ shape: 't-beam', height: 220, flangeWidth: 200, flangeThickness: 20, webThickness: 10 });
+      const angle = calculateSectionProperties({ shape: 'l-beam', height: 150, width: 90, thickness: 10 });
+
+      expect([tee.shearCenterZ, tee.shearCenterY]).toEqual([100, 210]);
+      expect([angle.shearCenterZ, angle.shearCenterY]).toEqual([5, 5]);
+      expect(angle.j).toBeCloseTo((10 ** 3 * (150 + 90 - 10)) / 3, 6);
+    });
+
+    it('puts the shear centre of a channel behind the web', () => {
+      const input: SectionInput = { shape: 'channel', height: 200, flangeWidth: 80, flangeThickness: 11, webThickness: 6 };
+      const channel = calculateSectionProperties(input);
+      const polygon = asPolygon(input);
+
+      expectSameProperties(channel, polygon);
+      // e = 3·b'²·tf / (6·b'·tf + h'·tw) from the web centreline, b' = 77, h' = 189
+      expect(channel.shearCenterZ).toBeCloseTo(3 - (3 * 77 ** 2 * 11) / (6 * 77 * 11 + 189 * 6), 9);
+      expect(channel.shearCenterY).toBeCloseTo(100, 9);
+      expect(channel.j).toBeCloseTo((2 * 80 * 11 ** 3 + 178 * 6 ** 3) / 3, 6);
+    });
+
+    it('sums the part torsion constants of a composite section', () => {
+      const girder = calculateSectionProperties(COMPOSITE_SECTION_PRESETS['plate-girder']);
+      const flange = calculateSectionProperties({ shape: 'rectangle', width: 300, height: 20 });
+      const web = calculateSectionProperties({ shape: 'rectangle', width: 10, height: 960 });
+
+      expect(girder.wply).toBeCloseTo(300 * 20 * 980 + (10 * 960 ** 2) / 4, 3);
+      expect(girder.j).toBeCloseTo(2 * flange.j! + web.j!, 6);
+      expect(girder.iw).toBeUndefined();
+      expect(calculateSectionProperties(COMPOSITE_SECTION_PRESETS['channel-plate']).j).toBeUndefined();
+    });
+  });
+});
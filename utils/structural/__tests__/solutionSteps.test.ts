@@ -0,0 +1,105 @@
+import { formatSegmentEquations, generateSolutionSteps } from '../solutionSteps';
+import { LoadType, SupportType, calculateReactions, type BeamConfig } from '../reactionCalculator';
+
+const simpleBeam: BeamConfig = {
+  length: 6,
+  supports: [
+    { type: SupportType.PINNED, position: 0 },
+    { type: SupportType.ROLLER, position: 6 },
+  ],
+  loads: [
+    { type: LoadType.UDL, startPosition: 0, endPosition: 6, magnitude: -10 },
+    { type: LoadType.POINT, position: 2, magnitude: -12 },
+  ],
+};
+
+describe('solutionSteps', () => {
+  describe('generateSolutionSteps', () => {
+    it('orders the trace from free body to section equations', () => {
+      const steps = generateSolutionSteps(simpleBeam, calculateReactions(simpleBeam));
+      const titles = steps.map(s => s.title);
+
+      expect(titles[0]).toBe('1. SERBEST CİSİM DİYAGRAMI');
+      expect(titles[1]).toBe('2. YAYILI YÜK BİLEŞKELERİ');
+      expect(titles).toContain('4. DÜŞEY DENGE (ΣFy = 0)');
+      expect(titles[titles.length - 1]).toBe(`${titles.length}. KESİT DENKLEMLERİ`);
+    });
+
+    it('substitutes resultants and solved reactions into the equilibrium equations', () => {
+      const steps = generateSolutionSteps(simpleBeam, calculateReactions(simpleBeam));
+      const resultants = steps.find(s => s.title.includes('BİLEŞKE'))!;
+      const vertical = steps.find(s => s.title.includes('ΣFy'))!;
+      const moment = steps.find(s => s.title.includes('ΣM_A'))!;
+
+      expect(resultants.equations[0]).toContain('= 60.00');
+      expect(vertical.equations[0]).toBe('\\sum F_y = A_y + B_y - 60.00 - 12.00 = 0');
+      expect(moment.equations[0]).toBe('\\sum M_{A} = 6.00 \\cdot B_y - 180.00 - 24.00 = 0');
+      // R_B = 204 / 6, R_A = 72 - 34
+      expect(moment.equations).toContain('B_y = 34.00\\ \\mathrm{kN}');
+      expect(moment.equations).toContain('A_y = 38.00\\ \\mathrm{kN}');
+      expect(vertical.equations[1]).toMatch(/= 0\.000$/);
+    });
+
+    it('takes moments about the first support that carries a reaction', () => {
+      const overhang: BeamConfig = {
+        length: 6,
+        supports: [
+          { type: SupportType.FREE, position: 0 },
+          { type: SupportType.PINNED, position: 2 },
+          { type: SupportType.ROLLER, position: 6 },
+        ],
+        loads: [{ type: LoadType.POINT, position: 0, magnitude: -12 }],
+      };
+      const steps = generateSolutionSteps(overhang, calculateReactions(overhang));
+      const moment = steps.find(s => s.title.includes('ΣM'))!;
+
+      // Arms measured from B at x = 2: the load sits 2 m to the left
+      expect(moment.title).toContain('ΣM_B');
+      expect(moment.equations[0]).toBe('\\sum M_{B} = 4.00 \\cdot C_y + 24.00 = 0');
+    });
+
+    it('writes V(x) and M(x) for every segment', () => {
+      const steps = generateSolutionSteps(simpleBeam, calculateReactions(simpleBeam));
+      const sections = steps[steps.length - 1];
+
+      // Segments 0-2 and 2-6, three lines each
+      expect(sections.equations).toHaveLength(6);
+      expect(sections.equations[1]).toBe('V(x) = -10.00 \\cdot x + 38.00\\ \\mathrm{kN}');
+      expect(sections.equations[2]).toBe('M(x) = -5.00 \\cdot x^{2} + 38.00 \\cdot x\\ \\mathrm{kNm}');
+      expect(sections.equations[4]).toBe('V(x) = -10.00 \\cdot x + 26.00\\ \\mathrm{kN}');
+    });
+
+    it('keeps small deflection coefficients in scientific form', () => {
+      const result = calculateReactions({ ...simpleBeam, loads: [simpleBeam.loads[0]] });
+      const latex = formatSegmentEquations(result.segments[0]);
+
+      // The x⁴ term is w/24EI, far below 0.1 mm/m⁴
+      expect(latex.range).toBe('0.00 < x < 6.00:');
+      expect(latex.deflection).toMatch(/^v\(x\) = .*\\times 10\^\{-\d\}/);
+    });
+
+    it('flags indeterminate beams as checked by equilibrium only', () => {
+      const config: BeamConfig = {
+        length: 8,
+        supports: [
+          { type: SupportType.FIXED, position: 0 },
+          { type: SupportType.ROLLER, position: 8 },
+        ],
+        loads: [{ type: LoadType.POINT, position: 4, magnitude: -16 }],
+      };
+      const [freeBody] = generateSolutionSteps(config, calculateReactions(config));
+
+      expect(freeBody.equations[0]).toContain('n = r - e = 1');
+      expect(freeBody.notes.some(n => n.includes('hiperstatik'))).toBe(true);
+    });
+
+    it('returns no steps for a failed analysis', () => {
+      const unstable: BeamConfig = {
+        length: 6,
+        supports: [{ type: SupportType.ROLLER, position: 0 }],
+        loads: [],
+      };
+      expect(generateSolutionSteps(unstable, calculateReactions(unstable))).toEqual([]);
+    });
+  });
+});
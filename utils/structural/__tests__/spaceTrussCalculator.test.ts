@@ -0,0 +1,118 @@
+import {
+  analyzeSpaceTruss,
+  getSpaceDeformationScale,
+  getSpaceTrussPreset,
+  SPACE_PIN,
+  SPACE_ROLLER,
+  SPACE_TRUSS_LABELS,
+  SPACE_TRUSS_PRESETS,
+  type SpaceTrussConfig,
+  type SpaceTrussResults,
+} from '../spaceTrussCalculator';
+
+// Three pinned legs meeting at an apex 4 m above the centre of an equilateral base
+const R = 2;
+const tripod: SpaceTrussConfig = {
+  nodes: [
+    { id: 'A', x: R, y: 0, z: 0, support: SPACE_PIN },
+    { id: 'B', x: -R / 2, y: 0, z: (R * Math.sqrt(3)) / 2, support: SPACE_PIN },
+    { id: 'C', x: -R / 2, y: 0, z: (-R * Math.sqrt(3)) / 2, support: SPACE_PIN },
+    { id: 'D', x: 0, y: 4, z: 0 },
+  ],
+  members: [
+    { id: 'AD', nodeStartId: 'A', nodeEndId: 'D' },
+    { id: 'BD', nodeStartId: 'B', nodeEndId: 'D' },
+    { id: 'CD', nodeStartId: 'C', nodeEndId: 'D' },
+  ],
+  loads: [{ nodeId: 'D', fx: 0, fy: -30, fz: 0 }],
+};
+
+const forceOf = (results: SpaceTrussResults, id: string) =>
+  results.memberForces.find(f => f.memberId === id)!.force;
+
+// Sum of loads and reactions in each direction
+const residual = (config: SpaceTrussConfig, results: SpaceTrussResults) => {
+  const sum = (pick: (v: { fx: number; fy: number; fz: number }) => number) =>
+    config.loads.reduce((s, l) => s + pick(l), 0) +
+    results.reactions.reduce((s, r) => s + pick({ fx: r.rx, fy: r.ry, fz: r.rz }), 0);
+  return [sum(v => v.fx), sum(v => v.fy), sum(v => v.fz)];
+};
+
+describe('spaceTrussCalculator', () => {
+  it('solves a determinate tripod', () => {
+    const results = analyzeSpaceTruss(tripod);
+    const legLength = Math.hypot(R, 4);
+
+    expect(results.isValid).toBe(true);
+    expect(results.degree).toBe(0);
+    // Each leg takes a third of the load along its axis
+    for (const id of ['AD', 'BD', 'CD']) {
+      expect(forceOf(results, id)).toBeCloseTo((-10 * legLength) / 4, 9);
+    }
+    for (const reaction of results.reactions) {
+      expect(reaction.ry).toBeCloseTo(10, 9);
+    }
+  });
+
+  it('returns displacements consistent with member elongations', () => {
+    const results = analyzeSpaceTruss(tripod);
+    const apex = results.displacements.find(d => d.nodeId === 'D')!;
+    const leg = results.memberForces.find(f => f.memberId === 'AD')!;
+
+    expect(apex.dx).toBeCloseTo(0, 9);
+    expect(apex.dz).toBeCloseTo(0, 9);
+    // Shortening of a leg is the apex drop projected on the leg axis
+    expect(leg.deformation).toBeCloseTo((apex.dy * 4) / Math.hypot(R, 4), 9);
+    expect(leg.deformation).toBeCloseTo((leg.force * Math.hypot(R, 4) * 1000) / (200000 * 500) * 1000, 9);
+  });
+
+  it('reports the free DOFs of a mechanism', () => {
+    const flat: SpaceTrussConfig = {
+      ...tripod,
+      nodes: tripod.nodes.map(n => (n.support ? { ...n, support: SPACE_ROLLER } : n)),
+    };
+    const results = analyzeSpaceTruss(flat);
+
+    expect(results.isValid).toBe(false);
+    expect(results.degree).toBe(-6);
+    expect(results.unstableDofs.length).toBeGreaterThan(0);
+    expect(results.errorMessage).toMatch(/^Sistem istikrarsız!/);
+  });
+
+  it('rejects a truss without supports and loads on unknown nodes', () => {
+    const unsupported = { ...tripod, nodes: tripod.nodes.map(({ support, ...n }) => n) };
+    expect(analyzeSpaceTruss(unsupported).errorMessage).toBe('Mesnet tanımlanmamış!');
+
+    const stray = { ...tripod, loads: [{ nodeId: 'X', fx: 0, fy: -1, fz: 0 }] };
+    expect(analyzeSpaceTruss(stray).errorMessage).toBe('Yük tanımsız düğümde: X');
+  });
+
+  it('scales the largest displacement to a tenth of the truss size', () => {
+    const results = analyzeSpaceTruss(tripod);
+    const scale = getSpaceDeformationScale(tripod, results);
+    const largest = Math.max(...results.displacements.map(d => Math.hypot(d.dx, d.dy, d.dz)));
+
+    expect((largest * scale) / 1000).toBeCloseTo(0.4, 12);
+  });
+
+  describe('presets', () => {
+    it.each(Object.keys(SPACE_TRUSS_PRESETS))('solves %s in equilibrium', key => {
+      const config = getSpaceTrussPreset(key)!;
+      const results = analyzeSpaceTruss(config);
+
+      expect(SPACE_TRUSS_LABELS[key]).toBeDefined();
+      expect(results.isValid).toBe(true);
+      for (const value of residual(config, results)) {
+        expect(value).toBeCloseTo(0, 6);
+      }
+    });
+
+    it('builds the tower as a determinate truss', () => {
+      const results = analyzeSpaceTruss(getSpaceTrussPreset('transmission-tower')!);
+
+      expect(results.degree).toBe(0);
+      // Conductor weight puts the bottom of the legs under the arms in compression
+      expect(forceOf(results, 'T0A-T1A')).toBeLessThan(0);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  getProfileSeries,
+  getStandardProfile,
+  searchStandardProfiles,
+  type SectionProperties,
+  type StandardProfile,
+  type TabulatedProperties,
+} from '../sectionProperties';
+import {
+  CHS_PROFILES,
+  EQUAL_ANGLE_PROFILES,
+  HEA_PROFILES,
+  HEB_PROFILES,
+  HEM_PROFILES,
+  IPE_PROFILES,
+  RHS_PROFILES,
+  SHS_PROFILES,
+  STEEL_PROFILE_CATALOGUE,
+  UNEQUAL_ANGLE_PROFILES,
+  UPE_PROFILES,
+  UPN_PROFILES,
+} from '../steelProfiles';
+
+// Model value converted to catalogue units (cm², cm⁴, cm³)
+const UNITS: Record<string, [keyof SectionProperties, number]> = {
+  area: ['area', 1e2],
+  iy: ['iy', 1e4],
+  iz: ['iz', 1e4],
+  wy: ['wy', 1e3],
+  wz: ['wz', 1e3],
+  wply: ['wply', 1e3],
+  wplz: ['wplz', 1e3],
+  iu: ['i1', 1e4],
+  iv: ['i2', 1e4],
+};
+
+// Largest relative gap between the sharp-corner model and the tables
+const maxDeviation = (profiles: StandardProfile[], keys: (keyof TabulatedProperties)[]) =>
+  Math.max(
+    ...profiles.flatMap(profile =>
+      keys.map(key => {
+        const [property, scale] = UNITS[key];
+        const table = profile.tabulated![key]!;
+        return Math.abs((profile.properties[property] as number) / scale - table) / table;
+      })
+    )
+  );
+
+describe('steelProfiles', () => {
+  describe('catalogue', () => {
+    it('has every series with unique codes', () => {
+      const codes = STEEL_PROFILE_CATALOGUE.map(p => p.code);
+      expect(new Set(codes).size).toBe(codes.length);
+      expect(IPE_PROFILES).toHaveLength(18);
+      expect(HEA_PROFILES).toHaveLength(24);
+      expect(HEB_PROFILES).toHaveLength(24);
+      expect(HEM_PROFILES).toHaveLength(24);
+      expect(getStandardProfile('IPE_300')?.dimensions).toEqual({
+        height: 300,
+        flangeWidth: 150,
+        flangeThickness: 10.7,
+        webThickness: 7.1,
+      });
+      expect(getStandardProfile('L_100x100x10')?.shape).toBe('l-beam');
+      expect(getStandardProfile('UPN_200')?.shape).toBe('channel');
+      expect(getStandardProfile('CHS_114.3x4')?.shape).toBe('pipe');
+    });
+
+    it('tabulates the mass of steel at 7850 kg/m³', () => {
+      for (const { tabulated } of STEEL_PROFILE_CATALOGUE) {
+        const mass = 0.785 * tabulated!.area;
+        expect(Math.abs(tabulated!.mass - mass) / mass).toBeLessThan(0.005);
+      }
+    });
+
+    it('computes the model properties for every profile', () => {
+      for (const { properties } of STEEL_PROFILE_CATALOGUE) {
+        expect(properties.area).toBeGreaterThan(0);
+        expect(properties.iy).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  // Tables include root and corner radii, the model uses sharp corners
+  describe('cross-check against calculateSectionProperties', () => {
+    it('matches the I and H sections within 7 %', () => {
+      const profiles = [...IPE_PROFILES, ...HEA_PROFILES, ...HEB_PROFILES, ...HEM_PROFILES];
+      expect(maxDeviation(profiles, ['area', 'iy', 'wy', 'wply'])).toBeLessThan(0.07);
+      expect(maxDeviation(profiles, ['iz', 'wz', 'wplz'])).toBeLessThan(0.03);
+    });
+
+    it('matches the parallel flange channels within 5 %', () => {
+      expect(maxDeviation(UPE_PROFILES, ['area', 'iy', 'iz', 'wy', 'wply'])).toBeLessThan(0.05);
+    });
+
+    it('matches the tapered channels about the strong axis', () => {
+      expect(maxDeviation(UPN_PROFILES, ['area', 'iy', 'wy', 'wply'])).toBeLessThan(0.02);
+      // The 8 % flange taper is not modelled and moves the weak axis most
+      expect(maxDeviation(UPN_PROFILES, ['iz', 'wz', 'wplz'])).toBeLessThan(0.2);
+    });
+
+    it('matches the angles including the principal axes', () => {
+      const profiles = [...EQUAL_ANGLE_PROFILES, ...UNEQUAL_ANGLE_PROFILES];
+      expect(maxDeviation(profiles, ['area', 'iy', 'iz', 'wy', 'wz', 'iu', 'iv'])).toBeLessThan(0.07);
+    });
+
+    it('matches the hollow sections', () => {
+      expect(maxDeviation([...SHS_PROFILES, ...RHS_PROFILES], ['area', 'iy', 'iz', 'wy', 'wz', 'wply', 'wplz'])).toBeLessThan(
+        0.08
+      );
+      expect(maxDeviation(CHS_PROFILES, ['area', 'iy', 'wy', 'wply'])).toBeLessThan(0.001);
+    });
+  });
+
+  describe('searchStandardProfiles', () => {
+    it('finds profiles by code or name', () => {
+      expect(searchStandardProfiles({ query: 'ipe 300' }).map(p => p.code)).toEqual(['IPE_300']);
+      expect(searchStandardProfiles({ query: 'HEB' }).every(p => getProfileSeries(p) === 'HEB')).toBe(true);
+    });
+
+    it('matches sizes as whole numbers', () => {
+      expect(searchStandardProfiles({ query: 'HEA 100' }).map(p => p.code)).toEqual(['HEA_100']);
+      expect(searchStandardProfiles({ query: 'hea_1000' }).map(p => p.code)).toEqual(['HEA_1000']);
+      expect(searchStandardProfiles({ query: 'CHS 114.3' }).every(p => p.code.startsWith('CHS_114.3x'))).toBe(true);
+      const angles = searchStandardProfiles({ query: 'L 100 10' }).map(p => p.code);
+      expect(angles).toContain('L_100x100x10');
+      expect(angles).not.toContain('L_100x100x12');
+    });
+
+    it('filters by series and minimum Wy, lightest first', () => {
+      const results = searchStandardProfiles({ series: 'IPE', minWy: 500 });
+      expect(results[0].code).toBe('IPE_300');
+      expect(results.every(p => p.tabulated!.wy >= 500)).toBe(true);
+      const areas = results.map(p => p.tabulated!.area);
+      expect(areas).toEqual([...areas].sort((a, b) => a - b));
+    });
+
+    it('filters by minimum Iy and shape, falling back to computed values', () => {
+      const results = searchStandardProfiles({ shapes: ['pipe'], minIy: 1000 });
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every(p => p.shape === 'pipe')).toBe(true);
+      expect(results.every(p => (p.tabulated ? p.tabulated.iy : p.properties.iy / 1e4) >= 1000)).toBe(true);
+    });
+  });
+});
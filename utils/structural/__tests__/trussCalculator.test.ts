@@ -0,0 +1,206 @@
+import {
+  analyzeTruss,
+  checkTrussDeflection,
+  generateTruss,
+  getDeformationScale,
+  getGeneratorPanels,
+  getTrussPreset,
+  TRUSS_FAMILY_LABELS,
+  type TrussConfig,
+  type TrussFamily,
+} from '../trussCalculator';
+
+const triangle = getTrussPreset('triangular-simple')!;
+const forceOf = (results: ReturnType<typeof analyzeTruss>, id: string) =>
+  results.memberForces.find(f => f.memberId === id)!.force;
+
+describe('trussCalculator', () => {
+  it('solves a determinate truss', () => {
+    const results = analyzeTruss(triangle);
+
+    expect(results.isValid).toBe(true);
+    expect(results.degree).toBe(0);
+    expect(results.reactions).toHaveLength(2);
+    expect(results.reactions[0].rx).toBeCloseTo(0, 9);
+    expect(results.reactions[0].ry).toBeCloseTo(5, 9);
+    expect(results.reactions[1].ry).toBeCloseTo(5, 9);
+    // Rafters at sin θ = 0.8, tie takes the horizontal component
+    expect(forceOf(results, 'AC')).toBeCloseTo(-6.25, 9);
+    expect(forceOf(results, 'BC')).toBeCloseTo(-6.25, 9);
+    expect(forceOf(results, 'AB')).toBeCloseTo(3.75, 9);
+  });
+
+  it('returns nodal displacements consistent with member elongations', () => {
+    const results = analyzeTruss(triangle);
+    const rollerNode = results.displacements.find(d => d.nodeId === 'B')!;
+
+    // ΔL = N·L / EA = 3.75 kN × 6000 mm / (200000 MPa × 500 mm²)
+    expect(rollerNode.dx).toBeCloseTo(0.225, 9);
+    expect(rollerNode.dy).toBeCloseTo(0, 12);
+    expect(results.memberForces.find(f => f.memberId === 'AB')!.deformation).toBeCloseTo(0.225, 9);
+  });
+
+  it('solves redundant members by compatibility', () => {
+    // Three bars from pins at one level to a loaded joint below
+    const config: TrussConfig = {
+      nodes: [
+        { id: 'A', x: -1, y: 1, support: 'pin' },
+        { id: 'B', x: 0, y: 1, support: 'fixed' },
+        { id: 'C', x: 1, y: 1, support: 'pin' },
+        { id: 'D', x: 0, y: 0 },
+      ],
+      members: [
+        { id: 'AD', nodeStartId: 'A', nodeEndId: 'D' },
+        { id: 'BD', nodeStartId: 'B', nodeEndId: 'D' },
+        { id: 'CD', nodeStartId: 'C', nodeEndId: 'D' },
+      ],
+      loads: [{ nodeId: 'D', fx: 0, fy: -10 }],
+    };
+    const results = analyzeTruss(config);
+
+    expect(results.isValid).toBe(true);
+    expect(results.degree).toBe(1);
+    // N_vertical = P / (1 + 2cos³45°), N_diagonal = N_vertical · cos²45°
+    const vertical = 10 / (1 + 2 * Math.cos(Math.PI / 4) ** 3);
+    expect(forceOf(results, 'BD')).toBeCloseTo(vertical, 9);
+    expect(forceOf(results, 'AD')).toBeCloseTo(vertical / 2, 9);
+  });
+
+  it('keeps inclined roller reactions normal to the rolling surface', () => {
+    const config: TrussConfig = {
+      ...triangle,
+      nodes: triangle.nodes.map(n => (n.id === 'B' ? { ...n, supportAngle: 30 } : n)),
+      loads: [{ nodeId: 'C', fx: 4, fy: -10 }],
+    };
+    const results = analyzeTruss(config);
+    const [pin, roller] = results.reactions;
+
+    expect(results.isValid).toBe(true);
+    expect(roller.rx / roller.ry).toBeCloseTo(-Math.tan(Math.PI / 6), 9);
+    expect(pin.rx + roller.rx + 4).toBeCloseTo(0, 9);
+    expect(pin.ry + roller.ry - 10).toBeCloseTo(0, 9);
+  });
+
+  it('reports the free DOFs of a mechanism', () => {
+    const config: TrussConfig = {
+      nodes: [
+        { id: 'A', x: 0, y: 0, support: 'pin' },
+        { id: 'B', x: 4, y: 0, support: 'roller' },
+        { id: 'C', x: 4, y: 3 },
+        { id: 'D', x: 0, y: 3 },
+      ],
+      members: [
+        { id: 'AB', nodeStartId: 'A', nodeEndId: 'B' },
+        { id: 'BC', nodeStartId: 'B', nodeEndId: 'C' },
+        { id: 'CD', nodeStartId: 'C', nodeEndId: 'D' },
+        { id: 'DA', nodeStartId: 'D', nodeEndId: 'A' },
+      ],
+      loads: [{ nodeId: 'D', fx: 1, fy: 0 }],
+    };
+    const results = analyzeTruss(config);
+
+    expect(results.isValid).toBe(false);
+    expect(results.degree).toBe(-1);
+    expect(results.unstableDofs).toEqual([{ nodeId: 'D', direction: 'x' }]);
+    expect(results.errorMessage).toContain('D-x');
+  });
+
+  it('solves the indeterminate Pratt preset in equilibrium', () => {
+    const results = analyzeTruss(getTrussPreset('pratt-6m')!);
+    const totalRy = results.reactions.reduce((sum, r) => sum + r.ry, 0);
+
+    expect(results.isValid).toBe(true);
+    expect(results.degree).toBe(2);
+    expect(totalRy).toBeCloseTo(15, 9);
+    expect(results.memberForces).toHaveLength(13);
+  });
+
+  it('rejects a truss without supports', () => {
+    const results = analyzeTruss({ ...triangle, nodes: triangle.nodes.map(n => ({ ...n, support: undefined })) });
+    expect(results.errorMessage).toBe('Mesnet tanımlanmamış!');
+  });
+
+  describe('generateTruss', () => {
+    const families = Object.keys(TRUSS_FAMILY_LABELS) as TrussFamily[];
+
+    it('builds determinate trusses in equilibrium for every family', () => {
+      for (const family of families) {
+        for (const panels of [4, 5, 8]) {
+          const config = generateTruss(family, { span: 12, height: 2, panels });
+          const results = analyzeTruss(config);
+          const totalLoad = config.loads.reduce((sum, l) => sum - l.fy, 0);
+
+          expect(results.isValid).toBe(true);
+          expect(results.degree).toBe(0);
+          expect(results.reactions.reduce((sum, r) => sum + r.ry, 0)).toBeCloseTo(totalLoad, 9);
+        }
+      }
+    });
+
+    it('puts Pratt diagonals in tension and Howe diagonals in compression', () => {
+      const params = { span: 12, height: 2, panels: 6 };
+      const diagonals = (family: TrussFamily) => {
+        const config = generateTruss(family, params);
+        const results = analyzeTruss(config);
+        return config.members
+          .filter(m => m.nodeStartId[0] !== m.nodeEndId[0] && !['L0-U1', 'U5-L6'].includes(m.id))
+          .filter(m => m.nodeStartId.slice(1) !== m.nodeEndId.slice(1))
+          .map(m => forceOf(results, m.id));
+      };
+
+      expect(diagonals('pratt')).toHaveLength(4);
+      expect(diagonals('pratt').every(f => f > 0)).toBe(true);
+      expect(diagonals('howe').every(f => f < 0)).toBe(true);
+    });
+
+    it('adds a redundant restraint with two pins', () => {
+      const results = analyzeTruss(generateTruss('warren', { span: 8, height: 2, panels: 4, supports: 'pin-pin' }));
+      expect(results.isValid).toBe(true);
+      expect(results.degree).toBe(1);
+    });
+
+    it('rounds panel counts to what the family allows', () => {
+      expect(getGeneratorPanels('pratt', 3.4)).toBe(3);
+      expect(getGeneratorPanels('pratt', 1)).toBe(2);
+      expect(getGeneratorPanels('k', 5)).toBe(6);
+      expect(getGeneratorPanels('fink', 2)).toBe(4);
+    });
+  });
+
+  describe('deflection', () => {
+    it('compares the largest vertical deflection with span / 300', () => {
+      const results = analyzeTruss(triangle);
+      const check = checkTrussDeflection(triangle, results)!;
+      const apex = results.displacements.find(d => d.nodeId === 'C')!;
+
+      expect(check.nodeId).toBe('C');
+      expect(check.deflection).toBeCloseTo(Math.abs(apex.dy), 12);
+      expect(check.span).toBe(6);
+      expect(check.limit).toBeCloseTo(20, 12);
+      expect(check.isSafe).toBe(true);
+    });
+
+    it('fails a flexible truss and honours a custom limit', () => {
+      const flexible = { ...triangle, members: triangle.members.map(m => ({ ...m, A: 1 })) };
+      const results = analyzeTruss(flexible);
+
+      expect(checkTrussDeflection(flexible, results)!.isSafe).toBe(false);
+      expect(checkTrussDeflection(triangle, analyzeTruss(triangle), 500)!.limit).toBeCloseTo(12, 12);
+    });
+
+    it('returns null without a valid solution', () => {
+      const unsupported = { ...triangle, nodes: triangle.nodes.map(n => ({ ...n, support: undefined })) };
+
+      expect(checkTrussDeflection(unsupported, analyzeTruss(unsupported))).toBeNull();
+    });
+
+    it('scales the largest displacement to a tenth of the truss size', () => {
+      const results = analyzeTruss(triangle);
+      const scale = getDeformationScale(triangle, results);
+      const largest = Math.max(...results.displacements.map(d => Math.hypot(d.dx, d.dy)));
+
+      expect((largest * scale) / 1000).toBeCloseTo(0.6, 12);
+      expect(getDeformationScale({ ...triangle, loads: [] }, analyzeTruss({ ...triangle, loads: [] }))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { autoSizeTruss, designTruss, getTrussProfiles } from '../trussDesign';
+import { getTrussPreset, type TrussConfig } from '../trussCalculator';
+import { getStandardProfile } from '../sectionProperties';
+
+const triangle = getTrussPreset('triangular-simple')!;
+const checkOf = (result: ReturnType<typeof designTruss>, id: string) =>
+  result.members.find(m => m.memberId === id)!;
+
+// Same triangle with a much heavier apex load
+const scaled = (factor: number): TrussConfig => ({
+  ...triangle,
+  loads: triangle.loads.map(l => ({ ...l, fx: l.fx * factor, fy: l.fy * factor })),
+});
+
+describe('trussDesign', () => {
+  it('checks tension members against yield only', () => {
+    const result = designTruss({ config: triangle, profileCode: 'PIPE_48x3', steelGrade: 'S220' });
+    const tie = checkOf(result, 'AB');
+    const profile = getStandardProfile('PIPE_48x3')!;
+
+    expect(result.isValid).toBe(true);
+    expect(tie.action).toBe('tension');
+    expect(tie.bucklingLoad).toBeUndefined();
+    expect(tie.resistance).toBeCloseTo((profile.properties.area * 220) / 1.15 / 1000, 9);
+    expect(tie.ratio).toBeCloseTo(3.75 / tie.resistance, 9);
+  });
+
+  it('takes the lower of yield and Euler buckling for compression members', () => {
+    const result = designTruss({ config: triangle, profileCode: 'PIPE_48x3', steelGrade: 'S420' });
+    const rafter = checkOf(result, 'AC');
+    const { iy, iz, ry, rz } = getStandardProfile('PIPE_48x3')!.properties;
+    const euler = (Math.PI ** 2 * 200000 * Math.min(iy, iz)) / 5000 ** 2 / 1000;
+
+    expect(rafter.action).toBe('compression');
+    expect(rafter.bucklingLoad).toBeCloseTo(euler, 6);
+    // A 5 m pipe buckles long before it yields
+    expect(rafter.resistance).toBeCloseTo(euler, 6);
+    expect(rafter.slenderness).toBeCloseTo(5000 / Math.min(ry, rz), 6);
+  });
+
+  it('flags members over the slenderness limit', () => {
+    const result = designTruss({
+      config: triangle,
+      profileCode: 'PIPE_48x3',
+      steelGrade: 'S420',
+      effectiveLengthFactor: 2,
+    });
+    const rafter = checkOf(result, 'AC');
+
+    expect(rafter.isSlender).toBe(true);
+    expect(rafter.slendernessLimit).toBe(250);
+    expect(rafter.isSafe).toBe(false);
+    expect(result.isSafe).toBe(false);
+  });
+
+  it('reports the governing member and the steel mass', () => {
+    const result = designTruss({ config: triangle, profileCode: 'BOX_60x3', steelGrade: 'S420' });
+    const area = getStandardProfile('BOX_60x3')!.properties.area;
+
+    expect(result.governing!.memberId).toMatch(/AC|BC/);
+    // 16 m of members at 78.5 kN/m³
+    expect(result.mass).toBeCloseTo((16 * area * 1e-6 * 78.5 * 1000) / 9.81, 6);
+  });
+
+  it('rejects unknown profiles, non-tubular shapes and non-steel grades', () => {
+    expect(designTruss({ config: triangle, profileCode: 'XX', steelGrade: 'S420' }).errorMessage).toBe(
+      'Profil bulunamadı: XX'
+    );
+    expect(designTruss({ config: triangle, profileCode: 'NP_100', steelGrade: 'S420' }).errorMessage).toBe(
+      'Kafes çubukları için boru veya kutu profil seçilmeli'
+    );
+    expect(designTruss({ config: triangle, profileCode: 'BOX_60x3', steelGrade: 'C30/37' }).errorMessage).toBe(
+      'Tasarım için çelik sınıfı seçilmeli'
+    );
+  });
+
+  it('passes analysis errors through', () => {
+    const unsupported = { ...triangle, nodes: triangle.nodes.map(n => ({ ...n, support: undefined })) };
+    const result = designTruss({ config: unsupported, profileCode: 'BOX_60x3', steelGrade: 'S420' });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errorMessage).toBe('Mesnet tanımlanmamış!');
+  });
+});
+
+describe('autoSizeTruss', () => {
+  it('lists truss profiles lightest first', () => {
+    const areas = getTrussProfiles().map(p => p.properties.area);
+
+    expect(getTrussProfiles().every(p => p.shape === 'pipe' || p.shape === 'box')).toBe(true);
+    expect(areas).toEqual([...areas].sort((a, b) => a - b));
+  });
+
+  it('selects the lightest passing profile', () => {
+    const sizing = autoSizeTruss({ config: scaled(10), steelGrade: 'S420' });
+
+    expect(sizing.isValid).toBe(true);
+    expect(sizing.selected!.isSafe).toBe(true);
+    expect(sizing.design!.profile!.code).toBe(sizing.selected!.profile.code);
+    const lighter = sizing.candidates.filter(c => c.mass < sizing.selected!.mass);
+    expect(lighter.length).toBeGreaterThan(0);
+    expect(lighter.every(c => !c.isSafe)).toBe(true);
+  });
+
+  it('fails when no profile is strong enough', () => {
+    const sizing = autoSizeTruss({ config: scaled(1000), steelGrade: 'S220' });
+
+    expect(sizing.isValid).toBe(false);
+    expect(sizing.errorMessage).toBe('Hiçbir profil yeterli değil');
+    expect(sizing.candidates.length).toBe(getTrussProfiles().length);
+  });
+});
@@ -0,0 +1,82 @@
+import { analyzeTruss, getTrussPreset, type TrussConfig } from '../trussCalculator';
+import { analyzeTrussSection } from '../trussSections';
+
+// Determinate three-panel Pratt truss with parallel chords, h = 3 m
+const pratt: TrussConfig = {
+  nodes: [
+    { id: 'L0', x: 0, y: 0, support: 'pin' },
+    { id: 'L1', x: 3, y: 0 },
+    { id: 'L2', x: 6, y: 0 },
+    { id: 'L3', x: 9, y: 0, support: 'roller' },
+    { id: 'U1', x: 3, y: 3 },
+    { id: 'U2', x: 6, y: 3 },
+  ],
+  members: [
+    { id: 'L0L1', nodeStartId: 'L0', nodeEndId: 'L1' },
+    { id: 'L1L2', nodeStartId: 'L1', nodeEndId: 'L2' },
+    { id: 'L2L3', nodeStartId: 'L2', nodeEndId: 'L3' },
+    { id: 'U1U2', nodeStartId: 'U1', nodeEndId: 'U2' },
+    { id: 'L0U1', nodeStartId: 'L0', nodeEndId: 'U1' },
+    { id: 'U2L3', nodeStartId: 'U2', nodeEndId: 'L3' },
+    { id: 'L1U1', nodeStartId: 'L1', nodeEndId: 'U1' },
+    { id: 'L2U2', nodeStartId: 'L2', nodeEndId: 'U2' },
+    { id: 'L1U2', nodeStartId: 'L1', nodeEndId: 'U2' },
+  ],
+  loads: [{ nodeId: 'L1', fx: 0, fy: -12 }],
+};
+const cut = ['U1U2', 'L1U2', 'L1L2'];
+
+describe('trussSections', () => {
+  it('takes chord forces from moments about the opposite joint', () => {
+    const section = analyzeTrussSection(pratt, analyzeTruss(pratt), cut);
+    const bottom = section.equations.find(e => e.memberId === 'L1L2')!;
+
+    expect(section.isValid).toBe(true);
+    expect(section.freeBodyNodeIds.sort()).toEqual(['L0', 'L1', 'U1']);
+    expect(bottom.kind).toBe('moment');
+    expect(bottom.point!.label).toBe('U2');
+    // Panel moment at x = 6: 8 × 6 - 12 × 3 = 12 kNm over h = 3 m
+    expect(bottom.force).toBeCloseTo(4, 9);
+    expect(bottom.equation).toBe('ΣM_U2 = 0: 3.00·F_L1L2 - 12.00 = 0');
+  });
+
+  it('uses force equilibrium for the diagonal between parallel chords', () => {
+    const section = analyzeTrussSection(pratt, analyzeTruss(pratt), cut);
+    const diagonal = section.equations.find(e => e.memberId === 'L1U2')!;
+
+    expect(diagonal.kind).toBe('force');
+    // Panel shear 8 - 12 = -4 kN carried by the 45° diagonal
+    expect(diagonal.force).toBeCloseTo(4 * Math.SQRT2, 9);
+  });
+
+  it('matches the stiffness solution from either side', () => {
+    const results = analyzeTruss(pratt);
+    for (const side of [0, 1] as const) {
+      const section = analyzeTrussSection(pratt, results, cut, side);
+      expect(section.isValid).toBe(true);
+      for (const equation of section.equations) {
+        expect(equation.difference).toBeCloseTo(0, 9);
+      }
+    }
+  });
+
+  it('names moment centres after the joints they fall on', () => {
+    const warren = getTrussPreset('warren-8m')!;
+    const section = analyzeTrussSection(warren, analyzeTruss(warren), ['CE', 'CD', 'AD']);
+    const centres = section.equations.map(e => e.point?.label);
+
+    expect(section.isValid).toBe(true);
+    expect(centres).toEqual(expect.arrayContaining(['C', 'D']));
+  });
+
+  it('rejects cuts that do not split the truss into two parts', () => {
+    const results = analyzeTruss(pratt);
+
+    expect(analyzeTrussSection(pratt, results, ['U1U2', 'L1U2']).errorMessage).toBe(
+      'Kesim için üç çubuk seçilmeli'
+    );
+    expect(analyzeTrussSection(pratt, results, ['L0L1', 'L1L2', 'U1U2']).errorMessage).toBe(
+      'Seçilen çubuklar kafesi iki parçaya ayırmıyor'
+    );
+  });
+});
@@ -0,0 +1,339 @@
+// ============================================================================
+// BEAM DESIGN CHECK - Kiriş Tasarım Kontrolü
+// Kesit + çelik sınıfı + TS 498 yük kombinasyonları → kullanım oranları
+// ============================================================================
+
+import {
+  calculateReactions,
+  getLoadCaseType,
+  LoadType,
+  type AnalysisResults,
+  type BeamConfig,
+  type Load,
+} from './reactionCalculator';
+import {
+  calculateSectionProperties,
+  getSectionExtents,
+  getStandardProfile,
+  type SectionInput,
+  type SectionProperties,
+  type SectionShape,
+} from './sectionProperties';
+import {
+  calculateUtilizationRatio,
+  getApplicableCombinations,
+  getLoadTypeSymbol,
+  type LoadCombination,
+} from './loadCombinations';
+import { getMaterialByGrade, type SteelMaterial } from './materialDatabase';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Standard profile code (e.g. NP_200) or a custom section
+export type DesignSection = string | SectionInput;
+
+export interface BeamDesignInput {
+  config: BeamConfig; // Characteristic loads, grouped by their caseType
+  section: DesignSection;
+  steelGrade: string; // materialDatabase steel grade
+  deflectionLimit?: number; // n in δ ≤ L/n, default 300
+}
+
+// Section fields of BeamConfig derived from a design section
+export type BeamSectionConfig = Required<
+  Pick<BeamConfig, 'sectionModulus' | 'momentOfInertia' | 'area' | 'sectionDepth'>
+>;
+
+export interface DesignSectionInfo {
+  name: string;
+  shape: SectionShape;
+  properties: SectionProperties;
+  depth: number; // mm
+  shearArea: number; // mm² (Av)
+}
+
+export interface DesignCheck {
+  combinationId: string;
+  combinationName: string;
+  demand: number; // kNm, kN or mm
+  capacity: number; // M_Rd, V_Rd or L/n
+  position: number; // m
+  ratio: number;
+  isSafe: boolean;
+  percentage: string;
+}
+
+export interface CombinationDesign {
+  combination: LoadCombination;
+  results: AnalysisResults;
+  utilization: number; // Largest ratio of the checks this combination governs
+}
+
+export interface BeamDesignResult {
+  isValid: boolean;
+  errorMessage?: string;
+  section?: DesignSectionInfo;
+  material?: SteelMaterial;
+  momentResistance: number; // kNm, M_Rd = W·fyd
+  shearResistance: number; // kN, V_Rd = Av·fyd/√3
+  deflectionLimit: number; // n
+  combinations: CombinationDesign[];
+  bending?: DesignCheck; // ULS
+  shear?: DesignCheck; // ULS
+  deflection?: DesignCheck; // SLS
+  governing?: DesignCheck; // Highest of the three
+}
+
+// ============================================================================
+// SECTION HELPERS
+// ============================================================================
+
+function getSectionDepth(input: SectionInput): number {
+  return getSectionExtents(input).height;
+}
+
+/**
+ * Shear area for a vertical shear force
+ * I/U/T: web, box: A·h/(b+h), pipe: 2A/π, solid: A/1.5 (τmax = 1.5 V/A)
+ */
+function getShearArea(input: SectionInput, area: number): number {
+  switch (input.shape) {
+    case 'i-beam':
+    case 'channel':
+      return (input.height - 2 * input.flangeThickness) * input.webThickness;
+    case 't-beam':
+      return (input.height - input.flangeThickness) * input.webThickness;
+    case 'l-beam':
+      return input.height * input.thickness;
+    case 'box':
+      return (area * input.height) / (input.width + input.height);
+    case 'pipe':
+      return (2 * area) / Math.PI;
+    case 'circle':
+      return (area * 3) / 4;
+    default:
+      return area / 1.5;
+  }
+}
+
+function resolveSection(section: DesignSection): DesignSectionInfo | undefined {
+  let name = 'Özel Kesit';
+  let input: SectionInput;
+
+  if (typeof section === 'string') {
+    const profile = getStandardProfile(section);
+    if (!profile) return undefined;
+    name = profile.name;
+    input = { shape: profile.shape, ...profile.dimensions } as SectionInput;
+  } else {
+    input = section;
+  }
+
+  const properties = calculateSectionProperties(input);
+  return {
+    name,
+    shape: input.shape,
+    properties,
+    depth: getSectionDepth(input),
+    shearArea: getShearArea(input, properties.area),
+  };
+}
+
+function toBeamSectionConfig(section: DesignSectionInfo): BeamSectionConfig {
+  // SectionProperties are in mm; BeamConfig expects cm³, cm⁴, cm² and mm
+  return {
+    sectionModulus: section.properties.wy / 1e3,
+    momentOfInertia: section.properties.iy / 1e4,
+    area: section.properties.area / 1e2,
+    sectionDepth: section.depth,
+  };
+}
+
+// ============================================================================
+// DESIGN ENGINE
+// ============================================================================
+
+class BeamDesigner {
+  private input: BeamDesignInput;
+  private readonly DEFLECTION_LIMIT_DEFAULT = 300;
+
+  constructor(input: BeamDesignInput) {
+    this.input = input;
+  }
+
+  // Cases without a symbol in STANDARD_COMBINATIONS (e.g. thermal) never combine
+  private getFactoredLoads(combination: LoadCombination): Load[] {
+    const loads: Load[] = [];
+    for (const load of this.input.config.loads) {
+      const factor = combination.loads[getLoadTypeSymbol(getLoadCaseType(load))];
+      if (factor) loads.push(scaleLoad(load, factor));
+    }
+    return loads;
+  }
+
+  private toCheck(
+    combination: LoadCombination,
+    demand: number,
+    capacity: number,
+    position: number
+  ): DesignCheck {
+    const { ratio, isSafe, percentage } = calculateUtilizationRatio(demand, capacity);
+    return {
+      combinationId: combination.id,
+      combinationName: combination.name,
+      demand: Math.abs(demand),
+      capacity,
+      position,
+      ratio,
+      isSafe,
+      percentage,
+    };
+  }
+
+  private static worse(current: DesignCheck | undefined, next: DesignCheck): DesignCheck {
+    return !current || next.ratio > current.ratio ? next : current;
+  }
+
+  run(): BeamDesignResult {
+    const deflectionLimit = this.input.deflectionLimit ?? this.DEFLECTION_LIMIT_DEFAULT;
+    const empty: BeamDesignResult = {
+      isValid: false,
+      momentResistance: 0,
+      shearResistance: 0,
+      deflectionLimit,
+      combinations: [],
+    };
+
+    const section = resolveSection(this.input.section);
+    if (!section) {
+      return { ...empty, errorMessage: `Profil bulunamadı: ${this.input.section}` };
+    }
+
+    const material = getMaterialByGrade(this.input.steelGrade);
+    if (!material || material.type !== 'steel') {
+      return { ...empty, section, errorMessage: 'Tasarım için çelik sınıfı seçilmeli' };
+    }
+
+    const combinations = getApplicableCombinations(this.input.config.loads.map(getLoadCaseType));
+    if (combinations.length === 0) {
+      return { ...empty, section, material, errorMessage: 'Kombinasyona giren yük durumu yok' };
+    }
+
+    // Resistances (W in mm³, Av in mm², fyd in MPa)
+    const momentResistance = (section.properties.wy * material.fyd) / 1e6;
+    const shearResistance = (section.shearArea * material.fyd) / Math.sqrt(3) / 1000;
+
+    const baseConfig: BeamConfig = {
+      ...this.input.config,
+      ...toBeamSectionConfig(section),
+      elasticModulus: material.E,
+      materialGrade: material.grade,
+    };
+
+    let bending: DesignCheck | undefined;
+    let shear: DesignCheck | undefined;
+    let deflection: DesignCheck | undefined;
+    const designs: CombinationDesign[] = [];
+
+    for (const combination of combinations) {
+      const results = calculateReactions({ ...baseConfig, loads: this.getFactoredLoads(combination) });
+      if (!results.isValid) {
+        return {
+          ...empty,
+          section,
+          material,
+          errorMessage: `${combination.id}: ${results.errorMessage ?? 'Hesaplama başarısız'}`,
+        };
+      }
+
+      let utilization = 0;
+      if (combination.isUltimate) {
+        const { maxMoment, minMoment, maxShear } = results;
+        const moment = Math.abs(minMoment.value) > Math.abs(maxMoment.value) ? minMoment : maxMoment;
+        const bendingCheck = this.toCheck(combination, moment.value, momentResistance, moment.position);
+        const shearCheck = this.toCheck(combination, maxShear.value, shearResistance, maxShear.position);
+        bending = BeamDesigner.worse(bending, bendingCheck);
+        shear = BeamDesigner.worse(shear, shearCheck);
+        utilization = Math.max(bendingCheck.ratio, shearCheck.ratio);
+      } else if (results.serviceability) {
+        // Relative span deflection against L/n of the governing span
+        const { deflection: delta, position, referenceLength } = results.serviceability;
+        const limit = (referenceLength * 1000) / deflectionLimit;
+        const deflectionCheck = this.toCheck(combination, delta, limit, position);
+        deflection = BeamDesigner.worse(deflection, deflectionCheck);
+        utilization = deflectionCheck.ratio;
+      }
+
+      designs.push({ combination, results, utilization });
+    }
+
+    let governing: DesignCheck | undefined;
+    for (const check of [bending, shear, deflection]) {
+      if (check) governing = BeamDesigner.worse(governing, check);
+    }
+
+    return {
+      isValid: true,
+      section,
+      material,
+      momentResistance,
+      shearResistance,
+      deflectionLimit,
+      combinations: designs,
+      bending,
+      shear,
+      deflection,
+      governing,
+    };
+  }
+}
+
+// ============================================================================
+// LOAD SCALING
+// ============================================================================
+
+/**
+ * Load multiplied by a combination factor (temperatures scale like forces)
+ */
+export function scaleLoad(load: Load, factor: number): Load {
+  switch (load.type) {
+    case LoadType.TRIANGULAR:
+      return { ...load, maxMagnitude: load.maxMagnitude * factor };
+    case LoadType.LINEAR:
+      return {
+        ...load,
+        startMagnitude: load.startMagnitude * factor,
+        endMagnitude: load.endMagnitude * factor,
+      };
+    case LoadType.POLYLINE:
+      return { ...load, points: load.points.map(p => ({ ...p, magnitude: p.magnitude * factor })) };
+    case LoadType.THERMAL:
+      return {
+        ...load,
+        topTemperature: load.topTemperature * factor,
+        bottomTemperature: load.bottomTemperature * factor,
+      };
+    default:
+      return { ...load, magnitude: load.magnitude * factor };
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * BeamConfig section fields for a profile code or custom section,
+ * undefined for an unknown profile code
+ */
+export function getBeamSectionConfig(section: DesignSection): BeamSectionConfig | undefined {
+  const info = resolveSection(section);
+  return info ? toBeamSectionConfig(info) : undefined;
+}
+
+export function designBeam(input: BeamDesignInput): BeamDesignResult {
+  const designer = new BeamDesigner(input);
+  return designer.run();
+}
@@ -0,0 +1,606 @@
+// ============================================================================
+// FRAME ANALYSIS ENGINE - Düzlem Çerçeve Analiz Motoru
+// Direct Stiffness Method (Rijitlik Matrisi Yöntemi), 3 serbestlik/düğüm (ux, uy, θ)
+// Kiriş-kolon elemanları, moment serbestlikleri (mafsal) ve eleman yükleri
+// ============================================================================
+
+import { createMatrix, findSingularColumns, solveLinearSystem, subMatrix } from './matrixUtils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FrameSupport = 'fixed' | 'pin' | 'roller';
+
+export interface FrameNode {
+  id: string;
+  x: number; // m
+  y: number; // m
+  support?: FrameSupport; // ankastre: ux, uy, θ · sabit: ux, uy · kayıcı: uy
+}
+
+export interface FrameMember {
+  id: string;
+  nodeStartId: string;
+  nodeEndId: string;
+  E?: number; // Elastisite modülü (MPa) - default: 200000
+  A?: number; // Kesit alanı (cm²) - default: IPE 300
+  I?: number; // Atalet momenti (cm⁴) - default: IPE 300
+  releaseStart?: boolean; // Başlangıç ucunda mafsal (M = 0)
+  releaseEnd?: boolean; // Bitiş ucunda mafsal (M = 0)
+}
+
+export interface FrameNodalLoad {
+  nodeId: string;
+  fx: number; // kN (+ sağa)
+  fy: number; // kN (+ yukarı)
+  m: number; // kNm (+ saat yönü tersine)
+}
+
+export interface FrameMemberLoad {
+  memberId: string;
+  type: 'udl' | 'point';
+  qx: number; // kN/m (udl) veya kN (point)
+  qy: number; // kN/m (udl) veya kN (point)
+  system: 'local' | 'global'; // local: x çubuk ekseni boyunca · global: x sağa, y yukarı
+  position?: number; // m, başlangıç düğümünden - yalnızca tekil yük
+}
+
+export interface FrameConfig {
+  nodes: FrameNode[];
+  members: FrameMember[];
+  nodalLoads: FrameNodalLoad[];
+  memberLoads: FrameMemberLoad[];
+}
+
+export interface FrameReaction {
+  nodeId: string;
+  rx: number; // kN
+  ry: number; // kN
+  m: number; // kNm
+}
+
+export interface FrameDisplacement {
+  nodeId: string;
+  dx: number; // mm (+ sağa)
+  dy: number; // mm (+ yukarı)
+  rotation: number; // rad (+ saat yönü tersine)
+}
+
+// Local end actions on the member, x along start -> end, y rotated +90°
+export interface FrameEndForces {
+  fx: number; // kN
+  fy: number; // kN
+  m: number; // kNm
+}
+
+export interface FrameDiagramPoint {
+  x: number; // m, from the start node
+  normal: number; // kN (+ çekme)
+  shear: number; // kN
+  moment: number; // kNm (+ yerel -y lifinde çekme)
+}
+
+export interface FrameMemberResult {
+  memberId: string;
+  length: number; // m
+  start: FrameEndForces;
+  end: FrameEndForces;
+  diagram: FrameDiagramPoint[];
+  maxNormal: number; // Signed values with the largest magnitude
+  maxShear: number;
+  maxMoment: number;
+}
+
+export interface FrameDof {
+  nodeId: string;
+  direction: 'x' | 'y' | 'θ';
+}
+
+export interface FrameResults {
+  reactions: FrameReaction[];
+  displacements: FrameDisplacement[];
+  memberResults: FrameMemberResult[];
+  degree: number; // Hiperstatiklik derecesi 3m + r - 3j - c (c: mafsal sayısı)
+  unstableDofs: FrameDof[];
+  isValid: boolean;
+  errorMessage?: string;
+}
+
+const DIRECTIONS: FrameDof['direction'][] = ['x', 'y', 'θ'];
+const DIAGRAM_SEGMENTS = 20;
+
+const SUPPORT_RESTRAINTS: Record<FrameSupport, boolean[]> = {
+  fixed: [true, true, true],
+  pin: [true, true, false],
+  roller: [false, true, false],
+};
+
+// ============================================================================
+// FRAME CALCULATOR CLASS
+// ============================================================================
+
+interface MemberGeometry {
+  length: number;
+  c: number; // cos α
+  s: number; // sin α
+}
+
+// Member load resolved into local components
+interface LocalLoad {
+  type: 'udl' | 'point';
+  px: number;
+  py: number;
+  position: number;
+}
+
+class FrameCalculator {
+  private config: FrameConfig;
+  private readonly E_DEFAULT = 200000; // MPa (steel)
+  private readonly A_DEFAULT = 53.8; // cm² (IPE 300)
+  private readonly I_DEFAULT = 8356; // cm⁴ (IPE 300)
+  private readonly EPSILON = 1e-9;
+
+  constructor(config: FrameConfig) {
+    this.config = config;
+  }
+
+  private getMemberProps(member: FrameMember) {
+    return {
+      E: member.E ?? this.E_DEFAULT,
+      A: member.A ?? this.A_DEFAULT,
+      I: member.I ?? this.I_DEFAULT,
+    };
+  }
+
+  private getMemberGeometry(member: FrameMember): MemberGeometry {
+    const nodeStart = this.config.nodes.find(n => n.id === member.nodeStartId)!;
+    const nodeEnd = this.config.nodes.find(n => n.id === member.nodeEndId)!;
+    const dx = nodeEnd.x - nodeStart.x;
+    const dy = nodeEnd.y - nodeStart.y;
+    const length = Math.hypot(dx, dy);
+    return { length, c: dx / length, s: dy / length };
+  }
+
+  private getLocalLoads(member: FrameMember, { c, s }: MemberGeometry): LocalLoad[] {
+    return this.config.memberLoads
+      .filter(load => load.memberId === member.id)
+      .map(load => ({
+        type: load.type,
+        px: load.system === 'global' ? load.qx * c + load.qy * s : load.qx,
+        py: load.system === 'global' ? -load.qx * s + load.qy * c : load.qy,
+        position: load.position ?? 0,
+      }));
+  }
+
+  private getReleaseCount(): number {
+    return this.config.members.reduce(
+      (sum, m) => sum + (m.releaseStart ? 1 : 0) + (m.releaseEnd ? 1 : 0),
+      0
+    );
+  }
+
+  private validate(): string | null {
+    const ids = new Set(this.config.nodes.map(n => n.id));
+    const memberIds = new Set(this.config.members.map(m => m.id));
+    for (const member of this.config.members) {
+      if (!ids.has(member.nodeStartId) || !ids.has(member.nodeEndId)) {
+        return `Çubuk ${member.id} tanımsız düğüme bağlı!`;
+      }
+      const { length } = this.getMemberGeometry(member);
+      if (length < this.EPSILON) {
+        return `Çubuk ${member.id} sıfır uzunlukta!`;
+      }
+      const { E, A, I } = this.getMemberProps(member);
+      if (E <= 0 || A <= 0 || I <= 0) {
+        return `Çubuk ${member.id} için E, A ve I pozitif olmalı!`;
+      }
+    }
+    for (const load of this.config.nodalLoads) {
+      if (!ids.has(load.nodeId)) return `Yük tanımsız düğümde: ${load.nodeId}`;
+    }
+    for (const load of this.config.memberLoads) {
+      if (!memberIds.has(load.memberId)) return `Yük tanımsız çubukta: ${load.memberId}`;
+      if (load.type === 'point') {
+        const member = this.config.members.find(m => m.id === load.memberId)!;
+        const { length } = this.getMemberGeometry(member);
+        const position = load.position ?? 0;
+        if (position < 0 || position > length) {
+          return `Çubuk ${load.memberId} yükü çubuk dışında: ${position} m`;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Local stiffness matrix and fixed-end forces of a member. End releases are
+   * condensed out one at a time, leaving zero rows and columns at the
+   * released rotations.
+   */
+  private getLocalStiffness(member: FrameMember, geometry: MemberGeometry): { k: number[][]; fixed: number[] } {
+    const { E, A, I } = this.getMemberProps(member);
+    const L = geometry.length;
+    const EA = E * A * 1e-1; // MPa × cm² -> kN
+    const EI = E * I * 1e-5; // MPa × cm⁴ -> kN·m²
+
+    const a = EA / L;
+    const b = (12 * EI) / L ** 3;
+    const c = (6 * EI) / L ** 2;
+    const d = (4 * EI) / L;
+    const e = (2 * EI) / L;
+    const k = [
+      [a, 0, 0, -a, 0, 0],
+      [0, b, c, 0, -b, c],
+      [0, c, d, 0, -c, e],
+      [-a, 0, 0, a, 0, 0],
+      [0, -b, -c, 0, b, -c],
+      [0, c, e, 0, -c, d],
+    ];
+
+    // Fixed-end forces, the actions of the clamped ends on the member
+    const fixed = new Array<number>(6).fill(0);
+    for (const load of this.getLocalLoads(member, geometry)) {
+      if (load.type === 'udl') {
+        fixed[0] -= (load.px * L) / 2;
+        fixed[3] -= (load.px * L) / 2;
+        fixed[1] -= (load.py * L) / 2;
+        fixed[4] -= (load.py * L) / 2;
+        fixed[2] -= (load.py * L * L) / 12;
+        fixed[5] += (load.py * L * L) / 12;
+      } else {
+        const p = load.position;
+        const q = L - p;
+        fixed[0] -= (load.px * q) / L;
+        fixed[3] -= (load.px * p) / L;
+        fixed[1] -= (load.py * q * q * (3 * p + q)) / L ** 3;
+        fixed[4] -= (load.py * p * p * (p + 3 * q)) / L ** 3;
+        fixed[2] -= (load.py * p * q * q) / (L * L);
+        fixed[5] += (load.py * p * p * q) / (L * L);
+      }
+    }
+
+    const released = [member.releaseStart ? 2 : -1, member.releaseEnd ? 5 : -1].filter(r => r >= 0);
+    for (const r of released) {
+      const krr = k[r][r];
+      if (Math.abs(krr) < this.EPSILON) continue;
+      for (let i = 0; i < 6; i++) {
+        if (i === r) continue;
+        const kir = k[i][r];
+        for (let j = 0; j < 6; j++) {
+          if (j !== r) k[i][j] -= (kir * k[r][j]) / krr;
+        }
+        fixed[i] -= (kir * fixed[r]) / krr;
+      }
+      for (let i = 0; i < 6; i++) {
+        k[i][r] = 0;
+        k[r][i] = 0;
+      }
+      fixed[r] = 0;
+    }
+
+    return { k, fixed };
+  }
+
+  // Local -> global rotation of a 6-vector, T^T·v
+  private toGlobal(v: number[], { c, s }: MemberGeometry): number[] {
+    return [v[0] * c - v[1] * s, v[0] * s + v[1] * c, v[2], v[3] * c - v[4] * s, v[3] * s + v[4] * c, v[5]];
+  }
+
+  // Global -> local rotation of a 6-vector, T·v
+  private toLocal(v: number[], { c, s }: MemberGeometry): number[] {
+    return [v[0] * c + v[1] * s, -v[0] * s + v[1] * c, v[2], v[3] * c + v[4] * s, -v[3] * s + v[4] * c, v[5]];
+  }
+
+  private getMemberDofs(member: FrameMember, index: Map<string, number>): number[] {
+    const start = 3 * index.get(member.nodeStartId)!;
+    const end = 3 * index.get(member.nodeEndId)!;
+    return [start, start + 1, start + 2, end, end + 1, end + 2];
+  }
+
+  // Global stiffness matrix and load vector, DOFs ordered x, y, θ per node
+  private assemble(index: Map<string, number>): { K: number[][]; F: number[] } {
+    const { nodes, members, nodalLoads } = this.config;
+    const size = nodes.length * 3;
+    const K = createMatrix(size);
+    const F = new Array<number>(size).fill(0);
+
+    for (const member of members) {
+      const geometry = this.getMemberGeometry(member);
+      const { k, fixed } = this.getLocalStiffness(member, geometry);
+      const dofs = this.getMemberDofs(member, index);
+
+      // K_global = T^T·k·T, column by column
+      const columns = [0, 1, 2, 3, 4, 5].map(j => {
+        const unit = new Array<number>(6).fill(0);
+        unit[j] = 1;
+        const local = this.toLocal(unit, geometry);
+        const force = k.map(row => row.reduce((sum, kij, m) => sum + kij * local[m], 0));
+        return this.toGlobal(force, geometry);
+      });
+      for (let i = 0; i < 6; i++) {
+        for (let j = 0; j < 6; j++) {
+          K[dofs[i]][dofs[j]] += columns[j][i];
+        }
+      }
+
+      // Equivalent nodal loads are the reversed fixed-end forces
+      const equivalent = this.toGlobal(fixed, geometry);
+      dofs.forEach((dof, i) => {
+        F[dof] -= equivalent[i];
+      });
+    }
+
+    for (const load of nodalLoads) {
+      const i = 3 * index.get(load.nodeId)!;
+      F[i] += load.fx;
+      F[i + 1] += load.fy;
+      F[i + 2] += load.m;
+    }
+
+    return { K, F };
+  }
+
+  private invalid(errorMessage: string, degree: number, unstableDofs: FrameDof[] = []): FrameResults {
+    return {
+      reactions: [],
+      displacements: [],
+      memberResults: [],
+      degree,
+      unstableDofs,
+      isValid: false,
+      errorMessage,
+    };
+  }
+
+  /**
+   * N, V, M along a member from the start-end actions and the span loads.
+   * Sections are cut from the start side: N = -Fx - Σpx, V = Fy + Σpy and
+   * M = -M₁ + Fy·x + Σpy·lever. Point load positions are sampled on both
+   * sides to show the jump in the diagrams.
+   */
+  private getDiagram(length: number, start: FrameEndForces, loads: LocalLoad[]): FrameDiagramPoint[] {
+    const at = (x: number, includePoint: boolean): FrameDiagramPoint => {
+      let normal = -start.fx;
+      let shear = start.fy;
+      let moment = -start.m + start.fy * x;
+      for (const load of loads) {
+        if (load.type === 'udl') {
+          normal -= load.px * x;
+          shear += load.py * x;
+          moment += (load.py * x * x) / 2;
+        } else if (load.position < x || (includePoint && load.position === x)) {
+          normal -= load.px;
+          shear += load.py;
+          moment += load.py * (x - load.position);
+        }
+      }
+      return { x, normal, shear, moment };
+    };
+
+    const stations = new Set<number>();
+    for (let i = 0; i <= DIAGRAM_SEGMENTS; i++) {
+      stations.add((length * i) / DIAGRAM_SEGMENTS);
+    }
+    const pointPositions = loads.filter(l => l.type === 'point').map(l => l.position);
+    pointPositions.forEach(p => stations.add(p));
+
+    const points: FrameDiagramPoint[] = [];
+    for (const x of [...stations].sort((p, q) => p - q)) {
+      const isLoadPoint = pointPositions.includes(x);
+      if (isLoadPoint && x > 0) points.push(at(x, false));
+      if (!isLoadPoint || x < length) points.push(at(x, true));
+    }
+    return points;
+  }
+
+  analyze(): FrameResults {
+    const { nodes, members } = this.config;
+    const restraints = nodes.reduce(
+      (sum, n) => sum + (n.support ? SUPPORT_RESTRAINTS[n.support].filter(Boolean).length : 0),
+      0
+    );
+    const degree = 3 * members.length + restraints - 3 * nodes.length - this.getReleaseCount();
+
+    if (restraints === 0) {
+      return this.invalid('Mesnet tanımlanmamış!', degree);
+    }
+
+    const inputError = this.validate();
+    if (inputError) return this.invalid(inputError, degree);
+
+    const index = new Map(nodes.map((n, i) => [n.id, i]));
+    const { K, F } = this.assemble(index);
+    const restrained = new Set<number>();
+    nodes.forEach((node, i) => {
+      if (!node.support) return;
+      SUPPORT_RESTRAINTS[node.support].forEach((isRestrained, a) => {
+        if (isRestrained) restrained.add(3 * i + a);
+      });
+    });
+
+    // A joint where every member end is released has no rotational stiffness;
+    // its rotation is indeterminate but carries no moment, so it is left out
+    const freeDofs: number[] = [];
+    for (let dof = 0; dof < nodes.length * 3; dof++) {
+      if (restrained.has(dof)) continue;
+      const isLooseRotation = dof % 3 === 2 && Math.abs(K[dof][dof]) < this.EPSILON && Math.abs(F[dof]) < this.EPSILON;
+      if (!isLooseRotation) freeDofs.push(dof);
+    }
+
+    const Kff = subMatrix(K, freeDofs);
+    const solution = solveLinearSystem(Kff, freeDofs.map(dof => F[dof]));
+    if (!solution) {
+      const unstableDofs = findSingularColumns(Kff).map(i => {
+        const dof = freeDofs[i];
+        return { nodeId: nodes[Math.floor(dof / 3)].id, direction: DIRECTIONS[dof % 3] };
+      });
+      const list = unstableDofs.map(d => `${d.nodeId}-${d.direction}`).join(', ');
+      return this.invalid(`Sistem istikrarsız! Mekanizma serbestlikleri: ${list}`, degree, unstableDofs);
+    }
+
+    const d = new Array<number>(nodes.length * 3).fill(0);
+    freeDofs.forEach((dof, i) => {
+      d[dof] = solution[i];
+    });
+
+    // Reactions R = K·d - F at the restrained DOFs
+    const reactions: FrameReaction[] = [];
+    nodes.forEach((node, i) => {
+      if (!node.support) return;
+      const [rx, ry, m] = [0, 1, 2].map(a => {
+        const dof = 3 * i + a;
+        if (!restrained.has(dof)) return 0;
+        let value = -F[dof];
+        for (let j = 0; j < d.length; j++) {
+          value += K[dof][j] * d[j];
+        }
+        return value;
+      });
+      reactions.push({ nodeId: node.id, rx, ry, m });
+    });
+
+    const displacements: FrameDisplacement[] = nodes.map((node, i) => ({
+      nodeId: node.id,
+      dx: d[3 * i] * 1000, // m -> mm
+      dy: d[3 * i + 1] * 1000,
+      rotation: d[3 * i + 2],
+    }));
+
+    // Local end actions f = k·T·d + f_fixed
+    const memberResults: FrameMemberResult[] = members.map(member => {
+      const geometry = this.getMemberGeometry(member);
+      const { k, fixed } = this.getLocalStiffness(member, geometry);
+      const local = this.toLocal(this.getMemberDofs(member, index).map(dof => d[dof]), geometry);
+      const f = k.map((row, i) => row.reduce((sum, kij, j) => sum + kij * local[j], fixed[i]));
+      const start = { fx: f[0], fy: f[1], m: f[2] };
+      const end = { fx: f[3], fy: f[4], m: f[5] };
+      const diagram = this.getDiagram(geometry.length, start, this.getLocalLoads(member, geometry));
+      const peak = (pick: (p: FrameDiagramPoint) => number) =>
+        diagram.reduce((best, p) => (Math.abs(pick(p)) > Math.abs(best) ? pick(p) : best), 0);
+
+      return {
+        memberId: member.id,
+        length: geometry.length,
+        start,
+        end,
+        diagram,
+        maxNormal: peak(p => p.normal),
+        maxShear: peak(p => p.shear),
+        maxMoment: peak(p => p.moment),
+      };
+    });
+
+    return { reactions, displacements, memberResults, degree, unstableDofs: [], isValid: true };
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function analyzeFrame(config: FrameConfig): FrameResults {
+  const calculator = new FrameCalculator(config);
+  return calculator.analyze();
+}
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+export const FRAME_PRESETS: Record<string, FrameConfig> = {
+  // Ankastre mesnetli portal çerçeve: 6 m açıklık, 4 m yükseklik
+  'portal-fixed': {
+    nodes: [
+      { id: 'A', x: 0, y: 0, support: 'fixed' },
+      { id: 'B', x: 0, y: 4 },
+      { id: 'C', x: 6, y: 4 },
+      { id: 'D', x: 6, y: 0, support: 'fixed' },
+    ],
+    members: [
+      { id: 'AB', nodeStartId: 'A', nodeEndId: 'B' },
+      { id: 'BC', nodeStartId: 'B', nodeEndId: 'C' },
+      { id: 'CD', nodeStartId: 'C', nodeEndId: 'D' },
+    ],
+    nodalLoads: [{ nodeId: 'B', fx: 10, fy: 0, m: 0 }],
+    memberLoads: [{ memberId: 'BC', type: 'udl', qx: 0, qy: -20, system: 'global' }],
+  },
+  // Mafsallı mesnetli portal, kirişin ortasında tekil yük
+  'portal-pinned': {
+    nodes: [
+      { id: 'A', x: 0, y: 0, support: 'pin' },
+      { id: 'B', x: 0, y: 5 },
+      { id: 'C', x: 8, y: 5 },
+      { id: 'D', x: 8, y: 0, support: 'pin' },
+    ],
+    members: [
+      { id: 'AB', nodeStartId: 'A', nodeEndId: 'B' },
+      { id: 'BC', nodeStartId: 'B', nodeEndId: 'C' },
+      { id: 'CD', nodeStartId: 'C', nodeEndId: 'D' },
+    ],
+    nodalLoads: [],
+    memberLoads: [
+      { memberId: 'BC', type: 'point', qx: 0, qy: -60, system: 'global', position: 4 },
+      { memberId: 'AB', type: 'udl', qx: 5, qy: 0, system: 'global' },
+    ],
+  },
+  // Üç mafsallı beşik çatı çerçevesi (izostatik), mahyada mafsal
+  'three-hinged': {
+    nodes: [
+      { id: 'A', x: 0, y: 0, support: 'pin' },
+      { id: 'B', x: 0, y: 4 },
+      { id: 'C', x: 5, y: 6 },
+      { id: 'D', x: 10, y: 4 },
+      { id: 'E', x: 10, y: 0, support: 'pin' },
+    ],
+    members: [
+      { id: 'AB', nodeStartId: 'A', nodeEndId: 'B' },
+      { id: 'BC', nodeStartId: 'B', nodeEndId: 'C', releaseEnd: true },
+      { id: 'CD', nodeStartId: 'C', nodeEndId: 'D' },
+      { id: 'DE', nodeStartId: 'D', nodeEndId: 'E' },
+    ],
+    nodalLoads: [],
+    memberLoads: [
+      { memberId: 'BC', type: 'udl', qx: 0, qy: -12, system: 'global' },
+      { memberId: 'CD', type: 'udl', qx: 0, qy: -12, system: 'global' },
+    ],
+  },
+  // İki katlı tek açıklıklı çerçeve, kat yükleri ve rüzgar
+  'two-storey': {
+    nodes: [
+      { id: 'A', x: 0, y: 0, support: 'fixed' },
+      { id: 'B', x: 0, y: 3.5 },
+      { id: 'C', x: 0, y: 7 },
+      { id: 'D', x: 6, y: 7 },
+      { id: 'E', x: 6, y: 3.5 },
+      { id: 'F', x: 6, y: 0, support: 'fixed' },
+    ],
+    members: [
+      { id: 'AB', nodeStartId: 'A', nodeEndId: 'B', I: 11770, A: 62.6 },
+      { id: 'BC', nodeStartId: 'B', nodeEndId: 'C' },
+      { id: 'BE', nodeStartId: 'B', nodeEndId: 'E' },
+      { id: 'CD', nodeStartId: 'C', nodeEndId: 'D' },
+      { id: 'FE', nodeStartId: 'F', nodeEndId: 'E', I: 11770, A: 62.6 },
+      { id: 'ED', nodeStartId: 'E', nodeEndId: 'D' },
+    ],
+    nodalLoads: [
+      { nodeId: 'B', fx: 15, fy: 0, m: 0 },
+      { nodeId: 'C', fx: 8, fy: 0, m: 0 },
+    ],
+    memberLoads: [
+      { memberId: 'BE', type: 'udl', qx: 0, qy: -25, system: 'global' },
+      { memberId: 'CD', type: 'udl', qx: 0, qy: -15, system: 'global' },
+    ],
+  },
+};
+
+export const FRAME_LABELS: Record<string, string> = {
+  'portal-fixed': 'Ankastre Portal',
+  'portal-pinned': 'Mafsallı Portal',
+  'three-hinged': 'Üç Mafsallı Çerçeve',
+  'two-storey': 'İki Katlı Çerçeve',
+};
+
+export function getFramePreset(key: string): FrameConfig | undefined {
+  return FRAME_PRESETS[key];
+}
@@ -0,0 +1,324 @@
+// ============================================================================
+// STRUCTURAL ENGINEERING: INFLUENCE LINES
+// Unit-load influence lines for beam reactions and section forces,
+// plus critical positioning of a moving axle train
+// ============================================================================
+
+import {
+  LoadType,
+  SupportType,
+  calculateSectionForces,
+  type BeamConfig,
+  type SectionForces,
+} from './reactionCalculator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InfluenceQuantity = 'reaction' | 'reactionMoment' | 'shear' | 'moment';
+
+export interface InfluenceTarget {
+  quantity: InfluenceQuantity;
+  supportIndex?: number; // reaction, reactionMoment
+  section?: number;      // shear, moment (m)
+}
+
+export interface InfluenceLinePoint {
+  x: number;     // unit load position, m
+  value: number; // effect of a 1 kN downward load
+}
+
+export interface InfluenceLineResult {
+  target: InfluenceTarget;
+  label: string;
+  unit: string; // effect unit per kN of load
+  points: InfluenceLinePoint[];
+  max: InfluenceLinePoint;
+  min: InfluenceLinePoint;
+  positiveArea: number; // × w gives the effect of a UDL on the positive parts
+  negativeArea: number;
+}
+
+export interface MovingLoadTrain {
+  loads: number[];    // axle loads, kN (downward positive)
+  spacings: number[]; // m, between consecutive axles (loads.length - 1 values)
+}
+
+export interface TrainPosition {
+  value: number;           // kN or kNm
+  leadPosition: number;    // x of the first axle, m
+  axlePositions: number[]; // x of every axle, off-beam axles included
+  reversed: boolean;       // train travelling right to left
+}
+
+export interface TrainEffectResult {
+  max: TrainPosition;
+  min: TrainPosition;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_RESOLUTION = 100;
+
+// Offset either side of a section so the shear jump is captured
+const SECTION_OFFSET = 1e-6;
+
+// ============================================================================
+// INFLUENCE LINE CALCULATOR
+// ============================================================================
+
+class InfluenceLineCalculator {
+  private config: BeamConfig;
+  private target: InfluenceTarget;
+
+  constructor(config: BeamConfig, target: InfluenceTarget) {
+    this.config = config;
+    this.target = target;
+  }
+
+  private isTargetValid(): boolean {
+    const { quantity, supportIndex, section } = this.target;
+    if (quantity === 'reaction' || quantity === 'reactionMoment') {
+      return (
+        supportIndex !== undefined &&
+        supportIndex >= 0 &&
+        supportIndex < this.config.supports.length
+      );
+    }
+    return section !== undefined && section >= 0 && section <= this.config.length;
+  }
+
+  // Unit load positions: uniform grid plus supports, hinges and the section
+  private getSamplePositions(resolution: number): number[] {
+    const L = this.config.length;
+    const positions: number[] = [];
+
+    for (let i = 0; i <= resolution; i++) {
+      positions.push((i / resolution) * L);
+    }
+    for (const s of this.config.supports) positions.push(s.position);
+    for (const h of this.config.hinges ?? []) positions.push(h);
+
+    const { section } = this.target;
+    if (section !== undefined && (this.target.quantity === 'shear' || this.target.quantity === 'moment')) {
+      if (section > SECTION_OFFSET) positions.push(section - SECTION_OFFSET);
+      if (section < L - SECTION_OFFSET) positions.push(section + SECTION_OFFSET);
+    }
+
+    return positions
+      .filter(x => x >= 0 && x <= L)
+      .sort((a, b) => a - b)
+      .filter((x, i, arr) => i === 0 || x - arr[i - 1] > SECTION_OFFSET / 2);
+  }
+
+  private extract(forces: SectionForces): number {
+    const { quantity, supportIndex } = this.target;
+    switch (quantity) {
+      case 'reaction':
+        return forces.reactions.get(supportIndex!)?.vertical ?? 0;
+      case 'reactionMoment':
+        return forces.reactions.get(supportIndex!)?.moment ?? 0;
+      case 'shear':
+        return forces.shear;
+      case 'moment':
+        return forces.moment;
+    }
+  }
+
+  getLabel(): string {
+    const { quantity, supportIndex, section } = this.target;
+    switch (quantity) {
+      case 'reaction':
+        return `R${supportIndex! + 1} (x = ${this.config.supports[supportIndex!].position.toFixed(2)} m)`;
+      case 'reactionMoment':
+        return `M${supportIndex! + 1} (x = ${this.config.supports[supportIndex!].position.toFixed(2)} m)`;
+      case 'shear':
+        return `V (x = ${section!.toFixed(2)} m)`;
+      case 'moment':
+        return `M (x = ${section!.toFixed(2)} m)`;
+    }
+  }
+
+  calculate(resolution: number): InfluenceLineResult | null {
+    if (!this.isTargetValid()) return null;
+
+    const section = this.target.section ?? 0;
+    const points: InfluenceLinePoint[] = [];
+    // Support movements are actions, not part of the unit-load system
+    const supports = this.config.supports.map(s => ({ type: s.type, position: s.position }));
+
+    for (const x of this.getSamplePositions(resolution)) {
+      const forces = calculateSectionForces(
+        {
+          ...this.config,
+          supports,
+          loads: [{ type: LoadType.POINT, position: x, magnitude: -1 }],
+        },
+        section
+      );
+      if (!forces) return null;
+      points.push({ x, value: this.extract(forces) });
+    }
+
+    let max = points[0];
+    let min = points[0];
+    let positiveArea = 0;
+    let negativeArea = 0;
+
+    for (let i = 0; i < points.length; i++) {
+      if (points[i].value > max.value) max = points[i];
+      if (points[i].value < min.value) min = points[i];
+
+      if (i > 0) {
+        const a = points[i - 1];
+        const b = points[i];
+        const [pos, neg] = splitTrapezoid(a, b);
+        positiveArea += pos;
+        negativeArea += neg;
+      }
+    }
+
+    const isMoment = this.target.quantity === 'moment' || this.target.quantity === 'reactionMoment';
+
+    return {
+      target: this.target,
+      label: this.getLabel(),
+      unit: isMoment ? 'kNm/kN' : 'kN/kN',
+      points,
+      max,
+      min,
+      positiveArea,
+      negativeArea,
+    };
+  }
+}
+
+// Positive and negative parts of the area under a linear segment
+function splitTrapezoid(a: InfluenceLinePoint, b: InfluenceLinePoint): [number, number] {
+  const h = b.x - a.x;
+  if (h <= 0) return [0, 0];
+
+  if (a.value * b.value >= 0) {
+    const area = ((a.value + b.value) / 2) * h;
+    return area >= 0 ? [area, 0] : [0, area];
+  }
+
+  // Sign change inside the segment
+  const xZero = (a.value / (a.value - b.value)) * h;
+  const first = (a.value / 2) * xZero;
+  const second = (b.value / 2) * (h - xZero);
+  return first > 0 ? [first, second] : [second, first];
+}
+
+// ============================================================================
+// MOVING LOAD TRAIN
+// ============================================================================
+
+/**
+ * Linear interpolation of an influence line, zero off the beam
+ */
+export function evaluateInfluenceLine(line: InfluenceLineResult, x: number): number {
+  const pts = line.points;
+  if (pts.length === 0 || x < pts[0].x || x > pts[pts.length - 1].x) return 0;
+
+  let lo = 0;
+  let hi = pts.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (pts[mid].x <= x) lo = mid;
+    else hi = mid;
+  }
+
+  const a = pts[lo];
+  const b = pts[hi];
+  if (b.x === a.x) return a.value;
+  return a.value + ((b.value - a.value) * (x - a.x)) / (b.x - a.x);
+}
+
+function getAxleOffsets(train: MovingLoadTrain): number[] {
+  const offsets = [0];
+  for (let i = 1; i < train.loads.length; i++) {
+    offsets.push(offsets[i - 1] + (train.spacings[i - 1] ?? 0));
+  }
+  return offsets;
+}
+
+/**
+ * Find the lead-axle positions that give the largest and smallest effect.
+ * The train is checked in both directions of travel; the extreme always has
+ * an axle over an influence-line vertex, so only those placements are tried.
+ */
+export function findCriticalTrainPosition(
+  line: InfluenceLineResult,
+  train: MovingLoadTrain
+): TrainEffectResult | null {
+  if (train.loads.length === 0 || line.points.length === 0) return null;
+
+  const offsets = getAxleOffsets(train);
+  let max: TrainPosition | null = null;
+  let min: TrainPosition | null = null;
+
+  for (const reversed of [false, true]) {
+    // Forward: axles trail behind the lead (to its left); reversed: ahead of it
+    const axleAt = (lead: number, i: number) => (reversed ? lead + offsets[i] : lead - offsets[i]);
+
+    for (const point of line.points) {
+      for (let i = 0; i < offsets.length; i++) {
+        const lead = reversed ? point.x - offsets[i] : point.x + offsets[i];
+        const axlePositions = offsets.map((_, k) => axleAt(lead, k));
+        const value = axlePositions.reduce(
+          (sum, x, k) => sum + train.loads[k] * evaluateInfluenceLine(line, x),
+          0
+        );
+
+        if (!max || value > max.value) {
+          max = { value, leadPosition: lead, axlePositions, reversed };
+        }
+        if (!min || value < min.value) {
+          min = { value, leadPosition: lead, axlePositions, reversed };
+        }
+      }
+    }
+  }
+
+  return max && min ? { max, min } : null;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function calculateInfluenceLine(
+  config: BeamConfig,
+  target: InfluenceTarget,
+  resolution: number = DEFAULT_RESOLUTION
+): InfluenceLineResult | null {
+  const calculator = new InfluenceLineCalculator(config, target);
+  return calculator.calculate(resolution);
+}
+
+/**
+ * Influence targets offered for a beam: the vertical reactions, the
+ * moment reaction of fixed and guided supports, and V/M at the section
+ */
+export function getInfluenceTargets(config: BeamConfig, section: number): InfluenceTarget[] {
+  const targets: InfluenceTarget[] = [];
+
+  config.supports.forEach((support, index) => {
+    // Guided supports slide vertically and carry no vertical reaction
+    if (support.type !== SupportType.GUIDED && support.type !== SupportType.FREE) {
+      targets.push({ quantity: 'reaction', supportIndex: index });
+    }
+    if (support.type === SupportType.FIXED || support.type === SupportType.GUIDED) {
+      targets.push({ quantity: 'reactionMoment', supportIndex: index });
+    }
+  });
+
+  targets.push({ quantity: 'shear', section });
+  targets.push({ quantity: 'moment', section });
+
+  return targets;
+}
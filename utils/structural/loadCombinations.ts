@@ -416,6 +416,16 @@ export function getLoadTypeName(type: LoadCaseType): string {
   return LOAD_TYPE_NAMES[type].name;
 }
 
+export function getLoadTypeSymbol(type: LoadCaseType): string {
+  return LOAD_TYPE_NAMES[type].symbol;
+}
+
+// Verilen yük durumlarından en az birini içeren kombinasyonlar
+export function getApplicableCombinations(types: LoadCaseType[]): LoadCombination[] {
+  const symbols = new Set(types.map(getLoadTypeSymbol));
+  return STANDARD_COMBINATIONS.filter(c => Object.keys(c.loads).some(key => symbols.has(key)));
+}
+
 export function getLiveLoadValue(key: string): number | undefined {
   return LIVE_LOADS_TS498[key]?.value;
 }
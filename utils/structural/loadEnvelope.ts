@@ -0,0 +1,247 @@
+// ============================================================================
+// LOAD ENVELOPE - Yük Durumları ve Zarf Diyagramları
+// Each load case is solved once; TS 498 combinations follow by superposition
+// ============================================================================
+
+import {
+  calculateReactions,
+  evaluateSegments,
+  getLoadCaseType,
+  type AnalysisResults,
+  type BeamConfig,
+} from './reactionCalculator';
+import {
+  getApplicableCombinations,
+  getLoadTypeSymbol,
+  type LoadCaseType,
+  type LoadCombination,
+} from './loadCombinations';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EnvelopeCurve = 'maxShear' | 'minShear' | 'maxMoment' | 'minMoment';
+
+export interface EnvelopePoint {
+  x: number; // m
+  maxShear: number; // kN
+  minShear: number; // kN
+  maxMoment: number; // kNm
+  minMoment: number; // kNm
+  governing: Record<EnvelopeCurve, string>; // Combination id of each curve
+}
+
+export interface EnvelopeExtreme {
+  value: number;
+  position: number;
+  combinationId: string;
+}
+
+export interface GoverningRange {
+  start: number; // m
+  end: number; // m
+  combinationId: string;
+}
+
+export interface EnvelopeResult {
+  isValid: boolean;
+  errorMessage?: string;
+  cases: LoadCaseType[]; // Loaded cases, each solved separately
+  combinations: LoadCombination[]; // Ultimate combinations that were enveloped
+  points: EnvelopePoint[];
+  extremes: Record<EnvelopeCurve, EnvelopeExtreme>;
+}
+
+// One station of the envelope; side picks the limit at a jump (-1 left, +1 right)
+interface Station {
+  x: number;
+  side: -1 | 1;
+}
+
+const ENVELOPE_CURVES: EnvelopeCurve[] = ['maxShear', 'minShear', 'maxMoment', 'minMoment'];
+
+// ============================================================================
+// ENVELOPE ENGINE
+// ============================================================================
+
+class EnvelopeCalculator {
+  private config: BeamConfig;
+  private readonly EPSILON = 1e-9;
+  private readonly SAMPLES = 100;
+
+  constructor(config: BeamConfig) {
+    this.config = config;
+  }
+
+  private invalid(errorMessage: string): EnvelopeResult {
+    const none = { value: 0, position: 0, combinationId: '' };
+    return {
+      isValid: false,
+      errorMessage,
+      cases: [],
+      combinations: [],
+      points: [],
+      extremes: { maxShear: none, minShear: none, maxMoment: none, minMoment: none },
+    };
+  }
+
+  /**
+   * Uniform samples plus both sides of every segment boundary of every case
+   */
+  private getStations(solutions: AnalysisResults[]): Station[] {
+    const { length } = this.config;
+    const boundaries = new Set<number>();
+    for (const result of solutions) {
+      for (const segment of result.segments) {
+        boundaries.add(segment.start);
+        boundaries.add(segment.end);
+      }
+    }
+
+    const boundaryList = [...boundaries];
+    const xs = [...boundaryList];
+    for (let i = 0; i <= this.SAMPLES; i++) {
+      xs.push((i / this.SAMPLES) * length);
+    }
+    xs.sort((a, b) => a - b);
+
+    const stations: Station[] = [];
+    let previous = -Infinity;
+    for (const x of xs) {
+      if (x - previous < this.EPSILON) continue;
+      previous = x;
+      const isBoundary = boundaryList.some(b => Math.abs(b - x) < this.EPSILON);
+      if (isBoundary && x > this.EPSILON && x < length - this.EPSILON) {
+        stations.push({ x, side: -1 }, { x, side: 1 });
+      } else {
+        stations.push({ x, side: x >= length - this.EPSILON ? -1 : 1 });
+      }
+    }
+    return stations;
+  }
+
+  calculate(): EnvelopeResult {
+    const { loads, supports } = this.config;
+    if (loads.length === 0) return this.invalid('Yük yok');
+
+    const cases = [...new Set(loads.map(getLoadCaseType))];
+    const combinations = getApplicableCombinations(cases).filter(c => c.isUltimate);
+    if (combinations.length === 0) return this.invalid('Kombinasyona giren yük durumu yok');
+
+    // Support movements are imposed once, unfactored, not once per case
+    const fixedSupports = supports.map(s => ({ type: s.type, position: s.position }));
+    const caseResults = new Map<LoadCaseType, AnalysisResults>();
+    for (const caseType of cases) {
+      const result = calculateReactions({
+        ...this.config,
+        supports: fixedSupports,
+        loads: loads.filter(l => getLoadCaseType(l) === caseType),
+      });
+      if (!result.isValid) return this.invalid(result.errorMessage ?? 'Hesaplama başarısız');
+      caseResults.set(caseType, result);
+    }
+
+    const hasMovements = supports.some(s => s.displacement || s.rotation);
+    const imposed = hasMovements ? calculateReactions({ ...this.config, loads: [] }) : undefined;
+    if (imposed && !imposed.isValid) return this.invalid(imposed.errorMessage ?? 'Hesaplama başarısız');
+
+    const solutions = [...caseResults.values(), ...(imposed ? [imposed] : [])];
+    const points: EnvelopePoint[] = this.getStations(solutions).map(station => {
+      const caseValues = cases.map(caseType => {
+        const segments = caseResults.get(caseType)!.segments;
+        return {
+          symbol: getLoadTypeSymbol(caseType),
+          shear: evaluateSegments(segments, 'shear', station.x, station.side),
+          moment: evaluateSegments(segments, 'moment', station.x, station.side),
+        };
+      });
+      const baseShear = imposed ? evaluateSegments(imposed.segments, 'shear', station.x, station.side) : 0;
+      const baseMoment = imposed ? evaluateSegments(imposed.segments, 'moment', station.x, station.side) : 0;
+
+      const point: EnvelopePoint = {
+        x: station.x,
+        maxShear: -Infinity,
+        minShear: Infinity,
+        maxMoment: -Infinity,
+        minMoment: Infinity,
+        governing: { maxShear: '', minShear: '', maxMoment: '', minMoment: '' },
+      };
+
+      for (const combination of combinations) {
+        let shear = baseShear;
+        let moment = baseMoment;
+        for (const value of caseValues) {
+          const factor = combination.loads[value.symbol] ?? 0;
+          shear += factor * value.shear;
+          moment += factor * value.moment;
+        }
+
+        // Ties keep the earlier combination so labels don't flicker on zero regions
+        if (shear > point.maxShear + this.EPSILON) {
+          point.maxShear = shear;
+          point.governing.maxShear = combination.id;
+        }
+        if (shear < point.minShear - this.EPSILON) {
+          point.minShear = shear;
+          point.governing.minShear = combination.id;
+        }
+        if (moment > point.maxMoment + this.EPSILON) {
+          point.maxMoment = moment;
+          point.governing.maxMoment = combination.id;
+        }
+        if (moment < point.minMoment - this.EPSILON) {
+          point.minMoment = moment;
+          point.governing.minMoment = combination.id;
+        }
+      }
+      return point;
+    });
+
+    const extremes = {} as Record<EnvelopeCurve, EnvelopeExtreme>;
+    for (const curve of ENVELOPE_CURVES) {
+      const isMax = curve.startsWith('max');
+      const best = points.reduce((a, b) => ((isMax ? b[curve] > a[curve] : b[curve] < a[curve]) ? b : a));
+      extremes[curve] = { value: best[curve], position: best.x, combinationId: best.governing[curve] };
+    }
+
+    return { isValid: true, cases, combinations, points, extremes };
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * ULS envelope of V and M over all applicable STANDARD_COMBINATIONS,
+ * loads grouped by their caseType (untagged loads are dead load, temperature thermal)
+ */
+export function calculateEnvelope(config: BeamConfig): EnvelopeResult {
+  const calculator = new EnvelopeCalculator(config);
+  return calculator.calculate();
+}
+
+/**
+ * Consecutive x ranges over which one combination governs a curve
+ */
+export function getGoverningRanges(points: EnvelopePoint[], curve: EnvelopeCurve): GoverningRange[] {
+  const ranges: GoverningRange[] = [];
+  for (const point of points) {
+    const combinationId = point.governing[curve];
+    const last = ranges[ranges.length - 1];
+    if (last) last.end = point.x;
+    if (!last || last.combinationId !== combinationId) {
+      ranges.push({ start: point.x, end: point.x, combinationId });
+    }
+  }
+
+  // Drop zero-width runs at jumps, then merge the neighbours they separated
+  const merged: GoverningRange[] = [];
+  for (const range of ranges.filter(r => r.end - r.start > 1e-9)) {
+    const last = merged[merged.length - 1];
+    if (last && last.combinationId === range.combinationId) last.end = range.end;
+    else merged.push({ ...range });
+  }
+  return merged;
+}
@@ -3,8 +3,21 @@
 // Creates Load objects from validated inputs
 // ============================================================================
 
-import { LoadType, type Load, type PointLoad, type UDLoad, type MomentLoad, type TriangularLoad } from './reactionCalculator';
-import type { LoadInputs } from './loadValidation';
+import {
+  LoadType,
+  type Load,
+  type PointLoad,
+  type UDLoad,
+  type MomentLoad,
+  type TriangularLoad,
+  type InclinedLoad,
+  type AxialLoad,
+  type LinearLoad,
+  type PolylineLoad,
+  type ThermalLoad,
+} from './reactionCalculator';
+import { parsePolylinePoints, type LoadInputs, type LoadInputExtras } from './loadValidation';
+import type { LoadCaseType } from './loadCombinations';
 
 // ============================================================================
 // LOAD LABELS (Turkish)
@@ -15,6 +28,11 @@ export const LOAD_TYPE_LABELS: Record<LoadType, string> = {
   [LoadType.UDL]: 'Yayılı Yük',
   [LoadType.MOMENT]: 'Moment',
   [LoadType.TRIANGULAR]: 'Üçgen Yük',
+  [LoadType.INCLINED]: 'Eğik Yük',
+  [LoadType.AXIAL]: 'Eksenel Yük',
+  [LoadType.LINEAR]: 'Trapez Yük',
+  [LoadType.POLYLINE]: 'Çokgen Yük',
+  [LoadType.THERMAL]: 'Sıcaklık Yükü',
 };
 
 export const LOAD_TYPE_SHORT_LABELS: Record<LoadType, string> = {
@@ -22,12 +40,21 @@ export const LOAD_TYPE_SHORT_LABELS: Record<LoadType, string> = {
   [LoadType.UDL]: 'w',
   [LoadType.MOMENT]: 'M',
   [LoadType.TRIANGULAR]: '△',
+  [LoadType.INCLINED]: '∠',
+  [LoadType.AXIAL]: 'N',
+  [LoadType.LINEAR]: '⊿',
+  [LoadType.POLYLINE]: '⋀',
+  [LoadType.THERMAL]: 'ΔT',
 };
 
 // ============================================================================
 // LOAD CREATION
 // ============================================================================
 
+// Linear and polyline intensities are entered downward-positive and may change
+// sign; `0 - q` keeps a zero intensity as +0
+const toDownward = (q: number): number => 0 - q;
+
 /**
  * Creates a Load object from type and validated inputs
  */
@@ -65,6 +92,47 @@ export function createLoad(type: LoadType, inputs: LoadInputs): Load {
         maxMagnitude: -Math.abs(magnitude), // Downward = negative
       } as TriangularLoad;
 
+    case LoadType.INCLINED:
+      return {
+        type: LoadType.INCLINED,
+        position: inputs.position ?? 0,
+        magnitude: Math.abs(magnitude), // Direction comes from the angle
+        angle: inputs.angle ?? -90,
+      } as InclinedLoad;
+
+    case LoadType.AXIAL:
+      return {
+        type: LoadType.AXIAL,
+        position: inputs.position ?? 0,
+        magnitude: magnitude, // Positive = right, negative = left
+      } as AxialLoad;
+
+    case LoadType.LINEAR:
+      return {
+        type: LoadType.LINEAR,
+        startPosition: inputs.startPosition ?? 0,
+        endPosition: inputs.endPosition ?? 0,
+        startMagnitude: toDownward(magnitude),
+        endMagnitude: toDownward(inputs.endMagnitude ?? magnitude),
+      } as LinearLoad;
+
+    case LoadType.POLYLINE:
+      return {
+        type: LoadType.POLYLINE,
+        points: [...(inputs.points ?? [])]
+          .sort((a, b) => a.position - b.position)
+          .map(p => ({ position: p.position, magnitude: toDownward(p.magnitude) })),
+      } as PolylineLoad;
+
+    case LoadType.THERMAL:
+      return {
+        type: LoadType.THERMAL,
+        startPosition: inputs.startPosition ?? 0,
+        endPosition: inputs.endPosition ?? 0,
+        topTemperature: inputs.topTemperature ?? 0,
+        bottomTemperature: inputs.bottomTemperature ?? 0,
+      } as ThermalLoad;
+
     default:
       throw new Error(`Unknown load type: ${type}`);
   }
@@ -80,12 +148,53 @@ export function createPreviewLoad(
   mag: string,
   start: string,
   end: string,
-  beamLength: number
+  beamLength: number,
+  extras: LoadInputExtras = {}
 ): Load | null {
   const position = parseFloat(pos.replace(',', '.'));
   const magnitude = parseFloat(mag.replace(',', '.'));
   const startPosition = parseFloat(start.replace(',', '.'));
   const endPosition = parseFloat(end.replace(',', '.'));
+  const angle = parseFloat((extras.angle ?? '-90').replace(',', '.'));
+
+  // Axial loads carry their direction in the sign
+  if (type === LoadType.AXIAL) {
+    if (isNaN(magnitude) || magnitude === 0) return null;
+    if (isNaN(position) || position < 0 || position > beamLength) return null;
+    return {
+      type: LoadType.AXIAL,
+      position,
+      magnitude,
+    } as AxialLoad;
+  }
+
+  // Linear and polyline intensities may be zero or change sign
+  if (type === LoadType.LINEAR) {
+    const endMagnitude = parseFloat((extras.endMagnitude ?? mag).replace(',', '.'));
+    if (isNaN(magnitude) || isNaN(endMagnitude)) return null;
+    if (magnitude === 0 && endMagnitude === 0) return null;
+    if (isNaN(startPosition) || isNaN(endPosition)) return null;
+    if (startPosition < 0 || endPosition > beamLength || startPosition >= endPosition) return null;
+    return createLoad(LoadType.LINEAR, { startPosition, endPosition, magnitude, endMagnitude });
+  }
+
+  if (type === LoadType.POLYLINE) {
+    const points = parsePolylinePoints(extras.points ?? '');
+    if (!points || points.length < 2) return null;
+    if (points.some(p => p.position < 0 || p.position > beamLength)) return null;
+    return createLoad(LoadType.POLYLINE, { points });
+  }
+
+  // Temperatures may be negative (cooling); magnitude is not used
+  if (type === LoadType.THERMAL) {
+    const topTemperature = parseFloat((extras.topTemperature ?? '0').replace(',', '.'));
+    const bottomTemperature = parseFloat((extras.bottomTemperature ?? '0').replace(',', '.'));
+    if (isNaN(topTemperature) || isNaN(bottomTemperature)) return null;
+    if (topTemperature === 0 && bottomTemperature === 0) return null;
+    if (isNaN(startPosition) || isNaN(endPosition)) return null;
+    if (startPosition < 0 || endPosition > beamLength || startPosition >= endPosition) return null;
+    return createLoad(LoadType.THERMAL, { startPosition, endPosition, topTemperature, bottomTemperature });
+  }
 
   if (isNaN(magnitude) || magnitude <= 0) return null;
 
@@ -126,6 +235,16 @@ export function createPreviewLoad(
         maxMagnitude: -Math.abs(magnitude),
       } as TriangularLoad;
 
+    case LoadType.INCLINED:
+      if (isNaN(position) || position < 0 || position > beamLength) return null;
+      if (isNaN(angle)) return null;
+      return {
+        type: LoadType.INCLINED,
+        position,
+        magnitude: Math.abs(magnitude),
+        angle,
+      } as InclinedLoad;
+
     default:
       return null;
   }
@@ -152,6 +271,25 @@ export function formatLoadDescription(load: Load): string {
     case LoadType.TRIANGULAR:
       return `Tri: w_max = ${Math.abs(load.maxMagnitude).toFixed(1)} kN/m [${load.startPosition.toFixed(1)}m - ${load.endPosition.toFixed(1)}m]`;
 
+    case LoadType.INCLINED:
+      return `P = ${load.magnitude.toFixed(1)} kN ∠${load.angle.toFixed(0)}° @ x = ${load.position.toFixed(2)}m`;
+
+    case LoadType.AXIAL:
+      return `N = ${Math.abs(load.magnitude).toFixed(1)} kN ${load.magnitude >= 0 ? '→' : '←'} @ x = ${load.position.toFixed(2)}m`;
+
+    case LoadType.LINEAR:
+      return `Lin: w = ${(-load.startMagnitude).toFixed(1)} → ${(-load.endMagnitude).toFixed(1)} kN/m [${load.startPosition.toFixed(1)}m - ${load.endPosition.toFixed(1)}m]`;
+
+    case LoadType.POLYLINE: {
+      const first = load.points[0];
+      const last = load.points[load.points.length - 1];
+      const peak = Math.max(...load.points.map(p => Math.abs(p.magnitude)));
+      return `Poly: ${load.points.length} nokta, w_max = ${peak.toFixed(1)} kN/m [${first.position.toFixed(1)}m - ${last.position.toFixed(1)}m]`;
+    }
+
+    case LoadType.THERMAL:
+      return `ΔT: üst ${load.topTemperature.toFixed(1)}°C / alt ${load.bottomTemperature.toFixed(1)}°C [${load.startPosition.toFixed(1)}m - ${load.endPosition.toFixed(1)}m]`;
+
     default:
       return 'Bilinmeyen yük';
   }
@@ -165,7 +303,7 @@ export function getLoadTypeLabel(type: LoadType): string {
 }
 
 /**
- * Gets the short label for UI (P, w, M, △)
+ * Gets the short label for UI (P, w, M, △, ∠, N, ⊿, ⋀, ΔT)
  */
 export function getLoadTypeShortLabel(type: LoadType): string {
   return LOAD_TYPE_SHORT_LABELS[type];
@@ -180,8 +318,19 @@ export const LOAD_TYPE_CONFIG = [
   { type: LoadType.UDL, label: 'Yayılı', short: 'w', icon: 'w' },
   { type: LoadType.MOMENT, label: 'Moment', short: 'M', icon: 'M' },
   { type: LoadType.TRIANGULAR, label: 'Üçgen', short: '△', icon: '△' },
+  { type: LoadType.INCLINED, label: 'Eğik', short: '∠', icon: '∠' },
+  { type: LoadType.AXIAL, label: 'Eksenel', short: 'N', icon: 'N' },
+  { type: LoadType.LINEAR, label: 'Trapez', short: '⊿', icon: '⊿' },
+  { type: LoadType.POLYLINE, label: 'Çokgen', short: '⋀', icon: '⋀' },
+  { type: LoadType.THERMAL, label: 'Sıcaklık', short: 'ΔT', icon: 'ΔT' },
 ] as const;
 
+// Quick angle values (° from +x axis, counterclockwise)
+export const QUICK_ANGLES = [-30, -45, -60, -90, -120, -135] as const;
+
+// Load cases a beam load can be tagged with (thermal enters no STANDARD_COMBINATIONS entry)
+export const LOAD_CASE_OPTIONS: LoadCaseType[] = ['dead', 'live', 'wind', 'snow', 'thermal'];
+
 // ============================================================================
 // PRESET QUICK VALUES
 // ============================================================================
@@ -3,8 +3,8 @@
 // Turkish number format support (comma/dot decimal separator)
 // ============================================================================
 
-import { LoadType, type Load } from './reactionCalculator';
-import { parseNumberSafe } from '../numberUtils';
+import { LoadType, type Load, type PolylineLoadPoint } from './reactionCalculator';
+import { parseNumberSafe, parseNumberStrict } from '../numberUtils';
 
 // ============================================================================
 // TYPES
@@ -21,10 +21,25 @@ export interface LoadInputs {
   magnitude?: number;
   startPosition?: number;
   endPosition?: number;
+  angle?: number; // Inclined loads (°)
+  endMagnitude?: number; // Linear loads, intensity at endPosition
+  points?: PolylineLoadPoint[]; // Polyline loads
+  topTemperature?: number; // Thermal loads (°C)
+  bottomTemperature?: number; // Thermal loads (°C)
+}
+
+// Raw text of the inputs that only some load types use
+export interface LoadInputExtras {
+  angle?: string; // Inclined loads, default -90
+  endMagnitude?: string; // Linear loads
+  points?: string; // Polyline loads, "x:q; x:q; ..."
+  topTemperature?: string; // Thermal loads
+  bottomTemperature?: string; // Thermal loads
 }
 
 export interface LoadValidationResult extends ValidationResult {
   load?: Load;
+  inputs?: LoadInputs; // Parsed values of a valid input, ready for createLoad
 }
 
 // ============================================================================
@@ -36,7 +51,7 @@ export function validateLoadPosition(
   beamLength: number,
   fieldName: string = 'Pozisyon'
 ): ValidationResult {
-  const value = parseNumberSafe(pos);
+  const value = parseNumberStrict(pos);
 
   if (isNaN(value)) {
     return { isValid: false, error: `${fieldName} geçerli bir sayı olmalıdır` };
@@ -58,8 +73,8 @@ export function validateLoadRange(
   end: string,
   beamLength: number
 ): ValidationResult & { startValue?: number; endValue?: number } {
-  const startValue = parseNumberSafe(start);
-  const endValue = parseNumberSafe(end);
+  const startValue = parseNumberStrict(start);
+  const endValue = parseNumberStrict(end);
 
   if (isNaN(startValue) || isNaN(endValue)) {
     return { isValid: false, error: 'Başlangıç ve bitiş geçerli sayılar olmalıdır' };
@@ -87,7 +102,7 @@ export function validateLoadMagnitude(
   mag: string,
   fieldName: string = 'Büyüklük'
 ): ValidationResult {
-  const value = parseNumberSafe(mag);
+  const value = parseNumberStrict(mag);
 
   if (isNaN(value)) {
     return { isValid: false, error: `${fieldName} geçerli bir sayı olmalıdır` };
@@ -100,6 +115,125 @@ export function validateLoadMagnitude(
   return { isValid: true, value };
 }
 
+// Axial loads: sign gives the direction, only zero is rejected
+export function validateSignedMagnitude(
+  mag: string,
+  fieldName: string = 'Büyüklük'
+): ValidationResult {
+  const value = parseNumberStrict(mag);
+
+  if (isNaN(value)) {
+    return { isValid: false, error: `${fieldName} geçerli bir sayı olmalıdır` };
+  }
+
+  if (value === 0) {
+    return { isValid: false, error: `${fieldName} sıfır olamaz` };
+  }
+
+  return { isValid: true, value };
+}
+
+// ============================================================================
+// ANGLE VALIDATION
+// ============================================================================
+
+export function validateLoadAngle(angle: string): ValidationResult {
+  const value = parseNumberStrict(angle);
+
+  if (isNaN(value)) {
+    return { isValid: false, error: 'Açı geçerli bir sayı olmalıdır' };
+  }
+
+  if (value < -360 || value > 360) {
+    return { isValid: false, error: 'Açı -360° ile 360° arasında olmalıdır' };
+  }
+
+  return { isValid: true, value };
+}
+
+// ============================================================================
+// TEMPERATURE VALIDATION
+// ============================================================================
+
+// Temperature change relative to erection (°C); cooling is negative
+export function validateTemperature(
+  temp: string,
+  fieldName: string = 'Sıcaklık'
+): ValidationResult {
+  const value = parseNumberStrict(temp);
+
+  if (isNaN(value)) {
+    return { isValid: false, error: `${fieldName} geçerli bir sayı olmalıdır` };
+  }
+
+  if (Math.abs(value) > 200) {
+    return { isValid: false, error: `${fieldName} -200°C ile 200°C arasında olmalıdır` };
+  }
+
+  return { isValid: true, value };
+}
+
+// ============================================================================
+// POLYLINE VALIDATION
+// ============================================================================
+
+/**
+ * Parses "x:q; x:q; ..." into vertices. Commas stay decimal separators,
+ * so vertices are split by ';' or new lines only. Returns null on bad syntax.
+ */
+export function parsePolylinePoints(text: string): PolylineLoadPoint[] | null {
+  const parts = text.split(/[;\n]+/).map(p => p.trim()).filter(p => p.length > 0);
+  const points: PolylineLoadPoint[] = [];
+
+  for (const part of parts) {
+    const [x, q, ...rest] = part.split(':');
+    if (x === undefined || q === undefined || rest.length > 0) return null;
+    const position = parseNumberStrict(x);
+    const magnitude = parseNumberStrict(q);
+    if (isNaN(position) || isNaN(magnitude)) return null;
+    points.push({ position, magnitude });
+  }
+
+  return points;
+}
+
+export function validatePolylinePoints(
+  text: string,
+  beamLength: number
+): ValidationResult & { points?: PolylineLoadPoint[] } {
+  const points = parsePolylinePoints(text);
+
+  if (!points) {
+    return { isValid: false, error: 'Noktalar "x:q; x:q" biçiminde olmalıdır' };
+  }
+
+  if (points.length < 2) {
+    return { isValid: false, error: 'En az iki nokta gereklidir' };
+  }
+
+  for (let i = 0; i < points.length; i++) {
+    if (points[i].position < 0 || points[i].position > beamLength) {
+      return {
+        isValid: false,
+        error: `Noktalar 0 ile ${beamLength.toFixed(1)}m arasında olmalıdır`,
+      };
+    }
+    if (i > 0 && points[i].position < points[i - 1].position) {
+      return { isValid: false, error: 'Noktalar artan konum sırasında olmalıdır' };
+    }
+  }
+
+  if (points[points.length - 1].position - points[0].position <= 0) {
+    return { isValid: false, error: 'Yük uzunluğu sıfırdan büyük olmalıdır' };
+  }
+
+  if (points.every(p => p.magnitude === 0)) {
+    return { isValid: false, error: 'En az bir şiddet sıfırdan farklı olmalıdır' };
+  }
+
+  return { isValid: true, points };
+}
+
 // ============================================================================
 // LOAD INPUT PARSER
 // ============================================================================
@@ -108,13 +242,15 @@ export function parseLoadInputs(
   pos: string,
   mag: string,
   start?: string,
-  end?: string
+  end?: string,
+  angle?: string
 ): LoadInputs {
   return {
     position: parseNumberSafe(pos),
     magnitude: parseNumberSafe(mag),
     startPosition: start ? parseNumberSafe(start) : undefined,
     endPosition: end ? parseNumberSafe(end) : undefined,
+    angle: angle ? parseNumberSafe(angle) : undefined,
   };
 }
 
@@ -128,7 +264,8 @@ export function validateLoadInputs(
   mag: string,
   start: string,
   end: string,
-  beamLength: number
+  beamLength: number,
+  extras: LoadInputExtras = {}
 ): LoadValidationResult {
   switch (loadType) {
     case LoadType.POINT:
@@ -143,7 +280,7 @@ export function validateLoadInputs(
         return magResult;
       }
 
-      return { isValid: true };
+      return { isValid: true, inputs: { position: posResult.value, magnitude: magResult.value } };
     }
 
     case LoadType.UDL:
@@ -158,7 +295,122 @@ export function validateLoadInputs(
         return magResult;
       }
 
-      return { isValid: true };
+      return {
+        isValid: true,
+        inputs: {
+          startPosition: rangeResult.startValue,
+          endPosition: rangeResult.endValue,
+          magnitude: magResult.value,
+        },
+      };
+    }
+
+    case LoadType.INCLINED: {
+      const posResult = validateLoadPosition(pos, beamLength);
+      if (!posResult.isValid) {
+        return posResult;
+      }
+
+      const magResult = validateLoadMagnitude(mag);
+      if (!magResult.isValid) {
+        return magResult;
+      }
+
+      const angleResult = validateLoadAngle(extras.angle ?? '-90');
+      if (!angleResult.isValid) {
+        return angleResult;
+      }
+
+      return {
+        isValid: true,
+        inputs: { position: posResult.value, magnitude: magResult.value, angle: angleResult.value },
+      };
+    }
+
+    case LoadType.AXIAL: {
+      const posResult = validateLoadPosition(pos, beamLength);
+      if (!posResult.isValid) {
+        return posResult;
+      }
+
+      const magResult = validateSignedMagnitude(mag);
+      if (!magResult.isValid) {
+        return magResult;
+      }
+
+      return { isValid: true, inputs: { position: posResult.value, magnitude: magResult.value } };
+    }
+
+    case LoadType.LINEAR: {
+      const rangeResult = validateLoadRange(start, end, beamLength);
+      if (!rangeResult.isValid) {
+        return rangeResult;
+      }
+
+      // Either end may be zero (triangle) or negative (upward)
+      const startQ = parseNumberStrict(mag);
+      if (isNaN(startQ)) {
+        return { isValid: false, error: 'Başlangıç şiddeti geçerli bir sayı olmalıdır' };
+      }
+
+      const endQ = parseNumberStrict(extras.endMagnitude ?? mag);
+      if (isNaN(endQ)) {
+        return { isValid: false, error: 'Bitiş şiddeti geçerli bir sayı olmalıdır' };
+      }
+
+      if (startQ === 0 && endQ === 0) {
+        return { isValid: false, error: 'En az bir şiddet sıfırdan farklı olmalıdır' };
+      }
+
+      return {
+        isValid: true,
+        inputs: {
+          startPosition: rangeResult.startValue,
+          endPosition: rangeResult.endValue,
+          magnitude: startQ,
+          endMagnitude: endQ,
+        },
+      };
+    }
+
+    case LoadType.POLYLINE: {
+      const pointsResult = validatePolylinePoints(extras.points ?? '', beamLength);
+      if (!pointsResult.isValid) {
+        return pointsResult;
+      }
+
+      return { isValid: true, inputs: { points: pointsResult.points } };
+    }
+
+    case LoadType.THERMAL: {
+      const rangeResult = validateLoadRange(start, end, beamLength);
+      if (!rangeResult.isValid) {
+        return rangeResult;
+      }
+
+      const topResult = validateTemperature(extras.topTemperature ?? '0', 'Üst sıcaklık');
+      if (!topResult.isValid) {
+        return topResult;
+      }
+
+      const bottomResult = validateTemperature(extras.bottomTemperature ?? '0', 'Alt sıcaklık');
+      if (!bottomResult.isValid) {
+        return bottomResult;
+      }
+
+      if (topResult.value === 0 && bottomResult.value === 0) {
+        return { isValid: false, error: ErrorMessages.TEMPERATURE_ZERO };
+      }
+
+      return {
+        isValid: true,
+        inputs: {
+          startPosition: rangeResult.startValue,
+          endPosition: rangeResult.endValue,
+          topTemperature: topResult.value,
+          bottomTemperature: bottomResult.value,
+        },
+      };
     }
 
     default:
@@ -179,5 +431,8 @@ export const ErrorMessages = {
   RANGE_INVALID: (beamLength: number) =>
     `Başlangıç ve bitiş 0 ile ${beamLength.toFixed(1)}m arasında olmalıdır`,
   RANGE_ORDER: 'Başlangıç pozisyonu bitiş pozisyonundan küçük olmalıdır',
+  ANGLE_INVALID: 'Açı -360° ile 360° arasında olmalıdır',
+  MAGNITUDE_ZERO: 'Büyüklük sıfır olamaz',
+  TEMPERATURE_ZERO: 'En az bir sıcaklık değişimi sıfırdan farklı olmalıdır',
   INPUT_NAN: 'Geçerli bir sayı giriniz',
 } as const;
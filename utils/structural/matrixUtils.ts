@@ -0,0 +1,119 @@
+// ============================================================================
+// STRUCTURAL ENGINEERING: DENSE MATRIX HELPERS
+// Shared linear algebra for the stiffness-method solvers
+// ============================================================================
+
+export type Matrix = number[][];
+
+/**
+ * Create a rows × cols matrix filled with zeros
+ */
+export function createMatrix(rows: number, cols: number = rows): Matrix {
+  return Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+}
+
+/**
+ * Extract the sub-matrix for the given row and column indices
+ */
+export function subMatrix(matrix: Matrix, rows: number[], cols: number[] = rows): Matrix {
+  return rows.map(r => cols.map(c => matrix[r][c]));
+}
+
+/**
+ * Solve A·x = b with Gaussian elimination and partial pivoting.
+ * Returns null when the matrix is singular (mechanism in a stiffness system).
+ */
+export function solveLinearSystem(A: Matrix, b: number[]): number[] | null {
+  const n = b.length;
+  if (n === 0) return [];
+
+  // Work on copies, the stiffness matrices are reused by the callers
+  const a = A.map(row => [...row]);
+  const x = [...b];
+
+  // Singularity tolerance relative to the stiffest diagonal term
+  let scale = 0;
+  for (let i = 0; i < n; i++) {
+    scale = Math.max(scale, Math.abs(a[i][i]));
+  }
+  const tolerance = (scale || 1) * 1e-10;
+
+  for (let col = 0; col < n; col++) {
+    let pivotRow = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivotRow][col])) {
+        pivotRow = row;
+      }
+    }
+
+    if (Math.abs(a[pivotRow][col]) < tolerance) {
+      return null;
+    }
+
+    if (pivotRow !== col) {
+      [a[col], a[pivotRow]] = [a[pivotRow], a[col]];
+      [x[col], x[pivotRow]] = [x[pivotRow], x[col]];
+    }
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+      x[row] -= factor * x[col];
+    }
+  }
+
+  // Back substitution
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = x[row];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+
+  return x;
+}
+
+/**
+ * Indices of the columns that get no pivot in Gaussian elimination, i.e. the
+ * DOFs left free by a singular stiffness matrix. Empty for a regular matrix.
+ */
+export function findSingularColumns(A: Matrix): number[] {
+  const n = A.length;
+  const a = A.map(row => [...row]);
+
+  let scale = 0;
+  for (let i = 0; i < n; i++) {
+    scale = Math.max(scale, Math.abs(a[i][i]));
+  }
+  const tolerance = (scale || 1) * 1e-10;
+
+  const singular: number[] = [];
+  let pivotRow = 0;
+  for (let col = 0; col < n; col++) {
+    let best = pivotRow;
+    for (let row = pivotRow + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[best][col])) best = row;
+    }
+
+    if (Math.abs(a[best][col]) < tolerance) {
+      singular.push(col);
+      continue;
+    }
+
+    [a[pivotRow], a[best]] = [a[best], a[pivotRow]];
+    for (let row = pivotRow + 1; row < n; row++) {
+      const factor = a[row][col] / a[pivotRow][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) {
+        a[row][k] -= factor * a[pivotRow][k];
+      }
+    }
+    pivotRow++;
+  }
+
+  return singular;
+}
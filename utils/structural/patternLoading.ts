@@ -0,0 +1,275 @@
+// ============================================================================
+// PATTERN LOADING - Damalı (Satranç Tahtası) Hareketli Yük Düzenleri
+// Critical live load arrangements for continuous beams
+// ============================================================================
+
+import {
+  calculateReactions,
+  evaluateSegments,
+  getDistributedLoadPieces,
+  getLoadCaseType,
+  isConcentratedLoad,
+  LoadType,
+  type AnalysisResults,
+  type BeamConfig,
+  type Load,
+} from './reactionCalculator';
+import { getLoadTypeSymbol, type LoadCombination } from './loadCombinations';
+import { scaleLoad } from './beamDesign';
+import { getSupportLetter } from './solutionSteps';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Part of the beam loaded or unloaded as a whole: a span or an overhang
+export interface LoadRegion {
+  index: number;
+  start: number; // m
+  end: number; // m
+  label: string;
+  shortLabel: string; // Span number, or the overhang side
+  isOverhang: boolean;
+}
+
+export interface PatternArrangement {
+  loadedRegions: number[]; // LoadRegion indices carrying the live load
+  label: string; // Loaded regions, e.g. "1, 3"
+}
+
+export interface CriticalMoment {
+  label: string;
+  position: number; // m
+  value: number; // kNm, sagging positive
+  arrangement: PatternArrangement;
+}
+
+export interface SupportCriticalMoment extends CriticalMoment {
+  supportIndex: number; // Index in config.supports
+}
+
+export interface PatternLoadingResult {
+  isValid: boolean;
+  errorMessage?: string;
+  regions: LoadRegion[];
+  arrangements: PatternArrangement[]; // Unique critical arrangements, each solved once
+  spanMoments: CriticalMoment[]; // Largest sagging moment of every span
+  supportMoments: SupportCriticalMoment[]; // Largest hogging moment of every support that carries one
+}
+
+export interface PatternLoadingOptions {
+  combination?: LoadCombination; // Case factors - characteristic values when unset
+}
+
+// ============================================================================
+// PATTERN LOADING ENGINE
+// ============================================================================
+
+class PatternLoadingCalculator {
+  private config: BeamConfig;
+  private options: PatternLoadingOptions;
+  private readonly EPSILON = 1e-9;
+
+  constructor(config: BeamConfig, options: PatternLoadingOptions) {
+    this.config = config;
+    this.options = options;
+  }
+
+  private invalid(errorMessage: string): PatternLoadingResult {
+    return { isValid: false, errorMessage, regions: [], arrangements: [], spanMoments: [], supportMoments: [] };
+  }
+
+  private factorOf(load: Load): number {
+    const { combination } = this.options;
+    if (!combination) return 1;
+    return combination.loads[getLoadTypeSymbol(getLoadCaseType(load))] ?? 0;
+  }
+
+  /**
+   * Spans between consecutive supports, plus an overhang at either free end
+   */
+  private getRegions(): LoadRegion[] {
+    const { length } = this.config;
+    const positions = [...new Set(this.config.supports.map(s => s.position))].sort((a, b) => a - b);
+    const regions: LoadRegion[] = [];
+    const push = (start: number, end: number, label: string, shortLabel: string, isOverhang: boolean) =>
+      regions.push({ index: regions.length, start, end, label, shortLabel, isOverhang });
+
+    if (positions[0] > this.EPSILON) push(0, positions[0], 'Sol Konsol', 'SolK', true);
+    for (let i = 0; i < positions.length - 1; i++) {
+      push(positions[i], positions[i + 1], `Açıklık ${i + 1}`, `${i + 1}`, false);
+    }
+    if (positions[positions.length - 1] < length - this.EPSILON) {
+      push(positions[positions.length - 1], length, 'Sağ Konsol', 'SağK', true);
+    }
+    return regions;
+  }
+
+  /**
+   * Part of a live load acting on one region; distributed loads are cut into
+   * linear pieces, concentrated loads belong to the region they start in
+   */
+  private clipLoad(load: Load, region: LoadRegion, isLast: boolean): Load[] {
+    const { start, end } = region;
+    if (isConcentratedLoad(load)) {
+      const inside = load.position >= start - this.EPSILON && load.position < end - this.EPSILON;
+      const atEnd = isLast && Math.abs(load.position - end) < this.EPSILON;
+      return inside || atEnd ? [load] : [];
+    }
+    if (load.type === LoadType.THERMAL) {
+      const a = Math.max(start, load.startPosition);
+      const b = Math.min(end, load.endPosition);
+      return b - a > this.EPSILON ? [{ ...load, startPosition: a, endPosition: b }] : [];
+    }
+
+    const clipped: Load[] = [];
+    for (const piece of getDistributedLoadPieces(load)) {
+      const a = Math.max(start, piece.start);
+      const b = Math.min(end, piece.end);
+      if (b - a <= this.EPSILON) continue;
+      const q = (x: number) =>
+        piece.qStart + ((piece.qEnd - piece.qStart) * (x - piece.start)) / (piece.end - piece.start);
+      clipped.push({
+        type: LoadType.LINEAR,
+        startPosition: a,
+        endPosition: b,
+        startMagnitude: q(a),
+        endMagnitude: q(b),
+        caseType: load.caseType,
+      });
+    }
+    return clipped;
+  }
+
+  // Support movements belong to the permanent state, not to a region's live load
+  private solve(loads: Load[], withMovements = true): AnalysisResults {
+    const supports = withMovements
+      ? this.config.supports
+      : this.config.supports.map(s => ({ type: s.type, position: s.position }));
+    return calculateReactions({ ...this.config, supports, loads });
+  }
+
+  /**
+   * Largest sagging moment inside [start, end] from the exact polynomials
+   */
+  private maxMomentIn(results: AnalysisResults, start: number, end: number): { value: number; position: number } {
+    const candidates = [start, end, ...results.zeroShearPoints.filter(x => x > start && x < end)];
+    for (const segment of results.segments) {
+      if (segment.start > start && segment.start < end) candidates.push(segment.start);
+    }
+
+    let best = { value: -Infinity, position: start };
+    for (const x of candidates) {
+      for (const side of [-1, 1] as const) {
+        if ((x === start && side < 0) || (x === end && side > 0)) continue;
+        const value = evaluateSegments(results.segments, 'moment', x, side);
+        if (value > best.value) best = { value, position: x };
+      }
+    }
+    return best;
+  }
+
+  private arrangementOf(loadedRegions: number[], regions: LoadRegion[]): PatternArrangement {
+    const label = loadedRegions.length ? loadedRegions.map(i => regions[i].shortLabel).join(', ') : 'Yüksüz';
+    return { loadedRegions, label };
+  }
+
+  calculate(): PatternLoadingResult {
+    const { supports, loads } = this.config;
+    if (new Set(supports.map(s => s.position)).size < 2) {
+      return this.invalid('Desen yüklemesi için en az iki mesnet gerekli');
+    }
+
+    const liveLoads = loads.filter(l => getLoadCaseType(l) === 'live');
+    if (liveLoads.length === 0) return this.invalid('Hareketli yük (Q) tanımlı değil');
+
+    const permanent = loads
+      .filter(l => getLoadCaseType(l) !== 'live')
+      .map(l => scaleLoad(l, this.factorOf(l)));
+    const regions = this.getRegions();
+    const regionLoads = regions.map((region, i) =>
+      liveLoads
+        .flatMap(l => this.clipLoad(l, region, i === regions.length - 1))
+        .map(l => scaleLoad(l, this.factorOf(l)))
+    );
+
+    // Live load of each region alone; its sign at a section decides whether the region is loaded
+    const unitResults: AnalysisResults[] = [];
+    for (const partLoads of regionLoads) {
+      const result = this.solve(partLoads, false);
+      if (!result.isValid) return this.invalid(result.errorMessage ?? 'Hesaplama başarısız');
+      unitResults.push(result);
+    }
+    const contributions = (x: number) =>
+      unitResults.map(result => evaluateSegments(result.segments, 'moment', x));
+    const regionsWhere = (x: number, sign: 1 | -1) =>
+      contributions(x)
+        .map((m, i) => (m * sign > this.EPSILON ? i : -1))
+        .filter(i => i >= 0);
+
+    // Critical arrangement of every target, solved once per unique arrangement
+    const solved = new Map<string, { arrangement: PatternArrangement; results: AnalysisResults }>();
+    const solveArrangement = (loaded: number[]) => {
+      const key = loaded.join(',');
+      let entry = solved.get(key);
+      if (!entry) {
+        const results = this.solve([...permanent, ...loaded.flatMap(i => regionLoads[i])]);
+        entry = { arrangement: this.arrangementOf(loaded, regions), results };
+        solved.set(key, entry);
+      }
+      return entry;
+    };
+
+    const spanMoments: CriticalMoment[] = [];
+    for (const region of regions.filter(r => !r.isOverhang)) {
+      const { arrangement, results } = solveArrangement(regionsWhere((region.start + region.end) / 2, 1));
+      if (!results.isValid) return this.invalid(results.errorMessage ?? 'Hesaplama başarısız');
+      const { value, position } = this.maxMomentIn(results, region.start, region.end);
+      spanMoments.push({ label: region.label, position, value, arrangement });
+    }
+
+    const supportMoments: SupportCriticalMoment[] = [];
+    supports.forEach((support, supportIndex) => {
+      const { position } = support;
+      const loaded = regionsWhere(position, -1);
+      if (loaded.length === 0) return; // Pinned ends carry no hogging moment
+      const { arrangement, results } = solveArrangement(loaded);
+      if (!results.isValid) return;
+      const value = Math.min(
+        evaluateSegments(results.segments, 'moment', position, -1),
+        evaluateSegments(results.segments, 'moment', position, 1)
+      );
+      supportMoments.push({
+        label: `Mesnet ${getSupportLetter(supportIndex)}`,
+        supportIndex,
+        position,
+        value,
+        arrangement,
+      });
+    });
+
+    return {
+      isValid: true,
+      regions,
+      arrangements: [...solved.values()].map(e => e.arrangement),
+      spanMoments,
+      supportMoments,
+    };
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Critical live load (caseType 'live') arrangements of a multi-support beam.
+ * Other loads act everywhere; with a combination every case gets its factor.
+ */
+export function calculatePatternLoading(
+  config: BeamConfig,
+  options: PatternLoadingOptions = {}
+): PatternLoadingResult {
+  const calculator = new PatternLoadingCalculator(config, options);
+  return calculator.calculate();
+}
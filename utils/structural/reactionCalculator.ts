@@ -3,10 +3,15 @@
 // Full physics engine with compatibility equations for indeterminate structures
 // ============================================================================
 
+import { createMatrix, solveLinearSystem, subMatrix } from './matrixUtils';
+import { getMaterialByGrade, type Material } from './materialDatabase';
+import type { LoadCaseType } from './loadCombinations';
+
 export enum SupportType {
   FIXED = 'FIXED',
   PINNED = 'PINNED',
   ROLLER = 'ROLLER',
+  GUIDED = 'GUIDED', // Vertical slider: restrains rotation and horizontal movement
   FREE = 'FREE',
 }
 
@@ -15,49 +20,162 @@ export enum LoadType {
   UDL = 'UDL',
   MOMENT = 'MOMENT',
   TRIANGULAR = 'TRIANGULAR',
+  INCLINED = 'INCLINED',
+  AXIAL = 'AXIAL',
+  LINEAR = 'LINEAR',
+  POLYLINE = 'POLYLINE',
+  THERMAL = 'THERMAL',
+}
+
+// Load case for the TS 498 combinations - undefined = dead load (G)
+interface LoadCaseTag {
+  caseType?: LoadCaseType;
 }
 
-export interface PointLoad {
+export interface PointLoad extends LoadCaseTag {
   type: LoadType.POINT;
   position: number; // Distance from left end (m)
   magnitude: number; // Force (kN) - negative = downward
 }
 
-export interface UDLoad {
+export interface UDLoad extends LoadCaseTag {
   type: LoadType.UDL;
   startPosition: number; // Start distance from left end (m)
   endPosition: number; // End distance from left end (m)
   magnitude: number; // Load intensity (kN/m) - negative = downward
 }
 
-export interface MomentLoad {
+export interface MomentLoad extends LoadCaseTag {
   type: LoadType.MOMENT;
   position: number; // Distance from left end (m)
   magnitude: number; // Moment (kNm) - positive = clockwise
 }
 
-export interface TriangularLoad {
+export interface TriangularLoad extends LoadCaseTag {
   type: LoadType.TRIANGULAR;
   startPosition: number; // Start distance from left end (m)
   endPosition: number; // End distance from left end (m)
   maxMagnitude: number; // Peak load (kN/m) at endPosition - negative = downward
 }
 
-export type Load = PointLoad | UDLoad | MomentLoad | TriangularLoad;
+export interface InclinedLoad extends LoadCaseTag {
+  type: LoadType.INCLINED;
+  position: number; // Distance from left end (m)
+  magnitude: number; // Resultant force (kN), always positive
+  angle: number; // Direction (°) from +x axis, counterclockwise - e.g. -90 = downward
+}
+
+export interface AxialLoad extends LoadCaseTag {
+  type: LoadType.AXIAL;
+  position: number; // Distance from left end (m)
+  magnitude: number; // Force along the beam axis (kN) - positive = right
+}
+
+// Trapezoidal load: linear between the two end intensities (either may be zero)
+export interface LinearLoad extends LoadCaseTag {
+  type: LoadType.LINEAR;
+  startPosition: number; // Start distance from left end (m)
+  endPosition: number; // End distance from left end (m)
+  startMagnitude: number; // Intensity at startPosition (kN/m) - negative = downward
+  endMagnitude: number; // Intensity at endPosition (kN/m) - negative = downward
+}
+
+export interface PolylineLoadPoint {
+  position: number; // Distance from left end (m)
+  magnitude: number; // Intensity (kN/m) - negative = downward
+}
+
+// User-defined profile, linear between consecutive vertices
+export interface PolylineLoad extends LoadCaseTag {
+  type: LoadType.POLYLINE;
+  points: PolylineLoadPoint[]; // Sorted by position, at least two
+}
+
+// Temperature change through the depth: the mean gives axial strain,
+// the top/bottom difference gives curvature (bottom hotter -> sagging shape)
+export interface ThermalLoad extends LoadCaseTag {
+  type: LoadType.THERMAL;
+  startPosition: number; // Start distance from left end (m)
+  endPosition: number; // End distance from left end (m)
+  topTemperature: number; // ΔT at the top fibre (°C)
+  bottomTemperature: number; // ΔT at the bottom fibre (°C)
+}
+
+export type Load =
+  | PointLoad
+  | UDLoad
+  | MomentLoad
+  | TriangularLoad
+  | InclinedLoad
+  | AxialLoad
+  | LinearLoad
+  | PolylineLoad
+  | ThermalLoad;
+
+// Loads acting at a single point of the beam
+export type ConcentratedLoad = PointLoad | MomentLoad | InclinedLoad | AxialLoad;
+
+export function isConcentratedLoad(load: Load): load is ConcentratedLoad {
+  return 'position' in load;
+}
+
+/**
+ * Loaded region of any load; concentrated loads have start = end
+ */
+export function getLoadExtent(load: Load): { start: number; end: number } {
+  if (isConcentratedLoad(load)) {
+    return { start: load.position, end: load.position };
+  }
+  if (load.type === LoadType.POLYLINE) {
+    const positions = load.points.map(p => p.position);
+    return { start: Math.min(...positions), end: Math.max(...positions) };
+  }
+  return { start: load.startPosition, end: load.endPosition };
+}
+
+/**
+ * Load case a new load of this type starts in: temperature stays out of the
+ * TS 498 combinations until it is tagged otherwise, everything else is dead load
+ */
+export function getDefaultLoadCaseType(type: LoadType): LoadCaseType {
+  return type === LoadType.THERMAL ? 'thermal' : 'dead';
+}
+
+export function getLoadCaseType(load: Load): LoadCaseType {
+  return load.caseType ?? getDefaultLoadCaseType(load.type);
+}
+
+/**
+ * Resolve an inclined load into horizontal (+right) and vertical (+up) components
+ */
+export function resolveInclinedLoad(load: InclinedLoad): { fx: number; fy: number } {
+  const angle = (load.angle * Math.PI) / 180;
+  return {
+    fx: load.magnitude * Math.cos(angle),
+    fy: load.magnitude * Math.sin(angle),
+  };
+}
 
 export interface Support {
   type: SupportType;
   position: number; // Distance from left end (m)
+  // Prescribed movements, applied only in restrained directions
+  displacement?: number; // Vertical (mm), positive = up - settlement is negative
+  rotation?: number; // rad, counterclockwise positive - FIXED and GUIDED only
 }
 
 export interface BeamConfig {
   length: number;
   supports: Support[];
   loads: Load[];
+  hinges?: number[]; // Internal hinge positions (m) - M = 0 condition
   // Optional beam section properties for stress calculation
   elasticModulus?: number; // E (MPa) - default: 200 GPa for steel
   sectionModulus?: number; // S (cm³) - default: typical I-beam
   momentOfInertia?: number; // I (cm⁴) - default: typical I-beam
+  area?: number; // A (cm²) - axial stiffness, default: typical I-beam
+  sectionDepth?: number; // h (mm) - lever arm for thermal gradients
+  materialGrade?: string; // materialDatabase grade - supplies α, and E when elasticModulus is unset
 }
 
 export interface ReactionForce {
@@ -66,29 +184,109 @@ export interface ReactionForce {
   moment: number; // kNm, positive = counterclockwise
 }
 
+export interface NodalDisplacement {
+  x: number; // Node position (m)
+  deflection: number; // mm, positive = up
+  rotation: number; // rad, positive = counterclockwise
+  rotationRight?: number; // rad, right side of an internal hinge
+  horizontal?: number; // mm, axial displacement, positive = right
+}
+
+export interface DeterminacyInfo {
+  unknowns: number; // Reaction components
+  equations: number; // 3 equilibrium + 1 per internal hinge
+  degree: number; // unknowns - equations (> 0 = indeterminate)
+}
+
 export interface ReactionResults {
   reactions: Map<number, ReactionForce>;
   isValid: boolean;
   errorMessage?: string;
+  // Stiffness solution at the analysis nodes (supports, load points, ends)
+  nodalDisplacements?: NodalDisplacement[];
+  determinacy?: DeterminacyInfo;
 }
 
 export interface InternalForcesPoint {
   x: number;
   shear: number;
   moment: number;
+  normal: number; // kN, positive = tension
+}
+
+// Statically equivalent action of one load
+export interface LoadResultant {
+  force: number; // kN, positive = up
+  position: number; // Line of action (m)
+  moment?: number; // kNm, clockwise positive - self-balancing profiles and moment loads
+  horizontal?: number; // kN, positive = right
+}
+
+// Reactions and internal forces at a single section (no diagrams)
+export interface SectionForces {
+  reactions: Map<number, ReactionForce>;
+  shear: number;
+  moment: number;
+  normal: number;
+}
+
+export interface DeflectionPoint {
+  x: number;
+  deflection: number; // mm, positive = up
+  slope: number; // rad, positive = counterclockwise
+}
+
+export interface ServiceabilityCheck {
+  label: string; // e.g. 'L/300'
+  divisor: number;
+  allowable: number; // mm
+  passed: boolean;
+}
+
+export interface ServiceabilityResult {
+  referenceLength: number; // Governing span (m), 2× length for overhangs
+  deflection: number; // mm
+  position: number; // m
+  spanRatio: number; // L/δ
+  checks: ServiceabilityCheck[];
+}
+
+/**
+ * Exact polynomials of one segment between analysis nodes, in the global x (m).
+ * coefficients[i] multiplies xⁱ
+ */
+export interface BeamSegment {
+  start: number; // m
+  end: number; // m
+  shear: number[]; // kN, degree ≤ 2
+  moment: number[]; // kNm, degree ≤ 3
+  deflection: number[]; // mm, degree ≤ 5 - empty without a stiffness solution
 }
 
 export interface AnalysisResults extends ReactionResults {
+  segments: BeamSegment[];
+  zeroShearPoints: number[]; // m, sections where V changes sign inside a segment
   shearDiagram: InternalForcesPoint[];
   momentDiagram: InternalForcesPoint[];
+  normalDiagram: InternalForcesPoint[];
+  deflectionDiagram: DeflectionPoint[];
+  slopeDiagram: DeflectionPoint[];
   maxShear: { value: number; position: number };
   maxMoment: { value: number; position: number };
   minMoment: { value: number; position: number };
+  maxNormal: { value: number; position: number };
+  maxDeflection: { value: number; position: number };
+  minDeflection: { value: number; position: number };
+  maxSlope: { value: number; position: number };
   // Engineering properties
   maxStress?: { value: number; position: number; unit: string };
   deflection?: { value: number; position: number; unit: string };
+  serviceability?: ServiceabilityResult;
 }
 
+// Deflection limits δ ≤ L/n checked for every span
+export const SERVICEABILITY_LIMITS = [250, 300, 500];
+
 // ============================================================================
 // BEAM TYPE SYSTEM
 // ============================================================================
@@ -158,6 +356,35 @@ export const BEAM_TYPES: BeamType[] = [
       loads: [],
     }),
   },
+  {
+    id: 'gerber',
+    name: 'Gerber Kiriş',
+    icon: '▬∘○',
+    description: 'Ankastre + iç mafsal + hareketli',
+    defaultConfig: (length = 8) => ({
+      length,
+      supports: [
+        { type: SupportType.FIXED, position: 0 },
+        { type: SupportType.ROLLER, position: length },
+      ],
+      hinges: [length / 2],
+      loads: [],
+    }),
+  },
+  {
+    id: 'guided',
+    name: 'Kayıcı Mesnet',
+    icon: '○─╪',
+    description: 'Hareketli + kayıcı (dönmesi tutulu)',
+    defaultConfig: (length = 6) => ({
+      length,
+      supports: [
+        { type: SupportType.ROLLER, position: 0 },
+        { type: SupportType.GUIDED, position: length },
+      ],
+      loads: [],
+    }),
+  },
 ];
 
 export function getBeamTypeById(id: string): BeamType | undefined {
@@ -230,24 +457,108 @@ export const PRESET_LABELS: Record<string, string> = {
   'fixed-fixed-mixed': '4. Sabit-Sabit - Karma Yük',
 };
 
+// ============================================================================
+// POLYNOMIALS
+// ============================================================================
+
+// coefficients[i] multiplies xⁱ
+export function evaluatePolynomial(coefficients: number[], x: number): number {
+  let value = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    value = value * x + coefficients[i];
+  }
+  return value;
+}
+
+export function differentiatePolynomial(coefficients: number[]): number[] {
+  return coefficients.slice(1).map((c, i) => c * (i + 1));
+}
+
+/**
+ * Value of a piecewise quantity at x; at a segment end, side picks the
+ * left (-1) or right (+1) limit so jumps under point loads are kept
+ */
+export function evaluateSegments(
+  segments: BeamSegment[],
+  key: 'shear' | 'moment' | 'deflection',
+  x: number,
+  side: -1 | 1 = 1
+): number {
+  if (segments.length === 0) return 0;
+  const eps = 1e-9;
+  const segment =
+    side < 0
+      ? segments.find(s => x > s.start + eps && x <= s.end + eps) ?? segments[0]
+      : segments.find(s => x >= s.start - eps && x < s.end - eps) ?? segments[segments.length - 1];
+  return evaluatePolynomial(segment[key], x);
+}
+
+// Σ aₖ(x - x₀)ᵏ expanded into powers of x
+function shiftPolynomial(local: number[], x0: number): number[] {
+  const global = new Array<number>(local.length).fill(0);
+  for (let k = 0; k < local.length; k++) {
+    let binomial = 1; // C(k, j)
+    for (let j = 0; j <= k; j++) {
+      global[j] += local[k] * binomial * (-x0) ** (k - j);
+      binomial = (binomial * (k - j)) / (j + 1);
+    }
+  }
+  return global;
+}
+
+// Real roots of a polynomial of degree ≤ 2 inside the open interval (a, b)
+function rootsInside(coefficients: number[], a: number, b: number): number[] {
+  const [c = 0, bq = 0, aq = 0] = coefficients;
+  const scale = Math.max(Math.abs(aq), Math.abs(bq), Math.abs(c), 1);
+  let roots: number[] = [];
+  if (Math.abs(aq) > 1e-12 * scale) {
+    const disc = bq * bq - 4 * aq * c;
+    if (disc >= 0) {
+      const sq = Math.sqrt(disc);
+      roots = [(-bq - sq) / (2 * aq), (-bq + sq) / (2 * aq)];
+    }
+  } else if (Math.abs(bq) > 1e-12 * scale) {
+    roots = [-c / bq];
+  }
+  return roots.filter(x => x > a + NODE_TOLERANCE && x < b - NODE_TOLERANCE);
+}
+
 // ============================================================================
 // CALCULATION ENGINE
 // ============================================================================
 
+// Two positions closer than this share one analysis node (m)
+const NODE_TOLERANCE = 1e-6;
+
+// Linearly varying part of a distributed load (kN/m)
+export interface DistributedPiece {
+  start: number;
+  end: number;
+  qStart: number;
+  qEnd: number;
+}
+
 class ReactionCalculator {
   private config: BeamConfig;
   private readonly EPSILON = 1e-9;
   private readonly E_DEFAULT = 200000; // MPa (steel)
   private readonly S_DEFAULT = 500; // cm³
   private readonly I_DEFAULT = 10000; // cm⁴
+  private readonly A_DEFAULT = 50; // cm²
+  private readonly H_DEFAULT = 300; // mm
+  private readonly ALPHA_DEFAULT = 1.2e-5; // 1/°C (steel)
 
   constructor(config: BeamConfig) {
     this.config = config;
   }
 
   // Get beam properties with defaults
+  private getMaterial(): Material | undefined {
+    return this.config.materialGrade ? getMaterialByGrade(this.config.materialGrade) : undefined;
+  }
+
   private getE() {
-    return this.config.elasticModulus ?? this.E_DEFAULT;
+    return this.config.elasticModulus ?? this.getMaterial()?.E ?? this.E_DEFAULT;
   }
   private getS() {
     return this.config.sectionModulus ?? this.S_DEFAULT;
@@ -255,6 +566,27 @@ class ReactionCalculator {
   private getI() {
     return this.config.momentOfInertia ?? this.I_DEFAULT;
   }
+  private getA() {
+    return this.config.area ?? this.A_DEFAULT;
+  }
+
+  /**
+   * Free thermal strain (mean temperature) and curvature (gradient) at x
+   * ε = α(T_top + T_bottom)/2, κ = α(T_bottom - T_top)/h
+   */
+  private thermalStrainAt(x: number): { strain: number; curvature: number } {
+    const alpha = this.getMaterial()?.alpha ?? this.ALPHA_DEFAULT;
+    const depth = (this.config.sectionDepth ?? this.H_DEFAULT) / 1000; // mm -> m
+    let strain = 0;
+    let curvature = 0;
+    for (const load of this.config.loads) {
+      if (load.type !== LoadType.THERMAL) continue;
+      if (x < load.startPosition || x > load.endPosition) continue;
+      strain += (alpha * (load.topTemperature + load.bottomTemperature)) / 2;
+      curvature += (alpha * (load.bottomTemperature - load.topTemperature)) / depth;
+    }
+    return { strain, curvature };
+  }
 
   // Get sorted supports with their original indices
   private getSortedSupportsWithOriginalIndices(): Array<{ support: Support; originalIndex: number }> {
@@ -264,11 +596,19 @@ class ReactionCalculator {
   }
 
   // Calculate equivalent point load and centroid position
-  private getEquivalentLoad(load: Load): { force: number; position: number; moment?: number } {
+  getEquivalentLoad(load: Load): LoadResultant {
     switch (load.type) {
       case LoadType.POINT:
         return { force: load.magnitude, position: load.position };
 
+      case LoadType.INCLINED: {
+        const { fx, fy } = resolveInclinedLoad(load);
+        return { force: fy, position: load.position, horizontal: fx };
+      }
+
+      case LoadType.AXIAL:
+        return { force: 0, position: load.position, horizontal: load.magnitude };
+
       case LoadType.UDL: {
         const length = load.endPosition - load.startPosition;
         const force = load.magnitude * length;
@@ -286,6 +626,10 @@ class ReactionCalculator {
         return { force, position };
       }
 
+      case LoadType.LINEAR:
+      case LoadType.POLYLINE:
+        return this.getPiecewiseResultant(this.getDistributedPieces(load));
+
       case LoadType.MOMENT:
         return { force: 0, position: load.position, moment: load.magnitude };
 
@@ -294,8 +638,36 @@ class ReactionCalculator {
     }
   }
 
+  // Resultant of linearly varying pieces; a self-balancing profile reduces to a couple
+  private getPiecewiseResultant(pieces: DistributedPiece[]): { force: number; position: number; moment?: number } {
+    let force = 0;
+    let firstMoment = 0; // About x = 0, counterclockwise positive
+    for (const piece of pieces) {
+      const h = piece.end - piece.start;
+      const rectForce = piece.qStart * h;
+      const triForce = ((piece.qEnd - piece.qStart) * h) / 2;
+      force += rectForce + triForce;
+      firstMoment += rectForce * (piece.start + h / 2) + triForce * (piece.start + (2 * h) / 3);
+    }
+
+    if (Math.abs(force) > this.EPSILON) {
+      return { force, position: firstMoment / force };
+    }
+    // Applied moments are clockwise positive
+    return { force: 0, position: 0, moment: -firstMoment };
+  }
+
+  // Internal hinges strictly inside the beam
+  private getHinges(): number[] {
+    const L = this.config.length;
+    return (this.config.hinges ?? []).filter(
+      h => h > NODE_TOLERANCE && h < L - NODE_TOLERANCE
+    );
+  }
+
   // Check static determinacy
-  private checkDeterminacy(): { determinate: boolean; unknowns: number; type: string } {
+  // Each internal hinge adds one condition equation (M = 0 at the hinge)
+  private checkDeterminacy(): { determinate: boolean; unknowns: number; equations: number; type: string } {
     let unknowns = 0;
     for (const support of this.config.supports) {
       switch (support.type) {
@@ -305,6 +677,9 @@ class ReactionCalculator {
         case SupportType.PINNED:
           unknowns += 2;
           break;
+        case SupportType.GUIDED:
+          unknowns += 2;
+          break;
         case SupportType.ROLLER:
           unknowns += 1;
           break;
@@ -314,261 +689,390 @@ class ReactionCalculator {
       }
     }
 
-    const determinate = unknowns === 3;
+    const equations = 3 + this.getHinges().length;
+    const determinate = unknowns === equations;
     let type = 'determinate';
-    if (unknowns > 3) type = 'indeterminate';
-    if (unknowns < 3) type = 'unstable';
+    if (unknowns > equations) type = 'indeterminate';
+    if (unknowns < equations) type = 'unstable';
 
-    return { determinate, unknowns, type };
+    return { determinate, unknowns, equations, type };
+  }
+
+  // Beam needs at least one support that resists horizontal movement
+  private hasHorizontalRestraint(): boolean {
+    return this.config.supports.some(
+      s =>
+        s.type === SupportType.FIXED ||
+        s.type === SupportType.PINNED ||
+        s.type === SupportType.GUIDED
+    );
   }
 
   // ============================================================================
-  // COMPATIBILITY EQUATIONS FOR INDETERMINATE BEAMS
+  // DIRECT STIFFNESS SOLVER
   // ============================================================================
 
   /**
-   * Solve fixed-fixed beam using Three-Moment Equation
-   * M_A * L_AB + 2*M_B * (L_AB + L_BC) + M_C * L_BC = -6EI * (θ_AB + θ_BC)
+   * Flexural rigidity EI in kN·m²
+   * E (MPa = 10³ kN/m²) × I (cm⁴ = 10⁻⁸ m⁴)
    */
-  private solveFixedFixed(): { reactions: Map<number, ReactionForce>; moments: Map<number, number> } {
-    const L = this.config.length;
-    const EI = this.getE() * this.getI() / 10000; // Convert to kN·m² units
-
-    // Calculate fixed end moments using Three-Moment Equation
-    // For fixed-fixed beam: M_A = M_C = -PL/8 for point load at center (simplified)
+  private getEI(): number {
+    return this.getE() * this.getI() * 1e-5;
+  }
 
-    let M_A = 0; // Fixed end moment at left
-    let M_C = 0; // Fixed end moment at right
+  // Split a distributed load into linearly varying pieces (kN/m)
+  getDistributedPieces(load: Load): DistributedPiece[] {
+    switch (load.type) {
+      case LoadType.UDL:
+        return [{
+          start: load.startPosition,
+          end: load.endPosition,
+          qStart: load.magnitude,
+          qEnd: load.magnitude,
+        }];
+      case LoadType.TRIANGULAR:
+        return [{
+          start: load.startPosition,
+          end: load.endPosition,
+          qStart: 0,
+          qEnd: load.maxMagnitude,
+        }];
+      case LoadType.LINEAR:
+        return [{
+          start: load.startPosition,
+          end: load.endPosition,
+          qStart: load.startMagnitude,
+          qEnd: load.endMagnitude,
+        }];
+      case LoadType.POLYLINE: {
+        const pieces: DistributedPiece[] = [];
+        for (let i = 1; i < load.points.length; i++) {
+          const a = load.points[i - 1];
+          const b = load.points[i];
+          if (b.position - a.position <= NODE_TOLERANCE) continue;
+          pieces.push({ start: a.position, end: b.position, qStart: a.magnitude, qEnd: b.magnitude });
+        }
+        return pieces;
+      }
+      default:
+        return [];
+    }
+  }
 
-    // Sum moments about each support
+  // Analysis nodes: beam ends, supports and every load discontinuity
+  private getNodePositions(): number[] {
+    const L = this.config.length;
+    const raw = [0, L, ...this.config.supports.map(s => s.position), ...this.getHinges()];
     for (const load of this.config.loads) {
-      if (load.type === LoadType.POINT) {
-        const a = load.position;
-        const b = L - a;
-        const P = -load.magnitude; // Positive magnitude
-        // Fixed end moments for point load
-        M_A += -P * a * b * b / (L * L);
-        M_C += -P * a * a * b / (L * L);
-      } else if (load.type === LoadType.UDL) {
-        const w = -load.magnitude;
-        const a = load.startPosition;
-        const b = load.endPosition;
-        // Partial UDL fixed end moments
-        M_A += -w * (b - a) * (b - a) * (L * L - 3 * a * a - 3 * b * b + 2 * a * b) / (12 * L * L);
-        M_C += -w * (b - a) * (b - a) * (L * L + 3 * a * a + 3 * b * b - 2 * a * b) / (12 * L * L);
-      } else if (load.type === LoadType.MOMENT) {
-        const M = load.magnitude;
-        // Moment applied somewhere - distributed to both ends
-        M_A += -M * (L - load.position) / L;
-        M_C += -M * load.position / L;
+      if (isConcentratedLoad(load)) {
+        raw.push(load.position);
+      } else if (load.type === LoadType.THERMAL) {
+        raw.push(load.startPosition, load.endPosition);
+      } else {
+        for (const piece of this.getDistributedPieces(load)) {
+          raw.push(piece.start, piece.end);
+        }
       }
     }
 
-    // Calculate reactions considering fixed end moments
-    let R_A = 0;
-    let R_C = 0;
+    const nodes: number[] = [];
+    for (const x of raw.filter(p => p >= -NODE_TOLERANCE && p <= L + NODE_TOLERANCE).sort((a, b) => a - b)) {
+      if (nodes.length === 0 || x - nodes[nodes.length - 1] > NODE_TOLERANCE) {
+        nodes.push(Math.min(Math.max(x, 0), L));
+      }
+    }
+    return nodes;
+  }
 
+  private findNode(nodes: number[], x: number): number {
+    return nodes.findIndex(n => Math.abs(n - x) <= NODE_TOLERANCE);
+  }
+
+  /**
+   * Assemble and solve K·d = F for the whole beam.
+   * Each node carries a deflection v (up +) and a rotation θ (counterclockwise +);
+   * an internal hinge gets a second rotation DOF for the element on its right.
+   * Distributed loads enter as consistent (fixed-end) nodal loads.
+   * Returns null if the stiffness matrix is singular (mechanism).
+   */
+  private solveStiffness(): {
+    reactions: Map<number, ReactionForce>;
+    displacements: NodalDisplacement[];
+  } | null {
+    const nodes = this.getNodePositions();
+    const EI = this.getEI();
+
+    // DOF numbering: v, θ(left) and, at hinges, θ(right)
+    const hingeNodes = new Set(this.getHinges().map(h => this.findNode(nodes, h)));
+    const vDof: number[] = [];
+    const thetaLeftDof: number[] = [];
+    const thetaRightDof: number[] = [];
+    let size = 0;
+    nodes.forEach((_, i) => {
+      vDof.push(size++);
+      thetaLeftDof.push(size++);
+      thetaRightDof.push(hingeNodes.has(i) ? size++ : thetaLeftDof[i]);
+    });
+
+    const K = createMatrix(size);
+    const F = new Array<number>(size).fill(0);
+
+    // Element stiffness matrices
+    for (let e = 0; e < nodes.length - 1; e++) {
+      const h = nodes[e + 1] - nodes[e];
+      const k = EI / (h * h * h);
+      const ke = [
+        [12, 6 * h, -12, 6 * h],
+        [6 * h, 4 * h * h, -6 * h, 2 * h * h],
+        [-12, -6 * h, 12, -6 * h],
+        [6 * h, 2 * h * h, -6 * h, 4 * h * h],
+      ];
+      const dofs = [vDof[e], thetaRightDof[e], vDof[e + 1], thetaLeftDof[e + 1]];
+      for (let i = 0; i < 4; i++) {
+        for (let j = 0; j < 4; j++) {
+          K[dofs[i]][dofs[j]] += k * ke[i][j];
+        }
+      }
+    }
+
+    // Load vector
     for (const load of this.config.loads) {
       if (load.type === LoadType.POINT) {
-        const P = -load.magnitude;
-        const a = load.position;
-        R_A += P * (L - a) * (L - a) * (2 * L + a) / (L * L * L);
-        R_C += P * a * a * (3 * L - 2 * a) / (L * L * L);
-      } else if (load.type === LoadType.UDL) {
-        const w = -load.magnitude;
-        const a = load.startPosition;
-        const b = load.endPosition;
-        R_A += w * (b - a) * (2 * L * L * L - 2 * L * a * a - a * a * b + a * b * b) / (8 * L * L * L);
-        R_C += w * (b - a) * (6 * L * L * a - 4 * L * a * a - a * b * (2 * L - b)) / (8 * L * L * L);
+        const node = this.findNode(nodes, load.position);
+        if (node >= 0) F[vDof[node]] += load.magnitude;
+      } else if (load.type === LoadType.INCLINED) {
+        const node = this.findNode(nodes, load.position);
+        if (node >= 0) F[vDof[node]] += resolveInclinedLoad(load).fy;
+      } else if (load.type === LoadType.AXIAL) {
+        continue; // Carried by the axial system
       } else if (load.type === LoadType.MOMENT) {
-        // No vertical reaction from pure moment
+        const node = this.findNode(nodes, load.position);
+        // Applied moment is clockwise positive, rotation DOF is counterclockwise
+        if (node >= 0) F[thetaLeftDof[node]] -= load.magnitude;
+      } else if (load.type === LoadType.THERMAL) {
+        continue; // Added per element below
+      } else {
+        for (const piece of this.getDistributedPieces(load)) {
+          const span = piece.end - piece.start;
+          if (span <= NODE_TOLERANCE) continue;
+          const intensityAt = (x: number) =>
+            piece.qStart + ((piece.qEnd - piece.qStart) * (x - piece.start)) / span;
+
+          for (let e = 0; e < nodes.length - 1; e++) {
+            if (nodes[e] < piece.start - NODE_TOLERANCE || nodes[e + 1] > piece.end + NODE_TOLERANCE) {
+              continue;
+            }
+            const h = nodes[e + 1] - nodes[e];
+            const q1 = intensityAt(nodes[e]);
+            const q2 = intensityAt(nodes[e + 1]);
+            F[vDof[e]] += (h * (7 * q1 + 3 * q2)) / 20;
+            F[thetaRightDof[e]] += (h * h * (3 * q1 + 2 * q2)) / 60;
+            F[vDof[e + 1]] += (h * (3 * q1 + 7 * q2)) / 20;
+            F[thetaLeftDof[e + 1]] -= (h * h * (2 * q1 + 3 * q2)) / 60;
+          }
+        }
       }
     }
 
-    // Add contribution from fixed moments
-    R_A += (M_A - M_C) / L;
-    R_C -= (M_A - M_C) / L;
-
-    const reactions = new Map<number, ReactionForce>();
-    const moments = new Map<number, number>();
-
-    const sortedSupports = this.getSortedSupportsWithOriginalIndices();
-    for (const { originalIndex } of sortedSupports) {
-      reactions.set(originalIndex, { horizontal: 0, vertical: 0, moment: 0 });
+    // Thermal curvature: element end moments ∓EI·κ (initial strain load)
+    for (let e = 0; e < nodes.length - 1; e++) {
+      const { curvature } = this.thermalStrainAt((nodes[e] + nodes[e + 1]) / 2);
+      if (curvature === 0) continue;
+      F[thetaRightDof[e]] -= EI * curvature;
+      F[thetaLeftDof[e + 1]] += EI * curvature;
     }
 
-    if (sortedSupports.length === 2) {
-      reactions.get(sortedSupports[0].originalIndex)!.vertical = R_A;
-      reactions.get(sortedSupports[0].originalIndex)!.moment = M_A;
-      reactions.get(sortedSupports[1].originalIndex)!.vertical = R_C;
-      reactions.get(sortedSupports[1].originalIndex)!.moment = M_C;
+    // Boundary conditions: restrained DOF -> original support index and prescribed value
+    const restrained = new Map<number, { originalIndex: number; component: 'vertical' | 'moment'; value: number }>();
+    const restrain = (dof: number, originalIndex: number, component: 'vertical' | 'moment', value: number) => {
+      if (!restrained.has(dof)) restrained.set(dof, { originalIndex, component, value });
+    };
+    for (const { support, originalIndex } of this.getSortedSupportsWithOriginalIndices()) {
+      const node = this.findNode(nodes, support.position);
+      if (node < 0 || support.type === SupportType.FREE) continue;
+      if (support.type !== SupportType.GUIDED) {
+        restrain(vDof[node], originalIndex, 'vertical', (support.displacement ?? 0) / 1000);
+      }
+      if (support.type === SupportType.FIXED || support.type === SupportType.GUIDED) {
+        restrain(thetaLeftDof[node], originalIndex, 'moment', support.rotation ?? 0);
+        restrain(thetaRightDof[node], originalIndex, 'moment', support.rotation ?? 0);
+      }
     }
 
-    return { reactions, moments };
-  }
-
-  // ============================================================================
-  // MAIN CALCULATION
-  // ============================================================================
-
-  calculateReactions(): ReactionResults {
-    const { determinate, unknowns, type } = this.checkDeterminacy();
+    const freeDofs: number[] = [];
+    for (let dof = 0; dof < size; dof++) {
+      if (!restrained.has(dof)) freeDofs.push(dof);
+    }
 
-    if (type === 'unstable') {
-      return {
-        reactions: new Map(),
-        isValid: false,
-        errorMessage: 'Sistem istikrarsız! Yetersiz mesnet var.',
-      };
+    // Prescribed movements move to the right-hand side: K_ff·d_f = F_f - K_fr·d_r
+    const d = new Array<number>(size).fill(0);
+    for (const [dof, { value }] of restrained) {
+      d[dof] = value;
     }
+    const rhs = freeDofs.map(dof => {
+      let value = F[dof];
+      for (const [r] of restrained) {
+        value -= K[dof][r] * d[r];
+      }
+      return value;
+    });
+
+    const solution = solveLinearSystem(subMatrix(K, freeDofs), rhs);
+    if (!solution) return null;
 
-    // Get sorted supports with original indices
-    const sortedSupports = this.getSortedSupportsWithOriginalIndices();
+    freeDofs.forEach((dof, i) => {
+      d[dof] = solution[i];
+    });
 
-    // Build reaction map using ORIGINAL indices
+    // Reactions R = K·d - F at the restrained DOFs
     const reactions = new Map<number, ReactionForce>();
-    for (const { originalIndex } of sortedSupports) {
+    for (const { originalIndex } of this.getSortedSupportsWithOriginalIndices()) {
       reactions.set(originalIndex, { horizontal: 0, vertical: 0, moment: 0 });
     }
+    for (const [dof, { originalIndex, component }] of restrained) {
+      let R = -F[dof];
+      for (let j = 0; j < size; j++) {
+        R += K[dof][j] * d[j];
+      }
+      reactions.get(originalIndex)![component] += R;
+    }
 
-    const supports = sortedSupports.map(s => s.support);
-
-    // Calculate total loads
-    let totalFy = 0; // Sum of vertical forces (negative = downward)
-    let totalM = 0; // Sum of moments about x=0
-
-    for (const load of this.config.loads) {
-      const equiv = this.getEquivalentLoad(load);
-      totalFy += equiv.force;
-      totalM += equiv.force * equiv.position;
-      if (equiv.moment) totalM += equiv.moment;
+    // Axial system is uncoupled from bending in first-order theory
+    const axial = this.solveAxial(nodes);
+    if (!axial) return null;
+    for (const [originalIndex, H] of axial.reactions) {
+      reactions.get(originalIndex)!.horizontal += H;
     }
 
-    // ========================================================================
-    // CASE 1: SIMPLY SUPPORTED BEAM (Pin + Roller)
-    // ========================================================================
-    const pinIdx = sortedSupports.findIndex(s => s.support.type === SupportType.PINNED);
-    const rollerIdx = sortedSupports.findIndex(s => s.support.type === SupportType.ROLLER);
+    const displacements = nodes.map((x, i) => {
+      const displacement: NodalDisplacement = {
+        x,
+        deflection: d[vDof[i]] * 1000, // m -> mm
+        rotation: d[thetaLeftDof[i]],
+        horizontal: axial.u[i] * 1000,
+      };
+      if (thetaRightDof[i] !== thetaLeftDof[i]) {
+        displacement.rotationRight = d[thetaRightDof[i]];
+      }
+      return displacement;
+    });
 
-    if (pinIdx >= 0 && rollerIdx >= 0) {
-      const pinSupport = supports[pinIdx];
-      const rollerSupport = supports[rollerIdx];
-      const pinOriginalIdx = sortedSupports[pinIdx].originalIndex;
-      const rollerOriginalIdx = sortedSupports[rollerIdx].originalIndex;
+    return { reactions, displacements };
+  }
 
-      const L = rollerSupport.position - pinSupport.position;
+  /**
+   * Axial bar system: one horizontal DOF per node, k = EA/h.
+   * Horizontal forces are shared by the supports that restrain u
+   * (PINNED, FIXED, GUIDED) in proportion to their axial stiffness.
+   */
+  private solveAxial(nodes: number[]): { reactions: Map<number, number>; u: number[] } | null {
+    const size = nodes.length;
+    const EA = this.getE() * this.getA() * 0.1; // MPa × cm² -> kN
+    const K = createMatrix(size);
+    const F = new Array<number>(size).fill(0);
+
+    for (let e = 0; e < size - 1; e++) {
+      const k = EA / (nodes[e + 1] - nodes[e]);
+      K[e][e] += k;
+      K[e + 1][e + 1] += k;
+      K[e][e + 1] -= k;
+      K[e + 1][e] -= k;
+    }
 
-      // Moment equilibrium about pin support
-      let momentAboutPin = 0;
-      for (const load of this.config.loads) {
-        const equiv = this.getEquivalentLoad(load);
-        const distFromPin = equiv.position - pinSupport.position;
-        momentAboutPin += equiv.force * distFromPin;
-        if (equiv.moment) momentAboutPin += equiv.moment;
-      }
+    for (const load of this.config.loads) {
+      const horizontal = this.getEquivalentLoad(load).horizontal;
+      if (!horizontal || !isConcentratedLoad(load)) continue;
+      const node = this.findNode(nodes, load.position);
+      if (node >= 0) F[node] += horizontal;
+    }
 
-      const R_roller = -momentAboutPin / L;
-      const R_pin = -(totalFy + R_roller);
+    // Mean temperature: restrained elongation gives end forces ∓EA·ε
+    for (let e = 0; e < size - 1; e++) {
+      const { strain } = this.thermalStrainAt((nodes[e] + nodes[e + 1]) / 2);
+      if (strain === 0) continue;
+      F[e] -= EA * strain;
+      F[e + 1] += EA * strain;
+    }
 
-      reactions.get(rollerOriginalIdx)!.vertical = R_roller;
-      reactions.get(pinOriginalIdx)!.vertical = R_pin;
-      reactions.get(pinOriginalIdx)!.horizontal = 0;
+    const restrained = new Map<number, number>();
+    for (const { support, originalIndex } of this.getSortedSupportsWithOriginalIndices()) {
+      const node = this.findNode(nodes, support.position);
+      if (node < 0 || restrained.has(node)) continue;
+      if (
+        support.type === SupportType.PINNED ||
+        support.type === SupportType.FIXED ||
+        support.type === SupportType.GUIDED
+      ) {
+        restrained.set(node, originalIndex);
+      }
+    }
 
-      return {
-        reactions,
-        isValid: this.verifyEquilibrium(reactions),
-      };
+    const freeDofs: number[] = [];
+    for (let dof = 0; dof < size; dof++) {
+      if (!restrained.has(dof)) freeDofs.push(dof);
     }
 
-    // ========================================================================
-    // CASE 2: CANTILEVER BEAM (Fixed only)
-    // ========================================================================
-    if (supports.length === 1 && supports[0].type === SupportType.FIXED) {
-      const originalIdx = sortedSupports[0].originalIndex;
-      const supportPos = supports[0].position;
+    const solution = solveLinearSystem(subMatrix(K, freeDofs), freeDofs.map(dof => F[dof]));
+    if (!solution) return null;
 
-      let Fy = 0;
-      let M = 0;
+    const u = new Array<number>(size).fill(0);
+    freeDofs.forEach((dof, i) => {
+      u[dof] = solution[i];
+    });
 
-      for (const load of this.config.loads) {
-        const equiv = this.getEquivalentLoad(load);
-        Fy += equiv.force;
-        const distFromSupport = equiv.position - supportPos;
-        M += equiv.force * distFromSupport;
-        if (equiv.moment) M += equiv.moment;
+    const reactions = new Map<number, number>();
+    for (const [dof, originalIndex] of restrained) {
+      let R = -F[dof];
+      for (let j = 0; j < size; j++) {
+        R += K[dof][j] * u[j];
       }
+      reactions.set(originalIndex, R);
+    }
+
+    return { reactions, u };
+  }
+
+  // ============================================================================
+  // MAIN CALCULATION
+  // ============================================================================
 
-      reactions.get(originalIdx)!.vertical = -Fy;
-      reactions.get(originalIdx)!.horizontal = 0;
-      reactions.get(originalIdx)!.moment = -M;
+  calculateReactions(): ReactionResults {
+    const { type, unknowns, equations } = this.checkDeterminacy();
+    const determinacy: DeterminacyInfo = { unknowns, equations, degree: unknowns - equations };
 
+    if (type === 'unstable') {
       return {
-        reactions,
-        isValid: this.verifyEquilibrium(reactions),
+        reactions: new Map(),
+        isValid: false,
+        errorMessage: 'Sistem istikrarsız! Yetersiz mesnet var.',
+        determinacy,
       };
     }
 
-    // ========================================================================
-    // CASE 3: FIXED-FIXED BEAM (Indeterminate - using Three-Moment Eq)
-    // ========================================================================
-    const fixedCount = sortedSupports.filter(s => s.support.type === SupportType.FIXED).length;
-    if (fixedCount === 2 && supports.length === 2) {
-      const result = this.solveFixedFixed();
-
-      // Verify equilibrium
-      if (this.verifyEquilibrium(result.reactions)) {
-        return {
-          reactions: result.reactions,
-          isValid: true,
-        };
-      }
+    if (!this.hasHorizontalRestraint()) {
+      return {
+        reactions: new Map(),
+        isValid: false,
+        errorMessage: 'Sistem istikrarsız! Yatay yönde tutulmamış.',
+        determinacy,
+      };
     }
 
-    // ========================================================================
-    // CASE 4: PROPPED CANTILEVER (Fixed + Roller)
-    // ========================================================================
-    const fixedIdx = sortedSupports.findIndex(s => s.support.type === SupportType.FIXED);
-    if (fixedIdx >= 0 && rollerIdx >= 0) {
-      const fixedSupport = supports[fixedIdx];
-      const rollerSupport = supports[rollerIdx];
-      const fixedOriginalIdx = sortedSupports[fixedIdx].originalIndex;
-      const rollerOriginalIdx = sortedSupports[rollerIdx].originalIndex;
-
-      const L = rollerSupport.position - fixedSupport.position;
-
-      // Using slope compatibility at roller
-      let M_fixed = 0;
-      for (const load of this.config.loads) {
-        const equiv = this.getEquivalentLoad(load);
-        const a = equiv.position - fixedSupport.position;
-
-        if (load.type === LoadType.POINT) {
-          M_fixed += -equiv.force * a * (L - a) * (2 * L - a) / (2 * L * L);
-        } else if (load.type === LoadType.UDL) {
-          const udLoad = load as UDLoad;
-          const a = udLoad.startPosition - fixedSupport.position;
-          const b = udLoad.endPosition - fixedSupport.position;
-          M_fixed += -equiv.force * (L * L - 3 * a * a - 2 * b * b + 3 * (b - a) * (b - a)) / (8 * L);
-        }
-      }
-
-      const R_roller = -M_fixed / L;
-      const R_fixed = -(totalFy + R_roller);
-
-      reactions.get(rollerOriginalIdx)!.vertical = R_roller;
-      reactions.get(fixedOriginalIdx)!.vertical = R_fixed;
-      reactions.get(fixedOriginalIdx)!.moment = M_fixed;
-
+    const solution = this.solveStiffness();
+    if (!solution) {
       return {
-        reactions,
-        isValid: this.verifyEquilibrium(reactions),
+        reactions: new Map(),
+        isValid: false,
+        errorMessage: 'Sistem istikrarsız! Mesnet düzeni mekanizma oluşturuyor.',
+        determinacy,
       };
     }
 
     return {
-      reactions,
-      isValid: false,
-      errorMessage: 'Desteklenmeyen mesnet konfigürasyonu.',
+      reactions: solution.reactions,
+      nodalDisplacements: solution.displacements,
+      isValid: this.verifyEquilibrium(solution.reactions),
+      determinacy,
     };
   }
 
@@ -576,8 +1080,9 @@ class ReactionCalculator {
     let sumFx = 0;
     let sumFy = 0;
     let sumM = 0;
+    let scale = 1;
 
-    // Sum reactions about x=0
+    // Sum reactions about x=0 (counterclockwise positive)
     for (const [idx, r] of reactions) {
       const supportPos = this.config.supports[idx].position;
       sumFx += r.horizontal;
@@ -588,12 +1093,15 @@ class ReactionCalculator {
     // Sum loads about x=0
     for (const load of this.config.loads) {
       const equiv = this.getEquivalentLoad(load);
+      sumFx += equiv.horizontal ?? 0;
       sumFy += equiv.force;
       sumM += equiv.force * equiv.position;
-      if (equiv.moment) sumM += equiv.moment;
+      // Applied moments are clockwise positive
+      if (equiv.moment) sumM -= equiv.moment;
+      scale += Math.abs(equiv.force) + Math.abs(equiv.moment ?? 0) + Math.abs(equiv.horizontal ?? 0);
     }
 
-    const tolerance = 1e-4; // Slightly relaxed tolerance
+    const tolerance = 1e-6 * scale * Math.max(1, this.config.length);
     return (
       Math.abs(sumFx) < tolerance &&
       Math.abs(sumFy) < tolerance &&
@@ -614,12 +1122,17 @@ class ReactionCalculator {
     for (const s of this.config.supports) {
       criticalPoints.add(s.position);
     }
+    for (const h of this.getHinges()) {
+      criticalPoints.add(h);
+    }
     for (const load of this.config.loads) {
-      if (load.type === LoadType.POINT || load.type === LoadType.MOMENT) {
+      if (isConcentratedLoad(load)) {
         criticalPoints.add(load.position);
       } else {
-        criticalPoints.add(load.startPosition);
-        criticalPoints.add(load.endPosition);
+        for (const piece of this.getDistributedPieces(load)) {
+          criticalPoints.add(piece.start);
+          criticalPoints.add(piece.end);
+        }
       }
     }
 
@@ -634,120 +1147,366 @@ class ReactionCalculator {
     }
     xValues.sort((a, b) => a - b);
 
-    let maxShear = { value: 0, position: 0 };
-    let maxMoment = { value: -Infinity, position: 0 };
-    let minMoment = { value: Infinity, position: 0 };
+    let maxNormal = { value: 0, position: 0 };
 
     for (const x of xValues) {
-      let shear = 0;
-      let moment = 0;
-
-      // Add reaction contributions
-      for (const [idx, r] of results.reactions) {
-        const supportPos = this.config.supports[idx].position;
-        if (x >= supportPos - this.EPSILON) {
-          shear += r.vertical;
-          moment += r.vertical * (x - supportPos) + r.moment;
-        }
-      }
+      const { shear, moment, normal } = this.internalForcesAt(x, results.reactions);
 
-      // Add load contributions
-      for (const load of this.config.loads) {
-        if (load.type === LoadType.POINT) {
-          if (x >= load.position - this.EPSILON) {
-            shear += load.magnitude;
-            moment += load.magnitude * (x - load.position);
-          }
-        } else if (load.type === LoadType.UDL) {
-          if (x > load.startPosition + this.EPSILON) {
-            const loadEnd = Math.min(x, load.endPosition);
-            const loadedLength = loadEnd - load.startPosition;
-            const loadForce = load.magnitude * loadedLength;
-            const loadCentroid = load.startPosition + loadedLength / 2;
-            shear += loadForce;
-            moment += loadForce * (x - loadCentroid);
-          }
-        } else if (load.type === LoadType.TRIANGULAR) {
-          if (x > load.startPosition + this.EPSILON) {
-            const loadEnd = Math.min(x, load.endPosition);
-            const loadedLength = loadEnd - load.startPosition;
-            const totalLength = load.endPosition - load.startPosition;
-            const ratio = loadedLength / totalLength;
-            // Force at partial triangular section
-            const loadForce = (load.maxMagnitude * loadedLength * ratio) / 2;
-            // Centroid of partial triangle from start
-            const centroidFactor = (2 + ratio) / (3 * (1 + ratio));
-            const loadCentroid = load.startPosition + loadedLength * centroidFactor;
-            shear += loadForce;
-            moment += loadForce * (x - loadCentroid);
-          }
-        } else if (load.type === LoadType.MOMENT) {
-          if (x >= load.position - this.EPSILON) {
-            moment += load.magnitude;
-          }
-        }
+      points.push({ x, shear, moment, normal });
+
+      if (Math.abs(normal) > Math.abs(maxNormal.value)) {
+        maxNormal = { value: normal, position: x };
       }
+    }
+
+    // Shear and moment extremes from the segment polynomials, not the samples
+    const segments = this.buildSegments(results);
+    const { maxShear, maxMoment, minMoment, zeroShearPoints } = this.findExtremes(segments);
 
-      points.push({ x, shear, moment });
+    // Elastic curve from the nodal stiffness solution
+    const deflectionPoints = this.calculateElasticCurve(xValues, segments);
 
-      // Track max/min
-      if (Math.abs(shear) > Math.abs(maxShear.value)) {
-        maxShear = { value: shear, position: x };
+    let maxDeflection = { value: -Infinity, position: 0 };
+    let minDeflection = { value: Infinity, position: 0 };
+    let maxSlope = { value: 0, position: 0 };
+    for (const p of deflectionPoints) {
+      if (p.deflection > maxDeflection.value) {
+        maxDeflection = { value: p.deflection, position: p.x };
       }
-      if (moment > maxMoment.value) {
-        maxMoment = { value: moment, position: x };
+      if (p.deflection < minDeflection.value) {
+        minDeflection = { value: p.deflection, position: p.x };
       }
-      if (moment < minMoment.value) {
-        minMoment = { value: moment, position: x };
+      if (Math.abs(p.slope) > Math.abs(maxSlope.value)) {
+        maxSlope = { value: p.slope, position: p.x };
       }
     }
+    if (deflectionPoints.length === 0) {
+      maxDeflection = { value: 0, position: 0 };
+      minDeflection = { value: 0, position: 0 };
+    }
+    const governingDeflection =
+      Math.abs(minDeflection.value) >= Math.abs(maxDeflection.value) ? minDeflection : maxDeflection;
 
-    // Calculate maximum stress and deflection
+    // Calculate maximum stress
     const maxMomentAbs = Math.max(Math.abs(maxMoment.value), Math.abs(minMoment.value));
     const maxStress = (maxMomentAbs * 1000) / this.getS(); // σ = M/S (kN·m to N·mm, S in cm³)
-    const maxDeflection = this.calculateMaxDeflection(points);
 
     return {
       ...results,
+      segments,
+      zeroShearPoints,
       shearDiagram: points,
       momentDiagram: points,
+      normalDiagram: points,
+      deflectionDiagram: deflectionPoints,
+      slopeDiagram: deflectionPoints,
       maxShear,
       maxMoment,
       minMoment,
+      maxNormal,
+      maxDeflection,
+      minDeflection,
+      maxSlope,
       maxStress: { value: maxStress, position: maxMoment.value > Math.abs(minMoment.value) ? maxMoment.position : minMoment.position, unit: 'MPa' },
-      deflection: maxDeflection,
+      deflection: { ...governingDeflection, unit: 'mm' },
+      serviceability: this.checkServiceability(deflectionPoints),
     };
   }
 
   /**
-   * Calculate approximate maximum deflection using virtual work method
+   * Shear, moment and normal force at section x from the free body to its left.
+   * Sign convention: V = Σ upward forces on the left, M sagging positive,
+   * N tension positive.
    */
-  private calculateMaxDeflection(points: InternalForcesPoint[]): { value: number; position: number; unit: string } {
-    // Simplified: find max deflection from moment diagram area
-    const EI = this.getE() * this.getI() / 1000000; // Convert to kN·m²
+  private internalForcesAt(
+    x: number,
+    reactions: Map<number, ReactionForce>
+  ): { shear: number; moment: number; normal: number } {
+    let shear = 0;
+    let moment = 0;
+    let normal = 0;
+
+    // Add reaction contributions (reaction moment is counterclockwise positive)
+    for (const [idx, r] of reactions) {
+      const supportPos = this.config.supports[idx].position;
+      if (this.actsLeftOf(supportPos, x)) {
+        shear += r.vertical;
+        moment += r.vertical * (x - supportPos) - r.moment;
+        normal -= r.horizontal;
+      }
+    }
+
+    // Add load contributions
+    for (const load of this.config.loads) {
+      if (load.type === LoadType.POINT) {
+        if (this.actsLeftOf(load.position, x)) {
+          shear += load.magnitude;
+          moment += load.magnitude * (x - load.position);
+        }
+      } else if (load.type === LoadType.INCLINED) {
+        if (this.actsLeftOf(load.position, x)) {
+          const { fx, fy } = resolveInclinedLoad(load);
+          shear += fy;
+          moment += fy * (x - load.position);
+          normal -= fx;
+        }
+      } else if (load.type === LoadType.AXIAL) {
+        // Force pulling the left part to the right compresses the section
+        if (this.actsLeftOf(load.position, x)) {
+          normal -= load.magnitude;
+        }
+      } else if (load.type === LoadType.MOMENT) {
+        // Clockwise couple on the left part -> sagging
+        if (this.actsLeftOf(load.position, x)) {
+          moment += load.magnitude;
+        }
+      } else {
+        for (const piece of this.getDistributedPieces(load)) {
+          if (x <= piece.start + this.EPSILON) continue;
+          const span = piece.end - piece.start;
+          const loadEnd = Math.min(x, piece.end);
+          const loadedLength = loadEnd - piece.start;
+          const qEnd = piece.qStart + ((piece.qEnd - piece.qStart) * loadedLength) / span;
+          // Split the loaded part into a rectangle and a triangle
+          const rectForce = piece.qStart * loadedLength;
+          const triForce = ((qEnd - piece.qStart) * loadedLength) / 2;
+          shear += rectForce + triForce;
+          moment += rectForce * (x - piece.start - loadedLength / 2);
+          moment += triForce * (x - piece.start - (2 * loadedLength) / 3);
+        }
+      }
+    }
 
-    // Use conjugate beam approximation
-    let maxDeflection = 0;
-    let maxDeflPos = 0;
+    return { shear, moment, normal };
+  }
+
+  /**
+   * Whether a concentrated action at `position` is part of the left free body
+   * at section x. The section at the right end has nothing to its right, so
+   * actions exactly at x = L are excluded there.
+   */
+  private actsLeftOf(position: number, x: number): boolean {
+    if (position < x - this.EPSILON) return true;
+    return Math.abs(position - x) <= this.EPSILON && x < this.config.length - this.EPSILON;
+  }
 
-    for (let i = 0; i < points.length; i++) {
-      const m = points[i].moment;
-      // Approximate deflection at this point
-      let defl = 0;
-      for (let j = 0; j < i; j++) {
-        const mAvg = (points[j].moment + points[j + 1].moment) / 2;
-        const dx = points[j + 1].x - points[j].x;
-        defl += mAvg * dx * (points[i].x - (points[j].x + points[j + 1].x) / 2);
+  // Total distributed intensity q(x) (kN/m) inside the element [from, to]
+  private distributedIntensityAt(x: number, from: number, to: number): number {
+    const mid = (from + to) / 2;
+    let q = 0;
+    for (const load of this.config.loads) {
+      for (const piece of this.getDistributedPieces(load)) {
+        const span = piece.end - piece.start;
+        if (span <= NODE_TOLERANCE || mid < piece.start || mid > piece.end) continue;
+        q += piece.qStart + ((piece.qEnd - piece.qStart) * (x - piece.start)) / span;
       }
-      defl /= EI;
+    }
+    return q;
+  }
 
-      if (Math.abs(defl) > Math.abs(maxDeflection)) {
-        maxDeflection = defl;
-        maxDeflPos = points[i].x;
+  /**
+   * Exact polynomials per segment between analysis nodes. Inside a segment the
+   * load is linear, q(s) = q₀ + q's with s = x - x₀, so integrating from the
+   * left node (v₀, θ₀ from the stiffness solution) gives:
+   *   V(s) = V₀ + q₀s + q's²/2
+   *   M(s) = M₀ + V₀s + q₀s²/2 + q's³/6
+   *   v(s) = v₀ + θ₀s + κₜs²/2 + (M₀s²/2 + V₀s³/6 + q₀s⁴/24 + q's⁵/120) / EI
+   * where κₜ is the free thermal curvature. The local polynomials are then
+   * expanded in the global x.
+   */
+  private buildSegments(results: ReactionResults): BeamSegment[] {
+    const nodes = results.nodalDisplacements;
+    const positions = nodes && nodes.length >= 2 ? nodes.map(n => n.x) : this.getNodePositions();
+    const EI = this.getEI();
+
+    const segments: BeamSegment[] = [];
+    for (let e = 0; e < positions.length - 1; e++) {
+      const x0 = positions[e];
+      const x1 = positions[e + 1];
+      if (x1 - x0 <= NODE_TOLERANCE) continue;
+
+      const { shear: V0, moment: M0 } = this.internalForcesAt(x0, results.reactions);
+      const q0 = this.distributedIntensityAt(x0, x0, x1);
+      const dq = (this.distributedIntensityAt(x1, x0, x1) - q0) / (x1 - x0);
+
+      let deflection: number[] = [];
+      const node = nodes?.[e];
+      if (results.isValid && node && nodes && nodes.length === positions.length) {
+        const kappaT = this.thermalStrainAt((x0 + x1) / 2).curvature;
+        const local = [
+          node.deflection / 1000, // mm -> m
+          node.rotationRight ?? node.rotation,
+          kappaT / 2 + M0 / (2 * EI),
+          V0 / (6 * EI),
+          q0 / (24 * EI),
+          dq / (120 * EI),
+        ];
+        deflection = shiftPolynomial(local, x0).map(c => c * 1000); // m -> mm
       }
+
+      segments.push({
+        start: x0,
+        end: x1,
+        shear: shiftPolynomial([V0, q0, dq / 2], x0),
+        moment: shiftPolynomial([M0, V0, q0 / 2, dq / 6], x0),
+        deflection,
+      });
     }
+    return segments;
+  }
 
-    return { value: maxDeflection * 1000, position: maxDeflPos, unit: 'mm' }; // Convert to mm
+  /**
+   * Shear and moment extremes. V is at most quadratic and M' = V, so the
+   * candidates are the segment ends, the roots of q (for V) and the roots
+   * of V (for M), all found in closed form.
+   */
+  private findExtremes(segments: BeamSegment[]): {
+    maxShear: { value: number; position: number };
+    maxMoment: { value: number; position: number };
+    minMoment: { value: number; position: number };
+    zeroShearPoints: number[];
+  } {
+    let maxShear = { value: 0, position: 0 };
+    let maxMoment = { value: -Infinity, position: 0 };
+    let minMoment = { value: Infinity, position: 0 };
+    const zeroShearPoints: number[] = [];
+
+    for (const seg of segments) {
+      const zeroShear = rootsInside(seg.shear, seg.start, seg.end);
+      zeroShearPoints.push(...zeroShear);
+
+      const shearCandidates = [seg.start, seg.end, ...rootsInside(differentiatePolynomial(seg.shear), seg.start, seg.end)];
+      for (const x of shearCandidates) {
+        const shear = evaluatePolynomial(seg.shear, x);
+        if (Math.abs(shear) > Math.abs(maxShear.value) + this.EPSILON) {
+          maxShear = { value: shear, position: x };
+        }
+      }
+
+      for (const x of [seg.start, seg.end, ...zeroShear]) {
+        const moment = evaluatePolynomial(seg.moment, x);
+        if (moment > maxMoment.value + this.EPSILON) {
+          maxMoment = { value: moment, position: x };
+        }
+        if (moment < minMoment.value - this.EPSILON) {
+          minMoment = { value: moment, position: x };
+        }
+      }
+    }
+
+    if (segments.length === 0) {
+      maxMoment = { value: 0, position: 0 };
+      minMoment = { value: 0, position: 0 };
+    }
+    return { maxShear, maxMoment, minMoment, zeroShearPoints };
+  }
+
+  // Elastic curve sampled from the segment deflection polynomials
+  private calculateElasticCurve(xValues: number[], segments: BeamSegment[]): DeflectionPoint[] {
+    if (segments.length === 0 || segments.some(seg => seg.deflection.length === 0)) return [];
+
+    let e = 0;
+    return xValues.map(x => {
+      while (e < segments.length - 1 && x > segments[e + 1].start - NODE_TOLERANCE) {
+        e++;
+      }
+      const seg = segments[e];
+      const slope = evaluatePolynomial(differentiatePolynomial(seg.deflection), x) / 1000; // mm/m -> rad
+      return { x, deflection: evaluatePolynomial(seg.deflection, x), slope };
+    });
+  }
+
+  /**
+   * Serviceability check δ ≤ L/n for every span.
+   * Spans are measured between vertical supports; overhangs and cantilevers
+   * use twice their length as the reference span.
+   * Deflections are measured from the chord between the support points,
+   * so prescribed settlements do not count as sag.
+   */
+  private checkServiceability(points: DeflectionPoint[]): ServiceabilityResult | undefined {
+    if (points.length === 0) return undefined;
+
+    const L = this.config.length;
+    const supportPositions = Array.from(new Set(
+      this.config.supports
+        .filter(s => s.type !== SupportType.FREE)
+        .map(s => s.position)
+    )).sort((a, b) => a - b);
+
+    // Deflection at a support, taken from the nearest curve point
+    const deflectionAt = (x: number) =>
+      points.reduce((best, p) => (Math.abs(p.x - x) < Math.abs(best.x - x) ? p : best)).deflection;
+
+    const regions: Array<{ from: number; to: number; reference: number; chord: (x: number) => number }> = [];
+    if (supportPositions.length > 0) {
+      const first = supportPositions[0];
+      const last = supportPositions[supportPositions.length - 1];
+      if (first > NODE_TOLERANCE) {
+        const base = deflectionAt(first);
+        regions.push({ from: 0, to: first, reference: 2 * first, chord: () => base });
+      }
+      for (let i = 0; i < supportPositions.length - 1; i++) {
+        const from = supportPositions[i];
+        const to = supportPositions[i + 1];
+        const vFrom = deflectionAt(from);
+        const vTo = deflectionAt(to);
+        regions.push({
+          from,
+          to,
+          reference: to - from,
+          chord: x => vFrom + ((vTo - vFrom) * (x - from)) / (to - from),
+        });
+      }
+      if (L - last > NODE_TOLERANCE) {
+        const base = deflectionAt(last);
+        regions.push({ from: last, to: L, reference: 2 * (L - last), chord: () => base });
+      }
+    }
+
+    let governing: ServiceabilityResult | undefined;
+    for (const region of regions) {
+      if (region.reference <= NODE_TOLERANCE) continue;
+      let peak = { value: 0, position: region.from };
+      for (const p of points) {
+        if (p.x < region.from - NODE_TOLERANCE || p.x > region.to + NODE_TOLERANCE) continue;
+        const relative = p.deflection - region.chord(p.x);
+        if (Math.abs(relative) > Math.abs(peak.value)) {
+          peak = { value: relative, position: p.x };
+        }
+      }
+
+      const spanMm = region.reference * 1000;
+      const utilization = Math.abs(peak.value) / spanMm;
+      if (!governing || utilization > Math.abs(governing.deflection) / (governing.referenceLength * 1000)) {
+        governing = {
+          referenceLength: region.reference,
+          deflection: peak.value,
+          position: peak.position,
+          spanRatio: peak.value !== 0 ? spanMm / Math.abs(peak.value) : Infinity,
+          checks: SERVICEABILITY_LIMITS.map(divisor => {
+            const allowable = spanMm / divisor;
+            return {
+              label: `L/${divisor}`,
+              divisor,
+              allowable,
+              passed: Math.abs(peak.value) <= allowable,
+            };
+          }),
+        };
+      }
+    }
+
+    return governing;
+  }
+
+  // Lightweight analysis for repeated solves (influence lines, load trains)
+  analyzeSection(x: number): SectionForces | null {
+    const reactionResults = this.calculateReactions();
+    if (!reactionResults.isValid) return null;
+    return {
+      reactions: reactionResults.reactions,
+      ...this.internalForcesAt(x, reactionResults.reactions),
+    };
   }
 
   // Main analysis function
@@ -766,6 +1525,22 @@ export function calculateReactions(config: BeamConfig): AnalysisResults {
   return calculator.analyze();
 }
 
+export function calculateSectionForces(config: BeamConfig, x: number): SectionForces | null {
+  const calculator = new ReactionCalculator(config);
+  return calculator.analyzeSection(x);
+}
+
+// Load-only helpers: the beam itself does not affect them
+export function getLoadResultant(load: Load): LoadResultant {
+  const calculator = new ReactionCalculator({ length: 0, supports: [], loads: [load] });
+  return calculator.getEquivalentLoad(load);
+}
+
+export function getDistributedLoadPieces(load: Load): DistributedPiece[] {
+  const calculator = new ReactionCalculator({ length: 0, supports: [], loads: [load] });
+  return calculator.getDistributedPieces(load);
+}
+
 export function getPresetKeys(): string[] {
   return Object.keys(PRESET_SYSTEMS);
 }
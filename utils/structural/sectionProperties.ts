@@ -4,6 +4,8 @@
 // TS 500 ve Eurocode 3 standartlarına uygun
 // ============================================================================
 
+import { STEEL_PROFILE_CATALOGUE } from './steelProfiles';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -15,8 +17,11 @@ export type SectionShape =
   | 'i-beam'       // I Profil
   | 't-beam'       // T Profil
   | 'l-beam'       // L Profil (açık kenar)
+  | 'channel'      // U Profil
   | 'box'          // Kutu profil
-  | 'pipe';        // Boru
+  | 'pipe'         // Boru
+  | 'polygon'      // Köşe koordinatlı poligon (boşluklu)
+  | 'composite';   // Bileşik kesit (parçaların birleşimi)
 
 export interface RectangleSection {
   shape: 'rectangle';
@@ -58,6 +63,15 @@ export interface LBeamSection {
   thickness: number; // mm (t) - kalınlık
 }
 
+// Web on the left, flanges open to the right (parallel flanges)
+export interface ChannelSection {
+  shape: 'channel';
+  height: number;   // mm (h)
+  flangeWidth: number; // mm (bf)
+  flangeThickness: number; // mm (tf)
+  webThickness: number; // mm (tw)
+}
+
 export interface BoxSection {
   shape: 'box';
   height: number;   // mm (h)
@@ -71,6 +85,30 @@ export interface PipeSection {
   wallThickness: number; // mm (t)
 }
 
+// Section plane coordinates: z horizontal (+ right), y vertical (+ up)
+export interface SectionPoint {
+  z: number; // mm
+  y: number; // mm
+}
+
+export interface PolygonSection {
+  shape: 'polygon';
+  vertices: SectionPoint[]; // Dış sınır, herhangi bir yönde
+  holes?: SectionPoint[][]; // Boşluk sınırları
+}
+
+export interface CompositePart {
+  section: SectionInput;
+  offsetZ: number; // mm - parçanın sol kenarı
+  offsetY: number; // mm - parçanın alt kenarı
+}
+
+// Parts must not overlap, their properties are summed
+export interface CompositeSection {
+  shape: 'composite';
+  parts: CompositePart[];
+}
+
 export type SectionInput =
   | RectangleSection
   | CircleSection
@@ -78,8 +116,11 @@ export type SectionInput =
   | IBeamSection
   | TBeamSection
   | LBeamSection
+  | ChannelSection
   | BoxSection
-  | PipeSection;
+  | PipeSection
+  | PolygonSection
+  | CompositeSection;
 
 export interface SectionProperties {
   area: number;        // mm² (A)
@@ -91,12 +132,48 @@ export interface SectionProperties {
   rz: number;          // mm (rz - z ekseni dönüş yarıçapı)
   centroidY: number;   // mm - centroid y pozisyonu
   centroidZ: number;   // mm - centroid z pozisyonu
+  iyz: number;         // mm⁴ (Iyz - çarpım atalet momenti, ∫yz dA)
+  i1: number;          // mm⁴ (I1 - asal atalet momenti, maks)
+  i2: number;          // mm⁴ (I2 - asal atalet momenti, min)
+  principalAngle: number; // derece - yataydan I1 eksenine, saat yönü tersine
+  wply: number;        // mm³ (Wpl,y - y ekseni plastik kesit modülü)
+  wplz: number;        // mm³ (Wpl,z - z ekseni plastik kesit modülü)
+  shapeFactorY: number; // Wpl,y / Wel,y (Wel en uzak life göre)
+  shapeFactorZ: number; // Wpl,z / Wel,z
+  // Burulma özellikleri ince cidarlı yaklaşımla; genel poligonlarda tanımsız
+  j?: number;          // mm⁴ (It - St. Venant burulma sabiti)
+  iw?: number;         // mm⁶ (Iw - çarpılma sabiti)
+  shearCenterY?: number; // mm - kayma merkezi y pozisyonu
+  shearCenterZ?: number; // mm - kayma merkezi z pozisyonu
+}
+
+// Moments of inertia about centroidal axes rotated by an angle
+export interface RotatedInertia {
+  angle: number; // derece
+  iu: number;    // mm⁴ - u ekseni (yataydan angle kadar dönmüş)
+  iv: number;    // mm⁴ - v ekseni (u'ya dik)
+  iuv: number;   // mm⁴ - çarpım atalet momenti
 }
 
 // ============================================================================
 // CALCULATION FUNCTIONS
 // ============================================================================
 
+// Asal atalet momentleri: I1,2 = (Iy+Iz)/2 ± √(((Iy-Iz)/2)² + Iyz²)
+function principalAxes(iy: number, iz: number, iyz: number) {
+  const mean = (iy + iz) / 2;
+  const radius = Math.hypot((iy - iz) / 2, iyz);
+  // I(θ) = mean + (Iy-Iz)/2·cos2θ - Iyz·sin2θ is largest at tan2θ = -2Iyz/(Iy-Iz)
+  const angle = radius < 1e-9 * Math.max(mean, 1) ? 0 : (Math.atan2(-2 * iyz, iy - iz) / 2) * (180 / Math.PI);
+  // Axes are undirected, report the angle in (-90°, 90°]
+  return { i1: mean + radius, i2: mean - radius, principalAngle: angle <= -90 ? angle + 180 : angle };
+}
+
+// Plastik kesit modülleri ve şekil faktörü α = Wpl / Wel (Wel ilk akma, en uzak lif)
+function plasticModuli(wply: number, wplz: number, welY: number, welZ: number) {
+  return { wply, wplz, shapeFactorY: wply / welY, shapeFactorZ: wplz / welZ };
+}
+
 // Dikdörtgen kesit
 function calcRectangle(input: RectangleSection): SectionProperties {
   const { width, height } = input;
@@ -118,6 +195,15 @@ function calcRectangle(input: RectangleSection): SectionProperties {
   const ry = Math.sqrt(iy / area);
   const rz = Math.sqrt(iz / area);
 
+  // Wpl = b * h² / 4
+  const wply = (width * height * height) / 4;
+  const wplz = (height * width * width) / 4;
+
+  // It = a * s³ * (1/3 - 0.21 * s/a * (1 - s⁴ / 12a⁴)), a uzun, s kısa kenar
+  const long = Math.max(width, height);
+  const short = Math.min(width, height);
+  const j = long * Math.pow(short, 3) * (1 / 3 - 0.21 * (short / long) * (1 - Math.pow(short / long, 4) / 12));
+
   return {
     area,
     iy,
@@ -128,6 +214,13 @@ function calcRectangle(input: RectangleSection): SectionProperties {
     rz,
     centroidY: height / 2,
     centroidZ: width / 2,
+    iyz: 0, // Simetrik kesit
+    ...principalAxes(iy, iz, 0),
+    ...plasticModuli(wply, wplz, wy, wz),
+    j,
+    iw: 0, // Dolu kesit: çarpılma ihmal edilir
+    shearCenterY: height / 2,
+    shearCenterZ: width / 2,
   };
 }
 
@@ -151,6 +244,9 @@ function calcCircle(input: CircleSection): SectionProperties {
   const ry = radius / 2;
   const rz = ry;
 
+  // Wpl = D³ / 6
+  const wpl = Math.pow(diameter, 3) / 6;
+
   return {
     area,
     iy,
@@ -161,6 +257,13 @@ function calcCircle(input: CircleSection): SectionProperties {
     rz,
     centroidY: radius,
     centroidZ: radius,
+    iyz: 0, // Simetrik kesit
+    ...principalAxes(iy, iz, 0),
+    ...plasticModuli(wpl, wpl, wy, wz),
+    j: iy + iz, // It = Ip = π * r⁴ / 2
+    iw: 0,
+    shearCenterY: radius,
+    shearCenterZ: radius,
   };
 }
 
@@ -186,6 +289,14 @@ function calcTriangle(input: TriangleSection): SectionProperties {
   const ry = Math.sqrt(iy / area);
   const rz = Math.sqrt(iz / area);
 
+  // Plastik tarafsız eksen tepeden h/√2: Wpl,y = b * h² / 3 * (1 - 1/√2)
+  const wply = ((base * height * height) / 3) * (1 - Math.SQRT1_2);
+  // Simetri ekseni alanı ikiye böler: Wpl,z = b² * h / 12
+  const wplz = (base * base * height) / 12;
+
+  // It ≈ b³ * h³ / (15b² + 20h²) (ikizkenar üçgen, eşkenarda tam)
+  const j = Math.pow(base * height, 3) / (15 * base * base + 20 * height * height);
+
   return {
     area,
     iy,
@@ -196,6 +307,14 @@ function calcTriangle(input: TriangleSection): SectionProperties {
     rz,
     centroidY: height / 3,
     centroidZ: base / 2,
+    iyz: 0, // Simetrik kesit
+    ...principalAxes(iy, iz, 0),
+    ...plasticModuli(wply, wplz, wy, wz),
+    j,
+    iw: 0, // Dolu kesit: çarpılma ihmal edilir
+    // Simetri ekseni üzerinde, ağırlık merkezinde kabul edilir
+    shearCenterY: height / 3,
+    shearCenterZ: base / 2,
   };
 }
 
@@ -230,6 +349,17 @@ function calcIBeam(input: IBeamSection): SectionProperties {
   const ry = Math.sqrt(iy / area);
   const rz = Math.sqrt(iz / area);
 
+  // Wpl,y = bf * tf * (h - tf) + tw * hw² / 4
+  const wply = flangeWidth * flangeThickness * (height - flangeThickness) + (webThickness * hw * hw) / 4;
+  // Wpl,z = tf * bf² / 2 + hw * tw² / 4
+  const wplz = (flangeThickness * flangeWidth * flangeWidth) / 2 + (hw * webThickness * webThickness) / 4;
+
+  // It = (2 * bf * tf³ + hw * tw³) / 3 (köşe yarıçapları ihmal)
+  const j = (2 * flangeWidth * Math.pow(flangeThickness, 3) + hw * Math.pow(webThickness, 3)) / 3;
+
+  // Iw = Iz,başlık * (h - tf)² / 2 = tf * bf³ * (h - tf)² / 24
+  const iw = (flangeThickness * Math.pow(flangeWidth, 3) * Math.pow(height - flangeThickness, 2)) / 24;
+
   return {
     area,
     iy,
@@ -240,6 +370,14 @@ function calcIBeam(input: IBeamSection): SectionProperties {
     rz,
     centroidY: height / 2,
     centroidZ: flangeWidth / 2,
+    iyz: 0, // Simetrik kesit
+    ...principalAxes(iy, iz, 0),
+    ...plasticModuli(wply, wplz, wy, wz),
+    j,
+    iw,
+    // Çift simetrik kesit: kayma merkezi ağırlık merkezinde
+    shearCenterY: height / 2,
+    shearCenterZ: flangeWidth / 2,
   };
 }
 
@@ -268,12 +406,23 @@ function calcTBeam(input: TBeamSection): SectionProperties {
   const iz = (flangeThickness * Math.pow(flangeWidth, 3)) / 12 +
              (hw * Math.pow(webThickness, 3)) / 12;
 
-  const wy = Math.max(iy / centroidY, iy / (height - centroidY));
+  // Elastic moduli at the extreme fibre, where yielding starts
+  const wy = Math.min(iy / centroidY, iy / (height - centroidY));
   const wz = iz / (flangeWidth / 2);
 
   const ry = Math.sqrt(iy / area);
   const rz = Math.sqrt(iz / area);
 
+  // Plastik tarafsız eksen alanı ikiye böler, başlıkta ya da gövdede kalabilir
+  const outline = signedLoops(input);
+
+  // It = (bf * tf³ + hw * tw³) / 3
+  const j = (flangeWidth * Math.pow(flangeThickness, 3) + hw * Math.pow(webThickness, 3)) / 3;
+
+  // Iw = (tf³ * bf³ / 4 + tw³ * h'³) / 36, h' = h - tf/2 (gövde orta hattı)
+  const webLength = height - flangeThickness / 2;
+  const iw = (Math.pow(flangeThickness * flangeWidth, 3) / 4 + Math.pow(webThickness * webLength, 3)) / 36;
+
   return {
     area,
     iy,
@@ -284,6 +433,14 @@ function calcTBeam(input: TBeamSection): SectionProperties {
     rz,
     centroidY,
     centroidZ: flangeWidth / 2,
+    iyz: 0, // Simetrik kesit
+    ...principalAxes(iy, iz, 0),
+    ...plasticModuli(plasticModulus(outline, 'y'), plasticModulus(outline, 'z'), wy, wz),
+    j,
+    iw,
+    // Başlık ve gövde orta hatlarının kesişimi
+    shearCenterY: height - flangeThickness / 2,
+    shearCenterZ: flangeWidth / 2,
   };
 }
 
@@ -314,12 +471,24 @@ function calcLBeam(input: LBeamSection): SectionProperties {
   const I2z = (thickness * Math.pow(width - thickness, 3)) / 12 + A2 * Math.pow(z2 - centroidZ, 2);
   const iz = I1z + I2z;
 
-  const wy = Math.max(iy / centroidY, iy / (height - centroidY));
-  const wz = Math.max(iz / centroidZ, iz / (width - centroidZ));
+  // Iyz hesabı (parçaların kendi eksenlerinde Iyz = 0)
+  const iyz = A1 * (y1 - centroidY) * (z1 - centroidZ) + A2 * (y2 - centroidY) * (z2 - centroidZ);
+
+  // Extreme fibre on both axes, as for the tee
+  const wy = Math.min(iy / centroidY, iy / (height - centroidY));
+  const wz = Math.min(iz / centroidZ, iz / (width - centroidZ));
 
   const ry = Math.sqrt(iy / area);
   const rz = Math.sqrt(iz / area);
 
+  const outline = signedLoops(input);
+
+  // It = t³ * (h + b - t) / 3
+  const j = (Math.pow(thickness, 3) * (height + width - thickness)) / 3;
+
+  // Iw = t³ * (h'³ + b'³) / 36, kol orta hat uzunlukları
+  const iw = (Math.pow(thickness, 3) * (Math.pow(height - thickness / 2, 3) + Math.pow(width - thickness / 2, 3))) / 36;
+
   return {
     area,
     iy,
@@ -330,6 +499,80 @@ function calcLBeam(input: LBeamSection): SectionProperties {
     rz,
     centroidY,
     centroidZ,
+    iyz,
+    ...principalAxes(iy, iz, iyz),
+    // Geometrik y-z eksenleri etrafında (asal eksenler değil)
+    ...plasticModuli(plasticModulus(outline, 'y'), plasticModulus(outline, 'z'), wy, wz),
+    j,
+    iw,
+    // Kol orta hatlarının kesişimi (köşe)
+    shearCenterY: thickness / 2,
+    shearCenterZ: thickness / 2,
+  };
+}
+
+// U Profil (paralel başlıklı model, gövde solda)
+function calcChannel(input: ChannelSection): SectionProperties {
+  const { height, flangeWidth, flangeThickness, webThickness } = input;
+
+  const hw = height - 2 * flangeThickness;
+  const flangeArea = flangeWidth * flangeThickness;
+  const area = 2 * flangeArea + hw * webThickness;
+
+  // Centroid hesabı (gövde sırtından)
+  const centroidZ = (2 * flangeArea * (flangeWidth / 2) + hw * webThickness * (webThickness / 2)) / area;
+
+  // Iy = (bf * h³ - (bf - tw) * hw³) / 12
+  const iy = (flangeWidth * Math.pow(height, 3) - (flangeWidth - webThickness) * Math.pow(hw, 3)) / 12;
+
+  // Iz hesabı (paralel eksen teoremi ile)
+  const flangeIz = (flangeThickness * Math.pow(flangeWidth, 3)) / 12 + flangeArea * Math.pow(flangeWidth / 2 - centroidZ, 2);
+  const webIz = (hw * Math.pow(webThickness, 3)) / 12 + hw * webThickness * Math.pow(webThickness / 2 - centroidZ, 2);
+  const iz = 2 * flangeIz + webIz;
+
+  const wy = iy / (height / 2);
+  // Uç lif başlık ucunda (tablo değerleriyle aynı)
+  const wz = iz / (flangeWidth - centroidZ);
+
+  const ry = Math.sqrt(iy / area);
+  const rz = Math.sqrt(iz / area);
+
+  // Wpl,y = bf * tf * (h - tf) + tw * hw² / 4
+  const wply = flangeArea * (height - flangeThickness) + (webThickness * hw * hw) / 4;
+
+  // It = (2 * bf * tf³ + hw * tw³) / 3
+  const j = (2 * flangeWidth * Math.pow(flangeThickness, 3) + hw * Math.pow(webThickness, 3)) / 3;
+
+  // Orta hat ölçüleri: b' = bf - tw/2, h' = h - tf
+  const b1 = flangeWidth - webThickness / 2;
+  const h1 = height - flangeThickness;
+  const denominator = 6 * b1 * flangeThickness + h1 * webThickness;
+
+  // Iw = tf * b'³ * h'² / 12 * (3b'tf + 2h'tw) / (6b'tf + h'tw)
+  const iw =
+    ((flangeThickness * Math.pow(b1, 3) * h1 * h1) / 12) *
+    ((3 * b1 * flangeThickness + 2 * h1 * webThickness) / denominator);
+
+  // Kayma merkezi gövde orta hattından sırt tarafına e = 3b'²tf / (6b'tf + h'tw)
+  const shearCenterOffset = (3 * b1 * b1 * flangeThickness) / denominator;
+
+  return {
+    area,
+    iy,
+    iz,
+    wy,
+    wz,
+    ry,
+    rz,
+    centroidY: height / 2,
+    centroidZ,
+    iyz: 0, // Simetrik kesit
+    ...principalAxes(iy, iz, 0),
+    ...plasticModuli(wply, plasticModulus(signedLoops(input), 'z'), wy, wz),
+    j,
+    iw,
+    shearCenterY: height / 2,
+    shearCenterZ: webThickness / 2 - shearCenterOffset,
   };
 }
 
@@ -354,6 +597,16 @@ function calcBox(input: BoxSection): SectionProperties {
   const ry = Math.sqrt(iy / area);
   const rz = Math.sqrt(iz / area);
 
+  // Wpl = (B*H² - b*h²) / 4
+  const wply = (width * height * height - w_inner * h_inner * h_inner) / 4;
+  const wplz = (height * width * width - h_inner * w_inner * w_inner) / 4;
+
+  // Kapalı kesit (EN 10210, keskin köşe): It = t³ * p / 3 + 2 * K * Ah, K = 2 * Ah * t / p
+  const enclosedArea = (width - thickness) * (height - thickness); // Ah - orta hat içindeki alan
+  const perimeter = 2 * (width - thickness + height - thickness); // p - orta hat çevresi
+  const j =
+    (Math.pow(thickness, 3) * perimeter) / 3 + (4 * enclosedArea * enclosedArea * thickness) / perimeter;
+
   return {
     area,
     iy,
@@ -364,6 +617,13 @@ function calcBox(input: BoxSection): SectionProperties {
     rz,
     centroidY: height / 2,
     centroidZ: width / 2,
+    iyz: 0, // Simetrik kesit
+    ...principalAxes(iy, iz, 0),
+    ...plasticModuli(wply, wplz, wy, wz),
+    j,
+    iw: 0, // Kapalı kesit: çarpılma ihmal edilir
+    shearCenterY: height / 2,
+    shearCenterZ: width / 2,
   };
 }
 
@@ -386,6 +646,9 @@ function calcPipe(input: PipeSection): SectionProperties {
   const ry = Math.sqrt(iy / area);
   const rz = ry;
 
+  // Wpl = (D³ - d³) / 6
+  const wpl = (Math.pow(outerDiameter, 3) - Math.pow(2 * innerRadius, 3)) / 6;
+
   return {
     area,
     iy,
@@ -396,9 +659,386 @@ function calcPipe(input: PipeSection): SectionProperties {
     rz,
     centroidY: outerRadius,
     centroidZ: outerRadius,
+    iyz: 0, // Simetrik kesit
+    ...principalAxes(iy, iz, 0),
+    ...plasticModuli(wpl, wpl, wy, wz),
+    j: iy + iz, // It = Ip = π * (R⁴ - r⁴) / 2
+    iw: 0, // Kapalı kesit: çarpılma yok
+    shearCenterY: outerRadius,
+    shearCenterZ: outerRadius,
   };
 }
 
+// Completes W, Wpl, r and the principal axes from centroidal moments of inertia
+function fromCentroidalInertia(
+  input: PolygonSection | CompositeSection,
+  area: number,
+  iy: number,
+  iz: number,
+  iyz: number,
+  centroidY: number,
+  centroidZ: number
+): SectionProperties {
+  const { width, height } = getSectionExtents(input);
+  // Extreme fibre on the farther side of the centroid
+  const wy = iy / Math.max(centroidY, height - centroidY);
+  const wz = iz / Math.max(centroidZ, width - centroidZ);
+  const outline = signedLoops(input);
+  return {
+    area,
+    iy,
+    iz,
+    wy,
+    wz,
+    ry: Math.sqrt(iy / area),
+    rz: Math.sqrt(iz / area),
+    centroidY,
+    centroidZ,
+    iyz,
+    ...principalAxes(iy, iz, iyz),
+    ...plasticModuli(plasticModulus(outline, 'y'), plasticModulus(outline, 'z'), wy, wz),
+  };
+}
+
+// Signed area integrals of a closed loop about the origin (Green's theorem)
+function loopIntegrals(loop: SectionPoint[]) {
+  let area = 0;
+  let qz = 0; // ∫z dA
+  let qy = 0; // ∫y dA
+  let iy = 0; // ∫y² dA
+  let iz = 0; // ∫z² dA
+  let iyz = 0; // ∫yz dA
+  for (let i = 0; i < loop.length; i++) {
+    const { z: z0, y: y0 } = loop[i];
+    const { z: z1, y: y1 } = loop[(i + 1) % loop.length];
+    const cross = z0 * y1 - z1 * y0;
+    area += cross / 2;
+    qz += ((z0 + z1) * cross) / 6;
+    qy += ((y0 + y1) * cross) / 6;
+    iy += ((y0 * y0 + y0 * y1 + y1 * y1) * cross) / 12;
+    iz += ((z0 * z0 + z0 * z1 + z1 * z1) * cross) / 12;
+    iyz += ((z0 * y1 + 2 * z0 * y0 + 2 * z1 * y1 + z1 * y0) * cross) / 24;
+  }
+  // Normalise clockwise loops to a positive area
+  const sign = area < 0 ? -1 : 1;
+  return { area: sign * area, qz: sign * qz, qy: sign * qy, iy: sign * iy, iz: sign * iz, iyz: sign * iyz };
+}
+
+// Poligon kesit (boşluklu), koordinatlar sınır kutusunun sol alt köşesine göre
+function calcPolygon(input: PolygonSection): SectionProperties {
+  const { vertices, holes = [] } = input;
+  if (vertices.length < 3 || holes.some(h => h.length < 3)) {
+    throw new Error('Poligon en az 3 köşe içermeli');
+  }
+
+  const minZ = Math.min(...vertices.map(p => p.z));
+  const minY = Math.min(...vertices.map(p => p.y));
+  const shift = (loop: SectionPoint[]) => loop.map(p => ({ z: p.z - minZ, y: p.y - minY }));
+
+  const outer = loopIntegrals(shift(vertices));
+  const voids = holes.map(h => loopIntegrals(shift(h)));
+  const total = (key: keyof typeof outer) => outer[key] - voids.reduce((sum, v) => sum + v[key], 0);
+
+  const area = total('area');
+  if (area <= 1e-9) {
+    throw new Error('Kesit alanı sıfır veya negatif');
+  }
+
+  const centroidZ = total('qz') / area;
+  const centroidY = total('qy') / area;
+
+  // Parallel axis theorem back to the centroid; torsion constants need the
+  // wall layout and are left undefined for a general outline
+  return fromCentroidalInertia(
+    input,
+    area,
+    total('iy') - area * centroidY * centroidY,
+    total('iz') - area * centroidZ * centroidZ,
+    total('iyz') - area * centroidY * centroidZ,
+    centroidY,
+    centroidZ
+  );
+}
+
+// Bileşik kesit: parçaların paralel eksen teoremi ile toplamı
+function calcComposite(input: CompositeSection): SectionProperties {
+  if (input.parts.length === 0) {
+    throw new Error('Bileşik kesit en az bir parça içermeli');
+  }
+
+  const { minZ, minY } = getCompositeBounds(input);
+  const parts = input.parts.map(part => {
+    const props = calculateSectionProperties(part.section);
+    return {
+      props,
+      z: part.offsetZ - minZ + props.centroidZ,
+      y: part.offsetY - minY + props.centroidY,
+    };
+  });
+
+  const area = parts.reduce((sum, p) => sum + p.props.area, 0);
+  const centroidZ = parts.reduce((sum, p) => sum + p.props.area * p.z, 0) / area;
+  const centroidY = parts.reduce((sum, p) => sum + p.props.area * p.y, 0) / area;
+
+  let iy = 0;
+  let iz = 0;
+  let iyz = 0;
+  for (const { props, z, y } of parts) {
+    iy += props.iy + props.area * (y - centroidY) ** 2;
+    iz += props.iz + props.area * (z - centroidZ) ** 2;
+    iyz += props.iyz + props.area * (y - centroidY) * (z - centroidZ);
+  }
+
+  // Açık kesit kabulü: It = Σ It,i (parçalar kapalı hücre oluşturmamalı)
+  const partJ = parts.map(p => p.props.j);
+  const j = partJ.every(value => value !== undefined)
+    ? partJ.reduce<number>((sum, value) => sum + value!, 0)
+    : undefined;
+
+  return { ...fromCentroidalInertia(input, area, iy, iz, iyz, centroidY, centroidZ), j };
+}
+
+type SignedLoop = { loop: SectionPoint[]; sign: number };
+
+// Outline loops with +1 for solid and -1 for hole loops; unlike the drawing
+// outline, composite parts keep their own holes apart
+function signedLoops(input: SectionInput): SignedLoop[] {
+  if (input.shape === 'composite') {
+    const { minZ, minY } = getCompositeBounds(input);
+    return input.parts.flatMap(part =>
+      signedLoops(part.section).map(({ loop, sign }) => ({
+        sign,
+        loop: loop.map(p => ({ z: p.z + part.offsetZ - minZ, y: p.y + part.offsetY - minY })),
+      }))
+    );
+  }
+  return getSectionOutline(input).map((loop, i) => ({ loop, sign: i === 0 ? 1 : -1 }));
+}
+
+// Part of a closed loop above the line y = c (Sutherland-Hodgman, one edge)
+function clipAbove(loop: SectionPoint[], c: number): SectionPoint[] {
+  const clipped: SectionPoint[] = [];
+  for (let i = 0; i < loop.length; i++) {
+    const current = loop[i];
+    const next = loop[(i + 1) % loop.length];
+    if (current.y >= c) clipped.push(current);
+    if (current.y >= c !== next.y >= c) {
+      const t = (c - current.y) / (next.y - current.y);
+      clipped.push({ z: current.z + t * (next.z - current.z), y: c });
+    }
+  }
+  return clipped;
+}
+
+// Plastik kesit modülü: Wpl = ∫|y - yp| dA, yp alanı ikiye bölen plastik tarafsız eksen
+function plasticModulus(loops: SignedLoop[], axis: 'y' | 'z'): number {
+  // Bending about z uses horizontal distances, swap the coordinates
+  const oriented =
+    axis === 'y' ? loops : loops.map(({ loop, sign }) => ({ sign, loop: loop.map(p => ({ z: p.y, y: p.z })) }));
+
+  const above = (c: number) =>
+    oriented.reduce(
+      (sum, { loop, sign }) => {
+        const part = loopIntegrals(clipAbove(loop, c));
+        return { area: sum.area + sign * part.area, qy: sum.qy + sign * part.qy };
+      },
+      { area: 0, qy: 0 }
+    );
+
+  const ys = oriented.flatMap(({ loop }) => loop.map(p => p.y));
+  let low = Math.min(...ys);
+  let high = Math.max(...ys);
+  const total = above(low);
+
+  // Area above the line decreases monotonically: bisect for A/2
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (above(mid).area > total.area / 2) low = mid;
+    else high = mid;
+  }
+  const yp = (low + high) / 2;
+  const top = above(yp);
+
+  // ∫(y - yp) dA above + ∫(yp - y) dA below
+  return top.qy - yp * top.area + yp * (total.area - top.area) - (total.qy - top.qy);
+}
+
+// ============================================================================
+// SECTION GEOMETRY
+// ============================================================================
+
+const CIRCLE_SEGMENTS = 48;
+
+function circleLoop(radius: number, center: number): SectionPoint[] {
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+    return { z: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) };
+  });
+}
+
+function rectangleLoop(z: number, y: number, width: number, height: number): SectionPoint[] {
+  return [
+    { z, y },
+    { z: z + width, y },
+    { z: z + width, y: y + height },
+    { z, y: y + height },
+  ];
+}
+
+function getCompositeBounds(input: CompositeSection) {
+  const boxes = input.parts.map(part => ({ ...getSectionExtents(part.section), z: part.offsetZ, y: part.offsetY }));
+  const minZ = Math.min(...boxes.map(b => b.z));
+  const minY = Math.min(...boxes.map(b => b.y));
+  return {
+    minZ,
+    minY,
+    width: Math.max(...boxes.map(b => b.z + b.width)) - minZ,
+    height: Math.max(...boxes.map(b => b.y + b.height)) - minY,
+  };
+}
+
+/**
+ * Bounding box of a section (mm)
+ */
+export function getSectionExtents(input: SectionInput): { width: number; height: number } {
+  switch (input.shape) {
+    case 'rectangle':
+      return { width: input.width, height: input.height };
+    case 'circle':
+      return { width: input.diameter, height: input.diameter };
+    case 'triangle':
+      return { width: input.base, height: input.height };
+    case 'i-beam':
+    case 't-beam':
+    case 'channel':
+      return { width: input.flangeWidth, height: input.height };
+    case 'l-beam':
+    case 'box':
+      return { width: input.width, height: input.height };
+    case 'pipe':
+      return { width: input.outerDiameter, height: input.outerDiameter };
+    case 'polygon': {
+      const zs = input.vertices.map(p => p.z);
+      const ys = input.vertices.map(p => p.y);
+      return { width: Math.max(...zs) - Math.min(...zs), height: Math.max(...ys) - Math.min(...ys) };
+    }
+    case 'composite': {
+      const { width, height } = getCompositeBounds(input);
+      return { width, height };
+    }
+  }
+}
+
+/**
+ * Closed outlines of a section for drawing, relative to the bottom-left corner
+ * of its bounding box. Holes are separate loops (even-odd fill); circles are
+ * approximated by 48-gons.
+ */
+export function getSectionOutline(input: SectionInput): SectionPoint[][] {
+  switch (input.shape) {
+    case 'rectangle':
+      return [rectangleLoop(0, 0, input.width, input.height)];
+    case 'circle':
+      return [circleLoop(input.diameter / 2, input.diameter / 2)];
+    case 'triangle':
+      return [
+        [
+          { z: 0, y: 0 },
+          { z: input.base, y: 0 },
+          { z: input.base / 2, y: input.height },
+        ],
+      ];
+    case 'i-beam': {
+      const { height: h, flangeWidth: b, flangeThickness: tf, webThickness: tw } = input;
+      const w0 = (b - tw) / 2;
+      const w1 = (b + tw) / 2;
+      return [
+        [
+          { z: 0, y: 0 },
+          { z: b, y: 0 },
+          { z: b, y: tf },
+          { z: w1, y: tf },
+          { z: w1, y: h - tf },
+          { z: b, y: h - tf },
+          { z: b, y: h },
+          { z: 0, y: h },
+          { z: 0, y: h - tf },
+          { z: w0, y: h - tf },
+          { z: w0, y: tf },
+          { z: 0, y: tf },
+        ],
+      ];
+    }
+    case 't-beam': {
+      const { height: h, flangeWidth: b, flangeThickness: tf, webThickness: tw } = input;
+      const w0 = (b - tw) / 2;
+      const w1 = (b + tw) / 2;
+      return [
+        [
+          { z: w0, y: 0 },
+          { z: w1, y: 0 },
+          { z: w1, y: h - tf },
+          { z: b, y: h - tf },
+          { z: b, y: h },
+          { z: 0, y: h },
+          { z: 0, y: h - tf },
+          { z: w0, y: h - tf },
+        ],
+      ];
+    }
+    case 'l-beam': {
+      const { height: h, width: b, thickness: t } = input;
+      return [
+        [
+          { z: 0, y: 0 },
+          { z: b, y: 0 },
+          { z: b, y: t },
+          { z: t, y: t },
+          { z: t, y: h },
+          { z: 0, y: h },
+        ],
+      ];
+    }
+    case 'channel': {
+      const { height: h, flangeWidth: b, flangeThickness: tf, webThickness: tw } = input;
+      return [
+        [
+          { z: 0, y: 0 },
+          { z: b, y: 0 },
+          { z: b, y: tf },
+          { z: tw, y: tf },
+          { z: tw, y: h - tf },
+          { z: b, y: h - tf },
+          { z: b, y: h },
+          { z: 0, y: h },
+        ],
+      ];
+    }
+    case 'box': {
+      const { height: h, width: b, thickness: t } = input;
+      return [rectangleLoop(0, 0, b, h), rectangleLoop(t, t, b - 2 * t, h - 2 * t)];
+    }
+    case 'pipe': {
+      const radius = input.outerDiameter / 2;
+      return [circleLoop(radius, radius), circleLoop(radius - input.wallThickness, radius)];
+    }
+    case 'polygon': {
+      const minZ = Math.min(...input.vertices.map(p => p.z));
+      const minY = Math.min(...input.vertices.map(p => p.y));
+      const shift = (loop: SectionPoint[]) => loop.map(p => ({ z: p.z - minZ, y: p.y - minY }));
+      return [shift(input.vertices), ...(input.holes ?? []).map(shift)];
+    }
+    case 'composite': {
+      const { minZ, minY } = getCompositeBounds(input);
+      return input.parts.flatMap(part =>
+        getSectionOutline(part.section).map(loop =>
+          loop.map(p => ({ z: p.z + part.offsetZ - minZ, y: p.y + part.offsetY - minY }))
+        )
+      );
+    }
+  }
+}
+
 // ============================================================================
 // MAIN CALCULATION FUNCTION
 // ============================================================================
@@ -417,10 +1057,16 @@ export function calculateSectionProperties(input: SectionInput): SectionProperti
       return calcTBeam(input);
     case 'l-beam':
       return calcLBeam(input);
+    case 'channel':
+      return calcChannel(input);
     case 'box':
       return calcBox(input);
     case 'pipe':
       return calcPipe(input);
+    case 'polygon':
+      return calcPolygon(input);
+    case 'composite':
+      return calcComposite(input);
     default:
       throw new Error(`Bilinmeyen kesit şekli: ${(input as any).shape}`);
   }
@@ -430,12 +1076,27 @@ export function calculateSectionProperties(input: SectionInput): SectionProperti
 // STANDARD PROFILES DATABASE (Türçe Çelik Profilleri)
 // ============================================================================
 
+// Catalogue values in table units: kg/m, cm², cm⁴, cm³
+export interface TabulatedProperties {
+  mass: number;      // Birim ağırlık G (kg/m)
+  area: number;      // A (cm²)
+  iy: number;        // Iy (cm⁴)
+  iz: number;        // Iz (cm⁴)
+  wy: number;        // Wel,y (cm³)
+  wz: number;        // Wel,z (cm³)
+  wply?: number;     // Wpl,y (cm³)
+  wplz?: number;     // Wpl,z (cm³)
+  iu?: number;       // Köşebent asal eksen Iu (cm⁴)
+  iv?: number;       // Köşebent asal eksen Iv (cm⁴)
+}
+
 export interface StandardProfile {
   code: string;      // Profil kodu (örn: NP_200)
   name: string;      // Profil adı
   shape: SectionShape;
   dimensions: Record<string, number>;
   properties: SectionProperties;
+  tabulated?: TabulatedProperties;  // Katalog değerleri (köşe yarıçapları dahil)
 }
 
 // NP (Normal Profil) I-profilleri - TS 145
@@ -592,32 +1253,91 @@ export const PIPE_PROFILES: StandardProfile[] = [
 
 // Initialize properties for standard profiles
 function initializeStandardProfiles() {
-  for (const profile of NP_PROFILES) {
+  for (const profile of getAllStandardProfiles()) {
     profile.properties = calculateSectionProperties({
-      shape: 'i-beam',
+      shape: profile.shape,
       ...profile.dimensions,
-    } as IBeamSection);
-  }
-  for (const profile of BOX_PROFILES) {
-    profile.properties = calculateSectionProperties({
-      shape: 'box',
-      ...profile.dimensions,
-    } as BoxSection);
-  }
-  for (const profile of PIPE_PROFILES) {
-    profile.properties = calculateSectionProperties({
-      shape: 'pipe',
-      ...profile.dimensions,
-    } as PipeSection);
+    } as SectionInput);
   }
 }
 
 initializeStandardProfiles();
 
+// ============================================================================
+// COMPOSITE SECTION PRESETS (Bileşik Kesit Şablonları)
+// ============================================================================
+
+// U 200 (TS 910) as a polygon, web on the left, flanges opening to the right
+const UPN_200: PolygonSection = {
+  shape: 'polygon',
+  vertices: [
+    { z: 0, y: 0 },
+    { z: 75, y: 0 },
+    { z: 75, y: 11.5 },
+    { z: 8.5, y: 11.5 },
+    { z: 8.5, y: 188.5 },
+    { z: 75, y: 188.5 },
+    { z: 75, y: 200 },
+    { z: 0, y: 200 },
+  ],
+};
+
+export const COMPOSITE_SECTION_PRESETS: Record<string, CompositeSection> = {
+  // Kaynaklı levha kiriş: 2 × 300x20 başlık, 960x10 gövde
+  'plate-girder': {
+    shape: 'composite',
+    parts: [
+      { section: { shape: 'rectangle', width: 300, height: 20 }, offsetZ: 0, offsetY: 0 },
+      { section: { shape: 'rectangle', width: 10, height: 960 }, offsetZ: 145, offsetY: 20 },
+      { section: { shape: 'rectangle', width: 300, height: 20 }, offsetZ: 0, offsetY: 980 },
+    ],
+  },
+  // NP 300 alt başlığına 200x12 takviye levhası
+  'np-cover-plate': {
+    shape: 'composite',
+    parts: [
+      { section: { shape: 'rectangle', width: 200, height: 12 }, offsetZ: 0, offsetY: 0 },
+      {
+        section: { shape: 'i-beam', height: 300, flangeWidth: 150, flangeThickness: 11.5, webThickness: 7.2 },
+        offsetZ: 25,
+        offsetY: 12,
+      },
+    ],
+  },
+  // U 200 üzerine 160x10 başlık levhası (kren yolu kirişi)
+  'channel-plate': {
+    shape: 'composite',
+    parts: [
+      { section: UPN_200, offsetZ: 0, offsetY: 0 },
+      { section: { shape: 'rectangle', width: 160, height: 10 }, offsetZ: -40, offsetY: 200 },
+    ],
+  },
+};
+
+export const COMPOSITE_SECTION_LABELS: Record<string, string> = {
+  'plate-girder': 'Levha Kiriş',
+  'np-cover-plate': 'NP 300 + Levha',
+  'channel-plate': 'U 200 + Levha',
+};
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+// Döndürülmüş eksenler (Mohr dairesi): Iu = (Iy+Iz)/2 + (Iy-Iz)/2·cos2θ - Iyz·sin2θ
+export function getRotatedInertia(properties: SectionProperties, angle: number): RotatedInertia {
+  const { iy, iz, iyz } = properties;
+  const twoTheta = (2 * angle * Math.PI) / 180;
+  const mean = (iy + iz) / 2;
+  const half = (iy - iz) / 2;
+  return {
+    angle,
+    iu: mean + half * Math.cos(twoTheta) - iyz * Math.sin(twoTheta),
+    iv: mean - half * Math.cos(twoTheta) + iyz * Math.sin(twoTheta),
+    iuv: half * Math.sin(twoTheta) + iyz * Math.cos(twoTheta),
+  };
+}
+
 // Gerilme hesabı: σ = M / W
 export function calculateBendingStress(moment: number, sectionModulus: number): number {
   // moment: kNm, sectionModulus: mm³
@@ -672,13 +1392,61 @@ export function checkSlenderness(
 // ============================================================================
 
 export function getStandardProfile(code: string): StandardProfile | undefined {
-  return [...NP_PROFILES, ...BOX_PROFILES, ...PIPE_PROFILES].find(p => p.code === code);
+  return getAllStandardProfiles().find(p => p.code === code);
 }
 
 export function getAllStandardProfiles(): StandardProfile[] {
-  return [...NP_PROFILES, ...BOX_PROFILES, ...PIPE_PROFILES];
+  return [...NP_PROFILES, ...BOX_PROFILES, ...PIPE_PROFILES, ...STEEL_PROFILE_CATALOGUE];
 }
 
 export function getProfilesByShape(shape: SectionShape): StandardProfile[] {
   return getAllStandardProfiles().filter(p => p.shape === shape);
 }
+
+// Profile search filter; minimums in catalogue units (cm³, cm⁴)
+export interface ProfileFilter {
+  query?: string;
+  series?: string;
+  shapes?: SectionShape[];
+  minWy?: number;
+  minIy?: number;
+}
+
+// Series is the code prefix: IPE_300 → IPE, L_100x100x10 → L
+export function getProfileSeries(profile: StandardProfile): string {
+  return profile.code.split('_')[0];
+}
+
+// Tabulated values where the catalogue has them, otherwise the computed ones
+function profileStiffness(profile: StandardProfile): { area: number; iy: number; wy: number } {
+  if (profile.tabulated) return profile.tabulated;
+  const { area, iy, wy } = profile.properties;
+  return { area: area / 1e2, iy: iy / 1e4, wy: wy / 1e3 };
+}
+
+// Numeric query words must equal a whole size (HEA 100 is not HEA 1000), others match as substrings
+function matchesQuery(profile: StandardProfile, words: string[]): boolean {
+  const text = `${profile.code} ${profile.name}`.toLowerCase();
+  const compact = text.replace(/[\s_]/g, '');
+  const sizes = text.split(/[^0-9.]+/).filter(Boolean).map(Number);
+  return words.every(word => (/^\d+(\.\d+)?$/.test(word) ? sizes.includes(Number(word)) : compact.includes(word)));
+}
+
+/**
+ * Searches the profile database, lightest (smallest area) first.
+ * The query matches the code or the name word by word, ignoring case.
+ */
+export function searchStandardProfiles(filter: ProfileFilter = {}): StandardProfile[] {
+  const words = (filter.query ?? '').toLowerCase().split(/[\s_]+/).filter(Boolean);
+  return getAllStandardProfiles()
+    .filter(p => {
+      if (filter.series && getProfileSeries(p) !== filter.series) return false;
+      if (filter.shapes && !filter.shapes.includes(p.shape)) return false;
+      if (!matchesQuery(p, words)) return false;
+      const { iy, wy } = profileStiffness(p);
+      if (filter.minWy !== undefined && wy < filter.minWy) return false;
+      if (filter.minIy !== undefined && iy < filter.minIy) return false;
+      return true;
+    })
+    .sort((a, b) => profileStiffness(a).area - profileStiffness(b).area);
+}
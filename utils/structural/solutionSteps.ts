@@ -0,0 +1,387 @@
+// ============================================================================
+// STRUCTURAL ENGINEERING: SOLUTION STEPS
+// Hand-calculation trace for beam reactions: free-body summary, load
+// resultants, equilibrium equations and section equations V(x)/M(x)
+// ============================================================================
+
+import {
+  LoadType,
+  SupportType,
+  getDistributedLoadPieces,
+  getLoadResultant,
+  type AnalysisResults,
+  type BeamConfig,
+  type BeamSegment,
+  type Support,
+} from './reactionCalculator';
+import { formatLoadDescription, getLoadTypeLabel } from './loadFactory';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SolutionStep {
+  title: string;
+  notes: string[]; // Plain text lines
+  equations: string[]; // LaTeX, one equation per entry
+}
+
+// LaTeX lines of one beam segment
+export interface SegmentEquations {
+  range: string;
+  shear: string;
+  moment: string;
+  deflection?: string;
+}
+
+// Signed coefficient of a symbol (or a bare number when symbol is omitted)
+interface SumTerm {
+  coefficient: number;
+  symbol?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Supports at the reference point contribute no moment arm (m)
+const POSITION_TOLERANCE = 1e-6;
+
+// Terms smaller than this are dropped from printed sums
+const PRINT_EPSILON = 5e-4;
+
+const SUPPORT_NAMES: Record<SupportType, string> = {
+  [SupportType.FIXED]: 'Ankastre mesnet',
+  [SupportType.PINNED]: 'Mafsallı mesnet',
+  [SupportType.ROLLER]: 'Hareketli mesnet',
+  [SupportType.GUIDED]: 'Kayıcı mesnet',
+  [SupportType.FREE]: 'Serbest uç',
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function num(value: number, digits: number = 2): string {
+  const rounded = Math.abs(value) < 0.5 * 10 ** -digits ? 0 : value;
+  return rounded.toFixed(digits);
+}
+
+// Coefficients below 0.1 keep three significant digits
+function formatMagnitude(value: number): string {
+  if (value === 0 || value >= 0.1) return num(value);
+  const exponent = Math.floor(Math.log10(value));
+  return `${(value / 10 ** exponent).toFixed(2)} \\times 10^{${exponent}}`;
+}
+
+// "a + b - c" with the signs folded into the operators
+function formatSum(terms: SumTerm[]): string {
+  const visible = terms.filter(t => t.symbol || Math.abs(t.coefficient) > PRINT_EPSILON);
+  if (visible.length === 0) return '0';
+
+  return visible
+    .map((term, i) => {
+      const negative = term.coefficient < 0;
+      const magnitude = Math.abs(term.coefficient);
+      let body: string;
+      if (!term.symbol) body = num(magnitude);
+      else if (Math.abs(magnitude - 1) < 1e-12) body = term.symbol;
+      else body = `${formatMagnitude(magnitude)} \\cdot ${term.symbol}`;
+
+      if (i === 0) return negative ? `-${body}` : body;
+      return negative ? ` - ${body}` : ` + ${body}`;
+    })
+    .join('');
+}
+
+// Polynomial in x, highest power first: coefficients[i] multiplies x^i.
+// Terms are dropped when they stay below PRINT_EPSILON for x up to `reach`.
+function formatPolynomial(coefficients: number[], reach: number = 1): string {
+  const terms: SumTerm[] = [];
+  const scale = Math.max(Math.abs(reach), 1);
+  for (let power = coefficients.length - 1; power >= 0; power--) {
+    const symbol = power === 0 ? undefined : power === 1 ? 'x' : `x^{${power}}`;
+    if (Math.abs(coefficients[power]) * scale ** power > PRINT_EPSILON) {
+      terms.push({ coefficient: coefficients[power], symbol });
+    }
+  }
+  return formatSum(terms);
+}
+
+export function formatSegmentEquations(segment: BeamSegment): SegmentEquations {
+  return {
+    range: `${num(segment.start)} < x < ${num(segment.end)}:`,
+    shear: `V(x) = ${formatPolynomial(segment.shear, segment.end)}\\ \\mathrm{kN}`,
+    moment: `M(x) = ${formatPolynomial(segment.moment, segment.end)}\\ \\mathrm{kNm}`,
+    deflection:
+      segment.deflection.length > 0
+        ? `v(x) = ${formatPolynomial(segment.deflection, segment.end)}\\ \\mathrm{mm}`
+        : undefined,
+  };
+}
+
+export function getSupportLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// ============================================================================
+// SOLUTION TRACE BUILDER
+// ============================================================================
+
+class SolutionTraceBuilder {
+  private config: BeamConfig;
+  private results: AnalysisResults;
+
+  constructor(config: BeamConfig, results: AnalysisResults) {
+    this.config = config;
+    this.results = results;
+  }
+
+  private getUnknownSymbols(support: Support, index: number): string[] {
+    const name = getSupportLetter(index);
+    switch (support.type) {
+      case SupportType.FIXED:
+        return [`${name}_x`, `${name}_y`, `M_${name}`];
+      case SupportType.PINNED:
+        return [`${name}_x`, `${name}_y`];
+      case SupportType.GUIDED:
+        return [`${name}_x`, `M_${name}`];
+      case SupportType.ROLLER:
+        return [`${name}_y`];
+      default:
+        return [];
+    }
+  }
+
+  private buildFreeBody(): SolutionStep {
+    const { length, supports, loads } = this.config;
+    const notes = [`Kiriş boyu L = ${num(length)} m`];
+
+    supports.forEach((support, i) => {
+      const unknowns = this.getUnknownSymbols(support, i);
+      let line = `${getSupportLetter(i)} (x = ${num(support.position)} m): ${SUPPORT_NAMES[support.type]}`;
+      if (unknowns.length > 0) line += ` → ${unknowns.join(', ')}`;
+      if (support.displacement) line += `, oturma ${num(support.displacement, 1)} mm`;
+      if (support.rotation) line += `, dönme ${num(support.rotation, 4)} rad`;
+      notes.push(line);
+    });
+
+    for (const hinge of this.config.hinges ?? []) {
+      notes.push(`İç mafsal (x = ${num(hinge)} m): M = 0`);
+    }
+    for (const load of loads) {
+      notes.push(`${getLoadTypeLabel(load.type)}: ${formatLoadDescription(load)}`);
+    }
+
+    const equations: string[] = [];
+    const determinacy = this.results.determinacy;
+    if (determinacy) {
+      equations.push(
+        `r = ${determinacy.unknowns}, \\quad e = ${determinacy.equations}, \\quad n = r - e = ${determinacy.degree}`
+      );
+      if (determinacy.degree > 0) {
+        notes.push(
+          `Sistem ${determinacy.degree}. dereceden hiperstatik: tepkiler rijitlik yöntemiyle (uygunluk koşulları) bulundu, denge denklemleri kontrol olarak verilmiştir.`
+        );
+      } else {
+        notes.push('Sistem izostatik: tepkiler denge denklemlerinden bulunur.');
+      }
+    }
+
+    return { title: 'SERBEST CİSİM DİYAGRAMI', notes, equations };
+  }
+
+  private buildResultants(): SolutionStep | null {
+    const notes: string[] = [];
+    const equations: string[] = [];
+
+    this.config.loads.forEach((load, i) => {
+      const label = `${i + 1}. ${getLoadTypeLabel(load.type)}`;
+      switch (load.type) {
+        case LoadType.UDL: {
+          const span = load.endPosition - load.startPosition;
+          const W = Math.abs(load.magnitude) * span;
+          notes.push(label);
+          equations.push(
+            `W_{${i + 1}} = w \\cdot L = ${num(Math.abs(load.magnitude))} \\cdot ${num(span)} = ${num(W)}\\ \\mathrm{kN}`,
+            `\\bar{x}_{${i + 1}} = ${num(load.startPosition)} + \\frac{${num(span)}}{2} = ${num(load.startPosition + span / 2)}\\ \\mathrm{m}`
+          );
+          break;
+        }
+        case LoadType.TRIANGULAR: {
+          const span = load.endPosition - load.startPosition;
+          const W = (Math.abs(load.maxMagnitude) * span) / 2;
+          notes.push(label);
+          equations.push(
+            `W_{${i + 1}} = \\frac{w_{max} \\cdot L}{2} = \\frac{${num(Math.abs(load.maxMagnitude))} \\cdot ${num(span)}}{2} = ${num(W)}\\ \\mathrm{kN}`,
+            `\\bar{x}_{${i + 1}} = ${num(load.startPosition)} + \\frac{2 \\cdot ${num(span)}}{3} = ${num(load.startPosition + (2 * span) / 3)}\\ \\mathrm{m}`
+          );
+          break;
+        }
+        case LoadType.LINEAR:
+        case LoadType.POLYLINE: {
+          // Each linear piece is a rectangle plus a triangle
+          const pieces = getDistributedLoadPieces(load);
+          const resultant = getLoadResultant(load);
+          const parts = pieces.map(p => {
+            const h = p.end - p.start;
+            return `\\frac{(${num(-p.qStart)} + ${num(-p.qEnd)}) \\cdot ${num(h)}}{2}`;
+          });
+          notes.push(label);
+          equations.push(`W_{${i + 1}} = ${parts.join(' + ')} = ${num(-resultant.force)}\\ \\mathrm{kN}`);
+          if (resultant.moment === undefined) {
+            equations.push(`\\bar{x}_{${i + 1}} = \\frac{\\sum W_j \\bar{x}_j}{W} = ${num(resultant.position)}\\ \\mathrm{m}`);
+          } else {
+            notes.push('Bileşke sıfır: yük dengeli bir kuvvet çiftine indirgenir.');
+            equations.push(`M_{${i + 1}} = ${num(resultant.moment)}\\ \\mathrm{kNm}`);
+          }
+          break;
+        }
+        case LoadType.INCLINED: {
+          const resultant = getLoadResultant(load);
+          notes.push(label);
+          equations.push(
+            `P_x = ${num(load.magnitude)} \\cos(${num(load.angle, 0)}^\\circ) = ${num(resultant.horizontal ?? 0)}\\ \\mathrm{kN}`,
+            `P_y = ${num(load.magnitude)} \\sin(${num(load.angle, 0)}^\\circ) = ${num(resultant.force)}\\ \\mathrm{kN}`
+          );
+          break;
+        }
+        default:
+          break;
+      }
+    });
+
+    if (equations.length === 0) return null;
+    return { title: 'YAYILI YÜK BİLEŞKELERİ', notes, equations };
+  }
+
+  private buildEquilibrium(): SolutionStep[] {
+    const { supports, loads } = this.config;
+    const reactions = this.results.reactions;
+    const sorted = supports
+      .map((support, index) => ({ support, index }))
+      .sort((a, b) => a.support.position - b.support.position);
+    // Moments are taken about the leftmost support that carries a reaction
+    const referenceSupport = sorted.find(s => s.support.type !== SupportType.FREE);
+    const reference = referenceSupport?.support.position ?? 0;
+    const referenceName = referenceSupport ? getSupportLetter(referenceSupport.index) : 'O';
+
+    const fxTerms: SumTerm[] = [];
+    const fxValues: SumTerm[] = [];
+    const fyTerms: SumTerm[] = [];
+    const fyValues: SumTerm[] = [];
+    const mTerms: SumTerm[] = [];
+    const mValues: SumTerm[] = [];
+    const solved: string[] = [];
+
+    supports.forEach((support, i) => {
+      const name = getSupportLetter(i);
+      const reaction = reactions.get(i);
+      if (!reaction) return;
+      const unknowns = this.getUnknownSymbols(support, i);
+      const arm = support.position - reference;
+
+      if (unknowns.includes(`${name}_x`)) {
+        fxTerms.push({ coefficient: 1, symbol: `${name}_x` });
+        fxValues.push({ coefficient: reaction.horizontal });
+        solved.push(`${name}_x = ${num(reaction.horizontal)}\\ \\mathrm{kN}`);
+      }
+      if (unknowns.includes(`${name}_y`)) {
+        fyTerms.push({ coefficient: 1, symbol: `${name}_y` });
+        fyValues.push({ coefficient: reaction.vertical });
+        if (Math.abs(arm) > POSITION_TOLERANCE) {
+          mTerms.push({ coefficient: arm, symbol: `${name}_y` });
+          mValues.push({ coefficient: reaction.vertical * arm });
+        }
+        solved.push(`${name}_y = ${num(reaction.vertical)}\\ \\mathrm{kN}`);
+      }
+      if (unknowns.includes(`M_${name}`)) {
+        mTerms.push({ coefficient: 1, symbol: `M_${name}` });
+        mValues.push({ coefficient: reaction.moment });
+        solved.push(`M_${name} = ${num(reaction.moment)}\\ \\mathrm{kNm}`);
+      }
+    });
+
+    // Loads enter through their resultants (up and counterclockwise positive)
+    for (const load of loads) {
+      if (load.type === LoadType.THERMAL) continue;
+      const resultant = getLoadResultant(load);
+      if (resultant.horizontal) {
+        fxTerms.push({ coefficient: resultant.horizontal });
+        fxValues.push({ coefficient: resultant.horizontal });
+      }
+      if (resultant.force) {
+        fyTerms.push({ coefficient: resultant.force });
+        fyValues.push({ coefficient: resultant.force });
+        const momentAbout = resultant.force * (resultant.position - reference);
+        mTerms.push({ coefficient: momentAbout });
+        mValues.push({ coefficient: momentAbout });
+      }
+      if (resultant.moment) {
+        mTerms.push({ coefficient: -resultant.moment });
+        mValues.push({ coefficient: -resultant.moment });
+      }
+    }
+
+    const residual = (terms: SumTerm[]) => terms.reduce((sum, t) => sum + t.coefficient, 0);
+    const check = (terms: SumTerm[]) => `${formatSum(terms)} = ${num(residual(terms), 3)}`;
+
+    const steps: SolutionStep[] = [];
+    if (fxTerms.length > 0) {
+      steps.push({
+        title: 'YATAY DENGE (ΣFx = 0)',
+        notes: ['Sağa doğru kuvvetler pozitif.'],
+        equations: [`\\sum F_x = ${formatSum(fxTerms)} = 0`, check(fxValues)],
+      });
+    }
+    steps.push(
+      {
+        title: 'DÜŞEY DENGE (ΣFy = 0)',
+        notes: ['Yukarı doğru kuvvetler pozitif; yayılı yükler bileşkeleriyle alınır.'],
+        equations: [`\\sum F_y = ${formatSum(fyTerms)} = 0`, check(fyValues)],
+      },
+      {
+        title: `MOMENT DENGESİ (ΣM_${referenceName} = 0)`,
+        notes: [`${referenceName} noktasına göre, saat yönü tersi pozitif.`],
+        equations: [`\\sum M_{${referenceName}} = ${formatSum(mTerms)} = 0`, check(mValues), ...solved],
+      }
+    );
+    return steps;
+  }
+
+  private buildSectionEquations(): SolutionStep | null {
+    const { segments } = this.results;
+    if (segments.length === 0) return null;
+
+    const notes = ['x kirişin sol ucundan ölçülür (m); V yukarı-sol, M alt lif çekme pozitif.'];
+    const equations: string[] = [];
+    for (const segment of segments) {
+      const latex = formatSegmentEquations(segment);
+      equations.push(latex.range, latex.shear, latex.moment);
+    }
+
+    return { title: 'KESİT DENKLEMLERİ', notes, equations };
+  }
+
+  build(): SolutionStep[] {
+    if (!this.results.isValid) return [];
+
+    const steps: SolutionStep[] = [this.buildFreeBody()];
+    const resultants = this.buildResultants();
+    if (resultants) steps.push(resultants);
+    steps.push(...this.buildEquilibrium());
+    const sections = this.buildSectionEquations();
+    if (sections) steps.push(sections);
+
+    return steps.map((step, i) => ({ ...step, title: `${i + 1}. ${step.title}` }));
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function generateSolutionSteps(config: BeamConfig, results: AnalysisResults): SolutionStep[] {
+  const builder = new SolutionTraceBuilder(config, results);
+  return builder.build();
+}
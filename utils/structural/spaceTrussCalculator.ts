@@ -0,0 +1,438 @@
+// ============================================================================
+// SPACE TRUSS ANALYSIS ENGINE - Uzay Kafes Analiz Motoru
+// 3D Direct Stiffness Method (Rijitlik Matrisi Yöntemi), 3 serbestlik/düğüm
+// Eksenler: x ve z yatay, y düşey (yukarı)
+// ============================================================================
+
+import { createMatrix, findSingularColumns, solveLinearSystem, subMatrix } from './matrixUtils';
+import type { MemberForce, TrussMember } from './trussCalculator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SpaceAxis = 'x' | 'y' | 'z';
+
+// Restrained translations of a support node
+export type SpaceRestraint = Record<SpaceAxis, boolean>;
+
+export interface SpaceTrussNode {
+  id: string;
+  x: number; // m
+  y: number; // m (düşey)
+  z: number; // m
+  support?: SpaceRestraint;
+}
+
+export interface SpaceTrussLoad {
+  nodeId: string;
+  fx: number; // kN
+  fy: number; // kN (+ yukarı)
+  fz: number; // kN
+}
+
+export interface SpaceTrussConfig {
+  nodes: SpaceTrussNode[];
+  members: TrussMember[];
+  loads: SpaceTrussLoad[];
+}
+
+export interface SpaceNodeReaction {
+  nodeId: string;
+  rx: number; // kN
+  ry: number; // kN
+  rz: number; // kN
+}
+
+export interface SpaceNodeDisplacement {
+  nodeId: string;
+  dx: number; // mm
+  dy: number; // mm
+  dz: number; // mm
+}
+
+export interface SpaceTrussDof {
+  nodeId: string;
+  direction: SpaceAxis;
+}
+
+export interface SpaceTrussResults {
+  reactions: SpaceNodeReaction[];
+  memberForces: MemberForce[];
+  displacements: SpaceNodeDisplacement[];
+  degree: number; // Hiperstatiklik derecesi m + r - 3j (< 0: mekanizma)
+  unstableDofs: SpaceTrussDof[];
+  isValid: boolean;
+  errorMessage?: string;
+}
+
+// Common supports: a pin holds all three translations, a roller only the vertical
+export const SPACE_PIN: SpaceRestraint = { x: true, y: true, z: true };
+export const SPACE_ROLLER: SpaceRestraint = { x: false, y: true, z: false };
+
+const AXES: SpaceAxis[] = ['x', 'y', 'z'];
+
+// ============================================================================
+// SPACE TRUSS CALCULATOR CLASS
+// ============================================================================
+
+class SpaceTrussCalculator {
+  private config: SpaceTrussConfig;
+  private readonly E_DEFAULT = 200000; // MPa (steel)
+  private readonly A_DEFAULT = 500; // mm²
+  private readonly EPSILON = 1e-9;
+
+  constructor(config: SpaceTrussConfig) {
+    this.config = config;
+  }
+
+  private getMemberProps(member: TrussMember) {
+    return {
+      E: member.E ?? this.E_DEFAULT,
+      A: member.A ?? this.A_DEFAULT,
+    };
+  }
+
+  // Member length (m) and direction cosines
+  private getMemberGeometry(member: TrussMember): { length: number; cosines: number[] } {
+    const nodeStart = this.config.nodes.find(n => n.id === member.nodeStartId)!;
+    const nodeEnd = this.config.nodes.find(n => n.id === member.nodeEndId)!;
+    const delta = [nodeEnd.x - nodeStart.x, nodeEnd.y - nodeStart.y, nodeEnd.z - nodeStart.z];
+    const length = Math.hypot(...delta);
+    return { length, cosines: delta.map(v => v / length) };
+  }
+
+  private getRestraintCount(node: SpaceTrussNode): number {
+    return node.support ? AXES.filter(axis => node.support![axis]).length : 0;
+  }
+
+  private validate(): string | null {
+    const ids = new Set(this.config.nodes.map(n => n.id));
+    for (const member of this.config.members) {
+      if (!ids.has(member.nodeStartId) || !ids.has(member.nodeEndId)) {
+        return `Çubuk ${member.id} tanımsız düğüme bağlı!`;
+      }
+      if (this.getMemberGeometry(member).length < this.EPSILON) {
+        return `Çubuk ${member.id} sıfır uzunlukta!`;
+      }
+      const { E, A } = this.getMemberProps(member);
+      if (E <= 0 || A <= 0) {
+        return `Çubuk ${member.id} için E ve A pozitif olmalı!`;
+      }
+    }
+    for (const load of this.config.loads) {
+      if (!ids.has(load.nodeId)) return `Yük tanımsız düğümde: ${load.nodeId}`;
+    }
+    return null;
+  }
+
+  // Global stiffness matrix and load vector, DOFs ordered x, y, z per node
+  private assemble(): { K: number[][]; F: number[] } {
+    const { nodes, members, loads } = this.config;
+    const size = nodes.length * 3;
+    const K = createMatrix(size);
+    const F = new Array<number>(size).fill(0);
+    const index = new Map(nodes.map((n, i) => [n.id, i]));
+
+    for (const member of members) {
+      const { E, A } = this.getMemberProps(member);
+      const { length, cosines } = this.getMemberGeometry(member);
+      const k = (E * A * 1e-3) / length; // MPa × mm² -> kN, / m -> kN/m
+      const start = 3 * index.get(member.nodeStartId)!;
+      const end = 3 * index.get(member.nodeEndId)!;
+      const dofs = [start, start + 1, start + 2, end, end + 1, end + 2];
+      const t = [...cosines.map(c => -c), ...cosines];
+      for (let i = 0; i < 6; i++) {
+        for (let j = 0; j < 6; j++) {
+          K[dofs[i]][dofs[j]] += k * t[i] * t[j];
+        }
+      }
+    }
+
+    for (const load of loads) {
+      const i = 3 * index.get(load.nodeId)!;
+      F[i] += load.fx;
+      F[i + 1] += load.fy;
+      F[i + 2] += load.fz;
+    }
+
+    return { K, F };
+  }
+
+  private invalid(errorMessage: string, degree: number, unstableDofs: SpaceTrussDof[] = []): SpaceTrussResults {
+    return {
+      reactions: [],
+      memberForces: [],
+      displacements: [],
+      degree,
+      unstableDofs,
+      isValid: false,
+      errorMessage,
+    };
+  }
+
+  analyze(): SpaceTrussResults {
+    const { nodes, members } = this.config;
+    const restraints = nodes.reduce((sum, n) => sum + this.getRestraintCount(n), 0);
+    const degree = members.length + restraints - 3 * nodes.length;
+
+    if (restraints === 0) {
+      return this.invalid('Mesnet tanımlanmamış!', degree);
+    }
+
+    const inputError = this.validate();
+    if (inputError) return this.invalid(inputError, degree);
+
+    const { K, F } = this.assemble();
+    const restrained = new Set<number>();
+    nodes.forEach((node, i) => {
+      AXES.forEach((axis, a) => {
+        if (node.support?.[axis]) restrained.add(3 * i + a);
+      });
+    });
+
+    const freeDofs: number[] = [];
+    for (let dof = 0; dof < nodes.length * 3; dof++) {
+      if (!restrained.has(dof)) freeDofs.push(dof);
+    }
+
+    const Kff = subMatrix(K, freeDofs);
+    const solution = solveLinearSystem(Kff, freeDofs.map(dof => F[dof]));
+    if (!solution) {
+      const unstableDofs = findSingularColumns(Kff).map(i => {
+        const dof = freeDofs[i];
+        return { nodeId: nodes[Math.floor(dof / 3)].id, direction: AXES[dof % 3] };
+      });
+      const list = unstableDofs.map(d => `${d.nodeId}-${d.direction}`).join(', ');
+      return this.invalid(`Sistem istikrarsız! Mekanizma serbestlikleri: ${list}`, degree, unstableDofs);
+    }
+
+    const d = new Array<number>(nodes.length * 3).fill(0);
+    freeDofs.forEach((dof, i) => {
+      d[dof] = solution[i];
+    });
+
+    // Reactions R = K·d - F at the restrained DOFs
+    const reactions: SpaceNodeReaction[] = [];
+    nodes.forEach((node, i) => {
+      if (!node.support) return;
+      const [rx, ry, rz] = [0, 1, 2].map(a => {
+        const dof = 3 * i + a;
+        if (!restrained.has(dof)) return 0;
+        let value = -F[dof];
+        for (let j = 0; j < d.length; j++) {
+          value += K[dof][j] * d[j];
+        }
+        return value;
+      });
+      reactions.push({ nodeId: node.id, rx, ry, rz });
+    });
+
+    const displacements: SpaceNodeDisplacement[] = nodes.map((node, i) => ({
+      nodeId: node.id,
+      dx: d[3 * i] * 1000, // m -> mm
+      dy: d[3 * i + 1] * 1000,
+      dz: d[3 * i + 2] * 1000,
+    }));
+
+    // Axial force N = EA/L · elongation, elongation from the end displacements
+    const byId = new Map(displacements.map(disp => [disp.nodeId, disp]));
+    const memberForces: MemberForce[] = members.map(member => {
+      const { E, A } = this.getMemberProps(member);
+      const { length, cosines } = this.getMemberGeometry(member);
+      const start = byId.get(member.nodeStartId)!;
+      const end = byId.get(member.nodeEndId)!;
+      const deformation =
+        (end.dx - start.dx) * cosines[0] + (end.dy - start.dy) * cosines[1] + (end.dz - start.dz) * cosines[2]; // mm
+      const strain = deformation / (length * 1000);
+      const stress = strain * E;
+      const force = (stress * A) / 1000; // MPa × mm² = N -> kN
+
+      return { memberId: member.id, force, stress, strain, deformation };
+    });
+
+    return { reactions, memberForces, displacements, degree, unstableDofs: [], isValid: true };
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// Displacement magnification so the largest joint movement draws as `fraction` of the truss size
+export function getSpaceDeformationScale(
+  config: SpaceTrussConfig,
+  results: SpaceTrussResults,
+  fraction: number = 0.1
+): number {
+  const maxDisplacement = Math.max(0, ...results.displacements.map(d => Math.hypot(d.dx, d.dy, d.dz))); // mm
+  if (maxDisplacement < 1e-12 || config.nodes.length === 0) return 0;
+
+  const extent = (values: number[]) => Math.max(...values) - Math.min(...values);
+  const size = Math.max(
+    extent(config.nodes.map(n => n.x)),
+    extent(config.nodes.map(n => n.y)),
+    extent(config.nodes.map(n => n.z))
+  ); // m
+  return (fraction * size * 1000) / maxDisplacement;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function analyzeSpaceTruss(config: SpaceTrussConfig): SpaceTrussResults {
+  const calculator = new SpaceTrussCalculator(config);
+  return calculator.analyze();
+}
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+class SpaceTrussBuilder {
+  private nodes: SpaceTrussNode[] = [];
+  private members: TrussMember[] = [];
+  private loads: SpaceTrussLoad[] = [];
+
+  node(id: string, x: number, y: number, z: number, support?: SpaceRestraint): this {
+    const round = (v: number) => Math.round(v * 1e6) / 1e6;
+    this.nodes.push({ id, x: round(x), y: round(y), z: round(z), ...(support && { support }) });
+    return this;
+  }
+
+  member(a: string, b: string): this {
+    this.members.push({ id: `${a}-${b}`, nodeStartId: a, nodeEndId: b });
+    return this;
+  }
+
+  load(nodeId: string, fx: number, fy: number, fz: number): this {
+    this.loads.push({ nodeId, fx, fy, fz });
+    return this;
+  }
+
+  build(): SpaceTrussConfig {
+    return { nodes: this.nodes, members: this.members, loads: this.loads };
+  }
+}
+
+/**
+ * Tapered four-leg lattice tower with a crossarm on each side.
+ * Legs pinned at the base; every face panel has one diagonal and every
+ * level a horizontal ring, which makes the tower statically determinate.
+ */
+function buildTransmissionTower(): SpaceTrussConfig {
+  const levels = [
+    { y: 0, half: 2 },
+    { y: 4, half: 1.5 },
+    { y: 8, half: 1.1 },
+    { y: 12, half: 0.75 },
+  ];
+  const corners = [
+    [1, 1],
+    [1, -1],
+    [-1, -1],
+    [-1, 1],
+  ]; // Around the tower, so neighbours share a face
+  const id = (level: number, corner: number) => `T${level}${'ABCD'[corner]}`;
+  const builder = new SpaceTrussBuilder();
+
+  levels.forEach(({ y, half }, level) => {
+    corners.forEach(([sx, sz], c) => builder.node(id(level, c), sx * half, y, sz * half, level === 0 ? SPACE_PIN : undefined));
+  });
+
+  for (let level = 1; level < levels.length; level++) {
+    for (let c = 0; c < 4; c++) {
+      const next = (c + 1) % 4;
+      builder
+        .member(id(level - 1, c), id(level, c)) // leg
+        .member(id(level, c), id(level, next)) // ring
+        .member(id(level - 1, c), id(level, next)); // face diagonal
+    }
+  }
+
+  // Crossarms: tip tied to both top corners on its side and one corner below
+  const top = levels.length - 1;
+  const armLength = 2.5;
+  const { y: topY, half: topHalf } = levels[top];
+  builder
+    .node('ARM_R', topHalf + armLength, topY, 0)
+    .member(id(top, 0), 'ARM_R')
+    .member(id(top, 1), 'ARM_R')
+    .member(id(top - 1, 0), 'ARM_R')
+    .node('ARM_L', -topHalf - armLength, topY, 0)
+    .member(id(top, 2), 'ARM_L')
+    .member(id(top, 3), 'ARM_L')
+    .member(id(top - 1, 3), 'ARM_L');
+
+  // Conductor weight and line tension at the arm tips, wind on the top corners
+  builder.load('ARM_R', 0, -15, 4).load('ARM_L', 0, -15, 4);
+  for (let c = 0; c < 4; c++) builder.load(id(top, c), 2, 0, 0);
+
+  return builder.build();
+}
+
+/**
+ * Square-on-square double-layer grid: top nodes on a 4 × 4 grid, bottom
+ * nodes under the centre of each top square, pinned at the four corners.
+ */
+function buildSpaceRoof(): SpaceTrussConfig {
+  const n = 3; // Top squares per side
+  const a = 2; // m
+  const depth = 1.2; // m
+  const top = (i: number, k: number) => `U${i}${k}`;
+  const bottom = (i: number, k: number) => `L${i}${k}`;
+  const builder = new SpaceTrussBuilder();
+
+  for (let i = 0; i <= n; i++) {
+    for (let k = 0; k <= n; k++) {
+      const corner = (i === 0 || i === n) && (k === 0 || k === n);
+      builder.node(top(i, k), i * a, depth, k * a, corner ? SPACE_PIN : undefined);
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) builder.node(bottom(i, k), (i + 0.5) * a, 0, (k + 0.5) * a);
+  }
+
+  for (let i = 0; i <= n; i++) {
+    for (let k = 0; k <= n; k++) {
+      if (i < n) builder.member(top(i, k), top(i + 1, k));
+      if (k < n) builder.member(top(i, k), top(i, k + 1));
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) {
+      if (i < n - 1) builder.member(bottom(i, k), bottom(i + 1, k));
+      if (k < n - 1) builder.member(bottom(i, k), bottom(i, k + 1));
+      builder
+        .member(top(i, k), bottom(i, k))
+        .member(top(i + 1, k), bottom(i, k))
+        .member(top(i, k + 1), bottom(i, k))
+        .member(top(i + 1, k + 1), bottom(i, k));
+    }
+  }
+
+  // Roof load on every unsupported top node
+  for (let i = 0; i <= n; i++) {
+    for (let k = 0; k <= n; k++) {
+      const corner = (i === 0 || i === n) && (k === 0 || k === n);
+      if (!corner) builder.load(top(i, k), 0, -8, 0);
+    }
+  }
+
+  return builder.build();
+}
+
+export const SPACE_TRUSS_PRESETS: Record<string, SpaceTrussConfig> = {
+  'transmission-tower': buildTransmissionTower(),
+  'space-roof': buildSpaceRoof(),
+};
+
+export const SPACE_TRUSS_LABELS: Record<string, string> = {
+  'transmission-tower': 'Enerji Nakil Kulesi',
+  'space-roof': 'Uzay Kafes Çatı (6×6m)',
+};
+
+export function getSpaceTrussPreset(key: string): SpaceTrussConfig | undefined {
+  return SPACE_TRUSS_PRESETS[key];
+}
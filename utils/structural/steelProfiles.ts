@@ -0,0 +1,441 @@
+// ============================================================================
+// STEEL PROFILE CATALOGUE - Avrupa Çelik Profil Tabloları
+// IPE, HEA, HEB, HEM (EN 10365), UPN, UPE, köşebentler (EN 10056-1),
+// sıcak şekillendirilmiş kutu ve boru profiller (EN 10210-2)
+// ============================================================================
+
+import type { SectionProperties, SectionShape, StandardProfile } from './sectionProperties';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Size, h, b, tw, tf (mm) | G (kg/m), A (cm²), Iy, Iz (cm⁴), Wel,y, Wel,z, Wpl,y, Wpl,z (cm³)
+type FlangedRow = [number, number, number, number, number, number, number, number, number, number, number, number, number];
+
+// h, b, t (mm) | G (kg/m), A (cm²), Iy, Iz (cm⁴), Wel,y, Wel,z (cm³), Iu, Iv (cm⁴)
+type AngleRow = [number, number, number, number, number, number, number, number, number, number, number];
+
+// h, b, t (mm) | G (kg/m), A (cm²), Iy, Iz (cm⁴), Wel,y, Wel,z, Wpl,y, Wpl,z (cm³)
+type HollowRow = [number, number, number, number, number, number, number, number, number, number, number];
+
+// D, t (mm) | G (kg/m), A (cm²), I (cm⁴), Wel, Wpl (cm³)
+type TubeRow = [number, number, number, number, number, number, number];
+
+// ============================================================================
+// TABLES
+// ============================================================================
+// Tablo değerleri kök ve uç yarıçaplı nominal kesitlerden (ρ = 7850 kg/m³);
+// calculateSectionProperties keskin köşeli modeli kullanır
+
+// IPE 80-600
+const IPE_TABLE: FlangedRow[] = [
+  [80, 80, 46, 3.8, 5.2, 6, 7.644, 80.14, 8.489, 20.03, 3.691, 23.22, 5.818],
+  [100, 100, 55, 4.1, 5.7, 8.1, 10.32, 171, 15.92, 34.2, 5.789, 39.41, 9.146],
+  [120, 120, 64, 4.4, 6.3, 10.4, 13.21, 317.8, 27.67, 52.96, 8.646, 60.73, 13.58],
+  [140, 140, 73, 4.7, 6.9, 12.9, 16.43, 541.2, 44.92, 77.32, 12.31, 88.35, 19.25],
+  [160, 160, 82, 5, 7.4, 15.8, 20.09, 869.3, 68.31, 108.7, 16.66, 123.9, 26.1],
+  [180, 180, 91, 5.3, 8, 18.8, 23.95, 1317, 100.9, 146.3, 22.16, 166.4, 34.6],
+  [200, 200, 100, 5.6, 8.5, 22.4, 28.48, 1943, 142.4, 194.3, 28.47, 220.6, 44.61],
+  [220, 220, 110, 5.9, 9.2, 26.2, 33.37, 2772, 204.9, 252, 37.25, 285.4, 58.11],
+  [240, 240, 120, 6.2, 9.8, 30.7, 39.12, 3892, 283.6, 324.3, 47.27, 366.7, 73.92],
+  [270, 270, 135, 6.6, 10.2, 36.1, 45.95, 5790, 419.9, 428.9, 62.2, 484, 96.95],
+  [300, 300, 150, 7.1, 10.7, 42.2, 53.81, 8356, 603.8, 557.1, 80.5, 628.4, 125.2],
+  [330, 330, 160, 7.5, 11.5, 49.1, 62.61, 11770, 788.1, 713.2, 98.52, 804.4, 153.7],
+  [360, 360, 170, 8, 12.7, 57.1, 72.73, 16270, 1043, 903.7, 122.8, 1019, 191.1],
+  [400, 400, 180, 8.6, 13.5, 66.3, 84.47, 23130, 1318, 1156, 146.4, 1307, 229],
+  [450, 450, 190, 9.4, 14.6, 77.6, 98.82, 33740, 1676, 1500, 176.4, 1702, 276.4],
+  [500, 500, 200, 10.2, 16, 90.7, 115.5, 48200, 2142, 1928, 214.2, 2194, 335.9],
+  [550, 550, 210, 11.1, 17.2, 105.5, 134.4, 67120, 2668, 2441, 254.1, 2787, 400.5],
+  [600, 600, 220, 12, 19, 122.5, 156, 92090, 3387, 3070, 307.9, 3512, 485.7],
+];
+
+// HEA 100-1000 (h < nominal boy)
+const HEA_TABLE: FlangedRow[] = [
+  [100, 96, 100, 5, 8, 16.7, 21.24, 349.2, 133.8, 72.76, 26.76, 83.02, 41.14],
+  [120, 114, 120, 5, 8, 19.9, 25.34, 606.2, 230.9, 106.3, 38.48, 119.5, 58.85],
+  [140, 133, 140, 5.5, 8.5, 24.7, 31.42, 1033, 389.3, 155.4, 55.62, 173.5, 84.85],
+  [160, 152, 160, 6, 9, 30.4, 38.77, 1673, 615.6, 220.1, 76.95, 245.2, 117.6],
+  [180, 171, 180, 6, 9.5, 35.5, 45.25, 2510, 924.6, 293.6, 102.7, 324.9, 156.5],
+  [200, 190, 200, 6.5, 10, 42.3, 53.83, 3692, 1336, 388.7, 133.6, 429.5, 203.8],
+  [220, 210, 220, 7, 11, 50.5, 64.34, 5410, 1955, 515.2, 177.7, 568.5, 270.6],
+  [240, 230, 240, 7.5, 12, 60.3, 76.84, 7763, 2769, 675.1, 230.7, 744.6, 351.7],
+  [260, 250, 260, 7.5, 12.5, 68.2, 86.82, 10460, 3668, 836.4, 282.1, 919.8, 430.2],
+  [280, 270, 280, 8, 13, 76.4, 97.27, 13670, 4763, 1013, 340.2, 1112, 518.1],
+  [300, 290, 300, 8.5, 14, 88.3, 112.5, 18260, 6310, 1260, 420.6, 1383, 641.2],
+  [320, 310, 300, 9, 15.5, 97.6, 124.4, 22930, 6985, 1479, 465.7, 1628, 709.7],
+  [340, 330, 300, 9.5, 16.5, 104.8, 133.5, 27690, 7436, 1678, 495.7, 1851, 756],
+  [360, 350, 300, 10, 17.5, 112.1, 142.8, 33090, 7887, 1891, 525.8, 2089, 802.3],
+  [400, 390, 300, 11, 19, 124.8, 159, 45070, 8564, 2311, 570.9, 2562, 872.9],
+  [450, 440, 300, 11.5, 21, 139.8, 178, 63720, 9465, 2897, 631, 3216, 965.5],
+  [500, 490, 300, 12, 23, 155.1, 197.5, 86980, 10370, 3550, 691.1, 3949, 1059],
+  [550, 540, 300, 12.5, 24, 166.2, 211.8, 111900, 10820, 4146, 721.3, 4622, 1107],
+  [600, 590, 300, 13, 25, 177.8, 226.5, 141200, 11270, 4787, 751.4, 5350, 1156],
+  [650, 640, 300, 13.5, 26, 189.7, 241.6, 175200, 11720, 5474, 781.6, 6136, 1205],
+  [700, 690, 300, 14.5, 27, 204.5, 260.5, 215300, 12180, 6241, 811.9, 7032, 1257],
+  [800, 790, 300, 15, 28, 224.4, 285.8, 303400, 12640, 7682, 842.6, 8700, 1312],
+  [900, 890, 300, 16, 30, 251.6, 320.5, 422100, 13550, 9485, 903.2, 10810, 1414],
+  [1000, 990, 300, 16.5, 31, 272.3, 346.9, 553900, 14000, 11190, 933.6, 12820, 1470],
+];
+
+// HEB 100-1000
+const HEB_TABLE: FlangedRow[] = [
+  [100, 100, 100, 6, 10, 20.4, 26.04, 449.6, 167.3, 89.91, 33.45, 104.2, 51.42],
+  [120, 120, 120, 6.5, 11, 26.7, 34.01, 864.4, 317.5, 144.1, 52.92, 165.2, 80.97],
+  [140, 140, 140, 7, 12, 33.7, 42.96, 1509, 549.7, 215.6, 78.52, 245.4, 119.8],
+  [160, 160, 160, 8, 13, 42.6, 54.25, 2492, 889.2, 311.5, 111.2, 354, 170],
+  [180, 180, 180, 8.5, 14, 51.2, 65.25, 3831, 1363, 425.7, 151.4, 481.5, 231],
+  [200, 200, 200, 9, 15, 61.3, 78.08, 5696, 2003, 569.6, 200.3, 642.6, 305.8],
+  [220, 220, 220, 9.5, 16, 71.5, 91.04, 8091, 2843, 735.6, 258.5, 827.1, 393.9],
+  [240, 240, 240, 10, 17, 83.2, 106, 11260, 3923, 938.3, 326.9, 1053, 498.4],
+  [260, 260, 260, 10, 17.5, 93, 118.4, 14920, 5135, 1148, 395, 1283, 602.3],
+  [280, 280, 280, 10.5, 18, 103.1, 131.4, 19270, 6595, 1376, 471, 1534, 717.6],
+  [300, 300, 300, 11, 19, 117, 149.1, 25170, 8563, 1678, 570.9, 1869, 870.1],
+  [320, 320, 300, 11.5, 20.5, 126.7, 161.3, 30820, 9239, 1927, 615.9, 2149, 939.1],
+  [340, 340, 300, 12, 21.5, 134.2, 170.9, 36660, 9690, 2156, 646, 2408, 985.7],
+  [360, 360, 300, 12.5, 22.5, 141.8, 180.6, 43190, 10140, 2400, 676.1, 2683, 1032],
+  [400, 400, 300, 13.5, 24, 155.3, 197.8, 57680, 10820, 2884, 721.3, 3232, 1104],
+  [450, 450, 300, 14, 26, 171.1, 218, 79890, 11720, 3551, 781.4, 3982, 1198],
+  [500, 500, 300, 14.5, 28, 187.3, 238.6, 107200, 12620, 4287, 841.6, 4815, 1292],
+  [550, 550, 300, 15, 29, 199.4, 254.1, 136700, 13080, 4971, 871.8, 5591, 1341],
+  [600, 600, 300, 15.5, 30, 211.9, 270, 171000, 13530, 5701, 902, 6425, 1391],
+  [650, 650, 300, 16, 31, 224.8, 286.3, 210600, 13980, 6481, 932.3, 7320, 1441],
+  [700, 700, 300, 17, 32, 240.5, 306.4, 256900, 14440, 7340, 962.7, 8327, 1495],
+  [800, 800, 300, 17.5, 33, 262.3, 334.2, 359100, 14900, 8977, 993.6, 10230, 1553],
+  [900, 900, 300, 18.5, 35, 291.5, 371.3, 494100, 15820, 10980, 1054, 12580, 1658],
+  [1000, 1000, 300, 19, 36, 314, 400.1, 644800, 16280, 12900, 1085, 14860, 1716],
+];
+
+// HEM 100-1000
+const HEM_TABLE: FlangedRow[] = [
+  [100, 120, 106, 12, 20, 41.8, 53.24, 1143, 399.2, 190.4, 75.31, 235.8, 116.3],
+  [120, 140, 126, 12.5, 21, 52.1, 66.41, 2018, 702.8, 288.2, 111.6, 350.6, 171.6],
+  [140, 160, 146, 13, 22, 63.2, 80.56, 3291, 1144, 411.4, 156.8, 493.8, 240.5],
+  [160, 180, 166, 14, 23, 76.2, 97.05, 5098, 1759, 566.5, 211.9, 674.6, 325.5],
+  [180, 200, 186, 14.5, 24, 88.9, 113.3, 7483, 2580, 748.3, 277.4, 883.5, 425.2],
+  [200, 220, 206, 15, 25, 103.1, 131.3, 10640, 3651, 967.5, 354.5, 1135, 543.2],
+  [220, 240, 226, 15.5, 26, 117.3, 149.4, 14600, 5012, 1217, 443.5, 1419, 678.6],
+  [240, 270, 248, 18, 32, 156.7, 199.6, 24290, 8153, 1799, 657.5, 2117, 1006],
+  [260, 290, 268, 18, 32.5, 172.4, 219.6, 31310, 10450, 2159, 779.7, 2524, 1192],
+  [280, 310, 288, 18.5, 33, 188.5, 240.2, 39550, 13160, 2551, 914.1, 2966, 1397],
+  [300, 340, 310, 21, 39, 237.9, 303.1, 59200, 19400, 3482, 1252, 4078, 1913],
+  [320, 359, 309, 21, 40, 245, 312.1, 68140, 19710, 3796, 1276, 4435, 1951],
+  [340, 377, 309, 21, 40, 247.9, 315.8, 76370, 19710, 4052, 1276, 4718, 1953],
+  [360, 395, 308, 21, 40, 250.3, 318.8, 84870, 19520, 4297, 1268, 4989, 1942],
+  [400, 432, 307, 21, 40, 255.7, 325.8, 104100, 19340, 4820, 1260, 5571, 1934],
+  [450, 478, 307, 21, 40, 263.3, 335.4, 131500, 19340, 5501, 1260, 6331, 1939],
+  [500, 524, 306, 21, 40, 270.3, 344.3, 161900, 19150, 6181, 1252, 7094, 1932],
+  [550, 572, 306, 21, 40, 278.2, 354.4, 198000, 19160, 6923, 1252, 7933, 1937],
+  [600, 620, 305, 21, 40, 285.5, 363.7, 237500, 18980, 7660, 1244, 8772, 1930],
+  [650, 668, 305, 21, 40, 293.4, 373.7, 281700, 18980, 8433, 1245, 9657, 1936],
+  [700, 716, 304, 21, 40, 300.7, 383, 329300, 18800, 9198, 1237, 10540, 1929],
+  [800, 814, 303, 21, 40, 317.4, 404.3, 442600, 18630, 10870, 1230, 12490, 1930],
+  [900, 910, 302, 21, 40, 332.6, 423.6, 570400, 18450, 12540, 1222, 14440, 1929],
+  [1000, 1008, 302, 21, 40, 348.7, 444.2, 722300, 18460, 14330, 1222, 16570, 1940],
+];
+
+// UPN 80-300, iç başlık yüzeyi %8 eğimli, tf başlık ortasında
+const UPN_TABLE: FlangedRow[] = [
+  [80, 80, 45, 6, 8, 8.65, 11.02, 105.9, 19.36, 26.48, 6.351, 31.9, 12.08],
+  [100, 100, 50, 6, 8.5, 10.6, 13.46, 205.5, 29.23, 41.1, 8.48, 49, 16.24],
+  [120, 120, 55, 7, 9, 13.3, 16.99, 364.3, 43.06, 60.72, 11.06, 72.7, 21.27],
+  [140, 140, 60, 7, 10, 16, 20.37, 604.8, 62.48, 86.4, 14.72, 102.8, 28.32],
+  [160, 160, 65, 7.5, 10.5, 18.9, 24.02, 925.3, 85.24, 115.7, 18.3, 137.6, 35.22],
+  [180, 180, 70, 8, 11, 22, 27.97, 1354, 113.5, 150.4, 22.38, 179.1, 43.07],
+  [200, 200, 75, 8.5, 11.5, 25.3, 32.2, 1912, 148, 191.2, 27, 227.9, 51.96],
+  [220, 220, 80, 9, 12.5, 29.4, 37.46, 2692, 196.2, 244.8, 33.53, 291.6, 64.46],
+  [240, 240, 85, 9.5, 13, 33.2, 42.31, 3599, 247.4, 299.9, 39.5, 357.7, 75.96],
+  [260, 260, 90, 10, 14, 37.9, 48.28, 4824, 317.3, 371.1, 47.84, 442.4, 91.91],
+  [280, 280, 95, 10, 15, 41.9, 53.42, 6276, 398.2, 448.3, 57.15, 532, 109.8],
+  [300, 300, 100, 10, 16, 46.1, 58.76, 8028, 493.1, 535.2, 67.56, 632.4, 129.9],
+];
+
+// UPE 80-400, paralel başlıklı
+const UPE_TABLE: FlangedRow[] = [
+  [80, 80, 50, 4, 7, 7.9, 10.07, 107.2, 25.41, 26.8, 7.984, 31.23, 13.95],
+  [100, 100, 55, 4.5, 7.5, 9.82, 12.5, 206.9, 38.21, 41.37, 10.63, 48.01, 18.88],
+  [120, 120, 60, 5, 8, 12.1, 15.42, 363.5, 55.4, 60.59, 13.79, 70.33, 24.8],
+  [140, 140, 65, 5, 9, 14.5, 18.42, 599.5, 78.7, 85.64, 18.19, 98.85, 32.58],
+  [160, 160, 70, 5.5, 9.5, 17, 21.67, 911.1, 106.8, 113.9, 22.58, 131.6, 40.72],
+  [180, 180, 75, 5.5, 10.5, 19.7, 25.11, 1353, 143.7, 150.4, 28.56, 173, 51.3],
+  [200, 200, 80, 6, 11, 22.8, 29.01, 1909, 187.3, 190.9, 34.43, 220.1, 62.2],
+  [220, 220, 85, 6.5, 12, 26.6, 33.87, 2682, 246.4, 243.9, 42.51, 281.5, 76.88],
+  [240, 240, 90, 7, 12.5, 30.2, 38.52, 3599, 310.9, 299.9, 50.08, 346.9, 90.85],
+  [270, 270, 95, 7.5, 13.5, 35.2, 44.84, 5255, 401, 389.2, 60.69, 451.1, 110.2],
+  [300, 300, 100, 9.5, 15, 44.4, 56.62, 7823, 537.7, 521.6, 75.58, 613.4, 136.7],
+  [330, 330, 105, 11, 16, 53.2, 67.77, 11010, 681.5, 667.1, 89.66, 791.9, 161.7],
+  [360, 360, 110, 12, 17, 61.2, 77.91, 14830, 843.7, 823.6, 105.1, 982.4, 189.2],
+  [400, 400, 115, 13.5, 18, 72.2, 91.93, 20980, 1045, 1049, 122.6, 1263, 220.8],
+];
+
+// Eşit kollu köşebentler, Iu/Iv asal eksenler
+const EQUAL_ANGLE_TABLE: AngleRow[] = [
+  [20, 20, 3, 0.88, 1.123, 0.3916, 0.3916, 0.2793, 0.2793, 0.6185, 0.1646],
+  [25, 25, 3, 1.12, 1.423, 0.8025, 0.8025, 0.4516, 0.4516, 1.271, 0.3337],
+  [25, 25, 4, 1.45, 1.853, 1.018, 1.018, 0.5855, 0.5855, 1.606, 0.4296],
+  [30, 30, 3, 1.36, 1.737, 1.405, 1.405, 0.649, 0.649, 2.224, 0.5854],
+  [30, 30, 4, 1.78, 2.267, 1.803, 1.803, 0.8497, 0.8497, 2.852, 0.7536],
+  [35, 35, 4, 2.09, 2.667, 2.954, 2.954, 1.183, 1.183, 4.681, 1.227],
+  [40, 40, 4, 2.42, 3.079, 4.473, 4.473, 1.553, 1.553, 7.087, 1.858],
+  [40, 40, 5, 2.97, 3.789, 5.427, 5.427, 1.912, 1.912, 8.593, 2.261],
+  [45, 45, 4.5, 3.06, 3.9, 7.148, 7.148, 2.204, 2.204, 11.32, 2.973],
+  [50, 50, 4, 3.06, 3.893, 8.974, 8.974, 2.464, 2.464, 14.22, 3.73],
+  [50, 50, 5, 3.77, 4.803, 10.96, 10.96, 3.049, 3.049, 17.38, 4.547],
+  [50, 50, 6, 4.47, 5.693, 12.84, 12.84, 3.612, 3.612, 20.34, 5.338],
+  [60, 60, 5, 4.57, 5.819, 19.37, 19.37, 4.446, 4.446, 30.71, 8.031],
+  [60, 60, 6, 5.42, 6.909, 22.79, 22.79, 5.285, 5.285, 36.14, 9.441],
+  [60, 60, 8, 7.09, 9.029, 29.15, 29.15, 6.89, 6.89, 46.15, 12.16],
+  [65, 65, 7, 6.83, 8.697, 33.43, 33.43, 7.184, 7.184, 53, 13.87],
+  [70, 70, 7, 7.38, 9.397, 42.3, 42.3, 8.411, 8.411, 67.09, 17.5],
+  [75, 75, 6, 6.85, 8.727, 45.83, 45.83, 8.413, 8.413, 72.72, 18.94],
+  [75, 75, 8, 8.99, 11.45, 59.13, 59.13, 11.03, 11.03, 93.8, 24.46],
+  [80, 80, 8, 9.63, 12.27, 72.25, 72.25, 12.58, 12.58, 114.6, 29.88],
+  [80, 80, 10, 11.9, 15.11, 87.5, 87.5, 15.45, 15.45, 138.6, 36.37],
+  [90, 90, 7, 9.61, 12.24, 92.55, 92.55, 14.13, 14.13, 146.8, 38.29],
+  [90, 90, 8, 10.9, 13.89, 104.4, 104.4, 16.05, 16.05, 165.6, 43.13],
+  [90, 90, 9, 12.2, 15.52, 115.8, 115.8, 17.93, 17.93, 183.8, 47.88],
+  [90, 90, 10, 13.4, 17.13, 126.9, 126.9, 19.77, 19.77, 201.3, 52.55],
+  [100, 100, 8, 12.2, 15.51, 144.8, 144.8, 19.94, 19.94, 229.8, 59.86],
+  [100, 100, 10, 15, 19.15, 176.7, 176.7, 24.61, 24.61, 280.3, 73.01],
+  [100, 100, 12, 17.8, 22.71, 206.7, 206.7, 29.12, 29.12, 327.6, 85.75],
+  [120, 120, 10, 18.2, 23.18, 312.9, 312.9, 36.03, 36.03, 497, 128.9],
+  [120, 120, 12, 21.6, 27.54, 367.7, 367.7, 42.73, 42.73, 583.7, 151.6],
+  [130, 130, 12, 23.5, 29.97, 472.2, 472.2, 50.44, 50.44, 749.8, 194.5],
+  [150, 150, 10, 23, 29.27, 624, 624, 56.91, 56.91, 990.5, 257.5],
+  [150, 150, 12, 27.3, 34.83, 736.9, 736.9, 67.75, 67.75, 1170, 303.4],
+  [150, 150, 15, 33.8, 43.02, 898, 898, 83.52, 83.52, 1426, 370.2],
+  [160, 160, 15, 36.2, 46.06, 1099, 1099, 95.47, 95.47, 1745, 452.6],
+  [180, 180, 16, 43.5, 55.39, 1682, 1682, 129.7, 129.7, 2673, 691.8],
+  [180, 180, 18, 48.6, 61.91, 1866, 1866, 144.7, 144.7, 2963, 768.3],
+  [200, 200, 16, 48.5, 61.79, 2341, 2341, 161.7, 161.7, 3723, 960],
+  [200, 200, 18, 54.2, 69.11, 2600, 2600, 180.6, 180.6, 4132, 1067],
+  [200, 200, 20, 59.9, 76.35, 2851, 2851, 199.1, 199.1, 4529, 1172],
+  [200, 200, 24, 71.1, 90.59, 3331, 3331, 235.2, 235.2, 5284, 1378],
+];
+
+// Eşit olmayan kollu köşebentler, uzun kol düşey
+const UNEQUAL_ANGLE_TABLE: AngleRow[] = [
+  [30, 20, 3, 1.12, 1.427, 1.248, 0.4372, 0.6205, 0.2918, 1.429, 0.2562],
+  [40, 20, 4, 1.77, 2.257, 3.593, 0.5964, 1.418, 0.3926, 3.796, 0.3933],
+  [40, 25, 4, 1.93, 2.457, 3.89, 1.162, 1.475, 0.6191, 4.351, 0.7006],
+  [45, 30, 4, 2.25, 2.862, 5.755, 2.041, 1.904, 0.9027, 6.61, 1.186],
+  [50, 30, 5, 2.96, 3.777, 9.361, 2.513, 2.86, 1.113, 10.33, 1.544],
+  [60, 30, 5, 3.36, 4.277, 15.6, 2.63, 4.068, 1.136, 16.52, 1.713],
+  [60, 40, 5, 3.76, 4.789, 17.18, 6.106, 4.249, 2.016, 19.75, 3.542],
+  [60, 40, 6, 4.46, 5.679, 20.14, 7.12, 5.032, 2.382, 23.11, 4.155],
+  [65, 50, 5, 4.35, 5.539, 23.18, 11.93, 5.143, 3.185, 28.78, 6.323],
+  [70, 50, 6, 5.41, 6.893, 33.41, 14.18, 7.006, 3.776, 39.67, 7.916],
+  [75, 50, 6, 5.65, 7.193, 40.54, 14.44, 8.008, 3.807, 46.62, 8.36],
+  [75, 50, 8, 7.39, 9.413, 52.02, 18.38, 10.45, 4.947, 59.65, 10.76],
+  [80, 40, 6, 5.41, 6.893, 44.92, 7.594, 8.728, 2.437, 47.59, 4.926],
+  [80, 40, 8, 7.07, 9.013, 57.61, 9.611, 11.39, 3.165, 60.89, 6.336],
+  [80, 60, 7, 7.36, 9.379, 59, 28.37, 10.74, 6.337, 72.01, 15.36],
+  [100, 50, 6, 6.84, 8.709, 89.91, 15.39, 13.85, 3.893, 95.38, 9.92],
+  [100, 50, 8, 8.97, 11.43, 116.2, 19.66, 18.15, 5.078, 123.1, 12.78],
+  [100, 65, 7, 8.77, 11.17, 112.5, 37.58, 16.61, 7.534, 128, 22.03],
+  [100, 65, 8, 9.94, 12.67, 126.8, 42.23, 18.85, 8.538, 144.2, 24.8],
+  [100, 65, 10, 12.3, 15.61, 154, 50.98, 23.2, 10.48, 174.9, 30.15],
+  [100, 75, 8, 10.6, 13.47, 133.1, 64.08, 19.29, 11.39, 162.5, 34.64],
+  [100, 75, 10, 13, 16.61, 161.8, 77.6, 23.75, 13.99, 197.2, 42.17],
+  [100, 75, 12, 15.4, 19.67, 188.8, 90.17, 28.05, 16.49, 229.5, 49.47],
+  [120, 80, 8, 12.2, 15.49, 225.7, 80.76, 27.63, 13.17, 259.8, 46.63],
+  [120, 80, 10, 15, 19.13, 275.5, 98.11, 34.1, 16.21, 316.8, 56.82],
+  [120, 80, 12, 17.8, 22.69, 322.8, 114.3, 40.37, 19.14, 370.5, 66.66],
+  [125, 75, 8, 12.2, 15.49, 247.3, 67.61, 29.57, 11.61, 274, 40.93],
+  [125, 75, 10, 15, 19.13, 302, 82.05, 36.5, 14.29, 334.2, 49.86],
+  [125, 75, 12, 17.8, 22.69, 354, 95.52, 43.22, 16.87, 391, 58.47],
+  [135, 65, 8, 12.2, 15.49, 291.4, 45.15, 33.43, 8.753, 307.1, 29.45],
+  [135, 65, 10, 15, 19.13, 355.9, 54.68, 41.27, 10.77, 374.7, 35.86],
+  [150, 75, 9, 15.4, 19.59, 455.2, 77.91, 46.74, 13.14, 482.9, 50.22],
+  [150, 75, 10, 17, 21.65, 500.6, 85.37, 51.65, 14.5, 530.8, 55.13],
+  [150, 75, 12, 20.2, 25.71, 588.4, 99.55, 61.27, 17.14, 623.2, 64.69],
+  [150, 75, 15, 24.8, 31.65, 712.8, 119.2, 75.21, 20.95, 753.5, 78.59],
+  [150, 90, 10, 18.2, 23.15, 533.1, 146.1, 53.29, 20.97, 590.9, 88.27],
+  [150, 90, 12, 21.6, 27.51, 627.3, 170.9, 63.25, 24.82, 694.5, 103.7],
+  [150, 90, 15, 26.6, 33.9, 761.1, 205.5, 77.7, 30.36, 840.6, 126],
+  [150, 100, 10, 19, 24.15, 552.6, 198.5, 54.23, 25.92, 636.9, 114.2],
+  [150, 100, 12, 22.5, 28.71, 650.5, 232.6, 64.38, 30.69, 748.9, 134.2],
+  [200, 100, 10, 23, 29.24, 1219, 210.3, 93.24, 26.33, 1294, 135.2],
+  [200, 100, 12, 27.3, 34.8, 1440, 247.2, 111, 31.28, 1528, 159.2],
+  [200, 100, 15, 33.7, 42.99, 1758, 299.1, 137, 38.43, 1864, 193.7],
+  [200, 150, 12, 32, 40.8, 1652, 803.1, 118.7, 70.52, 2025, 430.2],
+  [200, 150, 15, 39.6, 50.49, 2022, 979.5, 146.6, 86.94, 2476, 525.7],
+];
+
+// SHS (kare kutu), dış köşe yarıçapı 1.5t, iç köşe yarıçapı t
+const SHS_TABLE: HollowRow[] = [
+  [40, 40, 3, 3.41, 4.343, 9.775, 9.775, 4.887, 4.887, 5.97, 5.97],
+  [40, 40, 4, 4.39, 5.588, 11.83, 11.83, 5.915, 5.915, 7.439, 7.439],
+  [50, 50, 3, 4.35, 5.543, 20.2, 20.2, 8.079, 8.079, 9.702, 9.702],
+  [50, 50, 4, 5.64, 7.188, 24.97, 24.97, 9.99, 9.99, 12.27, 12.27],
+  [50, 50, 5, 6.85, 8.732, 28.88, 28.88, 11.55, 11.55, 14.53, 14.53],
+  [60, 60, 4, 6.9, 8.788, 45.39, 45.39, 15.13, 15.13, 18.31, 18.31],
+  [60, 60, 5, 8.42, 10.73, 53.26, 53.26, 17.75, 17.75, 21.89, 21.89],
+  [70, 70, 5, 9.99, 12.73, 88.5, 88.5, 25.29, 25.29, 30.76, 30.76],
+  [80, 80, 4, 9.41, 11.99, 114.5, 114.5, 28.61, 28.61, 33.98, 33.98],
+  [80, 80, 5, 11.6, 14.73, 136.6, 136.6, 34.15, 34.15, 41.13, 41.13],
+  [80, 80, 6.3, 14.2, 18.15, 161.9, 161.9, 40.47, 40.47, 49.65, 49.65],
+  [90, 90, 5, 13.1, 16.73, 199.6, 199.6, 44.35, 44.35, 52.99, 52.99],
+  [100, 100, 5, 14.7, 18.73, 279.4, 279.4, 55.89, 55.89, 66.36, 66.36],
+  [100, 100, 6.3, 18.2, 23.19, 335.6, 335.6, 67.11, 67.11, 80.86, 80.86],
+  [100, 100, 8, 22.6, 28.75, 399.6, 399.6, 79.92, 79.92, 98.18, 98.18],
+  [100, 100, 10, 27.4, 34.93, 462.1, 462.1, 92.41, 92.41, 116.2, 116.2],
+  [120, 120, 6.3, 22.2, 28.23, 602.8, 602.8, 100.5, 100.5, 119.6, 119.6],
+  [120, 120, 8, 27.6, 35.15, 726.3, 726.3, 121, 121, 146.5, 146.5],
+  [120, 120, 10, 33.7, 42.93, 852.1, 852.1, 142, 142, 175.2, 175.2],
+  [140, 140, 8, 32.6, 41.55, 1195, 1195, 170.7, 170.7, 204.3, 204.3],
+  [140, 140, 10, 40, 50.93, 1416, 1416, 202.3, 202.3, 246.1, 246.1],
+  [150, 150, 8, 35.1, 44.75, 1491, 1491, 198.7, 198.7, 236.9, 236.9],
+  [150, 150, 10, 43.1, 54.93, 1773, 1773, 236.4, 236.4, 286, 286],
+  [160, 160, 8, 37.6, 47.95, 1831, 1831, 228.9, 228.9, 271.8, 271.8],
+  [160, 160, 10, 46.3, 58.93, 2186, 2186, 273.2, 273.2, 329, 329],
+  [180, 180, 10, 52.5, 66.93, 3193, 3193, 354.8, 354.8, 423.9, 423.9],
+  [200, 200, 8, 47.7, 60.75, 3709, 3709, 370.9, 370.9, 435.5, 435.5],
+  [200, 200, 10, 58.8, 74.93, 4471, 4471, 447.1, 447.1, 530.9, 530.9],
+  [200, 200, 12.5, 72.3, 92.07, 5336, 5336, 533.6, 533.6, 642.6, 642.6],
+  [250, 250, 10, 74.5, 94.93, 9055, 9055, 724.4, 724.4, 850.7, 850.7],
+  [250, 250, 12.5, 91.9, 117.1, 10920, 10920, 873.2, 873.2, 1037, 1037],
+  [300, 300, 10, 90.2, 114.9, 16030, 16030, 1068, 1068, 1245, 1245],
+  [300, 300, 12.5, 111.5, 142.1, 19440, 19440, 1296, 1296, 1525, 1525],
+];
+
+// RHS (dikdörtgen kutu), uzun kenar düşey
+const RHS_TABLE: HollowRow[] = [
+  [50, 30, 3, 3.41, 4.343, 13.56, 5.939, 5.425, 3.959, 6.882, 4.758],
+  [60, 40, 4, 5.64, 7.188, 32.83, 17.03, 10.94, 8.517, 13.83, 10.32],
+  [80, 40, 4, 6.9, 8.788, 68.2, 22.24, 17.05, 11.12, 21.82, 13.2],
+  [100, 50, 5, 10.8, 13.73, 166.5, 54.3, 33.3, 21.72, 42.61, 25.78],
+  [100, 60, 5, 11.6, 14.73, 189.1, 83.59, 37.82, 27.86, 47.36, 32.89],
+  [120, 60, 5, 13.1, 16.73, 299.2, 98.76, 49.87, 32.92, 63.09, 38.39],
+  [120, 80, 6.3, 18.2, 23.19, 439.8, 230.5, 73.3, 57.62, 90.98, 68.22],
+  [140, 80, 6.3, 20.2, 25.71, 645.8, 264.8, 92.25, 66.2, 115.4, 77.51],
+  [150, 100, 6.3, 23.1, 29.49, 897.9, 474.1, 119.7, 94.81, 146.7, 110.4],
+  [160, 80, 6.3, 22.2, 28.23, 903.2, 299.1, 112.9, 74.77, 142.4, 86.79],
+  [200, 100, 6.3, 28.1, 35.79, 1829, 612.5, 182.9, 122.5, 228.3, 139.9],
+  [200, 100, 8, 35.1, 44.75, 2234, 739, 223.4, 147.8, 281.9, 171.8],
+  [200, 120, 8, 37.6, 47.95, 2529, 1128, 252.9, 188.1, 312.7, 218.1],
+  [250, 150, 8, 47.7, 60.75, 5111, 2298, 408.9, 306.4, 500.6, 350.5],
+  [250, 150, 10, 58.8, 74.93, 6173, 2755, 493.9, 367.3, 610.7, 426],
+  [300, 200, 10, 74.5, 94.93, 11820, 6278, 788, 627.8, 955.5, 720.9],
+  [400, 200, 12.5, 111.5, 142.1, 29060, 9737, 1453, 973.7, 1813, 1111],
+];
+
+// CHS (boru)
+const CHS_TABLE: TubeRow[] = [
+  [21.3, 2.6, 1.2, 1.527, 0.6806, 0.639, 0.915],
+  [26.9, 2.6, 1.56, 1.985, 1.482, 1.102, 1.541],
+  [33.7, 3.2, 2.41, 3.066, 3.605, 2.139, 2.988],
+  [42.4, 3.2, 3.09, 3.941, 7.62, 3.594, 4.928],
+  [48.3, 3.2, 3.56, 4.534, 11.59, 4.797, 6.52],
+  [48.3, 4, 4.37, 5.567, 13.77, 5.701, 7.871],
+  [60.3, 3.2, 4.51, 5.74, 23.47, 7.784, 10.44],
+  [60.3, 4, 5.55, 7.075, 28.17, 9.344, 12.7],
+  [76.1, 3.2, 5.75, 7.329, 48.78, 12.82, 17.02],
+  [76.1, 4, 7.11, 9.06, 59.05, 15.52, 20.81],
+  [88.9, 4, 8.37, 10.67, 96.34, 21.67, 28.85],
+  [88.9, 5, 10.3, 13.18, 116.4, 26.18, 35.24],
+  [114.3, 4, 10.9, 13.86, 211.1, 36.93, 48.68],
+  [114.3, 5, 13.5, 17.17, 256.9, 44.95, 59.77],
+  [114.3, 6.3, 16.8, 21.38, 312.7, 54.72, 73.57],
+  [139.7, 5, 16.6, 21.16, 480.5, 68.79, 90.76],
+  [139.7, 6.3, 20.7, 26.4, 588.6, 84.27, 112.2],
+  [168.3, 6.3, 25.2, 32.06, 1053, 125.2, 165.4],
+  [168.3, 8, 31.6, 40.29, 1297, 154.2, 205.7],
+  [193.7, 8, 36.6, 46.67, 2015, 208.1, 276],
+  [219.1, 8, 41.6, 53.05, 2960, 270.2, 356.7],
+  [219.1, 10, 51.6, 65.69, 3598, 328.5, 437.6],
+  [244.5, 10, 57.8, 73.67, 5073, 415, 550.2],
+  [273, 10, 64.9, 82.62, 7154, 524.1, 692],
+  [323.9, 10, 77.4, 98.61, 12160, 750.7, 985.6],
+  [355.6, 12.5, 105.8, 134.7, 19850, 1117, 1472],
+  [406.4, 12.5, 121.4, 154.7, 30030, 1478, 1940],
+  [457, 12.5, 137, 174.6, 43140, 1888, 2470],
+  [508, 12.5, 152.7, 194.6, 59750, 2353, 3070],
+];
+
+
+// ============================================================================
+// PROFILE BUILDERS
+// ============================================================================
+
+function flangedProfiles(series: string, shape: Extract<SectionShape, 'i-beam' | 'channel'>, rows: FlangedRow[]) {
+  return rows.map(
+    ([size, height, flangeWidth, webThickness, flangeThickness, mass, area, iy, iz, wy, wz, wply, wplz]): StandardProfile => ({
+      code: `${series}_${size}`,
+      name: `${series} ${size}`,
+      shape,
+      dimensions: { height, flangeWidth, flangeThickness, webThickness },
+      properties: {} as SectionProperties,
+      tabulated: { mass, area, iy, iz, wy, wz, wply, wplz },
+    })
+  );
+}
+
+function angleProfiles(rows: AngleRow[]) {
+  return rows.map(
+    ([height, width, thickness, mass, area, iy, iz, wy, wz, iu, iv]): StandardProfile => ({
+      code: `L_${height}x${width}x${thickness}`,
+      name: `L ${height}x${width}x${thickness}`,
+      shape: 'l-beam',
+      dimensions: { height, width, thickness },
+      properties: {} as SectionProperties,
+      tabulated: { mass, area, iy, iz, wy, wz, iu, iv },
+    })
+  );
+}
+
+function hollowProfiles(series: string, rows: HollowRow[]) {
+  return rows.map(
+    ([height, width, thickness, mass, area, iy, iz, wy, wz, wply, wplz]): StandardProfile => ({
+      code: `${series}_${height}x${width}x${thickness}`,
+      name: `${series} ${height}x${width}x${thickness}`,
+      shape: 'box',
+      dimensions: { height, width, thickness },
+      properties: {} as SectionProperties,
+      tabulated: { mass, area, iy, iz, wy, wz, wply, wplz },
+    })
+  );
+}
+
+function tubeProfiles(rows: TubeRow[]) {
+  return rows.map(
+    ([outerDiameter, wallThickness, mass, area, i, w, wpl]): StandardProfile => ({
+      code: `CHS_${outerDiameter}x${wallThickness}`,
+      name: `CHS ${outerDiameter}x${wallThickness}`,
+      shape: 'pipe',
+      dimensions: { outerDiameter, wallThickness },
+      properties: {} as SectionProperties,
+      tabulated: { mass, area, iy: i, iz: i, wy: w, wz: w, wply: wpl, wplz: wpl },
+    })
+  );
+}
+
+// ============================================================================
+// CATALOGUE
+// ============================================================================
+
+export const IPE_PROFILES = flangedProfiles('IPE', 'i-beam', IPE_TABLE);
+export const HEA_PROFILES = flangedProfiles('HEA', 'i-beam', HEA_TABLE);
+export const HEB_PROFILES = flangedProfiles('HEB', 'i-beam', HEB_TABLE);
+export const HEM_PROFILES = flangedProfiles('HEM', 'i-beam', HEM_TABLE);
+export const UPN_PROFILES = flangedProfiles('UPN', 'channel', UPN_TABLE);
+export const UPE_PROFILES = flangedProfiles('UPE', 'channel', UPE_TABLE);
+export const EQUAL_ANGLE_PROFILES = angleProfiles(EQUAL_ANGLE_TABLE);
+export const UNEQUAL_ANGLE_PROFILES = angleProfiles(UNEQUAL_ANGLE_TABLE);
+export const SHS_PROFILES = hollowProfiles('SHS', SHS_TABLE);
+export const RHS_PROFILES = hollowProfiles('RHS', RHS_TABLE);
+export const CHS_PROFILES = tubeProfiles(CHS_TABLE);
+
+export const STEEL_PROFILE_CATALOGUE: StandardProfile[] = [
+  ...IPE_PROFILES,
+  ...HEA_PROFILES,
+  ...HEB_PROFILES,
+  ...HEM_PROFILES,
+  ...UPN_PROFILES,
+  ...UPE_PROFILES,
+  ...EQUAL_ANGLE_PROFILES,
+  ...UNEQUAL_ANGLE_PROFILES,
+  ...SHS_PROFILES,
+  ...RHS_PROFILES,
+  ...CHS_PROFILES,
+];
@@ -1,9 +1,11 @@
 // ============================================================================
 // TRUSS ANALYSIS ENGINE - Kafes Sistem Analiz Motoru
-// Method of Joints (Eklem Yöntemi) ve Method of Sections (Kesit Yöntemi)
+// Direct Stiffness Method (Rijitlik Matrisi Yöntemi) ve Method of Sections (Kesit Yöntemi)
 // TS 648 ve Eurocode 3 standartlarına uygun
 // ============================================================================
 
+import { createMatrix, findSingularColumns, solveLinearSystem, subMatrix } from './matrixUtils';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -13,6 +15,7 @@ export interface TrussNode {
   x: number; // m
   y: number; // m
   support?: 'pin' | 'roller' | 'fixed'; // mesnet tipi
+  supportAngle?: number; // Kayıcı mesnet yüzey eğimi (derece, saat yönü tersine) - default: 0
 }
 
 export interface TrussMember {
@@ -41,6 +44,12 @@ export interface NodeReaction {
   ry: number; // kN
 }
 
+export interface NodeDisplacement {
+  nodeId: string;
+  dx: number; // mm (+ sağa)
+  dy: number; // mm (+ yukarı)
+}
+
 export interface MemberForce {
   memberId: string;
   force: number; // kN (+ çekme/tension, - bası/compression)
@@ -49,13 +58,31 @@ export interface MemberForce {
   deformation: number; // mm
 }
 
+// Degree of freedom left free by a mechanism
+export interface TrussDof {
+  nodeId: string;
+  direction: 'x' | 'y';
+}
+
 export interface TrussResults {
   reactions: NodeReaction[];
   memberForces: MemberForce[];
+  displacements: NodeDisplacement[];
+  degree: number; // Hiperstatiklik derecesi m + r - 2j (< 0: mekanizma)
+  unstableDofs: TrussDof[]; // Serbest kalan serbestlikler (mekanizma)
   isValid: boolean;
   errorMessage?: string;
 }
 
+export interface TrussDeflectionCheck {
+  nodeId: string; // Joint with the largest vertical displacement
+  deflection: number; // mm, |δy|
+  span: number; // m, between the outermost supports
+  limit: number; // mm, span / limitRatio
+  ratio: number; // deflection / limit
+  isSafe: boolean;
+}
+
 // ============================================================================
 // TRUSS CALCULATOR CLASS
 // ============================================================================
@@ -78,8 +105,8 @@ class TrussCalculator {
     };
   }
 
-  // Calculate member length
-  private getMemberLength(member: TrussMember): number {
+  // Member length (m) and direction cosines
+  private getMemberGeometry(member: TrussMember): { length: number; c: number; s: number } {
     const nodeStart = this.config.nodes.find(n => n.id === member.nodeStartId);
     const nodeEnd = this.config.nodes.find(n => n.id === member.nodeEndId);
 
@@ -89,269 +116,211 @@ class TrussCalculator {
 
     const dx = nodeEnd.x - nodeStart.x;
     const dy = nodeEnd.y - nodeStart.y;
-    return Math.sqrt(dx * dx + dy * dy);
+    const length = Math.sqrt(dx * dx + dy * dy);
+    return { length, c: dx / length, s: dy / length };
   }
 
-  // Calculate member angle (radians)
-  private getMemberAngle(member: TrussMember): number {
-    const nodeStart = this.config.nodes.find(n => n.id === member.nodeStartId);
-    const nodeEnd = this.config.nodes.find(n => n.id === member.nodeEndId);
-
-    if (!nodeStart || !nodeEnd) {
-      throw new Error(`Node not found for member ${member.id}`);
-    }
-
-    const dx = nodeEnd.x - nodeStart.x;
-    const dy = nodeEnd.y - nodeStart.y;
-    return Math.atan2(dy, dx);
+  // Restrained DOFs per support: pin and fixed hold both, a roller only its surface normal
+  private getRestraintCount(node: TrussNode): number {
+    if (!node.support) return 0;
+    return node.support === 'roller' ? 1 : 2;
   }
 
-  // Check if truss is statically determinate
-  private checkDeterminacy(): { determinate: boolean; unknowns: number; type: string } {
+  // Check the counting rule m + r vs 2j
+  private checkDeterminacy(): { degree: number; type: string } {
     const m = this.config.members.length;
-    const r = this.config.nodes.filter(n => n.support).length * 2; // 2 reactions per support
+    const r = this.config.nodes.reduce((sum, n) => sum + this.getRestraintCount(n), 0);
     const j = this.config.nodes.length;
 
-    // Truss formula: m + r = 2j (for determinate)
-    const unknowns = m + r;
-    const equations = 2 * j;
-
-    const determinate = Math.abs(unknowns - equations) < this.EPSILON;
+    const degree = m + r - 2 * j;
     let type = 'determinate';
-    if (unknowns > equations) type = 'indeterminate';
-    if (unknowns < equations) type = 'unstable';
+    if (degree > 0) type = 'indeterminate';
+    if (degree < 0) type = 'unstable';
 
-    return { determinate, unknowns, type };
+    return { degree, type };
   }
 
-  // Calculate support reactions using equilibrium equations
-  private calculateReactions(): NodeReaction[] {
-    // Sum of forces
-    let sumFx = 0;
-    let sumFy = 0;
-    let sumM = 0; // Moment about first node
-
-    const firstNode = this.config.nodes[0];
-
-    for (const load of this.config.loads) {
-      const node = this.config.nodes.find(n => n.id === load.nodeId);
-      if (node) {
-        sumFx += load.fx;
-        sumFy += load.fy;
-        // Moment about first node
-        const dx = node.x - firstNode.x;
-        const dy = node.y - firstNode.y;
-        sumM += load.fx * dy - load.fy * dx; // Cross product for moment
+  private validate(): string | null {
+    const ids = new Set(this.config.nodes.map(n => n.id));
+    for (const member of this.config.members) {
+      if (!ids.has(member.nodeStartId) || !ids.has(member.nodeEndId)) {
+        return `Çubuk ${member.id} tanımsız düğüme bağlı!`;
+      }
+      if (this.getMemberGeometry(member).length < this.EPSILON) {
+        return `Çubuk ${member.id} sıfır uzunlukta!`;
+      }
+      const { E, A } = this.getMemberProps(member);
+      if (E <= 0 || A <= 0) {
+        return `Çubuk ${member.id} için E ve A pozitif olmalı!`;
       }
     }
-
-    // Find supports
-    const pinSupport = this.config.nodes.find(n => n.support === 'pin');
-    const rollerSupport = this.config.nodes.find(n => n.support === 'roller');
-
-    const reactions: NodeReaction[] = [];
-
-    if (pinSupport && rollerSupport) {
-      // Simply supported truss - 2 reactions
-      const dx = rollerSupport.x - pinSupport.x;
-      const dy = rollerSupport.y - pinSupport.y;
-
-      // Moment equilibrium about pin
-      const R_roller = -sumM / dx;
-      const R_pin = -(sumFy + R_roller);
-
-      reactions.push({ nodeId: pinSupport.id, rx: -sumFx, ry: R_pin });
-      reactions.push({ nodeId: rollerSupport.id, rx: 0, ry: R_roller });
-    } else if (pinSupport && !rollerSupport) {
-      // Only pin support (unstable in horizontal)
-      reactions.push({ nodeId: pinSupport.id, rx: -sumFx, ry: -sumFy });
-    } else {
-      // No valid support configuration
-      return [];
+    for (const load of this.config.loads) {
+      if (!ids.has(load.nodeId)) return `Yük tanımsız düğümde: ${load.nodeId}`;
     }
-
-    return reactions;
+    return null;
   }
 
-  // Method of Joints - Calculate member forces
-  private calculateMemberForces(reactions: NodeReaction[]): MemberForce[] {
-    const memberForces: MemberForce[] = [];
-    const solvedMembers = new Set<string>();
-    const solvedNodes = new Set<string>();
-
-    // Initialize all member forces as unknown
-    const forceMap = new Map<string, number>();
-
-    // Iteratively solve joints starting from supports
-    let maxIterations = this.config.members.length * 2;
-    let iteration = 0;
-
-    while (solvedMembers.size < this.config.members.length && iteration < maxIterations) {
-      iteration++;
-
-      for (const node of this.config.nodes) {
-        // Skip if already solved
-        if (solvedNodes.has(node.id)) continue;
-
-        // Get external forces at this node
-        let fx_ext = 0;
-        let fy_ext = 0;
-
-        const nodeLoad = this.config.loads.find(l => l.nodeId === node.id);
-        if (nodeLoad) {
-          fx_ext += nodeLoad.fx;
-          fy_ext += nodeLoad.fy;
-        }
-
-        const reaction = reactions.find(r => r.nodeId === node.id);
-        if (reaction) {
-          fx_ext += reaction.rx;
-          fy_ext += reaction.ry;
-        }
-
-        // Find connected members
-        const connectedMembers = this.config.members.filter(m =>
-          m.nodeStartId === node.id || m.nodeEndId === node.id
-        );
-
-        // Count unknown members at this joint
-        const unknownMembers = connectedMembers.filter(m => !solvedMembers.has(m.id));
-
-        // Solvable if 2 unknowns (planar truss)
-        if (unknownMembers.length === 2) {
-          // Get known member forces
-          let fx_known = 0;
-          let fy_known = 0;
-
-          for (const member of connectedMembers) {
-            if (solvedMembers.has(member.id)) {
-              const force = forceMap.get(member.id) ?? 0;
-              const angle = this.getMemberAngle(member);
-
-              // Determine direction based on node position
-              const isStartNode = member.nodeStartId === node.id;
-              const dir = isStartNode ? 1 : -1;
-
-              fx_known += force * Math.cos(angle) * dir;
-              fy_known += force * Math.sin(angle) * dir;
-            }
-          }
-
-          // Solve for the two unknown forces
-          const m1 = unknownMembers[0];
-          const m2 = unknownMembers[1];
-
-          const angle1 = this.getMemberAngle(m1);
-          const angle2 = this.getMemberAngle(m2);
-
-          const isStart1 = m1.nodeStartId === node.id;
-          const dir1 = isStart1 ? 1 : -1;
-
-          const isStart2 = m2.nodeStartId === node.id;
-          const dir2 = isStart2 ? 1 : -1;
-
-          // Equilibrium: ΣFx = 0, ΣFy = 0
-          // F1 * cos(θ1) * dir1 + F2 * cos(θ2) * dir2 = -fx_ext - fx_known
-          // F1 * sin(θ1) * dir1 + F2 * sin(θ2) * dir2 = -fy_ext - fy_known
-
-          const a11 = Math.cos(angle1) * dir1;
-          const a12 = Math.cos(angle2) * dir2;
-          const a21 = Math.sin(angle1) * dir1;
-          const a22 = Math.sin(angle2) * dir2;
-
-          const b1 = -(fx_ext + fx_known);
-          const b2 = -(fy_ext + fy_known);
-
-          // Solve 2x2 system using Cramer's rule
-          const det = a11 * a22 - a12 * a21;
-
-          if (Math.abs(det) > this.EPSILON) {
-            const F1 = (b1 * a22 - a12 * b2) / det;
-            const F2 = (a11 * b2 - b1 * a21) / det;
-
-            forceMap.set(m1.id, F1);
-            forceMap.set(m2.id, F2);
-
-            solvedMembers.add(m1.id);
-            solvedMembers.add(m2.id);
-            solvedNodes.add(node.id);
-          }
+  /**
+   * Assemble K and F in node axes: global x/y, except inclined rollers whose
+   * axes are rotated to the rolling surface (local x tangent, local y normal)
+   */
+  private assemble(): { K: number[][]; F: number[]; rotations: number[] } {
+    const { nodes, members, loads } = this.config;
+    const size = nodes.length * 2;
+    const K = createMatrix(size);
+    const F = new Array<number>(size).fill(0);
+    const index = new Map(nodes.map((n, i) => [n.id, i]));
+
+    for (const member of members) {
+      const { E, A } = this.getMemberProps(member);
+      const { length, c, s } = this.getMemberGeometry(member);
+      const k = (E * A * 1e-3) / length; // MPa × mm² -> kN, / m -> kN/m
+      const dofs = [
+        2 * index.get(member.nodeStartId)!,
+        2 * index.get(member.nodeStartId)! + 1,
+        2 * index.get(member.nodeEndId)!,
+        2 * index.get(member.nodeEndId)! + 1,
+      ];
+      const t = [-c, -s, c, s];
+      for (let i = 0; i < 4; i++) {
+        for (let j = 0; j < 4; j++) {
+          K[dofs[i]][dofs[j]] += k * t[i] * t[j];
         }
       }
     }
 
-    // Convert force map to member forces with stress/strain
-    for (const [memberId, force] of forceMap) {
-      const member = this.config.members.find(m => m.id === memberId);
-      if (member) {
-        const { E, A } = this.getMemberProps(member);
-        const length = this.getMemberLength(member) * 1000; // Convert m to mm
-
-        const stress = force * 1000 / A; // kN to N, then / A (mm²) = MPa
-        const strain = stress / E;
-        const deformation = strain * length;
-
-        memberForces.push({
-          memberId,
-          force,
-          stress,
-          strain,
-          deformation,
-        });
-      }
+    for (const load of loads) {
+      const i = index.get(load.nodeId)!;
+      F[2 * i] += load.fx;
+      F[2 * i + 1] += load.fy;
     }
 
-    return memberForces;
+    // Node axis rotation: K' = Tᵀ·K·T, F' = Tᵀ·F with T = [[c, -s], [s, c]]
+    const rotations = nodes.map(n =>
+      n.support === 'roller' ? ((n.supportAngle ?? 0) * Math.PI) / 180 : 0
+    );
+    rotations.forEach((angle, i) => {
+      if (Math.abs(angle) < this.EPSILON) return;
+      const c = Math.cos(angle);
+      const s = Math.sin(angle);
+      const [a, b] = [2 * i, 2 * i + 1];
+      for (let j = 0; j < size; j++) {
+        const [ka, kb] = [K[a][j], K[b][j]];
+        K[a][j] = c * ka + s * kb;
+        K[b][j] = -s * ka + c * kb;
+      }
+      for (let j = 0; j < size; j++) {
+        const [ka, kb] = [K[j][a], K[j][b]];
+        K[j][a] = c * ka + s * kb;
+        K[j][b] = -s * ka + c * kb;
+      }
+      const [fa, fb] = [F[a], F[b]];
+      F[a] = c * fa + s * fb;
+      F[b] = -s * fa + c * fb;
+    });
+
+    return { K, F, rotations };
+  }
+
+  // Rotate a node-axis vector back to global x/y
+  private toGlobal(angle: number, u: number, v: number): [number, number] {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return [c * u - s * v, s * u + c * v];
+  }
+
+  private invalid(errorMessage: string, degree: number, unstableDofs: TrussDof[] = []): TrussResults {
+    return {
+      reactions: [],
+      memberForces: [],
+      displacements: [],
+      degree,
+      unstableDofs,
+      isValid: false,
+      errorMessage,
+    };
   }
 
   // Main analysis function
   analyze(): TrussResults {
-    // Check determinacy
-    const { determinate, type } = this.checkDeterminacy();
-
-    if (!determinate) {
-      if (type === 'indeterminate') {
-        return {
-          reactions: [],
-          memberForces: [],
-          isValid: false,
-          errorMessage: 'Hiperstatik sistem! İndirgeyiciler veya bilgisayar yöntemleri gereklidir.',
-        };
-      }
-      return {
-        reactions: [],
-        memberForces: [],
-        isValid: false,
-        errorMessage: 'Sistem istikrarsız! Yetersiz mesnet.',
-      };
-    }
+    const { nodes, members } = this.config;
+    const { degree } = this.checkDeterminacy();
 
     // Check for valid supports
-    const hasSupport = this.config.nodes.some(n => n.support);
+    const hasSupport = nodes.some(n => n.support);
     if (!hasSupport) {
-      return {
-        reactions: [],
-        memberForces: [],
-        isValid: false,
-        errorMessage: 'Mesnet tanımlanmamış!',
-      };
+      return this.invalid('Mesnet tanımlanmamış!', degree);
     }
 
-    // Calculate reactions
-    const reactions = this.calculateReactions();
+    const inputError = this.validate();
+    if (inputError) return this.invalid(inputError, degree);
 
-    // Calculate member forces using Method of Joints
-    const memberForces = this.calculateMemberForces(reactions);
+    const { K, F, rotations } = this.assemble();
+    const restrained = new Set<number>();
+    nodes.forEach((node, i) => {
+      if (!node.support) return;
+      restrained.add(2 * i + 1);
+      if (node.support !== 'roller') restrained.add(2 * i);
+    });
 
-    // Check if all members were solved
-    const allSolved = memberForces.length === this.config.members.length;
+    const freeDofs: number[] = [];
+    for (let dof = 0; dof < nodes.length * 2; dof++) {
+      if (!restrained.has(dof)) freeDofs.push(dof);
+    }
 
-    return {
-      reactions,
-      memberForces,
-      isValid: allSolved,
-      errorMessage: allSolved ? undefined : 'Bazı çubuklar çözülemedi. Sistemi kontrol edin.',
-    };
+    const Kff = subMatrix(K, freeDofs);
+    const solution = solveLinearSystem(Kff, freeDofs.map(dof => F[dof]));
+    if (!solution) {
+      const unstableDofs = findSingularColumns(Kff).map(i => {
+        const dof = freeDofs[i];
+        return { nodeId: nodes[Math.floor(dof / 2)].id, direction: dof % 2 === 0 ? 'x' : 'y' } as TrussDof;
+      });
+      const list = unstableDofs.map(d => `${d.nodeId}-${d.direction}`).join(', ');
+      return this.invalid(`Sistem istikrarsız! Mekanizma serbestlikleri: ${list}`, degree, unstableDofs);
+    }
+
+    const d = new Array<number>(nodes.length * 2).fill(0);
+    freeDofs.forEach((dof, i) => {
+      d[dof] = solution[i];
+    });
+
+    // Reactions R = K·d - F at the restrained DOFs, back in global axes
+    const reactions: NodeReaction[] = [];
+    nodes.forEach((node, i) => {
+      if (!node.support) return;
+      const R = [2 * i, 2 * i + 1].map(dof => {
+        if (!restrained.has(dof)) return 0;
+        let value = -F[dof];
+        for (let j = 0; j < d.length; j++) {
+          value += K[dof][j] * d[j];
+        }
+        return value;
+      });
+      const [rx, ry] = this.toGlobal(rotations[i], R[0], R[1]);
+      reactions.push({ nodeId: node.id, rx, ry });
+    });
+
+    const displacements: NodeDisplacement[] = nodes.map((node, i) => {
+      const [dx, dy] = this.toGlobal(rotations[i], d[2 * i], d[2 * i + 1]);
+      return { nodeId: node.id, dx: dx * 1000, dy: dy * 1000 }; // m -> mm
+    });
+
+    // Axial force N = EA/L · elongation, elongation from the end displacements
+    const byId = new Map(displacements.map(disp => [disp.nodeId, disp]));
+    const memberForces: MemberForce[] = members.map(member => {
+      const { E, A } = this.getMemberProps(member);
+      const { length, c, s } = this.getMemberGeometry(member);
+      const start = byId.get(member.nodeStartId)!;
+      const end = byId.get(member.nodeEndId)!;
+      const deformation = (end.dx - start.dx) * c + (end.dy - start.dy) * s; // mm
+      const strain = deformation / (length * 1000);
+      const stress = strain * E;
+      const force = (stress * A) / 1000; // MPa × mm² = N -> kN
+
+      return { memberId: member.id, force, stress, strain, deformation };
+    });
+
+    return { reactions, memberForces, displacements, degree, unstableDofs: [], isValid: true };
   }
 }
 
@@ -428,6 +397,43 @@ export function getMaxStress(results: MemberForce[]): { maxStress: number; membe
   return { maxStress, memberId };
 }
 
+// Largest vertical joint deflection against span / limitRatio (L/300 by default)
+export function checkTrussDeflection(
+  config: TrussConfig,
+  results: TrussResults,
+  limitRatio: number = 300
+): TrussDeflectionCheck | null {
+  if (!results.isValid || results.displacements.length === 0) return null;
+
+  const supportXs = config.nodes.filter(n => n.support).map(n => n.x);
+  const span = Math.max(...supportXs) - Math.min(...supportXs);
+  if (!(span > 0)) return null;
+
+  const governing = results.displacements.reduce((worst, d) => (Math.abs(d.dy) > Math.abs(worst.dy) ? d : worst));
+  const deflection = Math.abs(governing.dy);
+  const limit = (span * 1000) / limitRatio;
+
+  return {
+    nodeId: governing.nodeId,
+    deflection,
+    span,
+    limit,
+    ratio: deflection / limit,
+    isSafe: deflection <= limit,
+  };
+}
+
+// Displacement magnification so the largest joint movement draws as `fraction` of the truss size
+export function getDeformationScale(config: TrussConfig, results: TrussResults, fraction: number = 0.1): number {
+  const maxDisplacement = Math.max(0, ...results.displacements.map(d => Math.hypot(d.dx, d.dy))); // mm
+  if (maxDisplacement < 1e-12 || config.nodes.length === 0) return 0;
+
+  const xs = config.nodes.map(n => n.x);
+  const ys = config.nodes.map(n => n.y);
+  const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)); // m
+  return (fraction * size * 1000) / maxDisplacement;
+}
+
 // ============================================================================
 // PUBLIC API
 // ============================================================================
@@ -528,3 +534,207 @@ export const TRUSS_LABELS: Record<string, string> = {
 export function getTrussPreset(key: string): TrussConfig | undefined {
   return TRUSS_PRESETS[key];
 }
+
+// ============================================================================
+// PARAMETRIC GENERATORS
+// ============================================================================
+
+export type TrussFamily = 'pratt' | 'howe' | 'warren' | 'warren-verticals' | 'k' | 'fink' | 'scissor';
+
+export type TrussSupportLayout = 'pin-roller' | 'pin-pin';
+
+export interface TrussGeneratorParams {
+  span: number; // m
+  height: number; // m, at midspan for roof trusses
+  panels: number; // Bottom chord panels; top chord panels for Fink
+  supports?: TrussSupportLayout; // default: pin-roller
+  jointLoad?: number; // kN downward on every loaded joint - default: 10
+}
+
+export const TRUSS_FAMILY_LABELS: Record<TrussFamily, string> = {
+  pratt: 'Pratt',
+  howe: 'Howe',
+  warren: 'Warren',
+  'warren-verticals': 'Warren (Dikmeli)',
+  k: 'K Kafes',
+  fink: 'Fink Çatı',
+  scissor: 'Makas Çatı',
+};
+
+// Smallest panel count each family can be built with, and whether it must be even
+const FAMILY_PANELS: Record<TrussFamily, { min: number; even: boolean }> = {
+  pratt: { min: 2, even: false },
+  howe: { min: 2, even: false },
+  warren: { min: 1, even: false },
+  'warren-verticals': { min: 2, even: false },
+  k: { min: 4, even: true },
+  fink: { min: 4, even: true },
+  scissor: { min: 2, even: true },
+};
+
+/**
+ * Panel count a family is actually built with: rounded, at least the minimum,
+ * and rounded up to even for symmetric families
+ */
+export function getGeneratorPanels(family: TrussFamily, panels: number): number {
+  const { min, even } = FAMILY_PANELS[family];
+  let n = Math.max(min, Math.round(panels));
+  if (even && n % 2 !== 0) n++;
+  return n;
+}
+
+class TrussBuilder {
+  private nodes: TrussNode[] = [];
+  private members: TrussMember[] = [];
+  private loads: TrussLoad[] = [];
+
+  node(id: string, x: number, y: number): this {
+    this.nodes.push({ id, x: Math.round(x * 1e6) / 1e6, y: Math.round(y * 1e6) / 1e6 });
+    return this;
+  }
+
+  member(a: string, b: string): this {
+    this.members.push({ id: `${a}-${b}`, nodeStartId: a, nodeEndId: b });
+    return this;
+  }
+
+  load(nodeId: string, fy: number): this {
+    if (fy !== 0) this.loads.push({ nodeId, fx: 0, fy });
+    return this;
+  }
+
+  build(leftId: string, rightId: string, supports: TrussSupportLayout): TrussConfig {
+    const nodes = this.nodes.map(n => {
+      if (n.id === leftId) return { ...n, support: 'pin' as const };
+      if (n.id === rightId) return { ...n, support: supports === 'pin-pin' ? ('pin' as const) : ('roller' as const) };
+      return n;
+    });
+    return { nodes, members: this.members, loads: this.loads };
+  }
+}
+
+/**
+ * Parallel chord families: bottom joints L0..Ln, top joints U1..U(n-1)
+ * above the interior bottom joints, end posts L0-U1 and U(n-1)-Ln.
+ * diagonal gives the web of each interior panel, if it has a single one.
+ */
+function buildParallelChord(
+  builder: TrussBuilder,
+  n: number,
+  d: number,
+  h: number,
+  diagonal?: (panel: number) => [string, string]
+) {
+  for (let i = 0; i <= n; i++) builder.node(`L${i}`, i * d, 0);
+  for (let i = 1; i < n; i++) builder.node(`U${i}`, i * d, h);
+  for (let i = 0; i < n; i++) builder.member(`L${i}`, `L${i + 1}`);
+  for (let i = 1; i < n - 1; i++) builder.member(`U${i}`, `U${i + 1}`);
+  builder.member('L0', 'U1').member(`U${n - 1}`, `L${n}`);
+  if (diagonal) {
+    for (let i = 1; i < n - 1; i++) builder.member(...diagonal(i));
+  }
+}
+
+/**
+ * Statically determinate truss of a common family. Bridge families carry
+ * jointLoad on the interior bottom joints, roof trusses on the top chord.
+ */
+export function generateTruss(family: TrussFamily, params: TrussGeneratorParams): TrussConfig {
+  const { span: L, height: h, supports = 'pin-roller', jointLoad = 10 } = params;
+  const n = getGeneratorPanels(family, params.panels);
+  const d = L / n;
+  const P = -Math.abs(jointLoad);
+  const builder = new TrussBuilder();
+  const loadBottom = () => {
+    for (let i = 1; i < n; i++) builder.load(`L${i}`, P);
+  };
+
+  switch (family) {
+    case 'pratt':
+    case 'howe': {
+      // Pratt diagonals fall toward midspan (tension), Howe diagonals rise (compression)
+      const falling = family === 'pratt';
+      buildParallelChord(builder, n, d, h, i =>
+        i < n / 2 === falling ? [`U${i}`, `L${i + 1}`] : [`L${i}`, `U${i + 1}`]
+      );
+      for (let i = 1; i < n; i++) builder.member(`L${i}`, `U${i}`);
+      loadBottom();
+      return builder.build('L0', `L${n}`, supports);
+    }
+
+    case 'warren-verticals': {
+      buildParallelChord(builder, n, d, h, i => (i % 2 === 1 ? [`U${i}`, `L${i + 1}`] : [`L${i}`, `U${i + 1}`]));
+      for (let i = 1; i < n; i++) builder.member(`L${i}`, `U${i}`);
+      loadBottom();
+      return builder.build('L0', `L${n}`, supports);
+    }
+
+    case 'warren': {
+      // Top joints over the panel midpoints, equal-leg triangles
+      for (let i = 0; i <= n; i++) builder.node(`L${i}`, i * d, 0);
+      for (let i = 0; i < n; i++) builder.node(`U${i}`, (i + 0.5) * d, h);
+      for (let i = 0; i < n; i++) {
+        builder.member(`L${i}`, `L${i + 1}`).member(`L${i}`, `U${i}`).member(`U${i}`, `L${i + 1}`);
+        if (i < n - 1) builder.member(`U${i}`, `U${i + 1}`);
+      }
+      loadBottom();
+      return builder.build('L0', `L${n}`, supports);
+    }
+
+    case 'k': {
+      // Verticals split at mid-height; both diagonals of a K open toward midspan
+      const c = n / 2;
+      buildParallelChord(builder, n, d, h);
+      builder.member(`L${c}`, `U${c}`);
+      for (let i = 1; i < n; i++) {
+        if (i === c) continue;
+        const next = i < c ? i + 1 : i - 1;
+        builder
+          .node(`M${i}`, i * d, h / 2)
+          .member(`L${i}`, `M${i}`)
+          .member(`M${i}`, `U${i}`)
+          .member(`M${i}`, `U${next}`)
+          .member(`M${i}`, `L${next}`);
+      }
+      loadBottom();
+      return builder.build('L0', `L${n}`, supports);
+    }
+
+    case 'fink': {
+      // Each half: rafter in n/2 panels, webs fanning from the third-point joint
+      // of the bottom chord (n = 4 is the classic W truss)
+      const p = n / 2;
+      builder.node('L0', 0, 0).node('F1', L / 3, 0).node('F2', (2 * L) / 3, 0).node(`L${n}`, L, 0).node('C', L / 2, h);
+      builder.member('L0', 'F1').member('F1', 'F2').member('F2', `L${n}`).member('F1', 'C').member('F2', 'C');
+      for (const [side, support, web] of [['A', 'L0', 'F1'], ['B', `L${n}`, 'F2']] as const) {
+        const start = side === 'A' ? 0 : L;
+        let previous: string = support;
+        for (let k = 1; k < p; k++) {
+          const id = `${side}${k}`;
+          builder.node(id, start + ((L / 2 - start) * k) / p, (h * k) / p).member(previous, id).member(id, web).load(id, P);
+          previous = id;
+        }
+        builder.member(previous, 'C');
+      }
+      builder.load('C', P);
+      return builder.build('L0', `L${n}`, supports);
+    }
+
+    case 'scissor': {
+      // Rafters rise to h, the bottom chord to h/2; verticals at every joint
+      const c = n / 2;
+      const rise = (i: number, top: number) => top * (1 - Math.abs(i - c) / c);
+      builder.node('L0', 0, 0).node(`L${n}`, L, 0);
+      for (let i = 1; i < n; i++) builder.node(`U${i}`, i * d, rise(i, h)).node(`B${i}`, i * d, rise(i, h / 2));
+      const top = (i: number) => (i === 0 || i === n ? `L${i}` : `U${i}`);
+      const bottom = (i: number) => (i === 0 || i === n ? `L${i}` : `B${i}`);
+      for (let i = 0; i < n; i++) builder.member(top(i), top(i + 1)).member(bottom(i), bottom(i + 1));
+      for (let i = 1; i < n; i++) builder.member(`U${i}`, `B${i}`).load(`U${i}`, P);
+      for (let i = 1; i < n - 1; i++) {
+        if (i < c) builder.member(`U${i}`, `B${i + 1}`);
+        else builder.member(`B${i}`, `U${i + 1}`);
+      }
+      return builder.build('L0', `L${n}`, supports);
+    }
+  }
+}
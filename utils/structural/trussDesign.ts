@@ -0,0 +1,236 @@
+// ============================================================================
+// TRUSS MEMBER DESIGN - Kafes Çubuk Tasarım Kontrolü
+// Çekme/basınç dayanımı + Euler burkulması + narinlik, profil otomatik seçimi
+// ============================================================================
+
+import { analyzeTruss, type TrussConfig, type TrussResults } from './trussCalculator';
+import {
+  calculateEulerBucklingLoad,
+  calculateSlendernessRatio,
+  checkSlenderness,
+  getProfilesByShape,
+  getStandardProfile,
+  type StandardProfile,
+} from './sectionProperties';
+import { calculateUtilizationRatio } from './loadCombinations';
+import { getMaterialByGrade, type SteelMaterial } from './materialDatabase';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TrussDesignInput {
+  config: TrussConfig;
+  profileCode: string; // Pipe or box StandardProfile used for every member
+  steelGrade: string; // materialDatabase steel grade
+  effectiveLengthFactor?: number; // K, default 1 (pinned member ends)
+}
+
+// Profile and grade picked in the design panel, carried to the 3D scene
+export type TrussDesignSelection = Pick<TrussDesignInput, 'profileCode' | 'steelGrade'>;
+
+export type MemberAction = 'tension' | 'compression' | 'zero';
+
+export interface MemberDesignCheck {
+  memberId: string;
+  force: number; // kN (+ çekme)
+  length: number; // m
+  action: MemberAction;
+  yieldResistance: number; // kN, A·fyd
+  bucklingLoad?: number; // kN, Euler Pcr about the weak axis (compression only)
+  resistance: number; // kN, governing capacity for the member's action
+  slenderness: number; // K·L / r_min
+  slendernessLimit: number;
+  isSlender: boolean;
+  ratio: number; // |N| / resistance
+  percentage: string;
+  isSafe: boolean; // Capacity and slenderness
+}
+
+export interface TrussDesignResult {
+  isValid: boolean;
+  errorMessage?: string;
+  profile?: StandardProfile;
+  material?: SteelMaterial;
+  analysis?: TrussResults; // Solved with the profile's A and the grade's E
+  members: MemberDesignCheck[];
+  governing?: MemberDesignCheck; // Highest ratio
+  mass: number; // kg, all members
+  isSafe: boolean;
+}
+
+export interface ProfileCandidate {
+  profile: StandardProfile;
+  mass: number; // kg
+  utilization: number; // Governing ratio
+  slenderCount: number; // Members over the slenderness limit
+  isSafe: boolean;
+}
+
+export interface TrussAutoSizeResult {
+  isValid: boolean;
+  errorMessage?: string;
+  selected?: ProfileCandidate; // Lightest passing profile
+  design?: TrussDesignResult; // Design with the selected profile
+  candidates: ProfileCandidate[]; // Every profile tried, lightest first
+}
+
+// Profile families that make sense for pin-jointed members
+export const TRUSS_PROFILE_SHAPES = ['pipe', 'box'] as const;
+
+// ============================================================================
+// DESIGN ENGINE
+// ============================================================================
+
+class TrussDesigner {
+  private input: TrussDesignInput;
+
+  constructor(input: TrussDesignInput) {
+    this.input = input;
+  }
+
+  private invalid(errorMessage: string, extra: Partial<TrussDesignResult> = {}): TrussDesignResult {
+    return { isValid: false, errorMessage, members: [], mass: 0, isSafe: false, ...extra };
+  }
+
+  private getMemberLength(memberId: string): number {
+    const { nodes, members } = this.input.config;
+    const member = members.find(m => m.id === memberId)!;
+    const start = nodes.find(n => n.id === member.nodeStartId)!;
+    const end = nodes.find(n => n.id === member.nodeEndId)!;
+    return Math.hypot(end.x - start.x, end.y - start.y);
+  }
+
+  private checkMember(
+    memberId: string,
+    force: number,
+    profile: StandardProfile,
+    material: SteelMaterial
+  ): MemberDesignCheck {
+    const K = this.input.effectiveLengthFactor ?? 1;
+    const { area, iy, iz, ry, rz } = profile.properties;
+    const length = this.getMemberLength(memberId);
+    const action: MemberAction = Math.abs(force) < 1e-9 ? 'zero' : force > 0 ? 'tension' : 'compression';
+
+    const yieldResistance = (area * material.fyd) / 1000;
+    const bucklingLoad =
+      action === 'compression' ? calculateEulerBucklingLoad(material.E, Math.min(iy, iz), length, K) : undefined;
+    const resistance = bucklingLoad !== undefined ? Math.min(yieldResistance, bucklingLoad) : yieldResistance;
+
+    const slenderness = calculateSlendernessRatio(length, Math.min(ry, rz), K);
+    const { isSlender, limit } = checkSlenderness(slenderness, 'steel');
+    const { ratio, isSafe, percentage } = calculateUtilizationRatio(force, resistance);
+
+    return {
+      memberId,
+      force,
+      length,
+      action,
+      yieldResistance,
+      bucklingLoad,
+      resistance,
+      slenderness,
+      slendernessLimit: limit,
+      isSlender,
+      ratio,
+      percentage,
+      isSafe: isSafe && !isSlender,
+    };
+  }
+
+  design(): TrussDesignResult {
+    const { config, profileCode, steelGrade } = this.input;
+
+    const profile = getStandardProfile(profileCode);
+    if (!profile) return this.invalid(`Profil bulunamadı: ${profileCode}`);
+    if (!(TRUSS_PROFILE_SHAPES as readonly string[]).includes(profile.shape)) {
+      return this.invalid('Kafes çubukları için boru veya kutu profil seçilmeli', { profile });
+    }
+
+    const material = getMaterialByGrade(steelGrade);
+    if (!material || material.type !== 'steel') {
+      return this.invalid('Tasarım için çelik sınıfı seçilmeli', { profile });
+    }
+
+    // Member stiffness from the chosen section, so redundant trusses redistribute correctly
+    const analysis = analyzeTruss({
+      ...config,
+      members: config.members.map(m => ({ ...m, E: material.E, A: profile.properties.area })),
+    });
+    if (!analysis.isValid) {
+      return this.invalid(analysis.errorMessage ?? 'Kafes çözülemedi', { profile, material, analysis });
+    }
+
+    const members = analysis.memberForces.map(f => this.checkMember(f.memberId, f.force, profile, material));
+    const governing = members.reduce<MemberDesignCheck | undefined>(
+      (worst, check) => (!worst || check.ratio > worst.ratio ? check : worst),
+      undefined
+    );
+    const totalLength = members.reduce((sum, m) => sum + m.length, 0);
+    const mass = (totalLength * profile.properties.area * 1e-6 * material.gamma * 1000) / 9.81;
+
+    return {
+      isValid: true,
+      profile,
+      material,
+      analysis,
+      members,
+      governing,
+      mass,
+      isSafe: members.every(m => m.isSafe),
+    };
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Capacity and slenderness check of every member with one profile.
+ * Compression capacity is min(A·fyd, Euler Pcr) about the weak axis.
+ */
+export function designTruss(input: TrussDesignInput): TrussDesignResult {
+  const designer = new TrussDesigner(input);
+  return designer.design();
+}
+
+/**
+ * Pipe and box profiles that fit truss members, lightest first
+ */
+export function getTrussProfiles(): StandardProfile[] {
+  return TRUSS_PROFILE_SHAPES.flatMap(shape => getProfilesByShape(shape)).sort(
+    (a, b) => a.properties.area - b.properties.area
+  );
+}
+
+/**
+ * Try every truss profile and pick the lightest one that passes all checks
+ */
+export function autoSizeTruss(input: Omit<TrussDesignInput, 'profileCode'>): TrussAutoSizeResult {
+  const candidates: ProfileCandidate[] = [];
+  let selected: { candidate: ProfileCandidate; design: TrussDesignResult } | undefined;
+
+  for (const profile of getTrussProfiles()) {
+    const design = designTruss({ ...input, profileCode: profile.code });
+    if (!design.isValid) {
+      return { isValid: false, errorMessage: design.errorMessage, candidates: [] };
+    }
+    const candidate: ProfileCandidate = {
+      profile,
+      mass: design.mass,
+      utilization: design.governing?.ratio ?? 0,
+      slenderCount: design.members.filter(m => m.isSlender).length,
+      isSafe: design.isSafe,
+    };
+    candidates.push(candidate);
+    if (candidate.isSafe && (!selected || candidate.mass < selected.candidate.mass)) {
+      selected = { candidate, design };
+    }
+  }
+
+  if (!selected) {
+    return { isValid: false, errorMessage: 'Hiçbir profil yeterli değil', candidates };
+  }
+  return { isValid: true, selected: selected.candidate, design: selected.design, candidates };
+}
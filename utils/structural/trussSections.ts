@@ -0,0 +1,215 @@
+// ============================================================================
+// METHOD OF SECTIONS - Kesit Yöntemi
+// Three cut members solved from the free body on one side of the cut
+// ============================================================================
+
+import type { TrussConfig, TrussResults } from './trussCalculator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SectionPoint {
+  x: number; // m
+  y: number; // m
+  label: string; // Node id when the point is a joint, otherwise its coordinates
+}
+
+export interface SectionExternalForce {
+  nodeId: string;
+  fx: number; // kN
+  fy: number; // kN
+  source: 'load' | 'reaction';
+}
+
+export interface SectionEquation {
+  memberId: string;
+  kind: 'moment' | 'force';
+  point?: SectionPoint; // Moment centre: intersection of the other two members
+  axis?: { x: number; y: number }; // Force axis, normal to the two parallel members
+  coefficient: number; // Lever arm (m) or direction cosine of the unknown
+  external: number; // kNm or kN from the free body's loads and reactions
+  equation: string;
+  force: number; // kN (+ çekme)
+  matrixForce: number; // kN from the stiffness solution
+  difference: number; // kN
+}
+
+export interface TrussSectionResult {
+  isValid: boolean;
+  errorMessage?: string;
+  sides: string[][]; // Node ids of both parts, left part first
+  freeBodyNodeIds: string[];
+  externalForces: SectionExternalForce[];
+  equations: SectionEquation[];
+}
+
+interface CutMember {
+  id: string;
+  node: { x: number; y: number }; // End on the free body
+  direction: { x: number; y: number }; // Unit vector away from the free body
+}
+
+const EPSILON = 1e-9;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const cross = (ax: number, ay: number, bx: number, by: number) => ax * by - ay * bx;
+
+const signed = (value: number) => `${value < 0 ? '-' : '+'} ${Math.abs(value).toFixed(2)}`;
+
+function invalid(errorMessage: string): TrussSectionResult {
+  return { isValid: false, errorMessage, sides: [], freeBodyNodeIds: [], externalForces: [], equations: [] };
+}
+
+/**
+ * Connected parts of the truss once the cut members are removed,
+ * ordered by their mean x (left part first)
+ */
+function getParts(config: TrussConfig, cutIds: Set<string>): string[][] {
+  const neighbours = new Map<string, string[]>(config.nodes.map(n => [n.id, []]));
+  for (const member of config.members) {
+    if (cutIds.has(member.id)) continue;
+    neighbours.get(member.nodeStartId)?.push(member.nodeEndId);
+    neighbours.get(member.nodeEndId)?.push(member.nodeStartId);
+  }
+
+  const visited = new Set<string>();
+  const parts: string[][] = [];
+  for (const node of config.nodes) {
+    if (visited.has(node.id)) continue;
+    const part: string[] = [];
+    const stack = [node.id];
+    visited.add(node.id);
+    while (stack.length) {
+      const id = stack.pop()!;
+      part.push(id);
+      for (const next of neighbours.get(id) ?? []) {
+        if (!visited.has(next)) {
+          visited.add(next);
+          stack.push(next);
+        }
+      }
+    }
+    parts.push(part);
+  }
+
+  const meanX = (part: string[]) =>
+    part.reduce((sum, id) => sum + config.nodes.find(n => n.id === id)!.x, 0) / part.length;
+  return parts.sort((a, b) => meanX(a) - meanX(b));
+}
+
+// Intersection of the lines through two cut members, null when parallel
+function intersect(a: CutMember, b: CutMember): { x: number; y: number } | null {
+  const denominator = cross(a.direction.x, a.direction.y, b.direction.x, b.direction.y);
+  if (Math.abs(denominator) < EPSILON) return null;
+  const t = cross(b.node.x - a.node.x, b.node.y - a.node.y, b.direction.x, b.direction.y) / denominator;
+  return { x: a.node.x + t * a.direction.x, y: a.node.y + t * a.direction.y };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Solve three cut members with one equation each: moments about the
+ * intersection of the other two, or forces normal to them when they are
+ * parallel. The free body carries its loads and the stiffness reactions.
+ */
+export function analyzeTrussSection(
+  config: TrussConfig,
+  results: TrussResults,
+  memberIds: string[],
+  side: 0 | 1 = 0
+): TrussSectionResult {
+  if (!results.isValid) return invalid('Önce kafes analizi yapılmalı');
+
+  const cutIds = new Set(memberIds);
+  const members = config.members.filter(m => cutIds.has(m.id));
+  if (cutIds.size !== 3 || members.length !== 3) return invalid('Kesim için üç çubuk seçilmeli');
+
+  const sides = getParts(config, cutIds);
+  const crossesCut = (startId: string, endId: string) =>
+    sides.length === 2 && sides[side].includes(startId) !== sides[side].includes(endId);
+  if (sides.length !== 2 || !members.every(m => crossesCut(m.nodeStartId, m.nodeEndId))) {
+    return invalid('Seçilen çubuklar kafesi iki parçaya ayırmıyor');
+  }
+
+  const freeBodyNodeIds = sides[side];
+  const inFreeBody = new Set(freeBodyNodeIds);
+  const nodeById = new Map(config.nodes.map(n => [n.id, n]));
+
+  const cuts: CutMember[] = members.map(member => {
+    const startInside = inFreeBody.has(member.nodeStartId);
+    const near = nodeById.get(startInside ? member.nodeStartId : member.nodeEndId)!;
+    const far = nodeById.get(startInside ? member.nodeEndId : member.nodeStartId)!;
+    const length = Math.hypot(far.x - near.x, far.y - near.y);
+    return {
+      id: member.id,
+      node: { x: near.x, y: near.y },
+      direction: { x: (far.x - near.x) / length, y: (far.y - near.y) / length },
+    };
+  });
+
+  const externalForces: SectionExternalForce[] = [
+    ...config.loads
+      .filter(l => inFreeBody.has(l.nodeId))
+      .map(l => ({ nodeId: l.nodeId, fx: l.fx, fy: l.fy, source: 'load' as const })),
+    ...results.reactions
+      .filter(r => inFreeBody.has(r.nodeId))
+      .map(r => ({ nodeId: r.nodeId, fx: r.rx, fy: r.ry, source: 'reaction' as const })),
+  ];
+
+  const equations: SectionEquation[] = [];
+  for (const [i, cut] of cuts.entries()) {
+    const [a, b] = cuts.filter((_, j) => j !== i);
+    const centre = intersect(a, b);
+    const matrixForce = results.memberForces.find(f => f.memberId === cut.id)?.force ?? 0;
+    let equation: Omit<SectionEquation, 'force' | 'matrixForce' | 'difference'>;
+
+    if (centre) {
+      // ΣM about the centre, counter-clockwise positive
+      const coefficient = cross(cut.node.x - centre.x, cut.node.y - centre.y, cut.direction.x, cut.direction.y);
+      const external = externalForces.reduce(
+        (sum, f) => {
+          const node = nodeById.get(f.nodeId)!;
+          return sum + cross(node.x - centre.x, node.y - centre.y, f.fx, f.fy);
+        },
+        0
+      );
+      const joint = config.nodes.find(n => Math.hypot(n.x - centre.x, n.y - centre.y) < 1e-6);
+      const label = joint?.id ?? `(${centre.x.toFixed(2)}, ${centre.y.toFixed(2)})`;
+      equation = {
+        memberId: cut.id,
+        kind: 'moment',
+        point: { ...centre, label },
+        coefficient,
+        external,
+        equation: `ΣM_${label} = 0: ${coefficient.toFixed(2)}·F_${cut.id} ${signed(external)} = 0`,
+      };
+    } else {
+      // The other two are parallel: ΣF along their normal
+      const axis = { x: -a.direction.y, y: a.direction.x };
+      const coefficient = cut.direction.x * axis.x + cut.direction.y * axis.y;
+      const external = externalForces.reduce((sum, f) => sum + f.fx * axis.x + f.fy * axis.y, 0);
+      equation = {
+        memberId: cut.id,
+        kind: 'force',
+        axis,
+        coefficient,
+        external,
+        equation: `ΣF_n = 0: ${coefficient.toFixed(2)}·F_${cut.id} ${signed(external)} = 0`,
+      };
+    }
+
+    if (Math.abs(equation.coefficient) < EPSILON) {
+      return invalid(`${cut.id} tek denklemle çözülemiyor: kesilen çubuklar aynı noktada kesişiyor`);
+    }
+    const force = -equation.external / equation.coefficient;
+    equations.push({ ...equation, force, matrixForce, difference: force - matrixForce });
+  }
+
+  return { isValid: true, sides, freeBodyNodeIds, externalForces, equations };
+}